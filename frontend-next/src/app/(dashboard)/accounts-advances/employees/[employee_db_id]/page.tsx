@@ -15,19 +15,38 @@ import {
   message,
   Popconfirm,
   Row,
+  Select,
   Space,
   Statistic,
   Table,
+  Tag,
   Typography,
 } from "antd";
 import type { ColumnsType } from "antd/es/table";
-import { ArrowLeftOutlined, DeleteOutlined, PlusOutlined, ReloadOutlined, SaveOutlined } from "@ant-design/icons";
+import {
+  ArrowLeftOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  PlusOutlined,
+  ReloadOutlined,
+  SaveOutlined,
+} from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { api } from "@/lib/api";
+import {
+  advanceBalances,
+  DEFAULT_NET_FLOOR,
+  planSummary,
+  projectRecovery,
+  RECOVERY_MODE_LABELS,
+  type RecoveryProjectionRow,
+} from "@/lib/advanceRecovery";
 import { formatRs } from "@/lib/money";
+import { postEvent, reverseSource, tryPosting } from "@/lib/posting";
+import { sdk } from "@/lib/sdk";
 import type {
+  AdvanceRecoveryPlan,
   Employee,
   EmployeeAdvance,
   EmployeeAdvanceCreate,
@@ -66,6 +85,12 @@ function getEmployeeSalary(emp: Employee | null): number {
   return sum > 0 ? sum : 0;
 }
 
+/** The last 26th-to-25th payroll period that has ended. */
+function lastPayrollPeriod(today = dayjs()): [string, string] {
+  const to = today.date() >= 26 ? today.date(25) : today.subtract(1, "month").date(25);
+  return [to.subtract(1, "month").date(26).format("YYYY-MM-DD"), to.format("YYYY-MM-DD")];
+}
+
 function installmentSuggestions(balance: number): Array<{ months: number; amount: number }> {
   const b = Number(balance || 0);
   if (!(b > 0)) return [];
@@ -75,12 +100,88 @@ function installmentSuggestions(balance: number): Array<{ months: number; amount
     .filter((x) => Number.isFinite(x.amount) && x.amount > 0);
 }
 
-type AdvanceFormValues = {
+type PlanFormValues = {
+  plan_mode: AdvanceRecoveryPlan["mode"] | "none";
+  installment?: number;
+  percent?: number;
+  months?: number;
+  start_month?: dayjs.Dayjs;
+  net_floor?: number;
+};
+
+type AdvanceFormValues = PlanFormValues & {
   amount: number;
   note?: string;
   advance_date: dayjs.Dayjs;
 };
 
+function planFromValues(v: PlanFormValues): AdvanceRecoveryPlan | null {
+  if (v.plan_mode === "none") return null;
+  return {
+    mode: v.plan_mode,
+    installment: v.plan_mode === "fixed" ? Number(v.installment ?? 0) : null,
+    percent: v.plan_mode === "percent" ? Number(v.percent ?? 0) : null,
+    months: v.plan_mode === "months" ? Number(v.months ?? 1) : null,
+    start_month: (v.start_month ?? dayjs()).format("YYYY-MM"),
+    net_floor: Number(v.net_floor ?? DEFAULT_NET_FLOOR),
+  };
+}
+
+function valuesFromPlan(plan?: AdvanceRecoveryPlan | null): PlanFormValues {
+  return {
+    plan_mode: plan?.mode ?? "none",
+    installment: plan?.installment ?? undefined,
+    percent: plan?.percent ?? 20,
+    months: plan?.months ?? 3,
+    start_month: plan?.start_month ? dayjs(`${plan.start_month}-01`) : dayjs(),
+    net_floor: plan?.net_floor ?? DEFAULT_NET_FLOOR,
+  };
+}
+
+function RecoveryPlanFields({ mode }: { mode?: PlanFormValues["plan_mode"] }) {
+  return (
+    <>
+      <Form.Item label="Recovery Plan" name="plan_mode">
+        <Select
+          options={[
+            { label: "Manual (set deductions by hand)", value: "none" },
+            ...Object.entries(RECOVERY_MODE_LABELS).map(([value, label]) => ({ label, value })),
+          ]}
+        />
+      </Form.Item>
+      {mode === "fixed" ? (
+        <Form.Item label="Installment per Month" name="installment" rules={[{ required: true, message: "Installment is required" }]}>
+          <InputNumber min={1} style={{ width: "100%" }} />
+        </Form.Item>
+      ) : null}
+      {mode === "percent" ? (
+        <Form.Item label="Percent of Net Pay" name="percent" rules={[{ required: true, message: "Percent is required" }]}>
+          <InputNumber min={1} max={100} addonAfter="%" style={{ width: "100%" }} />
+        </Form.Item>
+      ) : null}
+      {mode === "months" ? (
+        <Form.Item label="Number of Months" name="months" rules={[{ required: true, message: "Months are required" }]}>
+          <InputNumber min={1} max={60} style={{ width: "100%" }} />
+        </Form.Item>
+      ) : null}
+      {mode && mode !== "none" ? (
+        <Row gutter={12}>
+          <Col span={12}>
+            <Form.Item label="Start Month" name="start_month" rules={[{ required: true, message: "Start month is required" }]}>
+              <DatePicker picker="month" style={{ width: "100%" }} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item label="Net Pay Floor" name="net_floor" tooltip="Recovery is reduced so net pay never falls below this">
+              <InputNumber min={0} style={{ width: "100%" }} />
+            </Form.Item>
+          </Col>
+        </Row>
+      ) : null}
+    </>
+  );
+}
+
 type DeductionFormValues = {
   month: string;
   amount: number;
@@ -105,6 +206,8 @@ export default function EmployeeAdvanceProfilePage() {
   const [summary, setSummary] = useState<EmployeeAdvanceSummary | null>(null);
   const [advances, setAdvances] = useState<EmployeeAdvance[]>([]);
   const [deductions, setDeductions] = useState<EmployeeAdvanceDeduction[]>([]);
+  // Net pay before advance recovery on the last approved payroll, when the employee was on it
+  const [lastNet, setLastNet] = useState<number | null>(null);
 
   const [advanceDrawerOpen, setAdvanceDrawerOpen] = useState(false);
   const [advanceForm] = Form.useForm<AdvanceFormValues>();
@@ -112,16 +215,25 @@ export default function EmployeeAdvanceProfilePage() {
   const [deductionDrawerOpen, setDeductionDrawerOpen] = useState(false);
   const [deductionForm] = Form.useForm<DeductionFormValues>();
 
+  const [planAdvance, setPlanAdvance] = useState<EmployeeAdvance | null>(null);
+  const [planForm] = Form.useForm<PlanFormValues>();
+
+  const advancePlanMode = Form.useWatch("plan_mode", advanceForm);
+  const planMode = Form.useWatch("plan_mode", planForm);
+
   const load = useCallback(async () => {
     if (employeeDbId === null) return;
     setLoading(true);
     try {
-      const [emp, sum, adv, ded] = await Promise.all([
-        api.get<Employee>(`/api/employees/by-db-id/${employeeDbId}`),
-        api.get<EmployeeAdvanceSummary>(`/api/advances/employees/${employeeDbId}/summary`),
-        api.get<EmployeeAdvance[]>(`/api/advances/employees/${employeeDbId}/advances`),
-        api.get<EmployeeAdvanceDeduction[]>(`/api/advances/employees/${employeeDbId}/deductions`),
+      const [emp, sum, adv, ded, run] = await Promise.all([
+        sdk.employees.getByDbId(employeeDbId),
+        sdk.advances.summary(employeeDbId),
+        sdk.advances.list(employeeDbId),
+        sdk.advances.deductions(employeeDbId),
+        sdk.payrollRuns.forPeriod(...lastPayrollPeriod()).catch(() => null),
       ]);
+      const row = run?.snapshot_rows?.find((r) => r.employee_db_id === employeeDbId);
+      setLastNet(row ? Number(row.net_pay || 0) + Number(row.advance_deduction || 0) : null);
       setEmployee(emp ?? null);
       setSummary(sum ?? null);
       setAdvances(Array.isArray(adv) ? adv : []);
@@ -145,6 +257,9 @@ export default function EmployeeAdvanceProfilePage() {
       amount: recommended,
       note: "",
       advance_date: dayjs(),
+      ...valuesFromPlan(null),
+      plan_mode: "months",
+      start_month: dayjs().add(1, "month"),
     });
     setAdvanceDrawerOpen(true);
   }, [advanceForm, employee]);
@@ -158,9 +273,12 @@ export default function EmployeeAdvanceProfilePage() {
         amount: Number(v.amount),
         note: v.note || null,
         advance_date: v.advance_date.format("YYYY-MM-DD"),
+        recovery_plan: planFromValues(v),
       };
-      await api.post<EmployeeAdvance>(`/api/advances/employees/${employeeDbId}/advances`, payload);
+      const advance = await sdk.advances.create(employeeDbId, payload);
       msg.success("Advance created");
+      const warning = await tryPosting(() => postEvent({ kind: "advance_issued", advance }));
+      if (warning) msg.warning(warning);
       setAdvanceDrawerOpen(false);
       await load();
     } catch (e: unknown) {
@@ -172,8 +290,12 @@ export default function EmployeeAdvanceProfilePage() {
     async (advanceId: number) => {
       if (!employeeDbId) return;
       try {
-        await api.del<{ ok: boolean }>(`/api/advances/employees/${employeeDbId}/advances/${advanceId}`);
+        await sdk.advances.remove(employeeDbId, advanceId);
         msg.success("Advance deleted");
+        const warning = await tryPosting(() =>
+          reverseSource("employee_advance", advanceId, dayjs().format("YYYY-MM-DD"), "advance deleted")
+        );
+        if (warning) msg.warning(warning);
         await load();
       } catch (e: unknown) {
         msg.error(errorMessage(e, "Failed to delete advance"));
@@ -182,6 +304,28 @@ export default function EmployeeAdvanceProfilePage() {
     [employeeDbId, load, msg]
   );
 
+  const openPlan = useCallback(
+    (advance: EmployeeAdvance) => {
+      planForm.resetFields();
+      planForm.setFieldsValue(valuesFromPlan(advance.recovery_plan));
+      setPlanAdvance(advance);
+    },
+    [planForm]
+  );
+
+  const savePlan = useCallback(async () => {
+    if (!employeeDbId || !planAdvance) return;
+    const v = await planForm.validateFields();
+    try {
+      await sdk.advances.setPlan(employeeDbId, planAdvance.id, planFromValues(v));
+      msg.success("Recovery plan saved");
+      setPlanAdvance(null);
+      await load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save recovery plan"));
+    }
+  }, [employeeDbId, load, msg, planAdvance, planForm]);
+
   const openSetDeduction = useCallback(() => {
     deductionForm.resetFields();
     deductionForm.setFieldsValue({
@@ -202,7 +346,7 @@ export default function EmployeeAdvanceProfilePage() {
         amount: Number(v.amount),
         note: v.note || null,
       };
-      await api.put<EmployeeAdvanceDeduction>(`/api/advances/employees/${employeeDbId}/deductions`, payload);
+      await sdk.advances.upsertDeduction(employeeDbId, payload);
       msg.success("Monthly deduction saved");
       setDeductionDrawerOpen(false);
       await load();
@@ -215,7 +359,7 @@ export default function EmployeeAdvanceProfilePage() {
     async (deductionId: number) => {
       if (!employeeDbId) return;
       try {
-        await api.del<{ ok: boolean }>(`/api/advances/employees/${employeeDbId}/deductions/${deductionId}`);
+        await sdk.advances.removeDeduction(employeeDbId, deductionId);
         msg.success("Deduction deleted");
         await load();
       } catch (e: unknown) {
@@ -225,28 +369,74 @@ export default function EmployeeAdvanceProfilePage() {
     [employeeDbId, load, msg]
   );
 
+  const balances = useMemo(() => {
+    const recovered = deductions.reduce((a, d) => a + Number(d.amount || 0), 0);
+    return new Map(advanceBalances(advances, recovered).map((b) => [b.advance.id, b]));
+  }, [advances, deductions]);
+
+  // Recorded deductions, then projected ones assuming last payroll's net pay (the salary before a first payroll)
+  const expectedNet = lastNet ?? getEmployeeSalary(employee);
+  const projection = useMemo(
+    () => projectRecovery(advances, deductions, dayjs().format("YYYY-MM"), expectedNet),
+    [advances, deductions, expectedNet]
+  );
+
+  const scheduleColumns: ColumnsType<RecoveryProjectionRow> = useMemo(
+    () => [
+      { title: "Month", dataIndex: "month", key: "month", width: 120 },
+      { title: "Deduction", dataIndex: "deduction", key: "deduction", width: 140, render: (v: number) => money(v) },
+      { title: "Balance After", dataIndex: "balance", key: "balance", width: 160, render: (v: number) => money(v) },
+      {
+        title: "",
+        key: "actual",
+        render: (_, r) => (r.actual ? <Tag color="green">Recorded</Tag> : <Tag>Projected</Tag>),
+      },
+    ],
+    []
+  );
+
   const advancesColumns: ColumnsType<EmployeeAdvance> = useMemo(
     () => [
       { title: "Date", dataIndex: "advance_date", key: "advance_date", width: 120 },
       { title: "Amount", dataIndex: "amount", key: "amount", width: 140, render: (v: number) => money(v) },
+      {
+        title: "Recovery",
+        key: "recovery",
+        render: (_, r) => {
+          const bal = balances.get(r.id);
+          return (
+            <Space direction="vertical" size={0}>
+              <Typography.Text>{planSummary(r.recovery_plan)}</Typography.Text>
+              {bal ? (
+                <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                  {bal.outstanding > 0 ? `${money(bal.outstanding)} outstanding` : "Recovered"}
+                </Typography.Text>
+              ) : null}
+            </Space>
+          );
+        },
+      },
       { title: "Note", dataIndex: "note", key: "note" },
       {
         title: "",
         key: "actions",
-        width: 70,
+        width: 90,
         render: (_, r) => (
-          <Popconfirm
-            title="Delete advance?"
-            okText="Delete"
-            okButtonProps={{ danger: true }}
-            onConfirm={() => void deleteAdvance(r.id)}
-          >
-            <Button size="small" danger icon={<DeleteOutlined />} />
-          </Popconfirm>
+          <Space size={4}>
+            <Button size="small" icon={<EditOutlined />} onClick={() => openPlan(r)} />
+            <Popconfirm
+              title="Delete advance?"
+              okText="Delete"
+              okButtonProps={{ danger: true }}
+              onConfirm={() => void deleteAdvance(r.id)}
+            >
+              <Button size="small" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          </Space>
         ),
       },
     ],
-    [deleteAdvance]
+    [balances, deleteAdvance, openPlan]
   );
 
   const deductionsColumns: ColumnsType<EmployeeAdvanceDeduction> = useMemo(
@@ -358,9 +548,54 @@ export default function EmployeeAdvanceProfilePage() {
           </Col>
         </Row>
 
+        <Divider />
+
+        <Row gutter={12} align="middle" style={{ marginBottom: 12 }}>
+          <Col flex="auto">
+            <Typography.Title level={5} style={{ margin: 0 }}>Recovery Schedule</Typography.Title>
+          </Col>
+          <Col>
+            <Space size={24}>
+              <Statistic
+                title="Outstanding"
+                value={summary?.balance ?? 0}
+                formatter={(v) => money(Number(v))}
+                valueStyle={{ fontSize: 18 }}
+              />
+              <Statistic
+                title={lastNet === null ? "Projected Net (salary)" : "Projected Net"}
+                value={expectedNet}
+                formatter={(v) => money(Number(v))}
+                valueStyle={{ fontSize: 18 }}
+              />
+              <Statistic
+                title="Projected Payoff"
+                value={
+                  projection.payoffMonth
+                    ? dayjs(`${projection.payoffMonth}-01`).format("MMM YYYY")
+                    : (summary?.balance ?? 0) > 0
+                      ? "No plan"
+                      : "-"
+                }
+                valueStyle={{ fontSize: 18 }}
+              />
+            </Space>
+          </Col>
+        </Row>
+        <Table
+          rowKey={(r) => r.month}
+          size="small"
+          loading={loading}
+          columns={scheduleColumns}
+          dataSource={projection.rows}
+          pagination={{ pageSize: 12 }}
+        />
+
         <Divider />
         <Typography.Paragraph style={{ marginBottom: 0 }}>
-          <Badge status="processing" text="Note" /> Deductions are stored per month (YYYY-MM). Payroll integration will use these values to deduct from salary.
+          <Badge status="processing" text="Note" /> Deductions are stored per month (YYYY-MM). Advances with a recovery
+          plan are proposed into each payroll period from the Salaries page; projections assume net pay
+          before recovery stays as on the last approved payroll.
         </Typography.Paragraph>
       </Card>
 
@@ -450,6 +685,29 @@ export default function EmployeeAdvanceProfilePage() {
           <Form.Item label="Note" name="note">
             <Input.TextArea rows={3} />
           </Form.Item>
+
+          <Divider style={{ margin: "8px 0 16px" }} />
+          <RecoveryPlanFields mode={advancePlanMode} />
+        </Form>
+      </Drawer>
+
+      <Drawer
+        title={planAdvance ? `Recovery Plan — ${money(planAdvance.amount)} on ${planAdvance.advance_date}` : "Recovery Plan"}
+        open={planAdvance !== null}
+        onClose={() => setPlanAdvance(null)}
+        width={520}
+        destroyOnClose
+        extra={
+          <Space>
+            <Button onClick={() => setPlanAdvance(null)}>Cancel</Button>
+            <Button type="primary" onClick={() => void savePlan()}>
+              Save
+            </Button>
+          </Space>
+        }
+      >
+        <Form layout="vertical" form={planForm}>
+          <RecoveryPlanFields mode={planMode} />
         </Form>
       </Drawer>
 
@@ -8,9 +8,9 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Area, Column, Line, Pie } from "@ant-design/plots";
 import { api } from "@/lib/api";
-import type { Employee, EmployeeAdvanceMonthRow, EmployeeAdvanceSummary, PayrollEmployeeRow, PayrollReportResponse, EmployeeAdvancesMonthSummary, VehicleAssignment, VehicleAssignmentEfficiencyResponse } from "@/lib/types";
+import { sdk } from "@/lib/sdk";
+import type { ClientPaymentsSummary, Employee, EmployeeAdvanceMonthRow, EmployeeAdvanceSummary, PayrollEmployeeRow, EmployeeAdvancesMonthSummary, VehicleAssignmentEfficiencyResponse } from "@/lib/types";
 import { formatRs } from "@/lib/money";
-import { API_BASE_URL } from "@/lib/config";
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -43,12 +43,6 @@ function downloadBlob(blob: Blob, filename: string) {
   URL.revokeObjectURL(url);
 }
 
-type ClearedPaymentsSummary = {
-  month: string;
-  total_cleared: number;
-  trend: Array<{ month: string; value: number }>;
-};
-
 function payrollPeriodForMonth(month: string): { from: string; to: string } {
   const to = dayjs(month + "-01").date(25);
   const from = to.subtract(1, "month").date(26);
@@ -74,14 +68,14 @@ export default function EmployeeRecordsPage() {
   const [advancesMonthRows, setAdvancesMonthRows] = useState<EmployeeAdvanceMonthRow[]>([]);
   const [assignmentsMonthSummary, setAssignmentsMonthSummary] = useState<VehicleAssignmentEfficiencyResponse | null>(null);
 
-  const [clearedPaymentsSummary, setClearedPaymentsSummary] = useState<ClearedPaymentsSummary | null>(null);
+  const [clearedPaymentsSummary, setClearedPaymentsSummary] = useState<ClientPaymentsSummary | null>(null);
   const [clearedPaymentsTrend, setClearedPaymentsTrend] = useState<Array<{ month: string; value: number }>>([]);
 
   const [payrollDueTrend, setPayrollDueTrend] = useState<Array<{ month: string; value: number }>>([]);
   const [fuelSpendMonthTrend, setFuelSpendMonthTrend] = useState<Array<{ month: string; value: number }>>([]);
   const [advancesTakenMonthTrend, setAdvancesTakenMonthTrend] = useState<Array<{ month: string; value: number }>>([]);
 
-  const [pendingClientReceivablesSummary, setPendingClientReceivablesSummary] = useState<null | { month: string; total_pending: number }>(null);
+  const [pendingClientReceivablesSummary, setPendingClientReceivablesSummary] = useState<ClientPaymentsSummary | null>(null);
 
   const [payrollNetMarkedThisMonth, setPayrollNetMarkedThisMonth] = useState(0);
 
@@ -113,30 +107,29 @@ export default function EmployeeRecordsPage() {
     setLoading(true);
     try {
       // Use Employee2 API
-      const data = await api.get<{ employees: any[]; total: number }>("/api/employees2/", {
-        query: {
-          skip: 0,
-          limit: 50,
-          with_total: false,
-          search: q.trim() || undefined,
-        },
+      const data = await sdk.employees2.list({
+        skip: 0,
+        limit: 50,
+        with_total: false,
+        search: q.trim() || undefined,
       });
 
       const emps = Array.isArray(data?.employees) ? data.employees : [];
       // Map Employee2 fields to match expected structure
-      const mappedEmps = emps.map((e: any) => ({
-        ...e,
-        employee_id: e.fss_no || e.serial_no || String(e.id),
-        first_name: e.name?.split(" ")[0] || e.name || "",
-        last_name: e.name?.split(" ").slice(1).join(" ") || "",
-      }));
+      const mappedEmps = emps.map(
+        (e) =>
+          ({
+            ...e,
+            employee_id: e.fss_no || e.serial_no || String(e.id),
+            first_name: e.name?.split(" ")[0] || e.name || "",
+            last_name: e.name?.split(" ").slice(1).join(" ") || "",
+          }) as unknown as Employee
+      );
       setEmployees(mappedEmps);
 
       try {
         const period = payrollPeriodForMonth(month);
-        const rep = await api.get<PayrollReportResponse>("/api/payroll/range-report", {
-          query: { month, from_date: period.from, to_date: period.to },
-        });
+        const rep = await sdk.payroll.rangeReport({ month, from_date: period.from, to_date: period.to });
 
         setPayrollNetMarkedThisMonth(Number(rep?.summary?.total_net ?? 0));
         const map: Record<string, { paid_status: "paid" | "unpaid"; net_pay: number }> = {};
@@ -161,9 +154,7 @@ export default function EmployeeRecordsPage() {
         const reps = await Promise.all(
           months.map((m) => {
             const period = payrollPeriodForMonth(m);
-            return api.get<PayrollReportResponse>("/api/payroll/range-report", {
-              query: { month: m, from_date: period.from, to_date: period.to },
-            });
+            return sdk.payroll.rangeReport({ month: m, from_date: period.from, to_date: period.to });
           })
         );
 
@@ -182,32 +173,28 @@ export default function EmployeeRecordsPage() {
       }
 
       try {
-        const adv = await api.get<EmployeeAdvancesMonthSummary>("/api/advances/summary", { query: { month } });
+        const adv = await sdk.advances.monthSummary(month);
         setAdvancesMonthSummary(adv ?? null);
       } catch {
         setAdvancesMonthSummary(null);
       }
 
       try {
-        const advRows = await api.get<EmployeeAdvanceMonthRow[]>("/api/advances/monthly", { query: { month } });
+        const advRows = await sdk.advances.monthRows(month);
         setAdvancesMonthRows(Array.isArray(advRows) ? advRows : []);
       } catch {
         setAdvancesMonthRows([]);
       }
 
       try {
-        const pending = await api.get<{ month: string; total_pending: number }>("/api/client-management/invoices/pending-summary", {
-          query: { month, months: 1 },
-        });
+        const pending = await sdk.clients.pendingSummary(month, 1);
         setPendingClientReceivablesSummary(pending ?? null);
       } catch {
         setPendingClientReceivablesSummary(null);
       }
 
       try {
-        const asg = await api.get<VehicleAssignmentEfficiencyResponse>("/api/vehicle-assignments/efficiency", {
-          query: { period: "month", month },
-        });
+        const asg = await sdk.vehicleAssignments.efficiency({ period: "month", month });
         setAssignmentsMonthSummary(asg ?? null);
       } catch {
         setAssignmentsMonthSummary(null);
@@ -219,7 +206,7 @@ export default function EmployeeRecordsPage() {
           months.push(dayjs(month + "-01").subtract(i, "month").format("YYYY-MM"));
         }
         const reps = await Promise.all(
-          months.map((m) => api.get<VehicleAssignmentEfficiencyResponse>("/api/vehicle-assignments/efficiency", { query: { period: "month", month: m } }))
+          months.map((m) => sdk.vehicleAssignments.efficiency({ period: "month", month: m }))
         );
         const spendTrend = months.map((m, idx) => ({ month: m, value: Number(reps[idx]?.total_amount ?? 0) }));
         setFuelSpendMonthTrend(spendTrend);
@@ -233,7 +220,7 @@ export default function EmployeeRecordsPage() {
           months.push(dayjs(month + "-01").subtract(i, "month").format("YYYY-MM"));
         }
         const reps = await Promise.all(
-          months.map((m) => api.get<EmployeeAdvancesMonthSummary>("/api/advances/summary", { query: { month: m } }))
+          months.map((m) => sdk.advances.monthSummary(m))
         );
         const trend = months.map((m, idx) => ({ month: m, value: Number(reps[idx]?.total_advanced ?? 0) }));
         setAdvancesTakenMonthTrend(trend);
@@ -242,9 +229,7 @@ export default function EmployeeRecordsPage() {
       }
 
       try {
-        const rep = await api.get<ClearedPaymentsSummary>("/api/client-management/invoices/cleared-summary", {
-          query: { month, months: 6 },
-        });
+        const rep = await sdk.clients.clearedSummary(month, 6);
         setClearedPaymentsSummary(rep ?? null);
         setClearedPaymentsTrend(Array.isArray(rep?.trend) ? rep.trend : []);
       } catch {
@@ -254,7 +239,7 @@ export default function EmployeeRecordsPage() {
 
       try {
         const sums = await Promise.all(
-          emps.map((e) => api.get<EmployeeAdvanceSummary>(`/api/advances/employees/${e.id}/summary`))
+          emps.map((e) => sdk.advances.summary(e.id))
         );
         const next: Record<number, EmployeeAdvanceSummary> = {};
         for (const s of sums) {
@@ -526,11 +511,7 @@ export default function EmployeeRecordsPage() {
 
   const exportPayrollPdf = useCallback(async () => {
     try {
-      const url = `${API_BASE_URL}/api/payroll/export/pdf?month=${encodeURIComponent(month)}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`PDF export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, `payroll_${month}.pdf`);
+      await sdk.payroll.exportPdf({ month });
     } catch (e: unknown) {
       msg.error(errorMessage(e, "PDF export failed"));
     }
@@ -545,11 +526,11 @@ export default function EmployeeRecordsPage() {
       const payrollPeriod = payrollPeriodForMonth(month);
 
       const [payroll, advances, advancesRows, assignEff, assignments] = await Promise.all([
-        api.get<PayrollReportResponse>("/api/payroll/range-report", { query: { month, from_date: payrollPeriod.from, to_date: payrollPeriod.to } }),
-        api.get<EmployeeAdvancesMonthSummary>("/api/advances/summary", { query: { month } }),
-        api.get<EmployeeAdvanceMonthRow[]>("/api/advances/monthly", { query: { month } }),
-        api.get<VehicleAssignmentEfficiencyResponse>("/api/vehicle-assignments/efficiency", { query: { period: "month", month } }),
-        api.get<VehicleAssignment[]>("/api/vehicle-assignments/", { query: { status: "Complete", from_date: start, to_date: end, limit: 5000 } }),
+        sdk.payroll.rangeReport({ month, from_date: payrollPeriod.from, to_date: payrollPeriod.to }),
+        sdk.advances.monthSummary(month),
+        sdk.advances.monthRows(month),
+        sdk.vehicleAssignments.efficiency({ period: "month", month }),
+        sdk.vehicleAssignments.list({ status: "Complete", from_date: start, to_date: end, limit: 5000 }),
       ]);
 
       const lines: string[] = [];
@@ -710,11 +691,7 @@ export default function EmployeeRecordsPage() {
   const exportMonthDetailsPdf = useCallback(async () => {
     setExporting(true);
     try {
-      const url = `${API_BASE_URL}/api/exports/accounts/monthly/pdf?month=${encodeURIComponent(month)}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`PDF export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, `accounts_export_${month}.pdf`);
+      await sdk.reports.accountsMonthlyPdf(month);
       msg.success("Export created");
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Export failed"));
@@ -781,7 +758,7 @@ export default function EmployeeRecordsPage() {
   const exportPayrollCsv = useCallback(async () => {
     try {
       const period = payrollPeriodForMonth(month);
-      const rep = await api.get<PayrollReportResponse>("/api/payroll/range-report", { query: { month, from_date: period.from, to_date: period.to } });
+      const rep = await sdk.payroll.rangeReport({ month, from_date: period.from, to_date: period.to });
       const headers = [
         "employee_id",
         "name",
@@ -824,7 +801,15 @@ export default function EmployeeRecordsPage() {
         title={title}
         extra={
           <Space>
-            <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading} />
+            <Button
+              icon={<ReloadOutlined />}
+              onClick={() => {
+                // An explicit reload should not be served from the response cache
+                api.invalidate();
+                void load();
+              }}
+              loading={loading}
+            />
             <Dropdown
               menu={{
                 items: [
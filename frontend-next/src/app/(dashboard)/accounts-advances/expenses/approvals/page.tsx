@@ -0,0 +1,564 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Row,
+  Segmented,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tabs,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { ArrowLeftOutlined, CheckOutlined, CloseOutlined, DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+import Link from "next/link";
+
+import ExpenseApprovalTrail from "@/components/ExpenseApprovalTrail";
+import ExpenseDecisionModal, { type ExpenseDecision } from "@/components/ExpenseDecisionModal";
+import { useAuth } from "@/lib/auth";
+import {
+  EXPENSE_CATEGORIES,
+  approvalInbox,
+  approvalState,
+  delegationActive,
+  describePolicy,
+  type ApprovalState,
+} from "@/lib/expenseApprovals";
+import { formatRs } from "@/lib/money";
+import { sdk } from "@/lib/sdk";
+import type {
+  Expense,
+  ExpenseApprovalDelegation,
+  ExpenseApprovalPolicy,
+  ExpenseApprovalPolicyCreate,
+} from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+type InboxRow = { expense: Expense; state: ApprovalState };
+
+type DelegationForm = { delegator: string; delegate: string; range: [Dayjs, Dayjs]; note?: string };
+
+export default function ExpenseApprovalsPage() {
+  const [msg, msgCtx] = message.useMessage();
+  const { user } = useAuth();
+  const username = user?.username ?? null;
+  const today = dayjs().format("YYYY-MM-DD");
+
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<Expense[]>([]);
+  const [policies, setPolicies] = useState<ExpenseApprovalPolicy[]>([]);
+  const [delegations, setDelegations] = useState<ExpenseApprovalDelegation[]>([]);
+  const [usernames, setUsernames] = useState<string[]>([]);
+  const [scope, setScope] = useState<"mine" | "all">("mine");
+  const [decision, setDecision] = useState<ExpenseDecision | null>(null);
+
+  const [policyForm] = Form.useForm<ExpenseApprovalPolicyCreate>();
+  const [editingPolicy, setEditingPolicy] = useState<ExpenseApprovalPolicy | "new" | null>(null);
+  const [delegationForm] = Form.useForm<DelegationForm>();
+  const [delegating, setDelegating] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list, pols, dels, users] = await Promise.all([
+        sdk.expenses.list({ status: "PENDING", limit: 1000 }),
+        sdk.expenseApprovals.policies(),
+        sdk.expenseApprovals.delegations(),
+        // Only administrators can list users; others type usernames in
+        sdk.admin.users().catch(() => []),
+      ]);
+      setPending(Array.isArray(list) ? list.map((e) => ({ ...e, amount: Number(e.amount) })) : []);
+      setPolicies(Array.isArray(pols) ? pols : []);
+      setDelegations(Array.isArray(dels) ? dels : []);
+      setUsernames(users.filter((u) => u.is_active).map((u) => u.username));
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load approvals"));
+    } finally {
+      setLoading(false);
+    }
+  }, [msg]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const rows = useMemo<InboxRow[]>(
+    () =>
+      pending
+        .map((expense) => ({ expense, state: approvalState(expense, policies, delegations, username, today) }))
+        .filter((r) => scope === "all" || r.state.actAs)
+        .sort((a, b) => a.expense.expense_date.localeCompare(b.expense.expense_date) || a.expense.id - b.expense.id),
+    [delegations, pending, policies, scope, today, username]
+  );
+  const mineCount = useMemo(
+    () => approvalInbox(pending, policies, delegations, username, today).length,
+    [delegations, pending, policies, today, username]
+  );
+
+  const userOptions = useMemo(() => usernames.map((u) => ({ value: u, label: u })), [usernames]);
+
+  const decide = (r: InboxRow, action: ExpenseDecision["action"]) =>
+    setDecision({ expense: r.expense, action, onBehalfOf: r.state.actAs !== username ? r.state.actAs : null });
+
+  const inboxColumns: ColumnsType<InboxRow> = [
+    { title: "Date", key: "date", width: 110, render: (_, r) => dayjs(r.expense.expense_date).format("DD MMM YYYY") },
+    { title: "Category", key: "category", width: 170, render: (_, r) => r.expense.category },
+    { title: "Description", key: "description", ellipsis: true, render: (_, r) => r.expense.description },
+    { title: "Submitted By", key: "by", width: 130, render: (_, r) => r.expense.submitted_by || "-" },
+    {
+      title: "Amount",
+      key: "amount",
+      width: 130,
+      align: "right",
+      render: (_, r) => formatRs(r.expense.amount, 2),
+    },
+    {
+      title: "Approvals",
+      key: "progress",
+      width: 110,
+      render: (_, r) => (
+        <Tooltip title={r.state.policy ? describePolicy(r.state.policy) : "No policy matches: one approval is enough"}>
+          <Tag color={r.state.approved ? "blue" : "default"}>
+            {r.state.approved} / {r.state.required}
+          </Tag>
+        </Tooltip>
+      ),
+    },
+    {
+      title: "",
+      key: "actions",
+      width: 200,
+      render: (_, r) =>
+        r.state.actAs ? (
+          <Space size="small">
+            <Button size="small" type="primary" icon={<CheckOutlined />} onClick={() => decide(r, "approve")}>
+              Approve
+            </Button>
+            <Button size="small" danger icon={<CloseOutlined />} onClick={() => decide(r, "reject")}>
+              Reject
+            </Button>
+            {r.state.actAs !== username ? (
+              <Tooltip title={`Delegated by ${r.state.actAs}`}>
+                <Tag>for {r.state.actAs}</Tag>
+              </Tooltip>
+            ) : null}
+          </Space>
+        ) : (
+          <Typography.Text type="secondary">{r.state.blocked}</Typography.Text>
+        ),
+    },
+  ];
+
+  const openPolicy = (p: ExpenseApprovalPolicy | "new") => {
+    setEditingPolicy(p);
+    policyForm.resetFields();
+    policyForm.setFieldsValue(
+      p === "new"
+        ? { name: "", category: null, min_amount: 0, max_amount: null, approvals_required: 1, approvers: [], is_active: true }
+        : {
+            name: p.name,
+            category: p.category ?? null,
+            min_amount: p.min_amount,
+            max_amount: p.max_amount ?? null,
+            approvals_required: p.approvals_required,
+            approvers: p.approvers ?? [],
+            is_active: p.is_active,
+          }
+    );
+  };
+
+  const savePolicy = async () => {
+    const v = await policyForm.validateFields();
+    const payload: ExpenseApprovalPolicyCreate = {
+      ...v,
+      name: v.name.trim(),
+      category: v.category || null,
+      min_amount: Number(v.min_amount || 0),
+      max_amount: v.max_amount == null ? null : Number(v.max_amount),
+      approvers: v.approvers ?? [],
+    };
+    setSaving(true);
+    try {
+      if (editingPolicy === "new") await sdk.expenseApprovals.createPolicy(payload);
+      else if (editingPolicy) await sdk.expenseApprovals.updatePolicy(editingPolicy.id, payload);
+      msg.success("Policy saved");
+      setEditingPolicy(null);
+      void load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save policy"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removePolicy = async (p: ExpenseApprovalPolicy) => {
+    try {
+      await sdk.expenseApprovals.removePolicy(p.id);
+      msg.success("Policy deleted");
+      void load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to delete policy"));
+    }
+  };
+
+  const policyColumns: ColumnsType<ExpenseApprovalPolicy> = [
+    { title: "Name", dataIndex: "name" },
+    { title: "Category", dataIndex: "category", render: (v?: string | null) => v || <Typography.Text type="secondary">Any</Typography.Text> },
+    {
+      title: "Amount",
+      key: "band",
+      render: (_, p) => (p.max_amount != null ? `${formatRs(p.min_amount, 0)} – ${formatRs(p.max_amount, 0)}` : `${formatRs(p.min_amount, 0)} +`),
+    },
+    { title: "Approvals", dataIndex: "approvals_required", width: 100, align: "center" },
+    {
+      title: "Approvers",
+      dataIndex: "approvers",
+      render: (v: string[]) =>
+        v?.length ? v.map((u) => <Tag key={u}>{u}</Tag>) : <Typography.Text type="secondary">Anyone with access</Typography.Text>,
+    },
+    {
+      title: "Active",
+      dataIndex: "is_active",
+      width: 80,
+      render: (v: boolean) => (v ? <Tag color="green">Yes</Tag> : <Tag>No</Tag>),
+    },
+    {
+      title: "",
+      key: "actions",
+      width: 90,
+      render: (_, p) => (
+        <Space size="small">
+          <Button size="small" icon={<EditOutlined />} onClick={() => openPolicy(p)} />
+          <Popconfirm title="Delete this policy?" onConfirm={() => void removePolicy(p)}>
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const openDelegation = () => {
+    delegationForm.resetFields();
+    delegationForm.setFieldsValue({ delegator: username ?? "", range: [dayjs(), dayjs().add(6, "day")] });
+    setDelegating(true);
+  };
+
+  const saveDelegation = async () => {
+    const v = await delegationForm.validateFields();
+    setSaving(true);
+    try {
+      await sdk.expenseApprovals.createDelegation({
+        delegator: v.delegator,
+        delegate: v.delegate,
+        from_date: v.range[0].format("YYYY-MM-DD"),
+        to_date: v.range[1].format("YYYY-MM-DD"),
+        note: v.note?.trim() || null,
+      });
+      msg.success("Delegation saved");
+      setDelegating(false);
+      void load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save delegation"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeDelegation = async (d: ExpenseApprovalDelegation) => {
+    try {
+      await sdk.expenseApprovals.removeDelegation(d.id);
+      msg.success("Delegation removed");
+      void load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to remove delegation"));
+    }
+  };
+
+  const delegationColumns: ColumnsType<ExpenseApprovalDelegation> = [
+    { title: "Approver", dataIndex: "delegator" },
+    { title: "Delegate", dataIndex: "delegate" },
+    {
+      title: "Period",
+      key: "period",
+      render: (_, d) => `${dayjs(d.from_date).format("DD MMM YYYY")} – ${dayjs(d.to_date).format("DD MMM YYYY")}`,
+    },
+    { title: "Note", dataIndex: "note", ellipsis: true, render: (v?: string | null) => v || "-" },
+    {
+      title: "Status",
+      key: "status",
+      width: 100,
+      render: (_, d) =>
+        delegationActive(d, today) ? (
+          <Tag color="green">Active</Tag>
+        ) : d.to_date.slice(0, 10) < today ? (
+          <Tag>Ended</Tag>
+        ) : (
+          <Tag color="blue">Upcoming</Tag>
+        ),
+    },
+    {
+      title: "",
+      key: "actions",
+      width: 60,
+      render: (_, d) => (
+        <Popconfirm title="Remove this delegation?" onConfirm={() => void removeDelegation(d)}>
+          <Button size="small" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Expense Approvals</Typography.Text>
+              </div>
+              <Typography.Text type="secondary">
+                {mineCount ? `${mineCount} expense${mineCount === 1 ? "" : "s"} awaiting your approval` : "Nothing awaiting your approval"}
+              </Typography.Text>
+            </Col>
+            <Col>
+              <Space wrap>
+                <Link href="/accounts-advances/expenses">
+                  <Button icon={<ArrowLeftOutlined />}>Expenses</Button>
+                </Link>
+                <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading}>
+                  Refresh
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          <Tabs
+            items={[
+              {
+                key: "inbox",
+                label: `Inbox (${mineCount})`,
+                children: (
+                  <Space orientation="vertical" size={12} style={{ width: "100%" }}>
+                    <Segmented<"mine" | "all">
+                      value={scope}
+                      onChange={setScope}
+                      options={[
+                        { label: "Awaiting me", value: "mine" },
+                        { label: `All pending (${pending.length})`, value: "all" },
+                      ]}
+                    />
+                    <Table<InboxRow>
+                      size="small"
+                      rowKey={(r) => r.expense.id}
+                      loading={loading}
+                      dataSource={rows}
+                      columns={inboxColumns}
+                      pagination={rows.length > 50 ? { pageSize: 50 } : false}
+                      expandable={{
+                        rowExpandable: (r) => Boolean(r.expense.approvals?.length || r.expense.notes),
+                        expandedRowRender: (r) => (
+                          <div style={{ padding: "8px 24px 0" }}>
+                            {r.expense.notes ? <Typography.Paragraph>{r.expense.notes}</Typography.Paragraph> : null}
+                            <ExpenseApprovalTrail expense={r.expense} />
+                          </div>
+                        ),
+                      }}
+                    />
+                  </Space>
+                ),
+              },
+              {
+                key: "policies",
+                label: "Policies",
+                children: (
+                  <Space orientation="vertical" size={12} style={{ width: "100%" }}>
+                    <Row justify="space-between" align="middle">
+                      <Typography.Text type="secondary">
+                        The most specific active policy applies; without one, a single approval is enough.
+                      </Typography.Text>
+                      <Button type="primary" icon={<PlusOutlined />} onClick={() => openPolicy("new")}>
+                        Add Policy
+                      </Button>
+                    </Row>
+                    <Table<ExpenseApprovalPolicy>
+                      size="small"
+                      rowKey="id"
+                      loading={loading}
+                      dataSource={policies}
+                      columns={policyColumns}
+                      pagination={false}
+                    />
+                  </Space>
+                ),
+              },
+              {
+                key: "delegations",
+                label: "Delegations",
+                children: (
+                  <Space orientation="vertical" size={12} style={{ width: "100%" }}>
+                    <Row justify="space-between" align="middle">
+                      <Typography.Text type="secondary">
+                        While a delegation is active the delegate can approve in the approver&apos;s place.
+                      </Typography.Text>
+                      <Button type="primary" icon={<PlusOutlined />} onClick={openDelegation}>
+                        Delegate
+                      </Button>
+                    </Row>
+                    <Table<ExpenseApprovalDelegation>
+                      size="small"
+                      rowKey="id"
+                      loading={loading}
+                      dataSource={delegations}
+                      columns={delegationColumns}
+                      pagination={false}
+                    />
+                  </Space>
+                ),
+              },
+            ]}
+          />
+        </Space>
+      </Card>
+
+      <ExpenseDecisionModal
+        decision={decision}
+        onClose={() => setDecision(null)}
+        onDone={(updated) => {
+          msg.success(updated.status === "PENDING" ? "Approval recorded" : `Expense ${updated.status.toLowerCase()}`);
+          setDecision(null);
+          void load();
+        }}
+      />
+
+      <Modal
+        open={editingPolicy != null}
+        title={editingPolicy === "new" ? "Add Approval Policy" : "Edit Approval Policy"}
+        okText="Save"
+        confirmLoading={saving}
+        onOk={() => void savePolicy()}
+        onCancel={() => setEditingPolicy(null)}
+        destroyOnHidden
+      >
+        <Form form={policyForm} layout="vertical">
+          <Form.Item name="name" label="Name" rules={[{ required: true, whitespace: true }]}>
+            <Input placeholder="e.g. Large purchases" />
+          </Form.Item>
+          <Form.Item name="category" label="Category">
+            <Select allowClear placeholder="Any category" options={EXPENSE_CATEGORIES.map((c) => ({ value: c, label: c }))} />
+          </Form.Item>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item name="min_amount" label="From Amount (Rs)" rules={[{ required: true }]}>
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item
+                name="max_amount"
+                label="Up To (Rs)"
+                dependencies={["min_amount"]}
+                rules={[
+                  ({ getFieldValue }) => ({
+                    validator: (_, v) =>
+                      v == null || Number(v) >= Number(getFieldValue("min_amount") || 0)
+                        ? Promise.resolve()
+                        : Promise.reject(new Error("Must not be below the from amount")),
+                  }),
+                ]}
+              >
+                <InputNumber min={0} style={{ width: "100%" }} placeholder="No limit" />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="approvals_required" label="Approvals Required" rules={[{ required: true }]}>
+            <InputNumber min={1} max={5} style={{ width: "100%" }} />
+          </Form.Item>
+          <Form.Item
+            name="approvers"
+            label="Approvers"
+            extra="Leave empty to let anyone with access to expenses approve."
+            dependencies={["approvals_required"]}
+            rules={[
+              ({ getFieldValue }) => ({
+                validator: (_, v?: string[]) =>
+                  !v?.length || v.length >= Number(getFieldValue("approvals_required") || 1)
+                    ? Promise.resolve()
+                    : Promise.reject(new Error("Name at least as many approvers as approvals required")),
+              }),
+            ]}
+          >
+            <Select mode="tags" options={userOptions} placeholder="Usernames" tokenSeparators={[","]} />
+          </Form.Item>
+          <Form.Item name="is_active" label="Active" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        open={delegating}
+        title="Delegate Approvals"
+        okText="Save"
+        confirmLoading={saving}
+        onOk={() => void saveDelegation()}
+        onCancel={() => setDelegating(false)}
+        destroyOnHidden
+      >
+        <Form form={delegationForm} layout="vertical">
+          <Form.Item name="delegator" label="Approver (away)" rules={[{ required: true }]}>
+            {userOptions.length ? <Select showSearch options={userOptions} /> : <Input placeholder="Username" />}
+          </Form.Item>
+          <Form.Item
+            name="delegate"
+            label="Delegate"
+            dependencies={["delegator"]}
+            rules={[
+              { required: true },
+              ({ getFieldValue }) => ({
+                validator: (_, v) =>
+                  v && v === getFieldValue("delegator") ? Promise.reject(new Error("Choose someone else")) : Promise.resolve(),
+              }),
+            ]}
+          >
+            {userOptions.length ? (
+              <Select showSearch options={userOptions} placeholder="Username" />
+            ) : (
+              <Input placeholder="Username" />
+            )}
+          </Form.Item>
+          <Form.Item name="range" label="Period" rules={[{ required: true }]}>
+            <DatePicker.RangePicker style={{ width: "100%" }} />
+          </Form.Item>
+          <Form.Item name="note" label="Note">
+            <Input placeholder="e.g. On leave" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+}
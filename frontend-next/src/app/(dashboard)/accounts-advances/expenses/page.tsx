@@ -1,68 +1,25 @@
 "use client";
 
-import { Button, Card, Col, DatePicker, Drawer, Form, Input, InputNumber, message, Modal, Row, Select, Space, Statistic, Table, Tag, Typography, Upload, Tooltip, Divider, Dropdown } from "antd";
+import { Badge, Button, Card, Col, DatePicker, Drawer, Form, Input, InputNumber, message, Modal, Row, Select, Space, Statistic, Table, Tag, Typography, Upload, Tooltip, Divider, Dropdown } from "antd";
 import type { ColumnsType } from "antd/es/table";
-import { PlusOutlined, ReloadOutlined, DollarOutlined, EditOutlined, DeleteOutlined, CheckOutlined, CreditCardOutlined, UndoOutlined, EyeOutlined, UploadOutlined, DownloadOutlined, FileTextOutlined, FilePdfOutlined, ExportOutlined } from "@ant-design/icons";
+import { PlusOutlined, ReloadOutlined, DollarOutlined, EditOutlined, DeleteOutlined, CheckOutlined, CloseOutlined, CreditCardOutlined, UndoOutlined, EyeOutlined, UploadOutlined, DownloadOutlined, FileTextOutlined, FilePdfOutlined, ExportOutlined, AuditOutlined } from "@ant-design/icons";
 import dayjs from "dayjs";
+import Link from "next/link";
 import { useCallback, useEffect, useState } from "react";
+import ExpenseApprovalTrail from "@/components/ExpenseApprovalTrail";
+import ExpenseDecisionModal, { type ExpenseDecision } from "@/components/ExpenseDecisionModal";
+import { useAuth } from "@/lib/auth";
 import { api } from "@/lib/api";
+import { EXPENSE_CATEGORIES, approvalInbox, approvalState } from "@/lib/expenseApprovals";
 import { formatRs } from "@/lib/money";
+import { postEvent, reverseSource, tryPosting } from "@/lib/posting";
+import { sdk } from "@/lib/sdk";
+import type { Employee, Expense, ExpenseApprovalDelegation, ExpenseApprovalPolicy, ExpenseStatus, ExpenseSummary } from "@/lib/types";
 
 const { TextArea } = Input;
 const { Option } = Select;
 const { RangePicker } = DatePicker;
 
-interface Expense {
-  id: number;
-  expense_date: string;
-  category: string;
-  description: string;
-  amount: number;
-  vendor_name?: string;
-  receipt_number?: string;
-  notes?: string;
-  attachment_url?: string;
-  employee_id?: number;
-  status: "PENDING" | "APPROVED" | "REJECTED" | "PAID";
-  journal_entry_id?: number;
-  is_active: boolean;
-  created_at: string;
-  updated_at?: string;
-  approved_at?: string;
-  paid_at?: string;
-}
-
-interface ExpenseSummary {
-  total_expenses: number;
-  pending_expenses: number;
-  approved_expenses: number;
-  paid_expenses: number;
-  expense_count: number;
-  categories: Record<string, number>;
-}
-
-interface Employee {
-  id: number;
-  employee_id: string;
-  first_name: string;
-  last_name: string;
-}
-
-const EXPENSE_CATEGORIES = [
-  "Office Supplies",
-  "Travel & Transportation", 
-  "Utilities",
-  "Rent",
-  "Marketing & Advertising",
-  "Professional Services",
-  "Equipment & Maintenance",
-  "Insurance",
-  "Training & Development",
-  "Meals & Entertainment",
-  "Communication",
-  "Other"
-];
-
 const STATUS_COLORS = {
   PENDING: { color: "#fa8c16", bg: "#fff7e6", border: "#ffd591" },
   APPROVED: { color: "#1677ff", bg: "#f0f5ff", border: "#adc6ff" },
@@ -80,11 +37,18 @@ function errorMessage(e: unknown, fallback: string): string {
 
 export default function ExpensesPage() {
   const [msg, msgCtx] = message.useMessage();
+  const { user } = useAuth();
+  const username = user?.username ?? null;
+  const today = dayjs().format("YYYY-MM-DD");
   
   const [loading, setLoading] = useState(false);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [summary, setSummary] = useState<ExpenseSummary | null>(null);
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [policies, setPolicies] = useState<ExpenseApprovalPolicy[]>([]);
+  const [delegations, setDelegations] = useState<ExpenseApprovalDelegation[]>([]);
+  const [awaitingMe, setAwaitingMe] = useState(0);
+  const [decision, setDecision] = useState<ExpenseDecision | null>(null);
   
   const [month, setMonth] = useState(dayjs().format("YYYY-MM"));
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -98,27 +62,25 @@ export default function ExpensesPage() {
   const [form] = Form.useForm();
   const [exportForm] = Form.useForm();
   const [uploadedFile, setUploadedFile] = useState<any>(null);
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
   const [exporting, setExporting] = useState(false);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const [expensesRes, summaryRes, employeesRes] = await Promise.all([
-        api.get<Expense[]>("/api/expenses/", {
-          query: {
-            from_date: dayjs(month + "-01").startOf("month").format("YYYY-MM-DD"),
-            to_date: dayjs(month + "-01").endOf("month").format("YYYY-MM-DD"),
-            status: statusFilter === "all" ? undefined : statusFilter,
-            category: categoryFilter === "all" ? undefined : categoryFilter,
-            limit: 1000
-          }
+      const [expensesRes, summaryRes, employeesRes, pendingRes, policiesRes, delegationsRes] = await Promise.all([
+        sdk.expenses.list({
+          from_date: dayjs(month + "-01").startOf("month").format("YYYY-MM-DD"),
+          to_date: dayjs(month + "-01").endOf("month").format("YYYY-MM-DD"),
+          status: statusFilter === "all" ? undefined : (statusFilter as ExpenseStatus),
+          category: categoryFilter === "all" ? undefined : categoryFilter,
+          limit: 1000
         }),
-        api.get<ExpenseSummary>("/api/expenses/summary/monthly", {
-          query: { month }
-        }),
-        api.get<{ employees: Employee[] }>("/api/employees/", {
-          query: { limit: 1000 }
-        })
+        sdk.expenses.monthlySummary(month),
+        sdk.employees.list({ limit: 1000 }),
+        sdk.expenses.list({ status: "PENDING", limit: 1000 }),
+        sdk.expenseApprovals.policies().catch(() => [] as ExpenseApprovalPolicy[]),
+        sdk.expenseApprovals.delegations().catch(() => [] as ExpenseApprovalDelegation[])
       ]);
 
       // Parse amounts as numbers
@@ -132,6 +94,9 @@ export default function ExpensesPage() {
       setExpenses(parsedExpenses);
       setSummary(summaryRes || null);
       setEmployees(Array.isArray(employeesRes?.employees) ? employeesRes.employees : []);
+      setPolicies(policiesRes);
+      setDelegations(delegationsRes);
+      setAwaitingMe(approvalInbox(Array.isArray(pendingRes) ? pendingRes : [], policiesRes, delegationsRes, username, today).length);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load expenses"));
       setExpenses([]);
@@ -140,43 +105,29 @@ export default function ExpensesPage() {
     } finally {
       setLoading(false);
     }
-  }, [month, statusFilter, categoryFilter, msg]);
+  }, [month, statusFilter, categoryFilter, msg, username, today]);
 
   useEffect(() => {
     void loadData();
   }, [loadData]);
 
+  const uploadAttachment = useCallback(async (expenseId: number, fallbackMessage: string) => {
+    if (!(uploadedFile instanceof File)) return;
+    setUploadPercent(0);
+    try {
+      await sdk.expenses.uploadAttachment(expenseId, uploadedFile, {
+        onProgress: (p) => setUploadPercent(p.percent),
+      });
+    } catch (e: unknown) {
+      msg.warning(errorMessage(e, fallbackMessage));
+    } finally {
+      setUploadPercent(null);
+    }
+  }, [msg, uploadedFile]);
+
   const handleCreateExpense = useCallback(async (values: any) => {
     try {
-      let attachmentUrl = values.attachment_url;
-      
-      // Upload file if one was selected
-      if (uploadedFile && uploadedFile instanceof File) {
-        const formData = new FormData();
-        formData.append('file', uploadedFile);
-        
-        try {
-          // Upload to a simple endpoint (we'll create this)
-          const uploadResponse = await fetch('/api/upload', {
-            method: 'POST',
-            body: formData
-          });
-          
-          if (uploadResponse.ok) {
-            const uploadData = await uploadResponse.json();
-            attachmentUrl = uploadData.url || uploadData.path;
-          } else {
-            msg.warning('File upload failed, saving without attachment');
-            attachmentUrl = null;
-          }
-        } catch (uploadError) {
-          console.error('Upload error:', uploadError);
-          msg.warning('File upload failed, saving without attachment');
-          attachmentUrl = null;
-        }
-      }
-      
-      await api.post("/api/expenses/", {
+      const created = await sdk.expenses.create({
         expense_date: values.expense_date.format("YYYY-MM-DD"),
         category: values.category,
         description: values.description,
@@ -184,9 +135,12 @@ export default function ExpensesPage() {
         vendor_name: values.vendor_name || null,
         receipt_number: values.receipt_number || null,
         notes: values.notes || null,
-        attachment_url: attachmentUrl || null,
+        attachment_url: values.attachment_url || null,
         employee_id: values.employee_id || null
       });
+
+      // The file goes up once the expense exists so it can be attached by id
+      await uploadAttachment(created.id, "File upload failed, saved without attachment");
       
       msg.success("Expense created successfully");
       setDrawerOpen(false);
@@ -196,40 +150,13 @@ export default function ExpensesPage() {
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to create expense"));
     }
-  }, [msg, form, loadData, uploadedFile]);
+  }, [msg, form, loadData, uploadAttachment]);
 
   const handleUpdateExpense = useCallback(async (values: any) => {
     if (!editingExpense) return;
     
     try {
-      let attachmentUrl = values.attachment_url;
-      
-      // Upload file if one was selected
-      if (uploadedFile && uploadedFile instanceof File) {
-        const formData = new FormData();
-        formData.append('file', uploadedFile);
-        
-        try {
-          const uploadResponse = await fetch('/api/upload', {
-            method: 'POST',
-            body: formData
-          });
-          
-          if (uploadResponse.ok) {
-            const uploadData = await uploadResponse.json();
-            attachmentUrl = uploadData.url || uploadData.path;
-          } else {
-            msg.warning('File upload failed, keeping existing attachment');
-            attachmentUrl = editingExpense.attachment_url;
-          }
-        } catch (uploadError) {
-          console.error('Upload error:', uploadError);
-          msg.warning('File upload failed, keeping existing attachment');
-          attachmentUrl = editingExpense.attachment_url;
-        }
-      }
-      
-      await api.put(`/api/expenses/${editingExpense.id}`, {
+      await sdk.expenses.update(editingExpense.id, {
         expense_date: values.expense_date.format("YYYY-MM-DD"),
         category: values.category,
         description: values.description,
@@ -237,9 +164,11 @@ export default function ExpensesPage() {
         vendor_name: values.vendor_name || null,
         receipt_number: values.receipt_number || null,
         notes: values.notes || null,
-        attachment_url: attachmentUrl || null,
+        attachment_url: values.attachment_url || null,
         employee_id: values.employee_id || null
       });
+
+      await uploadAttachment(editingExpense.id, "File upload failed, keeping existing attachment");
       
       msg.success("Expense updated successfully");
       setDrawerOpen(false);
@@ -250,36 +179,68 @@ export default function ExpensesPage() {
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to update expense"));
     }
-  }, [editingExpense, msg, form, loadData, uploadedFile]);
+  }, [editingExpense, msg, form, loadData, uploadAttachment]);
+
+  const approvalFor = useCallback(
+    (expense: Expense) => approvalState(expense, policies, delegations, username, today),
+    [policies, delegations, username, today]
+  );
 
   const handleApproveExpense = useCallback(async (expense: Expense) => {
+    const { actAs } = approvalFor(expense);
+    if (!actAs) return;
     try {
-      await api.post(`/api/expenses/${expense.id}/approve`);
-      msg.success("Expense approved successfully");
+      const updated = await sdk.expenses.approve(expense.id, { on_behalf_of: actAs !== username ? actAs : null });
+      msg.success(updated.status === "APPROVED" ? "Expense approved successfully" : "Approval recorded; more approvals are needed");
       void loadData();
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to approve expense"));
     }
-  }, [msg, loadData]);
+  }, [msg, loadData, approvalFor, username]);
+
+  const handleRejectExpense = useCallback((expense: Expense) => {
+    const { actAs } = approvalFor(expense);
+    if (!actAs) return;
+    setDecision({ expense, action: "reject", onBehalfOf: actAs !== username ? actAs : null });
+  }, [approvalFor, username]);
 
   const handlePayExpense = useCallback(async (expense: Expense) => {
     try {
-      await api.post(`/api/expenses/${expense.id}/pay`);
+      const paid = await sdk.expenses.pay(expense.id);
       msg.success("Expense paid successfully");
+      // The ledger entry may already have been made server-side
+      if (!paid.journal_entry_id) {
+        const warning = await tryPosting(() => postEvent({ kind: "expense_paid", expense: paid }));
+        if (warning) msg.warning(warning);
+      }
       void loadData();
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to pay expense"));
     }
   }, [msg, loadData]);
 
+  // Uploaded receipts are served behind auth, so they are fetched with the session token; external links open as-is
+  const openAttachment = useCallback(async (url: string) => {
+    try {
+      if (/^https?:\/\//.test(url)) window.open(url, "_blank", "noopener,noreferrer");
+      else await api.open(url);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to open attachment"));
+    }
+  }, [msg]);
+
   const handleUndoPayment = useCallback(async (expense: Expense) => {
     Modal.confirm({
       title: "Undo Payment",
       content: "Are you sure you want to undo this payment? The expense will be marked as approved.",
       onOk: async () => {
         try {
-          await api.post(`/api/expenses/${expense.id}/undo-payment`);
+          await sdk.expenses.undoPayment(expense.id);
           msg.success("Payment undone successfully");
+          const warning = await tryPosting(() =>
+            reverseSource("expense", expense.id, dayjs().format("YYYY-MM-DD"), "expense payment undone")
+          );
+          if (warning) msg.warning(warning);
           void loadData();
         } catch (e: unknown) {
           msg.error(errorMessage(e, "Failed to undo payment"));
@@ -294,7 +255,7 @@ export default function ExpensesPage() {
       content: "Are you sure you want to delete this expense?",
       onOk: async () => {
         try {
-          await api.del(`/api/expenses/${expense.id}`);
+          await sdk.expenses.remove(expense.id);
           msg.success("Expense deleted successfully");
           void loadData();
         } catch (e: unknown) {
@@ -337,20 +298,19 @@ export default function ExpensesPage() {
     setViewDrawerOpen(true);
   }, []);
 
+  // Opened from a ledger entry (/accounts-advances/expenses?expense=<id>)
+  useEffect(() => {
+    const expenseId = Number(new URLSearchParams(window.location.search).get("expense"));
+    if (!expenseId) return;
+    sdk.expenses
+      .get(expenseId)
+      .then((exp) => openViewDrawer({ ...exp, amount: Number(exp.amount) }))
+      .catch((e: unknown) => msg.error(errorMessage(e, "Failed to load expense")));
+  }, [msg, openViewDrawer]);
+
   const exportExpenseToPDF = useCallback(async (expense: Expense) => {
     try {
-      const response = await fetch(`http://localhost:8000/api/expenses/${expense.id}/export/pdf`);
-      if (!response.ok) throw new Error('Export failed');
-      
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `expense_${expense.id}_${dayjs(expense.expense_date).format('YYYYMMDD')}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      window.URL.revokeObjectURL(url);
+      await sdk.expenses.exportPdf(expense.id, `expense_${expense.id}_${dayjs(expense.expense_date).format('YYYYMMDD')}.pdf`);
       
       msg.success('Expense exported to PDF');
     } catch (e: unknown) {
@@ -373,7 +333,13 @@ export default function ExpensesPage() {
         ['Notes', expense.notes || ''],
         ['Created At', dayjs(expense.created_at).format('YYYY-MM-DD HH:mm:ss')],
         ['Approved At', expense.approved_at ? dayjs(expense.approved_at).format('YYYY-MM-DD HH:mm:ss') : ''],
-        ['Paid At', expense.paid_at ? dayjs(expense.paid_at).format('YYYY-MM-DD HH:mm:ss') : '']
+        ['Paid At', expense.paid_at ? dayjs(expense.paid_at).format('YYYY-MM-DD HH:mm:ss') : ''],
+        ['Submitted By', expense.submitted_by || ''],
+        ...(expense.approvals ?? []).map((a) => [
+          a.action === 'approved' ? 'Approved By' : 'Rejected By',
+          `${a.approver}${a.on_behalf_of ? ` for ${a.on_behalf_of}` : ''} at ${dayjs(a.created_at).format('YYYY-MM-DD HH:mm:ss')}${a.comment ? ` - ${a.comment}` : ''}`
+        ]),
+        ['Rejection Reason', expense.rejection_reason || '']
       ];
       
       const csvContent = csvData.map(row => 
@@ -411,71 +377,9 @@ export default function ExpensesPage() {
       console.log('Export params:', { fromDate, toDate, format });
       
       if (format === 'pdf') {
-        const response = await fetch(
-          `http://localhost:8000/api/expenses/export/pdf?from_date=${fromDate}&to_date=${toDate}`
-        );
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMsg = 'Export failed';
-          try {
-            const errorData = JSON.parse(errorText);
-            errorMsg = errorData.detail || errorMsg;
-          } catch {
-            errorMsg = errorText || errorMsg;
-          }
-          throw new Error(errorMsg);
-        }
-        
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `expenses_${fromDate}_to_${toDate}.pdf`;
-        document.body.appendChild(a);
-        a.click();
-        a.remove();
-        window.URL.revokeObjectURL(url);
+        await sdk.expenses.exportRangePdf(fromDate, toDate);
       } else {
-        // CSV export - use direct fetch to avoid api wrapper issues
-        const token = typeof window !== 'undefined' ? window.localStorage.getItem('access_token') : null;
-        const url = `http://localhost:8000/api/expenses/?from_date=${fromDate}&to_date=${toDate}&limit=1000`;
-        console.log('Fetching expenses from:', url);
-        
-        const response = await fetch(url, {
-          headers: {
-            'Content-Type': 'application/json',
-            ...(token ? { 'Authorization': `Bearer ${token}` } : {})
-          }
-        });
-        
-        console.log('Response status:', response.status);
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.log('Error response:', errorText);
-          let errorMsg = 'Failed to fetch expenses';
-          try {
-            const errorData = JSON.parse(errorText);
-            // Handle FastAPI validation errors
-            if (errorData.detail) {
-              if (Array.isArray(errorData.detail)) {
-                errorMsg = errorData.detail.map((err: any) => 
-                  `${err.loc?.join('.')} - ${err.msg}`
-                ).join(', ');
-              } else if (typeof errorData.detail === 'string') {
-                errorMsg = errorData.detail;
-              } else {
-                errorMsg = JSON.stringify(errorData.detail);
-              }
-            }
-          } catch {
-            errorMsg = errorText || errorMsg;
-          }
-          throw new Error(errorMsg);
-        }
-        
-        const expensesRes = await response.json();
-        console.log('Fetched expenses:', expensesRes.length);
+        const expensesRes = await sdk.expenses.list({ from_date: fromDate, to_date: toDate, limit: 1000 });
         
         const expensesList = Array.isArray(expensesRes) 
           ? expensesRes.map(exp => ({
@@ -619,21 +523,25 @@ export default function ExpensesPage() {
       dataIndex: "status",
       key: "status",
       width: 120,
-      render: (status: string) => {
+      render: (status: string, expense) => {
         const statusConfig = STATUS_COLORS[status as keyof typeof STATUS_COLORS];
+        const approval = status === "PENDING" ? approvalFor(expense) : null;
         return (
-          <Tag 
-            color={statusConfig.color}
-            style={{ 
-              backgroundColor: statusConfig.bg,
-              border: `1px solid ${statusConfig.border}`,
-              borderRadius: 8,
-              fontWeight: 500,
-              padding: '4px 12px'
-            }}
-          >
-            {status}
-          </Tag>
+          <Tooltip title={status === "REJECTED" ? expense.rejection_reason : approval?.blocked}>
+            <Tag 
+              color={statusConfig.color}
+              style={{ 
+                backgroundColor: statusConfig.bg,
+                border: `1px solid ${statusConfig.border}`,
+                borderRadius: 8,
+                fontWeight: 500,
+                padding: '4px 12px'
+              }}
+            >
+              {status}
+              {approval && approval.required > 1 ? ` ${approval.approved}/${approval.required}` : ""}
+            </Tag>
+          </Tooltip>
         );
       }
     },
@@ -691,19 +599,29 @@ export default function ExpensesPage() {
             </Tooltip>
           )}
           
-          {expense.status === "PENDING" && (
-            <Tooltip title="Approve">
-              <Button
-                size="small"
-                type="primary"
-                icon={<CheckOutlined />}
-                onClick={() => handleApproveExpense(expense)}
-                style={{ backgroundColor: '#52c41a', borderColor: '#52c41a' }}
-              />
-            </Tooltip>
+          {expense.status === "PENDING" && approvalFor(expense).actAs && (
+            <>
+              <Tooltip title="Approve">
+                <Button
+                  size="small"
+                  type="primary"
+                  icon={<CheckOutlined />}
+                  onClick={() => handleApproveExpense(expense)}
+                  style={{ backgroundColor: '#52c41a', borderColor: '#52c41a' }}
+                />
+              </Tooltip>
+              <Tooltip title="Reject">
+                <Button
+                  size="small"
+                  danger
+                  icon={<CloseOutlined />}
+                  onClick={() => handleRejectExpense(expense)}
+                />
+              </Tooltip>
+            </>
           )}
           
-          {(expense.status === "APPROVED" || expense.status === "PENDING") && (
+          {expense.status === "APPROVED" && (
             <Tooltip title="Pay">
               <Button
                 size="small"
@@ -757,6 +675,13 @@ export default function ExpensesPage() {
               loading={loading}
               style={{ borderRadius: 8 }}
             />
+            <Link href="/accounts-advances/expenses/approvals">
+              <Badge count={awaitingMe} size="small">
+                <Button icon={<AuditOutlined />} style={{ borderRadius: 8 }}>
+                  Approvals
+                </Button>
+              </Badge>
+            </Link>
             <Button 
               icon={<DownloadOutlined />} 
               onClick={() => setExportDrawerOpen(true)}
@@ -1091,7 +1016,8 @@ export default function ExpensesPage() {
                 fileList={uploadedFile ? [{
                   uid: '-1',
                   name: uploadedFile.name,
-                  status: 'done',
+                  status: uploadPercent === null ? 'done' : 'uploading',
+                  percent: uploadPercent ?? undefined,
                   url: ''
                 }] : []}
               >
@@ -1116,9 +1042,9 @@ export default function ExpensesPage() {
                   <Space>
                     <DownloadOutlined style={{ color: '#1677ff' }} />
                     <a 
-                      href={editingExpense.attachment_url} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
+                      onClick={() => {
+                        if (editingExpense.attachment_url) void openAttachment(editingExpense.attachment_url);
+                      }}
                       style={{ color: '#1677ff', fontWeight: 500 }}
                     >
                       View Current Attachment
@@ -1298,13 +1224,7 @@ export default function ExpensesPage() {
                         <Button 
                           icon={<DownloadOutlined />}
                           onClick={() => {
-                            if (viewingExpense.attachment_url) {
-                              // Check if it's a full URL or a path
-                              const url = viewingExpense.attachment_url.startsWith('http') 
-                                ? viewingExpense.attachment_url 
-                                : `http://localhost:8000${viewingExpense.attachment_url}`;
-                              window.open(url, '_blank');
-                            }
+                            if (viewingExpense.attachment_url) void openAttachment(viewingExpense.attachment_url);
                           }}
                           style={{ borderRadius: 8 }}
                         >
@@ -1369,6 +1289,23 @@ export default function ExpensesPage() {
               </Row>
             </Card>
 
+            <Card title="Approval Trail" size="small" style={{ borderRadius: 12, marginTop: 20 }}>
+              {viewingExpense.status === "REJECTED" && viewingExpense.rejection_reason && (
+                <Typography.Paragraph type="danger">
+                  Rejected: {viewingExpense.rejection_reason}
+                </Typography.Paragraph>
+              )}
+              {viewingExpense.status === "PENDING" && (
+                <Typography.Paragraph type="secondary">
+                  {(() => {
+                    const approval = approvalFor(viewingExpense);
+                    return `${approval.approved} of ${approval.required} approval${approval.required === 1 ? "" : "s"}${approval.blocked ? ` · ${approval.blocked}` : ""}`;
+                  })()}
+                </Typography.Paragraph>
+              )}
+              <ExpenseApprovalTrail expense={viewingExpense} />
+            </Card>
+
             <div style={{ marginTop: 20, textAlign: 'center' }}>
               <Space>
                 {/* Edit button available for all statuses except rejected */}
@@ -1385,25 +1322,38 @@ export default function ExpensesPage() {
                   </Button>
                 )}
                 
-                {viewingExpense.status === "PENDING" && (
-                  <Button
-                    type="primary"
-                    icon={<CheckOutlined />}
-                    onClick={() => {
-                      setViewDrawerOpen(false);
-                      handleApproveExpense(viewingExpense);
-                    }}
-                    style={{ 
-                      backgroundColor: '#52c41a', 
-                      borderColor: '#52c41a',
-                      borderRadius: 8
-                    }}
-                  >
-                    Approve
-                  </Button>
+                {viewingExpense.status === "PENDING" && approvalFor(viewingExpense).actAs && (
+                  <>
+                    <Button
+                      type="primary"
+                      icon={<CheckOutlined />}
+                      onClick={() => {
+                        setViewDrawerOpen(false);
+                        handleApproveExpense(viewingExpense);
+                      }}
+                      style={{ 
+                        backgroundColor: '#52c41a', 
+                        borderColor: '#52c41a',
+                        borderRadius: 8
+                      }}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      danger
+                      icon={<CloseOutlined />}
+                      onClick={() => {
+                        setViewDrawerOpen(false);
+                        handleRejectExpense(viewingExpense);
+                      }}
+                      style={{ borderRadius: 8 }}
+                    >
+                      Reject
+                    </Button>
+                  </>
                 )}
                 
-                {(viewingExpense.status === "APPROVED" || viewingExpense.status === "PENDING") && (
+                {viewingExpense.status === "APPROVED" && (
                   <Button
                     type="primary"
                     icon={<CreditCardOutlined />}
@@ -1559,6 +1509,16 @@ export default function ExpensesPage() {
           </Form.Item>
         </Form>
       </Drawer>
+
+      <ExpenseDecisionModal
+        decision={decision}
+        onClose={() => setDecision(null)}
+        onDone={(updated) => {
+          msg.success(`Expense ${updated.status.toLowerCase()}`);
+          setDecision(null);
+          void loadData();
+        }}
+      />
     </>
   );
 }
\ No newline at end of file
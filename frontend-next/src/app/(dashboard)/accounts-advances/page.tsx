@@ -4,7 +4,7 @@ import { Card, Col, Row, Statistic, Button, Space } from "antd";
 import { TeamOutlined, DollarOutlined, CreditCardOutlined, FileTextOutlined } from "@ant-design/icons";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import { formatRs } from "@/lib/money";
 import dayjs from "dayjs";
 
@@ -37,9 +37,7 @@ export default function AccountsPage() {
         const month = dayjs().format("YYYY-MM");
         
         // Load expenses summary
-        const expensesSummary = await api.get("/api/expenses/summary/monthly", {
-          query: { month }
-        });
+        const expensesSummary = await sdk.expenses.monthlySummary(month);
 
         // For now, we'll use mock data for employees summary
         // In a real implementation, you'd create an endpoint for this
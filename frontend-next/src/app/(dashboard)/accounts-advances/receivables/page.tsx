@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button, Card, Col, DatePicker, Row, Space, Statistic, Table, Typography, message } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { DownloadOutlined, ReloadOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { AGING_BUCKETS, buildAging, type AgingRow } from "@/lib/receivables";
+import { sdk } from "@/lib/sdk";
+import type { ClientInvoice } from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function money(n: number): string {
+  return n ? n.toLocaleString("en-PK", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "-";
+}
+
+export default function ReceivablesPage() {
+  const [msg, msgCtx] = message.useMessage();
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [invoices, setInvoices] = useState<ClientInvoice[]>([]);
+  const [clientNames, setClientNames] = useState<Map<number, string>>(new Map());
+  const [asOf, setAsOf] = useState(() => dayjs());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [inv, clients] = await Promise.all([sdk.clients.receivables(), sdk.clients.list()]);
+
+      // Opened from a ledger entry (?invoice=<id> or ?receipt=<id>): go to the invoice on its client's page
+      const params = new URLSearchParams(window.location.search);
+      const invoiceId = Number(params.get("invoice"));
+      const receiptId = Number(params.get("receipt"));
+      if (invoiceId || receiptId) {
+        const target = (inv ?? []).find((i) =>
+          invoiceId ? i.id === invoiceId : (i.receipts ?? []).some((r) => r.id === receiptId)
+        );
+        if (target) {
+          router.replace(`/client-management/clients/${target.client_id}?invoice=${target.id}`);
+          return;
+        }
+        msg.warning(invoiceId ? "Invoice not found" : "Receipt not found");
+      }
+
+      setInvoices(Array.isArray(inv) ? inv : []);
+      setClientNames(new Map((clients ?? []).map((c) => [c.id, c.client_name])));
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load receivables"));
+    } finally {
+      setLoading(false);
+    }
+  }, [msg, router]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const rows = useMemo(
+    () => buildAging(invoices, asOf.format("YYYY-MM-DD"), clientNames),
+    [asOf, clientNames, invoices]
+  );
+
+  const totals = useMemo(() => {
+    const buckets = Object.fromEntries(AGING_BUCKETS.map((b) => [b, 0])) as AgingRow["buckets"];
+    let total = 0;
+    for (const r of rows) {
+      for (const b of AGING_BUCKETS) buckets[b] += r.buckets[b];
+      total += r.total;
+    }
+    return { buckets, total };
+  }, [rows]);
+
+  const exportCsv = useCallback(() => {
+    const esc = (v: string | number) => {
+      const s = String(v);
+      return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+    const lines = [
+      ["Client", "Invoices", ...AGING_BUCKETS.map((b) => `${b} days`), "Total"].join(","),
+      ...rows.map((r) =>
+        [r.client_name, r.invoices, ...AGING_BUCKETS.map((b) => r.buckets[b].toFixed(2)), r.total.toFixed(2)]
+          .map(esc)
+          .join(",")
+      ),
+      ["Total", "", ...AGING_BUCKETS.map((b) => totals.buckets[b].toFixed(2)), totals.total.toFixed(2)].join(","),
+    ];
+    downloadBlob(
+      new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8" }),
+      `receivables_aging_${asOf.format("YYYY-MM-DD")}.csv`
+    );
+  }, [asOf, rows, totals]);
+
+  const columns = useMemo<ColumnsType<AgingRow>>(
+    () => [
+      {
+        title: "Client",
+        dataIndex: "client_name",
+        render: (v: string, r) => <Link href={`/client-management/clients/${r.client_id}`}>{v}</Link>,
+      },
+      { title: "Invoices", dataIndex: "invoices", width: 90, align: "right" },
+      ...AGING_BUCKETS.map((b) => ({
+        title: `${b} days`,
+        key: b,
+        width: 140,
+        align: "right" as const,
+        render: (_: unknown, r: AgingRow) => (
+          <Typography.Text type={b === "90+" && r.buckets[b] ? "danger" : undefined}>{money(r.buckets[b])}</Typography.Text>
+        ),
+      })),
+      {
+        title: "Total",
+        dataIndex: "total",
+        width: 150,
+        align: "right",
+        render: (v: number) => <Typography.Text strong>{money(v)}</Typography.Text>,
+      },
+    ],
+    []
+  );
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Receivables Aging</Typography.Text>
+              </div>
+              <Typography.Text type="secondary">Outstanding invoice balances by age, as of {asOf.format("DD MMM YYYY")}</Typography.Text>
+            </Col>
+            <Col>
+              <Space wrap>
+                <DatePicker allowClear={false} value={asOf} onChange={(v) => v && setAsOf(v)} />
+                <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading}>
+                  Refresh
+                </Button>
+                <Button icon={<DownloadOutlined />} onClick={exportCsv} disabled={!rows.length}>
+                  Export CSV
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          <Row gutter={[12, 12]}>
+            {AGING_BUCKETS.map((b) => (
+              <Col key={b} xs={12} md={4}>
+                <Statistic title={`${b} days`} value={totals.buckets[b]} prefix="Rs" precision={2} />
+              </Col>
+            ))}
+            <Col xs={24} md={8}>
+              <Statistic title="Total Outstanding" value={totals.total} prefix="Rs" precision={2} />
+            </Col>
+          </Row>
+
+          <Table<AgingRow>
+            size="small"
+            rowKey={(r) => r.client_id}
+            loading={loading}
+            dataSource={rows}
+            columns={columns}
+            pagination={false}
+            summary={() =>
+              rows.length ? (
+                <Table.Summary.Row>
+                  <Table.Summary.Cell index={0}>
+                    <Typography.Text strong>Total</Typography.Text>
+                  </Table.Summary.Cell>
+                  <Table.Summary.Cell index={1} align="right">
+                    {rows.reduce((a, r) => a + r.invoices, 0)}
+                  </Table.Summary.Cell>
+                  {AGING_BUCKETS.map((b, i) => (
+                    <Table.Summary.Cell key={b} index={i + 2} align="right">
+                      <Typography.Text strong>{money(totals.buckets[b])}</Typography.Text>
+                    </Table.Summary.Cell>
+                  ))}
+                  <Table.Summary.Cell index={AGING_BUCKETS.length + 2} align="right">
+                    <Typography.Text strong>{money(totals.total)}</Typography.Text>
+                  </Table.Summary.Cell>
+                </Table.Summary.Row>
+              ) : null
+            }
+          />
+        </Space>
+      </Card>
+    </>
+  );
+}
@@ -18,12 +18,11 @@ import type { ColumnsType } from "antd/es/table";
 import { ReloadOutlined } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
+import { sdk, type AssignmentPeriodQuery } from "@/lib/sdk";
 import type {
   Employee,
   Vehicle,
   VehicleAssignment,
-  VehicleAssignmentAnalyticsResponse,
 } from "@/lib/types";
 
 type Filters = {
@@ -136,11 +135,11 @@ export default function AssignmentEfficiencyPage() {
   const loadLookups = useCallback(async () => {
     try {
       const [v, e] = await Promise.all([
-        api.get<Vehicle[]>("/api/vehicles/", { query: { limit: 1000 } }),
-        api.get<Employee[]>("/api/employees/", { query: { skip: 0, limit: 2000, with_total: false } }),
+        sdk.vehicles.list(1000),
+        sdk.employees.list({ skip: 0, limit: 2000, with_total: false }),
       ]);
       setVehicles(Array.isArray(v) ? v : []);
-      setEmployees(Array.isArray(e) ? e : []);
+      setEmployees(Array.isArray(e?.employees) ? e.employees : []);
     } catch {
       setVehicles([]);
       setEmployees([]);
@@ -169,7 +168,7 @@ export default function AssignmentEfficiencyPage() {
   const loadVehicleCounts = useCallback(async () => {
     setCountsLoading(true);
     try {
-      const q: Record<string, string | number | undefined> = {
+      const q: AssignmentPeriodQuery = {
         period: filters.period,
       };
       if (filters.period === "day") {
@@ -180,7 +179,7 @@ export default function AssignmentEfficiencyPage() {
         q.year = Number(filters.year ?? dayjs().year());
       }
 
-      const res = await api.get<VehicleAssignmentAnalyticsResponse>("/api/vehicle-assignments/analytics", { query: q });
+      const res = await sdk.vehicleAssignments.analytics(q);
       const m: Record<string, number> = {};
       for (const r of res?.rows ?? []) {
         m[String(r.vehicle_id)] = Number(r.assignments ?? 0);
@@ -200,14 +199,12 @@ export default function AssignmentEfficiencyPage() {
     }
     setVehicleLoading(true);
     try {
-      const list = await api.get<VehicleAssignment[]>("/api/vehicle-assignments/", {
-        query: {
-          vehicle_id: filters.vehicle_id,
-          status: "Complete",
-          from_date: periodRange.from,
-          to_date: periodRange.to,
-          limit: 5000,
-        },
+      const list = await sdk.vehicleAssignments.list({
+        vehicle_id: filters.vehicle_id,
+        status: "Complete",
+        from_date: periodRange.from,
+        to_date: periodRange.to,
+        limit: 5000,
       });
       setVehicleAssignments(Array.isArray(list) ? list : []);
     } catch (e: unknown) {
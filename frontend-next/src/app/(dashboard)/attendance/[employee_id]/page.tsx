@@ -6,20 +6,8 @@ import dayjs from "dayjs";
 import { ArrowLeftOutlined, DownloadOutlined, ReloadOutlined } from "@ant-design/icons";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
-
-type AttendanceDayRow = {
-  date: string;
-  status: string;
-  leave_type?: string | null;
-  overtime_minutes?: number | null;
-  overtime_rate?: number | null;
-  late_minutes?: number | null;
-  late_deduction?: number | null;
-  fine_amount?: number | null;
-  note?: string | null;
-};
+import { sdk } from "@/lib/sdk";
+import type { AttendanceDayRow } from "@/lib/types";
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -29,17 +17,6 @@ function errorMessage(e: unknown, fallback: string): string {
   return fallback;
 }
 
-function downloadBlob(blob: Blob, filename: string) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
-
 export default function EmployeeAttendancePage() {
   const [msg, msgCtx] = message.useMessage();
   const router = useRouter();
@@ -73,10 +50,8 @@ export default function EmployeeAttendancePage() {
     try {
       const from = fromDate.format("YYYY-MM-DD");
       const to = toDate.format("YYYY-MM-DD");
-      const res = await api.get<any>(`/api/attendance/employee/${encodeURIComponent(employeeId)}`, {
-        query: { from_date: from, to_date: to },
-      });
-      setRows(Array.isArray(res?.rows) ? (res.rows as AttendanceDayRow[]) : []);
+      const res = await sdk.attendance.employee(employeeId, from, to);
+      setRows(Array.isArray(res?.rows) ? res.rows : []);
     } catch (e: unknown) {
       setRows([]);
       msg.error(errorMessage(e, "Failed to load employee attendance"));
@@ -90,11 +65,9 @@ export default function EmployeeAttendancePage() {
     if (!employeeId) return;
     try {
       // Try to find employee by fss_no or serial_no
-      const res = await api.get<any>("/api/employees2/", {
-        query: { skip: 0, limit: 500 },
-      });
+      const res = await sdk.employees2.list({ skip: 0, limit: 500 });
       const employees = res?.employees || [];
-      const emp = employees.find((e: any) => 
+      const emp = employees.find((e) => 
         String(e.fss_no || e.serial_no || e.id) === employeeId
       );
       if (emp) {
@@ -117,11 +90,7 @@ export default function EmployeeAttendancePage() {
       const from = fromDate.format("YYYY-MM-DD");
       const to = toDate.format("YYYY-MM-DD");
 
-      const url = `${API_BASE_URL}/api/attendance/employee/${encodeURIComponent(employeeId)}/export/pdf?from_date=${encodeURIComponent(from)}&to_date=${encodeURIComponent(to)}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`Export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, `attendance_${employeeId}_${from}_${to}.pdf`);
+      await sdk.attendance.employeeExportPdf(employeeId, from, to);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to export PDF"));
     } finally {
@@ -0,0 +1,499 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tag,
+  Typography,
+  Upload,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { ArrowLeftOutlined, CloudUploadOutlined, InboxOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+
+import { sdk } from "@/lib/sdk";
+import { DEFAULT_TIME_RULES, deriveAttendanceTimes } from "@/lib/attendanceTime";
+import {
+  loadDeviceMap,
+  matchDeviceIds,
+  pairPunches,
+  parsePunchLog,
+  saveDeviceMap,
+  type PairedShift,
+  type Punch,
+} from "@/lib/biometricImport";
+import type {
+  AttendanceRecordOut,
+  AttendanceTimeRules,
+  AttendanceUpsert,
+  Employee2,
+  RosterShift,
+} from "@/lib/types";
+
+type PreviewRow = PairedShift & {
+  key: string;
+  name: string;
+  existing?: AttendanceRecordOut;
+  late_minutes: number;
+  overtime_minutes: number;
+  overtime_rate: number | null;
+  late_deduction: number;
+  check_in_at: string;
+  check_out_at: string | null;
+  state: "new" | "update" | "unchanged" | "conflict";
+  conflict?: string;
+};
+
+const STATE_TAGS: Record<PreviewRow["state"], { color: string; label: string }> = {
+  new: { color: "green", label: "New" },
+  update: { color: "blue", label: "Update" },
+  unchanged: { color: "default", label: "Unchanged" },
+  conflict: { color: "red", label: "Conflict" },
+};
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function employeeCode(e: Employee2): string {
+  return String(e.fss_no || e.serial_no || e.id);
+}
+
+function hhmm(stamp?: string | null): string | undefined {
+  return stamp ? dayjs(stamp).format("HH:mm") : undefined;
+}
+
+export default function AttendanceImportPage() {
+  const [msg, msgCtx] = message.useMessage();
+  const router = useRouter();
+
+  const [employees, setEmployees] = useState<Employee2[]>([]);
+  const [timeRules, setTimeRules] = useState<AttendanceTimeRules>(DEFAULT_TIME_RULES);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [punches, setPunches] = useState<Punch[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [deviceMap, setDeviceMap] = useState<Record<string, string>>({});
+
+  const [existing, setExisting] = useState<Map<string, AttendanceRecordOut>>(new Map());
+  const [rosterShifts, setRosterShifts] = useState<RosterShift[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [committing, setCommitting] = useState(false);
+
+  useEffect(() => {
+    setDeviceMap(loadDeviceMap());
+    void (async () => {
+      try {
+        const [emps, rules] = await Promise.all([
+          sdk.employees2.listAll(),
+          sdk.attendance.timeRules().catch(() => DEFAULT_TIME_RULES),
+        ]);
+        setEmployees(emps);
+        setTimeRules(rules);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to load employees"));
+      }
+    })();
+  }, [msg]);
+
+  const nameByCode = useMemo(() => new Map(employees.map((e) => [employeeCode(e), e.name])), [employees]);
+  const rankByCode = useMemo(() => new Map(employees.map((e) => [employeeCode(e), e.rank])), [employees]);
+
+  const deviceIds = useMemo(() => [...new Set(punches.map((p) => p.device_id))], [punches]);
+
+  const mapping = useMemo(
+    () =>
+      matchDeviceIds(
+        deviceIds,
+        employees.map((e) => ({ employee_id: employeeCode(e), aliases: [e.fss_no, e.serial_no, String(e.id)] })),
+        deviceMap
+      ),
+    [deviceIds, deviceMap, employees]
+  );
+
+  const unmatched = useMemo(
+    () =>
+      deviceIds
+        .filter((id) => !mapping.has(id))
+        .map((id) => ({ device_id: id, punches: punches.filter((p) => p.device_id === id).length })),
+    [deviceIds, mapping, punches]
+  );
+
+  const shifts = useMemo(() => pairPunches(punches, mapping), [mapping, punches]);
+  const dates = useMemo(() => [...new Set(shifts.map((s) => s.date))].sort(), [shifts]);
+
+  // Saved attendance and published roster for the days in the file, to compare against
+  useEffect(() => {
+    if (!dates.length) {
+      setExisting(new Map());
+      setRosterShifts([]);
+      return;
+    }
+    let cancelled = false;
+    setChecking(true);
+    void (async () => {
+      try {
+        const [range, roster] = await Promise.all([
+          sdk.attendance.range(dates[0], dates[dates.length - 1]),
+          sdk.roster
+            .shifts({ from_date: dates[0], to_date: dates[dates.length - 1], published_only: true })
+            .catch(() => [] as RosterShift[]),
+        ]);
+        if (cancelled) return;
+        const m = new Map<string, AttendanceRecordOut>();
+        for (const r of range.records ?? []) m.set(`${r.employee_id}|${r.date}`, r);
+        setExisting(m);
+        setRosterShifts(Array.isArray(roster) ? roster : []);
+      } catch (e: unknown) {
+        if (!cancelled) msg.error(errorMessage(e, "Failed to load saved attendance"));
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [dates, msg]);
+
+  const shiftFor = useMemo(() => {
+    const codeByDbId = new Map(employees.map((e) => [e.id, employeeCode(e)]));
+    const m = new Map<string, RosterShift>();
+    for (const sh of rosterShifts) {
+      if (sh.employee_db_id) m.set(`${codeByDbId.get(sh.employee_db_id) ?? sh.employee_db_id}|${sh.date}`, sh);
+    }
+    return m;
+  }, [employees, rosterShifts]);
+
+  const preview = useMemo<PreviewRow[]>(() => {
+    const seen = new Set<string>();
+    return shifts.map((s) => {
+      const key = `${s.employee_id}|${s.date}`;
+      const roster = shiftFor.get(key);
+      const derived = deriveAttendanceTimes({
+        date: s.date,
+        check_in: s.check_in,
+        check_out: s.check_out,
+        shift_start: roster?.shift_start,
+        shift_end: roster?.shift_end,
+        designation: rankByCode.get(s.employee_id),
+        rules: timeRules,
+      });
+      const rec = existing.get(key);
+      let state: PreviewRow["state"] = rec ? "update" : "new";
+      let conflict: string | undefined;
+      if (seen.has(key)) {
+        state = "conflict";
+        conflict = "Second shift started the same day";
+      } else if (rec && rec.status !== "present" && rec.status !== "late" && rec.status !== "unmarked") {
+        state = "conflict";
+        conflict = `Already marked ${rec.status}`;
+      } else if (rec?.override_reason) {
+        state = "conflict";
+        conflict = `Supervisor override: ${rec.override_reason}`;
+      } else if (rec?.check_in) {
+        const same = hhmm(rec.check_in) === s.check_in && hhmm(rec.check_out) === s.check_out;
+        state = same ? "unchanged" : "conflict";
+        if (!same) conflict = `Saved clock ${hhmm(rec.check_in)}–${hhmm(rec.check_out) ?? "?"}`;
+      }
+      seen.add(key);
+      return {
+        ...s,
+        key: `${key}|${s.check_in}`,
+        name: nameByCode.get(s.employee_id) ?? s.employee_id,
+        existing: rec,
+        late_minutes: derived?.late_minutes ?? 0,
+        overtime_minutes: derived?.overtime_minutes ?? 0,
+        overtime_rate: derived?.overtime_rate ?? null,
+        late_deduction: derived?.late_deduction ?? 0,
+        check_in_at: derived?.check_in_at ?? `${s.date}T${s.check_in}:00`,
+        check_out_at: derived?.check_out_at ?? null,
+        state,
+        conflict,
+      };
+    });
+  }, [existing, nameByCode, rankByCode, shiftFor, shifts, timeRules]);
+
+  // New rows and clean updates go in by default; conflicts have to be ticked deliberately
+  useEffect(() => {
+    setSelectedKeys(preview.filter((r) => r.state === "new" || r.state === "update").map((r) => r.key));
+  }, [preview]);
+
+  const counts = useMemo(() => {
+    const c = { new: 0, update: 0, unchanged: 0, conflict: 0 };
+    for (const r of preview) c[r.state] += 1;
+    return c;
+  }, [preview]);
+
+  const readFile = useCallback(async (file: File) => {
+    const log = parsePunchLog(await file.text());
+    setFileName(file.name);
+    setPunches(log.punches);
+    setParseErrors(log.errors);
+  }, []);
+
+  const mapDevice = useCallback((deviceId: string, code?: string) => {
+    setDeviceMap((prev) => {
+      const next = { ...prev };
+      if (code) next[deviceId] = code;
+      else delete next[deviceId];
+      saveDeviceMap(next);
+      return next;
+    });
+  }, []);
+
+  const commit = useCallback(async () => {
+    const chosen = new Set(selectedKeys);
+    const byDate = new Map<string, AttendanceUpsert[]>();
+    for (const r of preview) {
+      if (!chosen.has(r.key)) continue;
+      const rec = r.existing;
+      byDate.set(r.date, [
+        ...(byDate.get(r.date) ?? []),
+        {
+          employee_id: r.employee_id,
+          status: "present",
+          note: rec?.note ?? null,
+          overtime_minutes: r.overtime_minutes || null,
+          overtime_rate: r.overtime_rate ?? rec?.overtime_rate ?? null,
+          late_minutes: r.late_minutes || null,
+          late_deduction: r.late_deduction || null,
+          leave_type: null,
+          fine_amount: rec?.fine_amount ?? 0,
+          check_in: r.check_in_at,
+          check_out: r.check_out_at,
+          override_reason: null,
+        },
+      ]);
+    }
+    if (!byDate.size) {
+      msg.info("Nothing selected to import");
+      return;
+    }
+    setCommitting(true);
+    let saved = 0;
+    try {
+      for (const [date, records] of [...byDate].sort(([a], [b]) => a.localeCompare(b))) {
+        await sdk.attendance.bulkUpsert({ date, records });
+        saved += records.length;
+      }
+      msg.success(`Imported ${saved} attendance record(s) over ${byDate.size} day(s)`);
+      setPunches([]);
+      setParseErrors([]);
+      setFileName(null);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, `Import stopped after ${saved} record(s)`));
+    } finally {
+      setCommitting(false);
+    }
+  }, [msg, preview, selectedKeys]);
+
+  const employeeOptions = useMemo(
+    () => employees.map((e) => ({ label: `${employeeCode(e)} — ${e.name}`, value: employeeCode(e) })),
+    [employees]
+  );
+
+  const columns: ColumnsType<PreviewRow> = [
+    { key: "date", title: "Date", dataIndex: "date", width: 110 },
+    {
+      key: "employee",
+      title: "Employee",
+      render: (_, r) => (
+        <Space orientation="vertical" size={0}>
+          <Typography.Text>{r.name}</Typography.Text>
+          <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+            {r.employee_id} · device {r.device_id}
+          </Typography.Text>
+        </Space>
+      ),
+    },
+    {
+      key: "clock",
+      title: "Clock in / out",
+      width: 130,
+      render: (_, r) => `${r.check_in} – ${r.check_out ?? "?"}`,
+    },
+    {
+      key: "late",
+      title: "Late",
+      width: 80,
+      render: (_, r) => (r.late_minutes ? `${r.late_minutes}m` : "-"),
+    },
+    {
+      key: "ot",
+      title: "OT",
+      width: 80,
+      render: (_, r) => (r.overtime_minutes ? `${r.overtime_minutes}m` : "-"),
+    },
+    {
+      key: "state",
+      title: "Status",
+      width: 260,
+      render: (_, r) => (
+        <Space size={4} wrap>
+          <Tag color={STATE_TAGS[r.state].color}>{STATE_TAGS[r.state].label}</Tag>
+          {r.conflict ? <Typography.Text type="danger">{r.conflict}</Typography.Text> : null}
+          {!r.check_out ? <Tag color="orange">No check-out</Tag> : null}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Attendance Import</Typography.Text>
+              </div>
+              <Typography.Text type="secondary">Punch logs from fingerprint terminals (CSV or TXT)</Typography.Text>
+            </Col>
+            <Col>
+              <Space wrap>
+                <Button icon={<ArrowLeftOutlined />} onClick={() => router.push("/attendance")}>
+                  Back
+                </Button>
+                <Button
+                  type="primary"
+                  icon={<CloudUploadOutlined />}
+                  loading={committing}
+                  disabled={checking || !selectedKeys.length}
+                  onClick={() => void commit()}
+                >
+                  Import {selectedKeys.length ? `(${selectedKeys.length})` : ""}
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          <Upload.Dragger
+            accept=".csv,.txt,.dat,.log"
+            multiple={false}
+            showUploadList={false}
+            beforeUpload={(file) => {
+              void readFile(file);
+              return Upload.LIST_IGNORE;
+            }}
+          >
+            <p className="ant-upload-drag-icon">
+              <InboxOutlined />
+            </p>
+            <p className="ant-upload-text">{fileName ?? "Click or drop a punch log here"}</p>
+            <p className="ant-upload-hint">
+              Device user ID and timestamp per line, e.g. an attlog export or a CSV with User ID and Time columns
+            </p>
+          </Upload.Dragger>
+
+          {parseErrors.length ? (
+            <Alert
+              type="warning"
+              showIcon
+              message={`${parseErrors.length} line(s) skipped`}
+              description={parseErrors.slice(0, 5).join("; ") + (parseErrors.length > 5 ? " …" : "")}
+            />
+          ) : null}
+
+          {punches.length ? (
+            <Row gutter={[8, 8]}>
+              <Col xs={12} sm={6} md={4}>
+                <Card size="small" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+                  <Statistic title="Punches" value={punches.length} />
+                </Card>
+              </Col>
+              <Col xs={12} sm={6} md={4}>
+                <Card size="small" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+                  <Statistic title="Shifts" value={preview.length} />
+                </Card>
+              </Col>
+              <Col xs={12} sm={6} md={4}>
+                <Card size="small" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+                  <Statistic title="New" value={counts.new} loading={checking} />
+                </Card>
+              </Col>
+              <Col xs={12} sm={6} md={4}>
+                <Card size="small" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+                  <Statistic title="Updates" value={counts.update} loading={checking} />
+                </Card>
+              </Col>
+              <Col xs={12} sm={6} md={4}>
+                <Card size="small" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+                  <Statistic title="Conflicts" value={counts.conflict} loading={checking} />
+                </Card>
+              </Col>
+              <Col xs={12} sm={6} md={4}>
+                <Card size="small" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+                  <Statistic title="Unmatched IDs" value={unmatched.length} />
+                </Card>
+              </Col>
+            </Row>
+          ) : null}
+
+          {unmatched.length ? (
+            <Card size="small" title="Unmatched device IDs" style={{ borderRadius: 0 }}>
+              <Table
+                size="small"
+                rowKey="device_id"
+                pagination={false}
+                dataSource={unmatched}
+                columns={[
+                  { key: "device_id", title: "Device ID", dataIndex: "device_id", width: 140 },
+                  { key: "punches", title: "Punches", dataIndex: "punches", width: 100 },
+                  {
+                    key: "employee",
+                    title: "Employee",
+                    render: (_, r) => (
+                      <Select
+                        size="small"
+                        showSearch
+                        allowClear
+                        optionFilterProp="label"
+                        placeholder="Map to employee"
+                        style={{ width: "100%", maxWidth: 360 }}
+                        options={employeeOptions}
+                        value={deviceMap[r.device_id]}
+                        onChange={(v) => mapDevice(r.device_id, v)}
+                      />
+                    ),
+                  },
+                ]}
+              />
+            </Card>
+          ) : null}
+
+          {preview.length ? (
+            <Table<PreviewRow>
+              size="small"
+              rowKey="key"
+              loading={checking}
+              dataSource={preview}
+              columns={columns}
+              pagination={{ pageSize: 50 }}
+              rowSelection={{
+                selectedRowKeys: selectedKeys,
+                onChange: (keys) => setSelectedKeys(keys.map(String)),
+                getCheckboxProps: (r) => ({ disabled: r.state === "unchanged" }),
+              }}
+            />
+          ) : null}
+        </Space>
+      </Card>
+    </>
+  );
+}
@@ -18,31 +18,63 @@ import {
   Statistic,
   Tag,
   Table,
+  TimePicker,
   Typography,
 } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import dayjs from "dayjs";
 import {
+  ClockCircleOutlined,
+  DeleteOutlined,
   DownloadOutlined,
+  ImportOutlined,
+  PlusOutlined,
   ReloadOutlined,
   SaveOutlined,
 } from "@ant-design/icons";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { api } from "@/lib/api";
+import {
+  baselineFrom,
+  deleteDraft,
+  discardOutboxItem,
+  enqueueAttendance,
+  flushAttendanceOutbox,
+  isOnline,
+  listOutbox,
+  loadDraft,
+  resolveConflict,
+  retryOutboxItem,
+  saveDraft,
+  useAttendanceSync,
+  type AttendanceBaseline,
+  type OutboxItem,
+} from "@/lib/attendanceOutbox";
+import { DEFAULT_TIME_RULES, deriveAttendanceTimes, onDuty, timeFigures } from "@/lib/attendanceTime";
+import { useAuth } from "@/lib/auth";
+import { idbAvailable } from "@/lib/idb";
+import { leaveDays, loadLeaveBalances, type LeaveBalance } from "@/lib/leaveBalance";
+import { refreshLeaveInbox } from "@/lib/leaveInbox";
+import { rosteredGuards } from "@/lib/roster";
+import { sdk } from "@/lib/sdk";
 import type {
   AttendanceBulkUpsert,
-  AttendanceListResponse,
   AttendanceRow,
   AttendanceStatus,
+  AttendanceSummary,
+  AttendanceUpsert,
+  Client,
+  ClientGuardRequirement,
+  ClientSite,
   Employee2,
-  Employee2ListResponse,
   LeavePeriodAlert,
   LeavePeriodCreate,
   LeavePeriodOut,
   LeaveType,
+  AttendanceRateRow,
+  AttendanceTimeRules,
+  RosterShift,
 } from "@/lib/types";
-import { API_BASE_URL } from "@/lib/config";
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -52,18 +84,39 @@ function errorMessage(e: unknown, fallback: string): string {
   return fallback;
 }
 
-function toMinutesFromHours(hours?: number): number | null {
-  if (hours === undefined || hours === null) return null;
-  if (Number.isNaN(hours)) return null;
-  const mins = Math.round(hours * 60);
-  return mins > 0 ? mins : 0;
-}
-
 function hoursFromMinutes(mins?: number | null): number | undefined {
   if (mins === undefined || mins === null) return undefined;
   return Math.round((mins / 60) * 100) / 100;
 }
 
+function clockFields(rec?: Pick<AttendanceUpsert, "check_in" | "check_out" | "override_reason"> | null) {
+  return {
+    check_in: rec?.check_in ? dayjs(rec.check_in).format("HH:mm") : undefined,
+    check_out: rec?.check_out ? dayjs(rec.check_out).format("HH:mm") : undefined,
+    overridden: Boolean(rec?.override_reason),
+    override_reason: rec?.override_reason ?? undefined,
+  };
+}
+
+/** Shows a queued (not yet synced) record on the sheet the same way a saved one would load. */
+function applyQueued(row: AttendanceRow, rec: AttendanceUpsert): AttendanceRow {
+  const st = (rec.status ?? "unmarked").toLowerCase();
+  const status: AttendanceStatus =
+    st === "absent" || st === "leave" || st === "late" || st === "present" ? st : "unmarked";
+  return {
+    ...row,
+    status,
+    leave_type: status === "leave" ? (rec.leave_type === "unpaid" ? "unpaid" : "paid") : "",
+    overtime_hours: onDuty(status) ? hoursFromMinutes(rec.overtime_minutes ?? null) : undefined,
+    overtime_rate: onDuty(status) ? (rec.overtime_rate ?? undefined) : undefined,
+    late_hours: onDuty(status) ? hoursFromMinutes(rec.late_minutes ?? null) : undefined,
+    late_deduction: onDuty(status) ? (rec.late_deduction ?? undefined) : undefined,
+    fine_amount: Number(rec.fine_amount ?? 0) || 0,
+    note: rec.note ?? "",
+    ...clockFields(rec),
+  };
+}
+
 function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -84,6 +137,7 @@ function csvEscape(v: unknown): string {
 export default function AttendancePage() {
   const [msg, msgCtx] = message.useMessage();
   const router = useRouter();
+  const { has } = useAuth();
 
   const [fromDate, setFromDate] = useState(dayjs());
   const [toDate, setToDate] = useState(dayjs());
@@ -96,20 +150,14 @@ export default function AttendancePage() {
   const [dirty, setDirty] = useState(false);
 
   const [summaryLoading, setSummaryLoading] = useState(false);
-  const [summary, setSummary] = useState<{
-    from_date: string;
-    to_date: string;
-    total: number;
-    unmarked: number;
-    present: number;
-    late: number;
-    absent: number;
-    leave: number;
-    fine_total: number;
-  } | null>(null);
+  const [summary, setSummary] = useState<AttendanceSummary | null>(null);
 
   const [rows, setRows] = useState<AttendanceRow[]>([]);
   const [initialStatusByEmployeeId, setInitialStatusByEmployeeId] = useState<Record<string, AttendanceStatus>>({});
+  // Server stamps the current sheet was loaded from; used to detect conflicting edits on replay
+  const [baseline, setBaseline] = useState<AttendanceBaseline>({});
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const sync = useAttendanceSync();
   const [search, setSearch] = useState<string>("");
 
   const [leaveAlertsLoading, setLeaveAlertsLoading] = useState(false);
@@ -121,6 +169,7 @@ export default function AttendancePage() {
   const [leaveType, setLeaveType] = useState<LeaveType>("paid");
   const [leaveReason, setLeaveReason] = useState<string>("");
   const [leaveSaving, setLeaveSaving] = useState(false);
+  const [leaveBalance, setLeaveBalance] = useState<LeaveBalance | null>(null);
 
   const [leaveInfoOpen, setLeaveInfoOpen] = useState(false);
   const [leaveInfoLoading, setLeaveInfoLoading] = useState(false);
@@ -131,9 +180,55 @@ export default function AttendancePage() {
   const [department, setDepartment] = useState<string | undefined>(undefined);
   const [designation, setDesignation] = useState<string | undefined>(undefined);
 
+  // Grace periods and OT/late rates used to derive figures from clock times
+  const [timeRules, setTimeRules] = useState<AttendanceTimeRules>(DEFAULT_TIME_RULES);
+  const [rulesDraft, setRulesDraft] = useState<AttendanceTimeRules | null>(null);
+  const [rulesSaving, setRulesSaving] = useState(false);
+
+  // Published roster for the selected day, used to scope the sheet to a site/shift
+  const [rosterClients, setRosterClients] = useState<Client[]>([]);
+  const [rosterClientId, setRosterClientId] = useState<number | undefined>(undefined);
+  const [rosterSites, setRosterSites] = useState<ClientSite[]>([]);
+  const [rosterSiteId, setRosterSiteId] = useState<number | undefined>(undefined);
+  const [siteRequirements, setSiteRequirements] = useState<ClientGuardRequirement[]>([]);
+  const [rosterRequirementId, setRosterRequirementId] = useState<number | undefined>(undefined);
+  const [rosterShifts, setRosterShifts] = useState<RosterShift[]>([]);
+  const [rosterEmployees, setRosterEmployees] = useState<Employee2[]>([]);
+
+  // Roster shifts reference employee DB ids; the sheet is keyed by the same code `load` gives each row
+  const codeByDbId = useMemo(
+    () => new Map(rosterEmployees.map((e) => [e.id, String(e.fss_no || e.serial_no || e.id)])),
+    [rosterEmployees]
+  );
+
+  // Each guard's published shift for the day, for late/OT against shift start and end
+  const shiftByCode = useMemo(() => {
+    const m = new Map<string, RosterShift>();
+    for (const sh of rosterShifts) {
+      if (sh.employee_db_id) m.set(codeByDbId.get(sh.employee_db_id) ?? String(sh.employee_db_id), sh);
+    }
+    return m;
+  }, [codeByDbId, rosterShifts]);
+
+  const toCodes = useCallback(
+    (ids: Set<number>) => new Set([...ids].map((id) => codeByDbId.get(id) ?? String(id))),
+    [codeByDbId]
+  );
+
+  const rosteredAnywhere = useMemo(() => toCodes(rosteredGuards(rosterShifts)), [rosterShifts, toCodes]);
+
+  const expected = useMemo(
+    () =>
+      rosterSiteId
+        ? toCodes(rosteredGuards(rosterShifts, { siteId: rosterSiteId, requirementId: rosterRequirementId }))
+        : null,
+    [rosterRequirementId, rosterShifts, rosterSiteId, toCodes]
+  );
+
   const filteredRows = useMemo(() => {
     const q = search.trim().toLowerCase();
     return rows.filter((r) => {
+      if (expected && !expected.has(r.employee_id)) return false;
       if (department && (r.department ?? "") !== department) return false;
       if (designation && !r.name) {
         // no-op
@@ -144,14 +239,25 @@ export default function AttendancePage() {
       }
       return true;
     });
-  }, [department, designation, rows, search]);
+  }, [department, designation, expected, rows, search]);
 
   const kpiRows = useMemo(() => {
     return rows.filter((r) => {
+      if (expected && !expected.has(r.employee_id)) return false;
       if (department && (r.department ?? "") !== department) return false;
       return true;
     });
-  }, [department, rows]);
+  }, [department, expected, rows]);
+
+  const expectedUnmarked = useMemo(
+    () => (rosterShifts.length ? kpiRows.filter((r) => rosteredAnywhere.has(r.employee_id) && r.status === "unmarked") : []),
+    [kpiRows, rosterShifts.length, rosteredAnywhere]
+  );
+
+  const markedNotRostered = useMemo(
+    () => (rosterShifts.length ? rows.filter((r) => r.status !== "unmarked" && !rosteredAnywhere.has(r.employee_id)) : []),
+    [rosterShifts.length, rosteredAnywhere, rows]
+  );
 
   const statusCounts = useMemo(() => {
     const c: Record<AttendanceStatus, number> = {
@@ -180,6 +286,59 @@ export default function AttendancePage() {
     setDirty(true);
   }, []);
 
+  // Clock times drive OT/late unless a supervisor has typed over them
+  const withDerived = useCallback(
+    (r: AttendanceRow): AttendanceRow => {
+      if (r.overridden) return r;
+      const shift = shiftByCode.get(r.employee_id);
+      const d = deriveAttendanceTimes({
+        date: fromDate.format("YYYY-MM-DD"),
+        check_in: r.check_in,
+        check_out: r.check_out,
+        shift_start: shift?.shift_start,
+        shift_end: shift?.shift_end,
+        designation: r.rank,
+        rules: timeRules,
+      });
+      if (!d) return r;
+      return {
+        ...r,
+        late_hours: hoursFromMinutes(d.late_minutes),
+        overtime_hours: hoursFromMinutes(d.overtime_minutes),
+        overtime_rate: d.overtime_rate ?? r.overtime_rate,
+        late_deduction: d.late_deduction,
+      };
+    },
+    [fromDate, shiftByCode, timeRules]
+  );
+
+  const setTimes = useCallback(
+    (employee_id: string, patch: Pick<AttendanceRow, "check_in" | "check_out">) => {
+      setRows((prev) => prev.map((r) => (r.employee_id === employee_id ? withDerived({ ...r, ...patch }) : r)));
+      setDirty(true);
+    },
+    [withDerived]
+  );
+
+  /** Typing OT/late by hand on a clocked row keeps the figures but asks for a reason. */
+  const overrideRow = useCallback(
+    (r: AttendanceRow, patch: Partial<AttendanceRow>) =>
+      setRow(r.employee_id, r.check_in ? { ...patch, overridden: true } : patch),
+    [setRow]
+  );
+
+  const clearOverride = useCallback(
+    (employee_id: string) => {
+      setRows((prev) =>
+        prev.map((r) =>
+          r.employee_id === employee_id ? withDerived({ ...r, overridden: false, override_reason: undefined }) : r
+        )
+      );
+      setDirty(true);
+    },
+    [withDerived]
+  );
+
   const normalizeRowForStatus = useCallback((employee_id: string, status: AttendanceStatus) => {
     setRows((prev) =>
       prev.map((r) => {
@@ -187,14 +346,18 @@ export default function AttendancePage() {
 
         const next: AttendanceRow = { ...r, status };
 
-        if (status !== "present") {
+        if (status !== "leave") {
+          next.leave_type = "";
+        }
+        if (!onDuty(status)) {
           next.overtime_hours = undefined;
           next.overtime_rate = undefined;
           next.late_hours = undefined;
           next.late_deduction = undefined;
-        }
-        if (status !== "leave") {
-          next.leave_type = "";
+          next.check_in = undefined;
+          next.check_out = undefined;
+          next.overridden = false;
+          next.override_reason = undefined;
         }
 
         return next;
@@ -206,23 +369,105 @@ export default function AttendancePage() {
   const loadMeta = useCallback(async () => {
     try {
       const [deptRes, desigRes] = await Promise.all([
-        api.get<{ departments: string[] }>("/api/employees/departments/list"),
-        api.get<{ designations: string[] }>("/api/employees/designations/list"),
+        sdk.employees.departments(),
+        sdk.employees.designations(),
       ]);
       setDepartments(deptRes.departments ?? []);
       setDesignations(desigRes.designations ?? []);
+      setTimeRules(await sdk.attendance.timeRules().catch(() => DEFAULT_TIME_RULES));
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load lists"));
     }
   }, [msg]);
 
+  const loadRoster = useCallback(async () => {
+    const dateStr = fromDate.format("YYYY-MM-DD");
+    try {
+      const shifts = await sdk.roster.shifts({ from_date: dateStr, to_date: dateStr, published_only: true });
+      setRosterShifts(Array.isArray(shifts) ? shifts : []);
+    } catch {
+      // No roster (or no access to it): the sheet falls back to listing everyone
+      setRosterShifts([]);
+    }
+  }, [fromDate]);
+
+  useEffect(() => {
+    void (async () => {
+      try {
+        const [cs, emps] = await Promise.all([sdk.clients.list(), sdk.employees2.listAll()]);
+        setRosterClients(Array.isArray(cs) ? cs : []);
+        setRosterEmployees(emps);
+      } catch {
+        setRosterClients([]);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    setRosterSiteId(undefined);
+    if (!rosterClientId) {
+      setRosterSites([]);
+      return;
+    }
+    void sdk.clients
+      .get(rosterClientId)
+      .then((d) => setRosterSites(d?.sites ?? []))
+      .catch(() => setRosterSites([]));
+  }, [rosterClientId]);
+
+  useEffect(() => {
+    setRosterRequirementId(undefined);
+    if (!rosterSiteId) {
+      setSiteRequirements([]);
+      return;
+    }
+    void sdk.sites
+      .requirements(rosterSiteId)
+      .then((r) => setSiteRequirements(Array.isArray(r) ? r : []))
+      .catch(() => setSiteRequirements([]));
+  }, [rosterSiteId]);
+
+  useEffect(() => {
+    if (singleDayMode) void loadRoster();
+  }, [loadRoster, singleDayMode]);
+
+  // Rostered guards missing from the master list still need a line to be marked on
+  useEffect(() => {
+    if (loading || rosterShifts.length === 0) return;
+    const byCode = new Map(rosterEmployees.map((e) => [String(e.fss_no || e.serial_no || e.id), e]));
+    setRows((prev) => {
+      const have = new Set(prev.map((r) => r.employee_id));
+      const missing = [...rosteredAnywhere].filter((code) => !have.has(code));
+      if (missing.length === 0) return prev;
+      return [
+        ...prev,
+        ...missing.map<AttendanceRow>((code) => {
+          const e = byCode.get(code);
+          return {
+            employee_id: code,
+            name: e?.name || code,
+            status: "unmarked",
+            leave_type: "",
+            fine_amount: 0,
+            note: "",
+          };
+        }),
+      ];
+    });
+  }, [loading, rosterEmployees, rosterShifts.length, rosteredAnywhere]);
+
+  const markRosteredPresent = useCallback(() => {
+    const ids = new Set(expectedUnmarked.map((r) => r.employee_id));
+    if (ids.size === 0) return;
+    setRows((prev) => prev.map((r) => (ids.has(r.employee_id) ? { ...r, status: "present" } : r)));
+    setDirty(true);
+  }, [expectedUnmarked]);
+
   const loadLeaveAlerts = useCallback(async () => {
     setLeaveAlertsLoading(true);
     try {
       const asOf = dayjs(toDate).format("YYYY-MM-DD");
-      const res = await api.get<LeavePeriodAlert[]>("/api/leave-periods/alerts", {
-        query: { as_of: asOf },
-      });
+      const res = await sdk.leavePeriods.alerts(asOf);
       setLeaveAlerts(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setLeaveAlerts([]);
@@ -236,13 +481,11 @@ export default function AttendancePage() {
     try {
       const from = dayjs(fromDate).format("YYYY-MM-DD");
       const to = dayjs(toDate).format("YYYY-MM-DD");
-      const res = await api.get<any>("/api/attendance/summary", {
-        query: {
-          from_date: from,
-          to_date: to,
-          department,
-          designation,
-        },
+      const res = await sdk.attendance.summary({
+        from_date: from,
+        to_date: to,
+        department,
+        designation,
       });
       setSummary({
         from_date: String(res?.from_date || from),
@@ -265,26 +508,13 @@ export default function AttendancePage() {
 
   const load = useCallback(async () => {
     setLoading(true);
+    const dateStr = fromDate.format("YYYY-MM-DD");
     try {
-      const dateStr = fromDate.format("YYYY-MM-DD");
 
       // Load employees (we want everyone existing up to the selected date)
-      const allEmployees: Employee2[] = [];
-      let skip = 0;
-      const limit = 200;
-      while (true) {
-        const res = await api.get<Employee2ListResponse>("/api/employees2/", {
-          query: { skip, limit, with_total: false },
-        });
-        const batch = res.employees ?? [];
-        allEmployees.push(...batch);
-        if (batch.length < limit) break;
-        skip += limit;
-      }
+      const allEmployees = await sdk.employees2.listAll();
 
-      const att = await api.get<AttendanceListResponse>("/api/attendance/", {
-        query: { date: dateStr },
-      });
+      const att = await sdk.attendance.list(dateStr);
 
       const byEmployeeId = new Map(att.records.map((r) => [r.employee_id, r]));
       const initial: Record<string, AttendanceStatus> = {};
@@ -323,12 +553,13 @@ export default function AttendancePage() {
                     ? "unpaid"
                     : "paid")
                 : "",
-            overtime_hours: status === "present" ? hoursFromMinutes(rec?.overtime_minutes ?? null) : undefined,
-            overtime_rate: status === "present" ? (rec?.overtime_rate ?? undefined) : undefined,
-            late_hours: status === "present" ? hoursFromMinutes(rec?.late_minutes ?? null) : undefined,
-            late_deduction: status === "present" ? (rec?.late_deduction ?? undefined) : undefined,
+            overtime_hours: onDuty(status) ? hoursFromMinutes(rec?.overtime_minutes ?? null) : undefined,
+            overtime_rate: onDuty(status) ? (rec?.overtime_rate ?? undefined) : undefined,
+            late_hours: onDuty(status) ? hoursFromMinutes(rec?.late_minutes ?? null) : undefined,
+            late_deduction: onDuty(status) ? (rec?.late_deduction ?? undefined) : undefined,
             fine_amount: Number(rec?.fine_amount ?? 0) || 0,
             note: rec?.note ?? "",
+            ...clockFields(rec),
           };
         })
         .sort((a, b) => {
@@ -337,12 +568,44 @@ export default function AttendancePage() {
           return numA - numB;
         });
 
-      setRows(nextRows);
       setInitialStatusByEmployeeId(initial);
+
+      const draft = await loadDraft(dateStr);
+      if (draft) {
+        // Unsaved edits from an earlier visit (or from before a reload while offline)
+        setRows(draft.rows);
+        setBaseline(draft.baseline);
+        setDirty(true);
+        msg.info(`Restored unsaved changes from ${dayjs(draft.savedAt).format("DD MMM HH:mm")}`);
+        return;
+      }
+
+      const queued = new Map<string, AttendanceUpsert>();
+      for (const item of await listOutbox()) {
+        if (item.date !== dateStr || item.status !== "pending") continue;
+        for (const rec of item.payload.records) queued.set(rec.employee_id, rec);
+      }
+
+      setRows(
+        nextRows.map((r) => {
+          const rec = queued.get(r.employee_id);
+          return rec ? applyQueued(r, rec) : r;
+        })
+      );
+      setBaseline(baselineFrom(att.records));
       setDirty(false);
       msg.success(`Loaded ${nextRows.length} employees for ${dateStr}`);
     } catch (e: unknown) {
-      msg.error(errorMessage(e, "Failed to load attendance"));
+      const draft = isOnline() ? undefined : await loadDraft(dateStr).catch(() => undefined);
+      if (draft) {
+        setRows(draft.rows);
+        setInitialStatusByEmployeeId(draft.initialStatusByEmployeeId as Record<string, AttendanceStatus>);
+        setBaseline(draft.baseline);
+        setDirty(true);
+        msg.warning("You are offline. Showing the sheet saved on this device.");
+      } else {
+        msg.error(errorMessage(e, "Failed to load attendance"));
+      }
     } finally {
       setLoading(false);
     }
@@ -376,6 +639,12 @@ export default function AttendancePage() {
 
       const dateStr = fromDate.format("YYYY-MM-DD");
 
+      const unexplained = rows.filter((r) => r.overridden && !r.override_reason?.trim());
+      if (unexplained.length) {
+        msg.error(`Give a reason for the overridden OT/late figures (${unexplained.map((r) => r.name).join(", ")})`);
+        return;
+      }
+
       const payload: AttendanceBulkUpsert = {
         date: dateStr,
         records: rows
@@ -385,51 +654,152 @@ export default function AttendancePage() {
             return initial !== "unmarked";
           })
           .map((r) => {
-          const overtime_minutes = r.status === "present" ? toMinutesFromHours(r.overtime_hours) : null;
-          const late_minutes = r.status === "present" ? toMinutesFromHours(r.late_hours) : null;
+          const shift = shiftByCode.get(r.employee_id);
+          const clocked =
+            onDuty(r.status)
+              ? deriveAttendanceTimes({
+                  date: dateStr,
+                  check_in: r.check_in,
+                  check_out: r.check_out,
+                  shift_start: shift?.shift_start,
+                  shift_end: shift?.shift_end,
+                  designation: r.rank,
+                  rules: timeRules,
+                })
+              : null;
 
           return {
             employee_id: r.employee_id,
             status: r.status,
             note: r.note || null,
-            overtime_minutes,
-            overtime_rate: r.status === "present" ? (r.overtime_rate ?? null) : null,
-            late_minutes,
-            late_deduction: r.status === "present" ? (r.late_deduction ?? null) : null,
+            ...timeFigures(r),
             leave_type: r.status === "leave" ? (r.leave_type || "paid") : null,
             fine_amount: Number(r.fine_amount ?? 0) || 0,
+            check_in: clocked?.check_in_at ?? null,
+            check_out: clocked?.check_out_at ?? null,
+            override_reason: clocked && r.overridden ? r.override_reason?.trim() || null : null,
           };
         }),
       };
 
-      await api.put<AttendanceListResponse>("/api/attendance/", payload);
-      msg.success("Attendance saved");
-      await load();
-      void loadSummary();
+      if (!idbAvailable()) {
+        // No offline storage (private windows, some embedded browsers): save directly
+        await sdk.attendance.bulkUpsert(payload);
+        setDirty(false);
+        msg.success("Attendance saved");
+        await load();
+        void loadSummary();
+        return;
+      }
+
+      // Every save goes through the outbox so a dropped connection never loses a marked sheet
+      const recordBaseline: AttendanceBaseline = {};
+      for (const r of payload.records) recordBaseline[r.employee_id] = baseline[r.employee_id] ?? null;
+      await enqueueAttendance(payload, recordBaseline);
+      await deleteDraft(dateStr);
+      setDirty(false);
+
+      await flushAttendanceOutbox();
+      const left = (await listOutbox()).filter((i) => i.date === dateStr);
+      setOutbox(await listOutbox());
+      if (left.some((i) => i.status === "conflict")) {
+        msg.warning("Some records were changed by someone else. Review the sync conflicts below.");
+      } else if (left.some((i) => i.status === "failed")) {
+        msg.error(left.find((i) => i.status === "failed")?.lastError || "Save failed");
+      } else if (left.length > 0) {
+        msg.info("Saved on this device. It will sync when the connection is back.");
+      } else {
+        msg.success("Attendance saved");
+        await load();
+        void loadSummary();
+      }
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Save failed"));
     } finally {
       setSaving(false);
     }
-  }, [fromDate, initialStatusByEmployeeId, load, loadSummary, msg, rows, singleDayMode]);
+  }, [
+    baseline,
+    fromDate,
+    initialStatusByEmployeeId,
+    load,
+    loadSummary,
+    msg,
+    rows,
+    shiftByCode,
+    singleDayMode,
+    timeRules,
+  ]);
+
+  useEffect(() => {
+    if (!dirty || !singleDayMode) return;
+    const date = fromDate.format("YYYY-MM-DD");
+    const t = window.setTimeout(() => {
+      void saveDraft({ date, rows, initialStatusByEmployeeId, baseline }).catch(() => undefined);
+    }, 800);
+    return () => window.clearTimeout(t);
+  }, [baseline, dirty, fromDate, initialStatusByEmployeeId, rows, singleDayMode]);
+
+  useEffect(() => {
+    void listOutbox()
+      .then(setOutbox)
+      .catch(() => setOutbox([]));
+  }, [sync.pending, sync.conflicts, sync.failed, sync.syncing]);
+
+  const resolve = useCallback(
+    async (id: number, keep: "mine" | "server") => {
+      try {
+        await resolveConflict(id, keep);
+        setOutbox(await listOutbox());
+        if (singleDayMode && !dirty) await load();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to resolve conflict"));
+      }
+    },
+    [dirty, load, msg, singleDayMode]
+  );
+
+  const nameByEmployeeId = useMemo(() => new Map(rows.map((r) => [r.employee_id, r.name])), [rows]);
+  const attention = useMemo(() => outbox.filter((i) => i.status !== "pending"), [outbox]);
 
   const exportPdf = useCallback(async () => {
     try {
       const dateStr = fromDate.format("YYYY-MM-DD");
-      const url = singleDayMode
-        ? `${API_BASE_URL}/api/attendance/export/pdf?date=${encodeURIComponent(dateStr)}`
-        : `${API_BASE_URL}/api/attendance/export/pdf?from_date=${encodeURIComponent(
-            fromDate.format("YYYY-MM-DD")
-          )}&to_date=${encodeURIComponent(toDate.format("YYYY-MM-DD"))}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`PDF export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, singleDayMode ? `attendance_${dateStr}.pdf` : `attendance_${fromDate.format("YYYY-MM")}.pdf`);
+      await sdk.attendance.exportPdf(
+        singleDayMode
+          ? { date: dateStr }
+          : { from_date: fromDate.format("YYYY-MM-DD"), to_date: toDate.format("YYYY-MM-DD") },
+        singleDayMode ? `attendance_${dateStr}.pdf` : `attendance_${fromDate.format("YYYY-MM")}.pdf`
+      );
     } catch (e: unknown) {
       msg.error(errorMessage(e, "PDF export failed"));
     }
   }, [fromDate, msg, singleDayMode, toDate]);
 
+  const setRuleRate = useCallback((index: number, patch: Partial<AttendanceRateRow>) => {
+    setRulesDraft((prev) =>
+      prev ? { ...prev, rates: prev.rates.map((x, i) => (i === index ? { ...x, ...patch } : x)) } : prev
+    );
+  }, []);
+
+  const saveTimeRules = useCallback(async () => {
+    if (!rulesDraft) return;
+    setRulesSaving(true);
+    try {
+      const saved = await sdk.attendance.saveTimeRules({
+        ...rulesDraft,
+        rates: rulesDraft.rates.map((x) => ({ ...x, designation: x.designation?.trim() || undefined })),
+      });
+      setTimeRules(saved ?? rulesDraft);
+      setRulesDraft(null);
+      msg.success("Time rules saved");
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save time rules"));
+    } finally {
+      setRulesSaving(false);
+    }
+  }, [msg, rulesDraft]);
+
   const exportCsv = useCallback(() => {
     const dateStr = fromDate.format("YYYY-MM-DD");
     const headers = [
@@ -439,6 +809,8 @@ export default function AttendancePage() {
       "shift_type",
       "status",
       "leave_type",
+      "check_in",
+      "check_out",
       "overtime_hours",
       "overtime_rate",
       "late_hours",
@@ -456,6 +828,8 @@ export default function AttendancePage() {
           r.shift_type ?? "",
           r.status,
           r.leave_type ?? "",
+          r.check_in ?? "",
+          r.check_out ?? "",
           r.overtime_hours ?? "",
           r.overtime_rate ?? "",
           r.late_hours ?? "",
@@ -477,13 +851,27 @@ export default function AttendancePage() {
       setLeaveRange([fromDate, toDate]);
       setLeaveType("paid");
       setLeaveReason("");
+      setLeaveBalance(null);
       setLeaveModalOpen(true);
+      loadLeaveBalances(fromDate.format("YYYY-MM-DD"), { employee_id })
+        .then((m) => setLeaveBalance(m.get(employee_id) ?? null))
+        .catch(() => setLeaveBalance(null));
     },
     [fromDate, toDate]
   );
 
+  const leaveRequestedDays = leaveDays(leaveRange[0].format("YYYY-MM-DD"), leaveRange[1].format("YYYY-MM-DD"));
+  const leaveExceeds =
+    leaveType === "paid" && !!leaveBalance?.policy && leaveRequestedDays > leaveBalance.available;
+
   const submitLeavePeriod = useCallback(async () => {
     if (!leaveEmployeeId) return;
+    if (leaveExceeds) {
+      msg.error(
+        `Only ${leaveBalance?.available ?? 0} paid leave day(s) available. Shorten the period or record the excess as unpaid.`
+      );
+      return;
+    }
     setLeaveSaving(true);
     try {
       const payload: LeavePeriodCreate = {
@@ -494,7 +882,16 @@ export default function AttendancePage() {
         reason: leaveReason.trim() ? leaveReason.trim() : null,
       };
 
-      await api.post<any>("/api/leave-periods/", payload);
+      // Without approval rights the entry goes to the leave inbox instead of straight onto the sheet
+      if (!has("leave:approve")) {
+        await sdk.leaveRequests.create(payload);
+        msg.success("Leave request submitted for approval");
+        setLeaveModalOpen(false);
+        void refreshLeaveInbox();
+        return;
+      }
+
+      await sdk.leavePeriods.create(payload);
       msg.success("Long leave saved");
       setLeaveModalOpen(false);
       await load();
@@ -505,7 +902,19 @@ export default function AttendancePage() {
     } finally {
       setLeaveSaving(false);
     }
-  }, [leaveEmployeeId, leaveRange, leaveReason, leaveType, load, loadLeaveAlerts, loadSummary, msg]);
+  }, [
+    has,
+    leaveBalance?.available,
+    leaveEmployeeId,
+    leaveExceeds,
+    leaveRange,
+    leaveReason,
+    leaveType,
+    load,
+    loadLeaveAlerts,
+    loadSummary,
+    msg,
+  ]);
 
   const openLeaveInfo = useCallback(
     async (employee_id: string) => {
@@ -514,9 +923,7 @@ export default function AttendancePage() {
       setLeaveInfo(null);
       try {
         const activeOn = fromDate.format("YYYY-MM-DD");
-        const res = await api.get<LeavePeriodOut[]>("/api/leave-periods/", {
-          query: { employee_id, active_on: activeOn },
-        });
+        const res = await sdk.leavePeriods.list({ employee_id, active_on: activeOn });
         const first = Array.isArray(res) && res.length > 0 ? res[0] : null;
         setLeaveInfo(first);
       } catch (e: unknown) {
@@ -664,6 +1071,54 @@ export default function AttendancePage() {
           />
         ),
       },
+      {
+        key: "clock",
+        title: "Clock in / out",
+        width: 190,
+        render: (_, r) => {
+          const clockable = singleDayMode && onDuty(r.status);
+          return (
+            <Space orientation="vertical" size={4} style={{ width: "100%" }}>
+              <Space size={6}>
+                <TimePicker
+                  size="small"
+                  format="HH:mm"
+                  value={r.check_in ? dayjs(r.check_in, "HH:mm") : null}
+                  disabled={!clockable}
+                  placeholder="In"
+                  style={{ width: 78 }}
+                  onChange={(v) => setTimes(r.employee_id, { check_in: v ? v.format("HH:mm") : undefined })}
+                />
+                <TimePicker
+                  size="small"
+                  format="HH:mm"
+                  value={r.check_out ? dayjs(r.check_out, "HH:mm") : null}
+                  disabled={!clockable || !r.check_in}
+                  placeholder="Out"
+                  style={{ width: 78 }}
+                  onChange={(v) => setTimes(r.employee_id, { check_out: v ? v.format("HH:mm") : undefined })}
+                />
+              </Space>
+              {r.overridden ? (
+                <Space size={4}>
+                  <Input
+                    size="small"
+                    value={r.override_reason}
+                    status={r.override_reason?.trim() ? undefined : "error"}
+                    placeholder="Override reason"
+                    disabled={!clockable}
+                    style={{ width: 130 }}
+                    onChange={(e) => setRow(r.employee_id, { override_reason: e.target.value })}
+                  />
+                  <Button size="small" type="link" disabled={!clockable} onClick={() => clearOverride(r.employee_id)}>
+                    Reset
+                  </Button>
+                </Space>
+              ) : null}
+            </Space>
+          );
+        },
+      },
       {
         key: "ot",
         title: "OT",
@@ -675,20 +1130,20 @@ export default function AttendancePage() {
               min={0}
               step={0.5}
               value={r.overtime_hours}
-              disabled={!singleDayMode || r.status !== "present"}
+              disabled={!singleDayMode || !onDuty(r.status)}
               style={{ width: 64 }}
               placeholder="hrs"
-              onChange={(v) => setRow(r.employee_id, { overtime_hours: v ?? undefined })}
+              onChange={(v) => overrideRow(r, { overtime_hours: v ?? undefined })}
             />
             <InputNumber
               size="small"
               min={0}
               step={10}
               value={r.overtime_rate}
-              disabled={!singleDayMode || r.status !== "present"}
+              disabled={!singleDayMode || !onDuty(r.status)}
               style={{ width: 72 }}
               placeholder="rate"
-              onChange={(v) => setRow(r.employee_id, { overtime_rate: v ?? undefined })}
+              onChange={(v) => overrideRow(r, { overtime_rate: v ?? undefined })}
             />
           </Space>
         ),
@@ -704,20 +1159,20 @@ export default function AttendancePage() {
               min={0}
               step={0.25}
               value={r.late_hours}
-              disabled={!singleDayMode || r.status !== "present"}
+              disabled={!singleDayMode || !onDuty(r.status)}
               style={{ width: 64 }}
               placeholder="hrs"
-              onChange={(v) => setRow(r.employee_id, { late_hours: v ?? undefined })}
+              onChange={(v) => overrideRow(r, { late_hours: v ?? undefined })}
             />
             <InputNumber
               size="small"
               min={0}
               step={50}
               value={r.late_deduction}
-              disabled={!singleDayMode || (r.status !== "present" && r.status !== "late")}
+              disabled={!singleDayMode || !onDuty(r.status)}
               style={{ width: 92 }}
               placeholder="deduct"
-              onChange={(v) => setRow(r.employee_id, { late_deduction: v ?? undefined })}
+              onChange={(v) => overrideRow(r, { late_deduction: v ?? undefined })}
             />
           </Space>
         ),
@@ -755,7 +1210,7 @@ export default function AttendancePage() {
         ),
       },
     ];
-  }, [normalizeRowForStatus, openLeaveInfo, openLeaveModal, router, setRow]);
+  }, [clearOverride, normalizeRowForStatus, openLeaveInfo, openLeaveModal, overrideRow, router, setRow, setTimes]);
 
   return (
     <>
@@ -767,11 +1222,11 @@ export default function AttendancePage() {
       >
         <Space orientation="vertical" size={16} style={{ width: "100%" }}>
           <Modal
-            title="Mark Long Leave"
+            title={has("leave:approve") ? "Mark Long Leave" : "Request Long Leave"}
             open={leaveModalOpen}
             onCancel={() => setLeaveModalOpen(false)}
             onOk={() => void submitLeavePeriod()}
-            okText="Save"
+            okText={has("leave:approve") ? "Save" : "Submit"}
             confirmLoading={leaveSaving}
             destroyOnClose
           >
@@ -810,6 +1265,17 @@ export default function AttendancePage() {
                 <Typography.Text strong>Reason (optional)</Typography.Text>
                 <Input value={leaveReason} onChange={(e) => setLeaveReason(e.target.value)} placeholder="Optional" />
               </div>
+              {leaveType === "paid" && leaveBalance ? (
+                <Alert
+                  type={leaveExceeds ? "error" : "info"}
+                  showIcon
+                  message={
+                    leaveBalance.policy
+                      ? `${leaveRequestedDays} day(s) requested, ${leaveBalance.available} paid day(s) available (${leaveBalance.policy.name})`
+                      : "No leave policy applies to this employee; the balance is not checked"
+                  }
+                />
+              ) : null}
             </Space>
           </Modal>
 
@@ -844,6 +1310,146 @@ export default function AttendancePage() {
             </Space>
           </Modal>
 
+          <Modal
+            title="Attendance Time Rules"
+            open={Boolean(rulesDraft)}
+            onCancel={() => setRulesDraft(null)}
+            onOk={() => void saveTimeRules()}
+            okText="Save"
+            confirmLoading={rulesSaving}
+            width={640}
+            destroyOnClose
+          >
+            {rulesDraft ? (
+              <Space orientation="vertical" style={{ width: "100%" }} size={12}>
+                <Typography.Text type="secondary">
+                  Late and overtime are worked out from clock-in/out against the guard&apos;s rostered shift, or the
+                  default shift when none is rostered.
+                </Typography.Text>
+                <Row gutter={[12, 12]}>
+                  <Col xs={12} sm={6}>
+                    <Typography.Text type="secondary">Late grace (min)</Typography.Text>
+                    <InputNumber
+                      min={0}
+                      style={{ width: "100%" }}
+                      value={rulesDraft.late_grace_minutes}
+                      onChange={(v) => setRulesDraft({ ...rulesDraft, late_grace_minutes: Number(v ?? 0) })}
+                    />
+                  </Col>
+                  <Col xs={12} sm={6}>
+                    <Typography.Text type="secondary">OT grace (min)</Typography.Text>
+                    <InputNumber
+                      min={0}
+                      style={{ width: "100%" }}
+                      value={rulesDraft.overtime_grace_minutes}
+                      onChange={(v) => setRulesDraft({ ...rulesDraft, overtime_grace_minutes: Number(v ?? 0) })}
+                    />
+                  </Col>
+                  <Col xs={12} sm={6}>
+                    <Typography.Text type="secondary">Default shift start</Typography.Text>
+                    <TimePicker
+                      format="HH:mm"
+                      allowClear={false}
+                      style={{ width: "100%" }}
+                      value={dayjs(rulesDraft.default_shift_start, "HH:mm")}
+                      onChange={(v) => v && setRulesDraft({ ...rulesDraft, default_shift_start: v.format("HH:mm") })}
+                    />
+                  </Col>
+                  <Col xs={12} sm={6}>
+                    <Typography.Text type="secondary">Default shift end</Typography.Text>
+                    <TimePicker
+                      format="HH:mm"
+                      allowClear={false}
+                      style={{ width: "100%" }}
+                      value={dayjs(rulesDraft.default_shift_end, "HH:mm")}
+                      onChange={(v) => v && setRulesDraft({ ...rulesDraft, default_shift_end: v.format("HH:mm") })}
+                    />
+                  </Col>
+                </Row>
+                <Table<AttendanceRateRow>
+                  size="small"
+                  rowKey={(_, i) => String(i)}
+                  pagination={false}
+                  dataSource={rulesDraft.rates}
+                  locale={{ emptyText: "No rates: OT rate and late deduction are entered by hand" }}
+                  columns={[
+                    {
+                      key: "designation",
+                      title: "Designation",
+                      render: (_, x, i) => (
+                        <Select
+                          size="small"
+                          allowClear
+                          showSearch
+                          value={x.designation || undefined}
+                          placeholder="All designations"
+                          style={{ width: "100%" }}
+                          options={designations.map((d) => ({ label: d, value: d }))}
+                          onChange={(v) => setRuleRate(i, { designation: v })}
+                        />
+                      ),
+                    },
+                    {
+                      key: "ot",
+                      title: "OT rate / hr",
+                      width: 130,
+                      render: (_, x, i) => (
+                        <InputNumber
+                          size="small"
+                          min={0}
+                          style={{ width: "100%" }}
+                          value={x.overtime_rate}
+                          onChange={(v) => setRuleRate(i, { overtime_rate: Number(v ?? 0) })}
+                        />
+                      ),
+                    },
+                    {
+                      key: "late",
+                      title: "Late deduction / hr",
+                      width: 150,
+                      render: (_, x, i) => (
+                        <InputNumber
+                          size="small"
+                          min={0}
+                          style={{ width: "100%" }}
+                          value={x.late_deduction_per_hour}
+                          onChange={(v) => setRuleRate(i, { late_deduction_per_hour: Number(v ?? 0) })}
+                        />
+                      ),
+                    },
+                    {
+                      key: "remove",
+                      width: 48,
+                      render: (_, __, i) => (
+                        <Button
+                          size="small"
+                          type="text"
+                          danger
+                          icon={<DeleteOutlined />}
+                          onClick={() =>
+                            setRulesDraft({ ...rulesDraft, rates: rulesDraft.rates.filter((_, j) => j !== i) })
+                          }
+                        />
+                      ),
+                    },
+                  ]}
+                />
+                <Button
+                  size="small"
+                  icon={<PlusOutlined />}
+                  onClick={() =>
+                    setRulesDraft({
+                      ...rulesDraft,
+                      rates: [...rulesDraft.rates, { overtime_rate: 0, late_deduction_per_hour: 0 }],
+                    })
+                  }
+                >
+                  Add rate
+                </Button>
+              </Space>
+            ) : null}
+          </Modal>
+
           {leaveAlertsLoading || leaveAlerts.length > 0 ? (
             <Card size="small" style={{ borderRadius: 0 }}>
               <Space direction="vertical" style={{ width: "100%" }} size={8}>
@@ -867,6 +1473,62 @@ export default function AttendancePage() {
             </Card>
           ) : null}
 
+          {attention.length > 0 ? (
+            <Card size="small" style={{ borderRadius: 0 }}>
+              <Space direction="vertical" style={{ width: "100%" }} size={8}>
+                <Typography.Text strong>Sync Conflicts</Typography.Text>
+                <List
+                  size="small"
+                  dataSource={attention}
+                  renderItem={(item) => (
+                    <List.Item
+                      actions={
+                        item.status === "conflict"
+                          ? [
+                              <Button key="mine" size="small" type="primary" onClick={() => void resolve(item.id!, "mine")}>
+                                Keep mine
+                              </Button>,
+                              <Button key="server" size="small" onClick={() => void resolve(item.id!, "server")}>
+                                Use server
+                              </Button>,
+                            ]
+                          : [
+                              <Button key="retry" size="small" onClick={() => void retryOutboxItem(item.id!)}>
+                                Retry
+                              </Button>,
+                              <Button key="discard" size="small" danger onClick={() => void discardOutboxItem(item.id!)}>
+                                Discard
+                              </Button>,
+                            ]
+                      }
+                    >
+                      {item.status === "conflict" ? (
+                        <Space direction="vertical" size={4} style={{ width: "100%" }}>
+                          <Typography.Text>
+                            {item.date}: {item.conflicts?.length ?? 0} record(s) changed on the server since you edited
+                          </Typography.Text>
+                          {(item.conflicts ?? []).map((c) => (
+                            <Typography.Text key={c.employee_id} type="secondary">
+                              {nameByEmployeeId.get(c.employee_id) ?? c.employee_id}: yours{" "}
+                              <Tag>{c.mine.status}</Tag> server <Tag>{c.server?.status ?? "deleted"}</Tag>
+                            </Typography.Text>
+                          ))}
+                        </Space>
+                      ) : (
+                        <Alert
+                          type="error"
+                          showIcon
+                          message={`${item.date}: save was rejected`}
+                          description={item.lastError}
+                        />
+                      )}
+                    </List.Item>
+                  )}
+                />
+              </Space>
+            </Card>
+          ) : null}
+
           <Row gutter={[12, 12]} align="middle">
             <Col flex="auto">
               <Space size={12} wrap>
@@ -892,6 +1554,14 @@ export default function AttendancePage() {
                 <Button icon={<DownloadOutlined />} onClick={exportCsv}>
                   Export CSV
                 </Button>
+                <Button icon={<ImportOutlined />} onClick={() => router.push("/attendance/import")}>
+                  Import Punches
+                </Button>
+                {has("attendance:manage") ? (
+                  <Button icon={<ClockCircleOutlined />} onClick={() => setRulesDraft(timeRules)}>
+                    Time Rules
+                  </Button>
+                ) : null}
                 <Button
                   type="primary"
                   icon={<SaveOutlined />}
@@ -1002,6 +1672,100 @@ export default function AttendancePage() {
             </Col>
           </Row>
 
+          <Row gutter={[12, 12]} align="middle">
+            <Col xs={24} md={6}>
+              <Select
+                value={rosterClientId}
+                onChange={(v) => setRosterClientId(v || undefined)}
+                placeholder="Client (roster)"
+                allowClear
+                showSearch
+                optionFilterProp="label"
+                style={{ width: "100%" }}
+                options={rosterClients.map((c) => ({ label: c.client_name, value: c.id }))}
+              />
+            </Col>
+            <Col xs={24} md={6}>
+              <Select
+                value={rosterSiteId}
+                onChange={(v) => setRosterSiteId(v || undefined)}
+                placeholder="Site"
+                allowClear
+                disabled={!rosterClientId}
+                style={{ width: "100%" }}
+                options={rosterSites.map((st) => ({ label: st.site_name, value: st.id }))}
+              />
+            </Col>
+            <Col xs={24} md={6}>
+              <Select
+                value={rosterRequirementId}
+                onChange={(v) => setRosterRequirementId(v || undefined)}
+                placeholder="Shift"
+                allowClear
+                disabled={!rosterSiteId}
+                style={{ width: "100%" }}
+                options={siteRequirements.map((r) => ({
+                  label: `${r.shift_type || r.guard_type}${r.shift_start ? ` ${r.shift_start.slice(0, 5)}` : ""}`,
+                  value: r.id,
+                }))}
+              />
+            </Col>
+            <Col xs={24} md={6}>
+              <Space wrap>
+                {rosterShifts.length ? (
+                  <Tag color="blue">{rosteredAnywhere.size} rostered today</Tag>
+                ) : (
+                  <Tag>No published roster</Tag>
+                )}
+                <Button
+                  size="small"
+                  disabled={!singleDayMode || expectedUnmarked.length === 0}
+                  onClick={markRosteredPresent}
+                >
+                  Mark rostered present
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          {expectedUnmarked.length > 0 || markedNotRostered.length > 0 ? (
+            <Row gutter={[12, 12]}>
+              <Col xs={24} md={12}>
+                <Card size="small" style={{ borderRadius: 0 }} title={`Expected but unmarked (${expectedUnmarked.length})`}>
+                  <List
+                    size="small"
+                    dataSource={expectedUnmarked.slice(0, 50)}
+                    locale={{ emptyText: "Everyone rostered has been marked" }}
+                    renderItem={(r) => (
+                      <List.Item>
+                        <Typography.Text>
+                          {r.employee_id} · {r.name}
+                        </Typography.Text>
+                      </List.Item>
+                    )}
+                  />
+                </Card>
+              </Col>
+              <Col xs={24} md={12}>
+                <Card size="small" style={{ borderRadius: 0 }} title={`Marked but not rostered (${markedNotRostered.length})`}>
+                  <List
+                    size="small"
+                    dataSource={markedNotRostered.slice(0, 50)}
+                    locale={{ emptyText: "No unrostered attendance" }}
+                    renderItem={(r) => (
+                      <List.Item>
+                        <Typography.Text>
+                          {r.employee_id} · {r.name}
+                        </Typography.Text>
+                        <Tag>{r.status}</Tag>
+                      </List.Item>
+                    )}
+                  />
+                </Card>
+              </Col>
+            </Row>
+          ) : null}
+
           <Typography.Text type="secondary">
             Tip: Use status buttons per employee. When you select Present, you can enter OT hours + rate and Late hours + deduction. When you select Leave, pick Paid/Unpaid.
           </Typography.Text>
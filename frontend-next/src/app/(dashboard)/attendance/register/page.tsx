@@ -0,0 +1,468 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  Card,
+  Checkbox,
+  Col,
+  DatePicker,
+  Dropdown,
+  Input,
+  Row,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { FileExcelOutlined, FilePdfOutlined, ReloadOutlined, SaveOutlined } from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+
+import { sdk } from "@/lib/sdk";
+import { loadPayslipLogo } from "@/lib/payslip";
+import { eachDay } from "@/lib/roster";
+import {
+  MUSTER_CODES,
+  buildMusterPdf,
+  buildMusterXlsx,
+  cellsFromRecords,
+  musterFilename,
+  musterTotals,
+  statusForCode,
+  type MusterCode,
+  type MusterRow,
+} from "@/lib/musterRoll";
+import type { AttendanceRecordOut, AttendanceUpsert, Client, ClientSite, Employee2 } from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Payroll period ending on the 25th of `month`. */
+function periodFor(month: Dayjs): [Dayjs, Dayjs] {
+  const to = month.date(25);
+  return [to.subtract(1, "month").date(26), to];
+}
+
+const CODE_COLOR = Object.fromEntries(MUSTER_CODES.map((c) => [c.code, c.color])) as Record<MusterCode, string>;
+
+export default function MusterRollPage() {
+  const [msg, msgCtx] = message.useMessage();
+
+  const [month, setMonth] = useState(() => {
+    const today = dayjs();
+    return today.date() >= 26 ? today.add(1, "month") : today;
+  });
+  const [fromDate, toDate] = useMemo(() => periodFor(month), [month]);
+  const dates = useMemo(() => eachDay(fromDate, toDate).map((d) => d.format("YYYY-MM-DD")), [fromDate, toDate]);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [employees, setEmployees] = useState<Employee2[]>([]);
+  const [records, setRecords] = useState<Map<string, AttendanceRecordOut>>(new Map());
+  // Cell edits not yet saved, keyed `${employee_id}|${date}`; null clears the mark
+  const [edits, setEdits] = useState<Record<string, MusterCode | null>>({});
+
+  const [search, setSearch] = useState("");
+  const [department, setDepartment] = useState<string | undefined>(undefined);
+  const [showUnmarked, setShowUnmarked] = useState(false);
+
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientId, setClientId] = useState<number | undefined>(undefined);
+  const [sites, setSites] = useState<ClientSite[]>([]);
+  const [siteId, setSiteId] = useState<number | undefined>(undefined);
+  const [siteCodes, setSiteCodes] = useState<Set<string> | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [emps, range] = await Promise.all([
+        sdk.employees2.listAll(),
+        sdk.attendance.range(dates[0], dates[dates.length - 1]),
+      ]);
+      const m = new Map<string, AttendanceRecordOut>();
+      for (const r of range.records ?? []) m.set(`${r.employee_id}|${r.date}`, r);
+      setEmployees(emps);
+      setRecords(m);
+      setEdits({});
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load attendance"));
+    } finally {
+      setLoading(false);
+    }
+  }, [dates, msg]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    void (async () => {
+      try {
+        const cs = await sdk.clients.list();
+        setClients(Array.isArray(cs) ? cs : []);
+      } catch {
+        setClients([]);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    setSiteId(undefined);
+    if (!clientId) {
+      setSites([]);
+      return;
+    }
+    void sdk.clients
+      .get(clientId)
+      .then((d) => setSites(d?.sites ?? []))
+      .catch(() => setSites([]));
+  }, [clientId]);
+
+  // Guards rostered at the chosen site at any point in the period
+  useEffect(() => {
+    if (!siteId) {
+      setSiteCodes(null);
+      return;
+    }
+    const codeByDbId = new Map(employees.map((e) => [e.id, String(e.fss_no || e.serial_no || e.id)]));
+    void sdk.roster
+      .shifts({ from_date: dates[0], to_date: dates[dates.length - 1], site_id: siteId })
+      .then((shifts) =>
+        setSiteCodes(
+          new Set(
+            shifts
+              .filter((s) => s.employee_db_id)
+              .map((s) => codeByDbId.get(s.employee_db_id as number) ?? String(s.employee_db_id))
+          )
+        )
+      )
+      .catch(() => setSiteCodes(new Set()));
+  }, [dates, employees, siteId]);
+
+  const departments = useMemo(
+    () => [...new Set(employees.map((e) => e.category).filter((c): c is string => Boolean(c)))].sort(),
+    [employees]
+  );
+
+  const rows = useMemo<MusterRow[]>(() => {
+    const saved = cellsFromRecords([...records.values()]);
+    const q = search.trim().toLowerCase();
+    return employees
+      .map((e) => {
+        const employee_id = String(e.fss_no || e.serial_no || e.id);
+        const cells = { ...(saved.get(employee_id) ?? {}) };
+        for (const d of dates) {
+          const k = `${employee_id}|${d}`;
+          if (k in edits) cells[d] = edits[k] ?? undefined;
+        }
+        return { employee_id, serial_no: e.serial_no, name: e.name, rank: e.rank, department: e.category, cells };
+      })
+      .filter((r) => {
+        if (department && r.department !== department) return false;
+        if (siteCodes && !siteCodes.has(r.employee_id)) return false;
+        if (q && !`${r.employee_id} ${r.name} ${r.rank ?? ""}`.toLowerCase().includes(q)) return false;
+        return showUnmarked || siteCodes !== null || dates.some((d) => r.cells[d]);
+      });
+  }, [dates, department, edits, employees, records, search, showUnmarked, siteCodes]);
+
+  const dirtyCount = Object.keys(edits).length;
+
+  const setCell = useCallback(
+    (employee_id: string, date: string, code: MusterCode | null) => {
+      const key = `${employee_id}|${date}`;
+      const original = records.get(key);
+      const originalCode = MUSTER_CODES.find((c) => c.status === original?.status)?.code ?? null;
+      setEdits((prev) => {
+        const next = { ...prev };
+        if (code === originalCode) delete next[key];
+        else next[key] = code;
+        return next;
+      });
+    },
+    [records]
+  );
+
+  const save = useCallback(async () => {
+    const byDate = new Map<string, AttendanceUpsert[]>();
+    for (const [key, code] of Object.entries(edits)) {
+      const [employee_id, date] = key.split("|");
+      const rec = records.get(key);
+      const status = statusForCode(code);
+      const worked = status === "present" || status === "late";
+      byDate.set(date, [
+        ...(byDate.get(date) ?? []),
+        {
+          employee_id,
+          status,
+          note: rec?.note ?? null,
+          overtime_minutes: worked ? (rec?.overtime_minutes ?? null) : null,
+          overtime_rate: worked ? (rec?.overtime_rate ?? null) : null,
+          late_minutes: worked ? (rec?.late_minutes ?? null) : null,
+          late_deduction: worked ? (rec?.late_deduction ?? null) : null,
+          leave_type: status === "leave" ? rec?.leave_type || "paid" : null,
+          fine_amount: rec?.fine_amount ?? 0,
+          check_in: worked ? (rec?.check_in ?? null) : null,
+          check_out: worked ? (rec?.check_out ?? null) : null,
+          override_reason: worked ? (rec?.override_reason ?? null) : null,
+        },
+      ]);
+    }
+    if (!byDate.size) return;
+
+    setSaving(true);
+    try {
+      for (const [date, recs] of [...byDate].sort(([a], [b]) => a.localeCompare(b))) {
+        await sdk.attendance.bulkUpsert({ date, records: recs });
+      }
+      msg.success(`Saved ${dirtyCount} change(s)`);
+      await load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Save failed"));
+    } finally {
+      setSaving(false);
+    }
+  }, [dirtyCount, edits, load, msg, records]);
+
+  const exportContext = useCallback(async () => {
+    const filters = [
+      siteId ? `Site: ${sites.find((s) => s.id === siteId)?.site_name ?? siteId}` : "",
+      clientId && !siteId ? `Client: ${clients.find((c) => c.id === clientId)?.client_name ?? clientId}` : "",
+      department ? `Department: ${department}` : "",
+    ].filter(Boolean);
+    return {
+      fromDate: fromDate.format("YYYY-MM-DD"),
+      toDate: toDate.format("YYYY-MM-DD"),
+      dates,
+      subtitle: filters.join(" · ") || undefined,
+      logoDataUrl: await loadPayslipLogo(),
+    };
+  }, [clientId, clients, dates, department, fromDate, siteId, sites, toDate]);
+
+  const exportPdf = useCallback(async () => {
+    if (dirtyCount) msg.warning("Unsaved changes are included in the export");
+    const ctx = await exportContext();
+    downloadBlob(buildMusterPdf(rows, ctx), musterFilename(ctx, "pdf"));
+  }, [dirtyCount, exportContext, msg, rows]);
+
+  const exportXlsx = useCallback(async () => {
+    if (dirtyCount) msg.warning("Unsaved changes are included in the export");
+    const ctx = await exportContext();
+    downloadBlob(buildMusterXlsx(rows, ctx), musterFilename(ctx, "xlsx"));
+  }, [dirtyCount, exportContext, msg, rows]);
+
+  const columns = useMemo<ColumnsType<MusterRow>>(() => {
+    const dayColumns: ColumnsType<MusterRow> = dates.map((d) => {
+      const day = dayjs(d);
+      return {
+        key: d,
+        title: (
+          <div style={{ textAlign: "center", lineHeight: 1.1 }}>
+            <div>{day.date()}</div>
+            <Typography.Text type="secondary" style={{ fontSize: 10 }}>
+              {day.format("dd")}
+            </Typography.Text>
+          </div>
+        ),
+        width: 42,
+        align: "center",
+        onCell: (r) => ({
+          style: `${r.employee_id}|${d}` in edits ? { background: "#fffbe6", padding: 2 } : { padding: 2 },
+        }),
+        render: (_, r) => {
+          const code = r.cells[d];
+          return (
+            <Dropdown
+              trigger={["click"]}
+              menu={{
+                items: [
+                  ...MUSTER_CODES.map((c) => ({ key: c.code, label: `${c.code} — ${c.label}` })),
+                  { type: "divider" as const },
+                  { key: "clear", label: "Clear" },
+                ],
+                onClick: ({ key }) => setCell(r.employee_id, d, key === "clear" ? null : (key as MusterCode)),
+              }}
+            >
+              <div style={{ cursor: "pointer", minHeight: 22 }}>
+                {code ? (
+                  <Tag color={CODE_COLOR[code]} style={{ marginInlineEnd: 0, paddingInline: 4 }}>
+                    {code}
+                  </Tag>
+                ) : (
+                  <Typography.Text type="secondary">·</Typography.Text>
+                )}
+              </div>
+            </Dropdown>
+          );
+        },
+      };
+    });
+
+    const totalColumn = (key: "P" | "L" | "A" | "Lv" | "worked", title: string): ColumnsType<MusterRow>[number] => ({
+      key: `total-${key}`,
+      title,
+      width: 56,
+      align: "center",
+      fixed: "right",
+      render: (_, r) => <Typography.Text strong>{musterTotals(r, dates)[key]}</Typography.Text>,
+    });
+
+    return [
+      { key: "index", title: "#", width: 48, fixed: "left", render: (_, __, i) => i + 1 },
+      { key: "fss", title: "FSS No.", dataIndex: "employee_id", width: 90, fixed: "left" },
+      {
+        key: "name",
+        title: "Name",
+        width: 200,
+        fixed: "left",
+        render: (_, r) => (
+          <Space orientation="vertical" size={0}>
+            <Typography.Text>{r.name}</Typography.Text>
+            {r.rank ? (
+              <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                {r.rank}
+              </Typography.Text>
+            ) : null}
+          </Space>
+        ),
+      },
+      ...dayColumns,
+      totalColumn("P", "P"),
+      totalColumn("L", "L"),
+      totalColumn("A", "A"),
+      totalColumn("Lv", "Lv"),
+      totalColumn("worked", "Worked"),
+    ];
+  }, [dates, edits, setCell]);
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Muster Roll</Typography.Text>
+              </div>
+              <Typography.Text type="secondary">
+                {fromDate.format("DD MMM YYYY")} – {toDate.format("DD MMM YYYY")}
+              </Typography.Text>
+            </Col>
+            <Col>
+              <Space wrap>
+                <Button icon={<ReloadOutlined />} onClick={() => void load()}>
+                  Refresh
+                </Button>
+                <Button icon={<FilePdfOutlined />} onClick={() => void exportPdf()} disabled={!rows.length}>
+                  Export PDF
+                </Button>
+                <Button icon={<FileExcelOutlined />} onClick={() => void exportXlsx()} disabled={!rows.length}>
+                  Export Excel
+                </Button>
+                <Button
+                  type="primary"
+                  icon={<SaveOutlined />}
+                  loading={saving}
+                  disabled={!dirtyCount}
+                  onClick={() => void save()}
+                >
+                  Save{dirtyCount ? ` (${dirtyCount})` : ""}
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          <Row gutter={[8, 8]} align="middle">
+            <Col xs={24} sm={12} md={4}>
+              <DatePicker
+                picker="month"
+                allowClear={false}
+                value={month}
+                format="[Period ending] MMM YYYY"
+                style={{ width: "100%" }}
+                onChange={(v) => {
+                  if (!v) return;
+                  if (dirtyCount) msg.warning("Unsaved changes were discarded");
+                  setMonth(v);
+                }}
+              />
+            </Col>
+            <Col xs={24} sm={12} md={4}>
+              <Select
+                allowClear
+                showSearch
+                placeholder="Client"
+                style={{ width: "100%" }}
+                value={clientId}
+                optionFilterProp="label"
+                options={clients.map((c) => ({ label: c.client_name, value: c.id }))}
+                onChange={(v) => setClientId(v)}
+              />
+            </Col>
+            <Col xs={24} sm={12} md={4}>
+              <Select
+                allowClear
+                showSearch
+                placeholder="Site"
+                style={{ width: "100%" }}
+                value={siteId}
+                disabled={!clientId}
+                optionFilterProp="label"
+                options={sites.map((s) => ({ label: s.site_name, value: s.id }))}
+                onChange={(v) => setSiteId(v)}
+              />
+            </Col>
+            <Col xs={24} sm={12} md={4}>
+              <Select
+                allowClear
+                placeholder="Department"
+                style={{ width: "100%" }}
+                value={department}
+                options={departments.map((d) => ({ label: d, value: d }))}
+                onChange={(v) => setDepartment(v)}
+              />
+            </Col>
+            <Col xs={24} sm={12} md={4}>
+              <Input.Search allowClear placeholder="Search name / FSS" onChange={(e) => setSearch(e.target.value)} />
+            </Col>
+            <Col xs={24} sm={12} md={4}>
+              <Checkbox checked={showUnmarked} onChange={(e) => setShowUnmarked(e.target.checked)}>
+                Include unmarked employees
+              </Checkbox>
+            </Col>
+          </Row>
+
+          <Table<MusterRow>
+            size="small"
+            bordered
+            rowKey="employee_id"
+            loading={loading}
+            dataSource={rows}
+            columns={columns}
+            scroll={{ x: 338 + dates.length * 42 + 5 * 56 }}
+            pagination={{ pageSize: 50, showSizeChanger: true }}
+          />
+        </Space>
+      </Card>
+    </>
+  );
+}
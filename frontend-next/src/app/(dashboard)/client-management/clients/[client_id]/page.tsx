@@ -2,6 +2,9 @@
 
 import {
   ArrowLeftOutlined,
+  DeleteOutlined,
+  FileAddOutlined,
+  FilePdfOutlined,
   ReloadOutlined,
 } from "@ant-design/icons";
 import {
@@ -17,6 +20,7 @@ import {
   message,
   Modal,
   Input,
+  Popconfirm,
   InputNumber,
   Row,
   Select,
@@ -28,128 +32,35 @@ import {
 } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import { useParams, useRouter } from "next/navigation";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState, type Key } from "react";
 import dayjs, { type Dayjs } from "dayjs";
 
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
-
-type Client = {
-  id: number;
-  client_code: string;
-  client_name: string;
-  client_type: string;
-  industry_type?: string | null;
-  status: string;
-  registration_number?: string | null;
-  vat_gst_number?: string | null;
-  website?: string | null;
-  notes?: string | null;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type SuggestedEmployee = {
-  id: number;
-  employee_id: string;
-  first_name: string;
-  last_name: string;
-  languages: string[];
-};
-
-type ClientSiteGuardAllocation = {
-  id: number;
-  site_id: number;
-  requirement_id?: number | null;
-  employee_db_id: number;
-  start_date?: string | null;
-  end_date?: string | null;
-  status: string;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type ClientContact = {
-  id: number;
-  client_id: number;
-  name: string;
-  designation?: string | null;
-  phone_number?: string | null;
-  email?: string | null;
-  is_primary: boolean;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type ClientSite = {
-  id: number;
-  client_id: number;
-  site_name: string;
-  site_type?: string | null;
-  site_address?: string | null;
-  city?: string | null;
-  latitude?: number | null;
-  longitude?: number | null;
-  risk_level?: string | null;
-  status: string;
-  site_instructions?: string | null;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type ClientInvoice = {
-  id: number;
-  client_id: number;
-  contract_id?: number | null;
-  site_id?: number | null;
-  invoice_number: string;
-  invoice_date: string;
-  billing_period: string;
-  net_payable: number;
-  payment_status: string;
-  payment_date?: string | null;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type ClientDocument = {
-  id: number;
-  client_id: number;
-  document_type: string;
-  file_url: string;
-  expiry_date?: string | null;
-  remarks?: string | null;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type ClientDetail = Client & {
-  contacts: ClientContact[];
-  addresses: unknown[];
-  sites: ClientSite[];
-  invoices: ClientInvoice[];
-  documents: ClientDocument[];
-};
-
-type ClientGuardRequirement = {
-  id: number;
-  site_id: number;
-  site_name?: string;
-  site_status?: string | null;
-  guard_type: string;
-  number_of_guards: number;
-  shift_type?: string | null;
-  shift_start?: string | null;
-  shift_end?: string | null;
-  start_date?: string | null;
-  end_date?: string | null;
-  preferred_language?: string | null;
-  monthly_amount?: number | null;
-  weekly_off_rules?: string | null;
-  special_instructions?: string | null;
-  created_at: string;
-  updated_at?: string | null;
-};
+import InvoiceBuilder from "@/components/InvoiceBuilder";
+import { loadPayslipLogo } from "@/lib/payslip";
+import { postEvent, reverseSource, tryPosting } from "@/lib/posting";
+import {
+  AGING_BUCKETS,
+  PAYMENT_METHOD_LABELS,
+  buildAging,
+  buildStatement,
+  buildStatementPdf,
+  invoiceBalance,
+  invoiceSettled,
+  receivableStatus,
+} from "@/lib/receivables";
+import { sdk } from "@/lib/sdk";
+import type {
+  ClientContact,
+  ClientDetail,
+  ClientDocument,
+  ClientGuardRequirement,
+  ClientInvoice,
+  ClientPaymentMethod,
+  ClientPaymentReceipt,
+  ClientSite,
+  ClientSiteGuardAllocation,
+  SuggestedEmployee,
+} from "@/lib/types";
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -170,6 +81,7 @@ export default function ClientDetailPage() {
     site_address?: string | null;
     city?: string | null;
     risk_level?: string | null;
+    contract_id?: number | null;
     guard_type: string;
     number_of_guards: number;
     preferred_language?: string | null;
@@ -201,12 +113,40 @@ export default function ClientDetailPage() {
   const [reqModalMode, setReqModalMode] = useState<"create" | "extend">("create");
   const [reqUseNewSite, setReqUseNewSite] = useState(false);
 
+  const [invoiceOpen, setInvoiceOpen] = useState(false);
+  // Invoice named in the URL (?invoice=<id>) when opened from a ledger entry
+  const [focusInvoiceId, setFocusInvoiceId] = useState<number | null>(null);
+  const [expandedInvoiceIds, setExpandedInvoiceIds] = useState<readonly Key[]>([]);
+
+  const [receiptForm] = Form.useForm<{
+    receipt_date: Dayjs;
+    method: ClientPaymentMethod;
+    amount: number;
+    withholding_tax?: number | null;
+    reference?: string | null;
+    bank_name?: string | null;
+    notes?: string | null;
+  }>();
+  const [receiptInvoice, setReceiptInvoice] = useState<ClientInvoice | null>(null);
+  const [receiptSaving, setReceiptSaving] = useState(false);
+
+  const [statementOpen, setStatementOpen] = useState(false);
+  const [statementRange, setStatementRange] = useState<[Dayjs, Dayjs]>(() => [
+    dayjs().subtract(5, "month").startOf("month"),
+    dayjs(),
+  ]);
+
   const loadDetail = useCallback(async () => {
     if (!clientId) return;
     setLoading(true);
     try {
-      const d = await api.get<ClientDetail>(`/api/client-management/clients/${clientId}`);
+      const d = await sdk.clients.get(clientId);
       setDetail(d);
+      const focus = Number(new URLSearchParams(window.location.search).get("invoice"));
+      if (focus) {
+        setFocusInvoiceId(focus);
+        setExpandedInvoiceIds((keys) => (keys.includes(focus) ? keys : [...keys, focus]));
+      }
       const firstSite = d?.sites?.[0]?.id ?? null;
       setSelectedSiteId(firstSite);
       setSelectedRequirementId(null);
@@ -221,9 +161,7 @@ export default function ClientDetailPage() {
   const loadAllContracts = useCallback(async () => {
     if (!clientId) return;
     try {
-      const rows = await api.get<ClientGuardRequirement[]>(
-        `/api/client-management/clients/${clientId}/contract-requirements`
-      );
+      const rows = await sdk.clients.contractRequirements(clientId);
       setAllContracts(Array.isArray(rows) ? rows : []);
     } catch {
       setAllContracts([]);
@@ -232,7 +170,7 @@ export default function ClientDetailPage() {
 
   const loadRequirements = useCallback(async (siteId: number) => {
     try {
-      const rows = await api.get<ClientGuardRequirement[]>(`/api/client-management/sites/${siteId}/requirements`);
+      const rows = await sdk.sites.requirements(siteId);
       const list = Array.isArray(rows) ? rows : [];
       setRequirements(list);
       setSelectedRequirementId(list?.[0]?.id ?? null);
@@ -244,7 +182,7 @@ export default function ClientDetailPage() {
 
   const loadAllocations = useCallback(async (siteId: number) => {
     try {
-      const rows = await api.get<ClientSiteGuardAllocation[]>(`/api/client-management/sites/${siteId}/allocations`);
+      const rows = await sdk.sites.allocations(siteId);
       setAllocations(Array.isArray(rows) ? rows : []);
     } catch {
       setAllocations([]);
@@ -253,9 +191,7 @@ export default function ClientDetailPage() {
 
   const loadSuggestedEmployees = useCallback(async (siteId: number, requirementId: number) => {
     try {
-      const rows = await api.get<SuggestedEmployee[]>(
-        `/api/client-management/sites/${siteId}/requirements/${requirementId}/suggested-employees`
-      );
+      const rows = await sdk.sites.suggestedEmployees(siteId, requirementId);
       setSuggestedEmployees(Array.isArray(rows) ? rows : []);
     } catch {
       setSuggestedEmployees([]);
@@ -314,10 +250,7 @@ export default function ClientDetailPage() {
     }
     setAllocLoading(true);
     try {
-      const res = await api.post<{ message: string; invoice_number: string; released: number }>(
-        `/api/client-management/sites/${selectedSiteId}/requirements/${selectedRequirementId}/complete`,
-        {}
-      );
+      const res = await sdk.sites.completeRequirement(selectedSiteId, selectedRequirementId);
       msg.success(`${res.message} (Invoice: ${res.invoice_number})`);
       await loadDetail();
       await loadAllContracts();
@@ -356,7 +289,7 @@ export default function ClientDetailPage() {
     setAllocLoading(true);
     try {
       for (const empId of selectedEmployeeIds) {
-        await api.post(`/api/client-management/sites/${selectedSiteId}/allocations`, {
+        await sdk.sites.allocate(selectedSiteId, {
           employee_db_id: empId,
           requirement_id: selectedRequirementId,
           start_date: selectedRequirement.start_date ?? null,
@@ -373,26 +306,90 @@ export default function ClientDetailPage() {
     }
   }, [loadAllocations, msg, selectedEmployeeIds, selectedRequirement, selectedRequirementId, selectedSiteId]);
 
-  const markInvoicePaid = useCallback(
-    async (invoiceId: number) => {
+  const openReceipt = useCallback(
+    (inv: ClientInvoice) => {
+      receiptForm.resetFields();
+      receiptForm.setFieldsValue({
+        receipt_date: dayjs(),
+        method: "bank",
+        amount: invoiceBalance(inv),
+        withholding_tax: 0,
+      });
+      setReceiptInvoice(inv);
+    },
+    [receiptForm]
+  );
+
+  const submitReceipt = useCallback(async () => {
+    if (!clientId || !receiptInvoice) return;
+    const values = await receiptForm.validateFields();
+    const amount = Number(values.amount || 0);
+    const wht = Number(values.withholding_tax || 0);
+    const balance = invoiceBalance(receiptInvoice);
+    if (amount + wht > balance + 0.005) {
+      msg.error(`Receipt exceeds the outstanding balance of Rs ${balance.toFixed(2)}`);
+      return;
+    }
+    setReceiptSaving(true);
+    try {
+      const receipt = await sdk.clients.addReceipt(clientId, receiptInvoice.id, {
+        receipt_date: values.receipt_date.format("YYYY-MM-DD"),
+        method: values.method,
+        amount,
+        withholding_tax: wht,
+        reference: values.reference || null,
+        bank_name: values.bank_name || null,
+        notes: values.notes || null,
+      });
+      msg.success(amount + wht >= balance ? "Invoice settled" : "Part payment recorded");
+      const warning = await tryPosting(() =>
+        postEvent({ kind: "payment_received", receipt, invoice_number: receiptInvoice.invoice_number })
+      );
+      if (warning) msg.warning(warning);
+      setReceiptInvoice(null);
+      await loadDetail();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to record payment"));
+    } finally {
+      setReceiptSaving(false);
+    }
+  }, [clientId, loadDetail, msg, receiptForm, receiptInvoice]);
+
+  const removeReceipt = useCallback(
+    async (inv: ClientInvoice, receipt: ClientPaymentReceipt) => {
       if (!clientId) return;
-      setLoading(true);
       try {
-        await api.put(`/api/client-management/clients/${clientId}/invoices/${invoiceId}`, {
-          payment_status: "Paid",
-        });
-        msg.success("Payment marked as Paid");
+        await sdk.clients.removeReceipt(clientId, inv.id, receipt.id);
+        msg.success("Receipt removed");
+        const warning = await tryPosting(() =>
+          reverseSource("client_receipt", receipt.id, dayjs().format("YYYY-MM-DD"), `receipt on ${inv.invoice_number} removed`)
+        );
+        if (warning) msg.warning(warning);
         await loadDetail();
-        if (selectedSiteId) await loadAllocations(selectedSiteId);
       } catch (e: unknown) {
-        msg.error(errorMessage(e, "Failed to mark Paid"));
-      } finally {
-        setLoading(false);
+        msg.error(errorMessage(e, "Failed to remove receipt"));
       }
     },
-    [clientId, loadAllocations, loadDetail, msg, selectedSiteId]
+    [clientId, loadDetail, msg]
   );
 
+  const downloadStatement = useCallback(async () => {
+    if (!detail) return;
+    const from = statementRange[0].format("YYYY-MM-DD");
+    const to = statementRange[1].format("YYYY-MM-DD");
+    const statement = buildStatement(detail.invoices ?? [], from, to);
+    const blob = buildStatementPdf(detail, statement, await loadPayslipLogo());
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `statement_${detail.client_code || detail.id}_${from}_${to}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+    setStatementOpen(false);
+  }, [detail, statementRange]);
+
   const openCreateRequirement = useCallback(() => {
     const firstSiteId = detail?.sites?.[0]?.id ?? null;
     const siteId = selectedSiteId ?? firstSiteId;
@@ -413,6 +410,7 @@ export default function ClientDetailPage() {
         site_address: null,
         city: null,
         risk_level: "Low",
+        contract_id: null,
       });
     }
 
@@ -461,12 +459,13 @@ export default function ClientDetailPage() {
         return;
       }
 
-      const created = await api.post<{ id: number }>(`/api/client-management/clients/${clientId}/sites`, {
+      const created = await sdk.clients.createSite(clientId, {
         site_name: siteName,
         site_address: values.site_address || null,
         city: values.city || null,
         risk_level: values.risk_level || "Low",
         status: "Active",
+        contract_id: values.contract_id ?? null,
       });
       siteId = Number(created?.id);
       if (!Number.isFinite(siteId)) {
@@ -485,7 +484,7 @@ export default function ClientDetailPage() {
 
     setAllocLoading(true);
     try {
-      await api.post(`/api/client-management/sites/${siteId}/requirements`, {
+      await sdk.sites.createRequirement(siteId, {
         guard_type: values.guard_type,
         number_of_guards: Number(values.number_of_guards || 1),
         start_date: startDate,
@@ -509,32 +508,8 @@ export default function ClientDetailPage() {
     async (invoiceId: number, invoiceNumber: string) => {
       if (!clientId) return;
       try {
-        const token = typeof window !== "undefined" ? window.localStorage.getItem("access_token") : null;
-        const res = await fetch(
-          `${API_BASE_URL}/api/client-management/clients/${clientId}/invoices/${invoiceId}/pdf`,
-          {
-            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-          }
-        );
-
-        const contentType = res.headers.get("content-type") || "";
-        if (!res.ok || !contentType.toLowerCase().includes("application/pdf")) {
-          let detail = `Failed (${res.status})`;
-          try {
-            const txt = await res.text();
-            try {
-              const j = JSON.parse(txt) as { detail?: unknown; message?: unknown };
-              detail = String(j.detail ?? j.message ?? detail);
-            } catch {
-              if (txt) detail = txt;
-            }
-          } catch {
-            // ignore
-          }
-          throw new Error(detail);
-        }
-
-        const ab = await res.arrayBuffer();
+        const { blob: pdf, filename } = await sdk.clients.invoicePdf(clientId, invoiceId);
+        const ab = await pdf.arrayBuffer();
         const head = new TextDecoder("ascii").decode(ab.slice(0, 4));
         if (head !== "%PDF") {
           throw new Error("Server did not return a valid PDF");
@@ -544,7 +519,7 @@ export default function ClientDetailPage() {
         const url = URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        a.download = `${invoiceNumber || "invoice"}.pdf`;
+        a.download = filename ?? `${invoiceNumber || "invoice"}.pdf`;
         document.body.appendChild(a);
         a.click();
         a.remove();
@@ -578,9 +553,15 @@ export default function ClientDetailPage() {
       { title: "Type", dataIndex: "site_type", width: 140 },
       { title: "City", dataIndex: "city", width: 140 },
       { title: "Risk", dataIndex: "risk_level", width: 120 },
+      {
+        title: "Contract",
+        dataIndex: "contract_id",
+        width: 140,
+        render: (v) => detail?.contracts?.find((c) => c.id === v)?.contract_number ?? "-",
+      },
       { title: "Status", dataIndex: "status", width: 120 },
     ],
-    []
+    [detail?.contracts]
   );
 
   const invoicesColumns = useMemo<ColumnsType<ClientInvoice>>(
@@ -591,30 +572,47 @@ export default function ClientDetailPage() {
       {
         title: "Net",
         dataIndex: "net_payable",
-        width: 140,
+        width: 130,
         render: (v) => <Tag color="purple">{Number(v ?? 0).toFixed(2)}</Tag>,
       },
-      { title: "Status", dataIndex: "payment_status", width: 120 },
+      { title: "Received", key: "received", width: 120, render: (_, r) => invoiceSettled(r).toFixed(2) },
+      {
+        title: "Balance",
+        key: "balance",
+        width: 120,
+        render: (_, r) => {
+          const balance = invoiceBalance(r);
+          return <Typography.Text type={balance > 0 ? "danger" : undefined}>{balance.toFixed(2)}</Typography.Text>;
+        },
+      },
+      {
+        title: "Status",
+        key: "status",
+        width: 130,
+        render: (_, r) => {
+          const st = receivableStatus(r);
+          return <Tag color={st === "Paid" ? "green" : st === "Partially Paid" ? "gold" : "red"}>{st}</Tag>;
+        },
+      },
       {
         title: "",
-        width: 220,
+        width: 200,
         render: (_, r) => {
-          const st = String(r.payment_status ?? "").toLowerCase();
-          const canMarkPaid = st !== "paid";
+          const open = invoiceBalance(r) > 0;
           return (
             <Space size={8}>
               <Button size="small" onClick={() => void downloadInvoicePdf(r.id, r.invoice_number)}>
                 PDF
               </Button>
-              <Button size="small" type={canMarkPaid ? "primary" : "default"} disabled={!canMarkPaid} onClick={() => void markInvoicePaid(r.id)}>
-                Mark Paid
+              <Button size="small" type={open ? "primary" : "default"} disabled={!open} onClick={() => openReceipt(r)}>
+                Receive
               </Button>
             </Space>
           );
         },
       },
     ],
-    [downloadInvoicePdf, markInvoicePaid]
+    [downloadInvoicePdf, openReceipt]
   );
 
   const allocationRows = useMemo(() => {
@@ -694,16 +692,19 @@ export default function ClientDetailPage() {
     const invoices = detail?.invoices ?? [];
     return invoices.reduce(
       (a, inv) => {
-        const amt = Number(inv?.net_payable ?? 0);
-        const st = String(inv?.payment_status ?? "").toLowerCase();
-        if (st === "paid") a.received += amt;
-        else a.pending += amt;
+        a.received += invoiceSettled(inv);
+        a.pending += invoiceBalance(inv);
         return a;
       },
       { received: 0, pending: 0 }
     );
   }, [detail?.invoices]);
 
+  const aging = useMemo(
+    () => buildAging(detail?.invoices ?? [], dayjs().format("YYYY-MM-DD"))[0] ?? null,
+    [detail?.invoices]
+  );
+
   const header = (
     <Row gutter={[12, 12]} align="middle">
       <Col flex="auto">
@@ -723,6 +724,9 @@ export default function ClientDetailPage() {
       </Col>
       <Col>
         <Space wrap>
+          <Button icon={<FilePdfOutlined />} disabled={!detail} onClick={() => setStatementOpen(true)}>
+            Statement
+          </Button>
           <Button icon={<ReloadOutlined />} onClick={() => void loadDetail()} loading={loading}>
             Refresh
           </Button>
@@ -878,6 +882,13 @@ export default function ClientDetailPage() {
                       ]}
                     />
                   </Form.Item>
+                  <Form.Item name="contract_id" label="Billed Under Contract">
+                    <Select
+                      allowClear
+                      placeholder="Client's only contract"
+                      options={(detail?.contracts ?? []).map((c) => ({ label: c.contract_number, value: c.id }))}
+                    />
+                  </Form.Item>
                 </>
               )}
 
@@ -961,6 +972,93 @@ export default function ClientDetailPage() {
           />
         </Space>
       </Modal>
+      <Modal
+        title={receiptInvoice ? `Receive Payment: ${receiptInvoice.invoice_number}` : "Receive Payment"}
+        open={Boolean(receiptInvoice)}
+        onCancel={() => setReceiptInvoice(null)}
+        onOk={() => void submitReceipt()}
+        okText="Record"
+        confirmLoading={receiptSaving}
+      >
+        {receiptInvoice ? (
+          <Typography.Paragraph type="secondary">
+            Net {Number(receiptInvoice.net_payable ?? 0).toFixed(2)} · received{" "}
+            {invoiceSettled(receiptInvoice).toFixed(2)} · outstanding {invoiceBalance(receiptInvoice).toFixed(2)}
+          </Typography.Paragraph>
+        ) : null}
+        <Form form={receiptForm} layout="vertical">
+          <Row gutter={[12, 0]}>
+            <Col xs={24} md={12}>
+              <Form.Item name="receipt_date" label="Date" rules={[{ required: true }]}>
+                <DatePicker style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="method" label="Method" rules={[{ required: true }]}>
+                <Select
+                  options={(Object.keys(PAYMENT_METHOD_LABELS) as ClientPaymentMethod[]).map((m) => ({
+                    label: PAYMENT_METHOD_LABELS[m],
+                    value: m,
+                  }))}
+                />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="amount" label="Amount Received" rules={[{ required: true }]}>
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="withholding_tax" label="Tax Withheld at Source">
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="reference" label="Cheque / Transaction No.">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="bank_name" label="Bank">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col xs={24}>
+              <Form.Item name="notes" label="Notes">
+                <Input.TextArea rows={2} />
+              </Form.Item>
+            </Col>
+          </Row>
+        </Form>
+      </Modal>
+
+      <Modal
+        title="Statement of Account"
+        open={statementOpen}
+        onCancel={() => setStatementOpen(false)}
+        onOk={() => void downloadStatement()}
+        okText="Download PDF"
+      >
+        <Typography.Text type="secondary">Period</Typography.Text>
+        <DatePicker.RangePicker
+          style={{ width: "100%" }}
+          allowClear={false}
+          value={statementRange}
+          onChange={(v) => {
+            if (v?.[0] && v?.[1]) setStatementRange([v[0], v[1]]);
+          }}
+        />
+      </Modal>
+
+      <InvoiceBuilder
+        client={detail}
+        open={invoiceOpen}
+        onClose={() => setInvoiceOpen(false)}
+        onIssued={() => {
+          setInvoiceOpen(false);
+          void loadDetail();
+        }}
+      />
       <Space direction="vertical" size={12} style={{ width: "100%" }}>
         {header}
         {overview}
@@ -1017,9 +1115,14 @@ export default function ClientDetailPage() {
         </Card>
 
         <Card variant="borderless" style={{ borderRadius: 16 }}>
-          <Typography.Title level={5} style={{ marginTop: 0 }}>
-            Invoices
-          </Typography.Title>
+          <Space style={{ width: "100%", justifyContent: "space-between" }}>
+            <Typography.Title level={5} style={{ margin: 0 }}>
+              Invoices
+            </Typography.Title>
+            <Button icon={<FileAddOutlined />} disabled={!detail} onClick={() => setInvoiceOpen(true)}>
+              Generate Invoice
+            </Button>
+          </Space>
           <Row gutter={[12, 12]} style={{ marginTop: 8 }}>
             <Col xs={24} md={12}>
               <Statistic title="Total Received from Client" value={invoiceTotals.received} prefix="Rs" precision={2} />
@@ -1027,6 +1130,11 @@ export default function ClientDetailPage() {
             <Col xs={24} md={12}>
               <Statistic title="Total Pending (Payment Not Done)" value={invoiceTotals.pending} prefix="Rs" precision={2} />
             </Col>
+            {AGING_BUCKETS.map((b) => (
+              <Col key={b} xs={12} md={6}>
+                <Statistic title={`${b} days`} value={aging?.buckets[b] ?? 0} prefix="Rs" precision={2} />
+              </Col>
+            ))}
           </Row>
           <Divider style={{ margin: "8px 0" }} />
           <Table<ClientInvoice>
@@ -1036,6 +1144,51 @@ export default function ClientDetailPage() {
             pagination={false}
             loading={loading}
             columns={invoicesColumns}
+            rowClassName={(r) => (r.id === focusInvoiceId ? "ant-table-row-selected" : "")}
+            expandable={{
+              expandedRowKeys: expandedInvoiceIds,
+              onExpandedRowsChange: setExpandedInvoiceIds,
+              rowExpandable: (r) => Boolean(r.receipts?.length),
+              expandedRowRender: (inv) => (
+                <Table<ClientPaymentReceipt>
+                  size="small"
+                  rowKey={(r) => r.id}
+                  dataSource={inv.receipts ?? []}
+                  pagination={false}
+                  columns={[
+                    { title: "Date", dataIndex: "receipt_date", width: 120 },
+                    {
+                      title: "Method",
+                      dataIndex: "method",
+                      width: 130,
+                      render: (v: ClientPaymentMethod) => PAYMENT_METHOD_LABELS[v] ?? v,
+                    },
+                    {
+                      title: "Reference",
+                      key: "reference",
+                      render: (_, r) => [r.bank_name, r.reference].filter(Boolean).join(" · ") || "-",
+                    },
+                    { title: "Received", dataIndex: "amount", width: 120, render: (v) => Number(v ?? 0).toFixed(2) },
+                    {
+                      title: "WHT",
+                      dataIndex: "withholding_tax",
+                      width: 110,
+                      render: (v) => Number(v ?? 0).toFixed(2),
+                    },
+                    {
+                      title: "",
+                      key: "actions",
+                      width: 60,
+                      render: (_, r) => (
+                        <Popconfirm title="Remove this receipt?" onConfirm={() => void removeReceipt(inv, r)}>
+                          <Button size="small" type="text" danger icon={<DeleteOutlined />} />
+                        </Popconfirm>
+                      ),
+                    },
+                  ]}
+                />
+              ),
+            }}
           />
         </Card>
 
@@ -32,67 +32,26 @@ import {
   FileTextOutlined,
   TeamOutlined,
   EnvironmentOutlined,
+  HistoryOutlined,
+  SyncOutlined,
 } from "@ant-design/icons";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import dayjs from "dayjs";
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
+import dayjs, { type Dayjs } from "dayjs";
+import ExpiryAlerts from "@/components/ExpiryAlerts";
+import { GUARD_TYPES, daysUntil, escalateRates, escalate, expiryWindow, renewalDraft } from "@/lib/contracts";
+import { sdk } from "@/lib/sdk";
+import type {
+  Client,
+  ClientContact,
+  ClientDetail,
+  Contract,
+  ContractGuardAllocation,
+  ContractRate,
+  ContractVersion,
+  Employee2,
+} from "@/lib/types";
 
-// Types
-type Client = {
-  id: number;
-  client_code: string;
-  client_name: string;
-  client_type: string;
-  industry_type?: string | null;
-  status: string;
-  location?: string | null;
-  address?: string | null;
-  phone?: string | null;
-  email?: string | null;
-  notes?: string | null;
-  created_at: string;
-};
-
-type FocalPerson = {
-  id: number;
-  client_id: number;
-  name: string;
-  designation?: string | null;
-  phone_number?: string | null;
-  email?: string | null;
-  is_primary: boolean;
-  reports_to_id?: number | null;
-};
-
-type Contract = {
-  id: number;
-  client_id: number;
-  contract_number: string;
-  start_date?: string | null;
-  end_date?: string | null;
-  contract_type?: string | null;
-  monthly_cost: number;
-  status: string;
-  notes?: string | null;
-  created_at: string;
-};
-
-type GuardAllocation = {
-  id: number;
-  contract_id: number;
-  employee_db_id: number;
-  employee_name?: string;
-  employee_id?: string;
-  start_date?: string | null;
-  end_date?: string | null;
-  status: string;
-};
-
-type ClientDetail = Client & {
-  contacts: FocalPerson[];
-  contracts: Contract[];
-};
+type FocalPerson = ClientContact;
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -106,6 +65,51 @@ function formatMoney(v: number): string {
   return `Rs ${v.toLocaleString("en-PK", { maximumFractionDigits: 0 })}`;
 }
 
+/** Per guard-type monthly rates, edited as a Form.List named `rates`. */
+function RateFields() {
+  return (
+    <Form.List name="rates">
+      {(fields, { add, remove }) => (
+        <>
+          {fields.map((field) => (
+            <Row key={field.key} gutter={8} align="top">
+              <Col span={12}>
+                <Form.Item name={[field.name, "guard_type"]} rules={[{ required: true, message: "Guard type" }]}>
+                  <Select placeholder="Guard type" options={GUARD_TYPES.map((t) => ({ label: t, value: t }))} />
+                </Form.Item>
+              </Col>
+              <Col span={9}>
+                <Form.Item name={[field.name, "monthly_rate"]} rules={[{ required: true, message: "Rate" }]}>
+                  <InputNumber style={{ width: "100%" }} min={0} placeholder="Rs / guard / month" />
+                </Form.Item>
+              </Col>
+              <Col span={3}>
+                <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+              </Col>
+            </Row>
+          ))}
+          <Button size="small" icon={<PlusOutlined />} onClick={() => add({ guard_type: GUARD_TYPES[0] })}>
+            Add rate
+          </Button>
+        </>
+      )}
+    </Form.List>
+  );
+}
+
+function ratesSummary(rates?: ContractRate[] | null) {
+  if (!rates?.length) return <Typography.Text type="secondary">-</Typography.Text>;
+  return (
+    <Space size={4} wrap>
+      {rates.map((r) => (
+        <Tag key={r.guard_type}>
+          {r.guard_type}: {formatMoney(Number(r.monthly_rate || 0))}
+        </Tag>
+      ))}
+    </Space>
+  );
+}
+
 export default function ClientManagementPage() {
   const [msg, msgCtx] = message.useMessage();
   const [loading, setLoading] = useState(false);
@@ -135,20 +139,44 @@ export default function ClientManagementPage() {
   const [contractForm] = Form.useForm();
   const [requiredGuards, setRequiredGuards] = useState(0);
   const [selectedGuards, setSelectedGuards] = useState<number[]>([]);
-  const [allGuards, setAllGuards] = useState<any[]>([]);
+  const [allGuards, setAllGuards] = useState<Employee2[]>([]);
   const [guardSearch, setGuardSearch] = useState("");
   
   // Guard allocation
   const [allocDrawerOpen, setAllocDrawerOpen] = useState(false);
-  const [allocations, setAllocations] = useState<GuardAllocation[]>([]);
+  const [allocations, setAllocations] = useState<ContractGuardAllocation[]>([]);
   const [allocLoading, setAllocLoading] = useState(false);
-  const [availableGuards, setAvailableGuards] = useState<any[]>([]);
+  const [availableGuards, setAvailableGuards] = useState<Employee2[]>([]);
+
+  // Rate schedule versions
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  const [versions, setVersions] = useState<ContractVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [reviseForm] = Form.useForm<{
+    effective_from: Dayjs;
+    escalation_percent?: number | null;
+    monthly_cost: number;
+    rates: ContractRate[];
+    notes?: string | null;
+  }>();
+
+  // Renewal
+  const [renewing, setRenewing] = useState<Contract | null>(null);
+  const [renewSaving, setRenewSaving] = useState(false);
+  const [renewForm] = Form.useForm<{
+    contract_number: string;
+    duration: [Dayjs, Dayjs];
+    escalation_percent: number;
+    monthly_cost: number;
+    rates: ContractRate[];
+    notes?: string | null;
+  }>();
 
   // Load clients
   const loadClients = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<Client[]>("/api/client-management/clients");
+      const data = await sdk.clients.list();
       setClients(Array.isArray(data) ? data : []);
     } catch (e) {
       msg.error(errorMessage(e, "Failed to load clients"));
@@ -166,7 +194,7 @@ export default function ClientManagementPage() {
     setDetailOpen(true);
     setDetailLoading(true);
     try {
-      const d = await api.get<ClientDetail>(`/api/client-management/clients/${clientId}`);
+      const d = await sdk.clients.get(clientId);
       setDetail(d);
     } catch (e) {
       msg.error(errorMessage(e, "Failed to load client"));
@@ -212,10 +240,10 @@ export default function ClientManagementPage() {
     const values = await clientForm.validateFields();
     try {
       if (clientDrawerMode === "create") {
-        await api.post("/api/client-management/clients", values);
+        await sdk.clients.create(values);
         msg.success("Client created");
       } else if (activeClient) {
-        await api.put(`/api/client-management/clients/${activeClient.id}`, values);
+        await sdk.clients.update(activeClient.id, values);
         msg.success("Client updated");
       }
       setClientDrawerOpen(false);
@@ -228,7 +256,7 @@ export default function ClientManagementPage() {
   // Delete client
   const deleteClient = useCallback(async (c: Client) => {
     try {
-      await api.del(`/api/client-management/clients/${c.id}`);
+      await sdk.clients.remove(c.id);
       msg.success("Client deleted");
       await loadClients();
     } catch (e) {
@@ -264,10 +292,10 @@ export default function ClientManagementPage() {
     const values = await focalForm.validateFields();
     try {
       if (focalDrawerMode === "create") {
-        await api.post(`/api/client-management/clients/${detail.id}/contacts`, values);
+        await sdk.clients.createContact(detail.id, values);
         msg.success("Focal person added");
       } else if (activeFocal) {
-        await api.put(`/api/client-management/clients/${detail.id}/contacts/${activeFocal.id}`, values);
+        await sdk.clients.updateContact(detail.id, activeFocal.id, values);
         msg.success("Focal person updated");
       }
       setFocalDrawerOpen(false);
@@ -280,7 +308,7 @@ export default function ClientManagementPage() {
   const deleteFocal = useCallback(async (f: FocalPerson) => {
     if (!detail) return;
     try {
-      await api.del(`/api/client-management/clients/${detail.id}/contacts/${f.id}`);
+      await sdk.clients.removeContact(detail.id, f.id);
       msg.success("Focal person deleted");
       await openClientDetail(detail.id);
     } catch (e) {
@@ -291,10 +319,10 @@ export default function ClientManagementPage() {
   // Contract functions
   const loadAvailableGuards = useCallback(async () => {
     try {
-      const response = await api.get<{ employees: any[]; total: number }>("/api/employees2/?limit=500");
+      const response = await sdk.employees2.list({ limit: 500 });
       const guards = response?.employees || [];
       // Filter to show only free guards
-      const freeGuards = guards.filter((g: any) => 
+      const freeGuards = guards.filter((g) => 
         !g.allocation_status || g.allocation_status === "Free"
       );
       setAllGuards(freeGuards);
@@ -311,6 +339,7 @@ export default function ClientManagementPage() {
       status: "Active",
       monthly_cost: 0,
       required_guards: 1,
+      rates: [],
     });
     setRequiredGuards(1);
     setSelectedGuards([]);
@@ -348,11 +377,11 @@ export default function ClientManagementPage() {
     try {
       if (contractDrawerMode === "create") {
         // Create contract first
-        const created = await api.post<{ id: number }>(`/api/client-management/clients/${detail.id}/contracts`, payload);
+        const created = await sdk.clients.createContract(detail.id, payload);
         
         // Allocate selected guards
         for (const guardId of selectedGuards) {
-          await api.post(`/api/client-management/contracts/${created.id}/allocations`, {
+          await sdk.clients.allocateToContract(created.id, {
             employee_db_id: guardId,
             start_date: dayjs().format("YYYY-MM-DD"),
             status: "Active",
@@ -360,7 +389,7 @@ export default function ClientManagementPage() {
         }
         msg.success(`Contract created with ${selectedGuards.length} guards allocated`);
       } else if (activeContract) {
-        await api.put(`/api/client-management/clients/${detail.id}/contracts/${activeContract.id}`, payload);
+        await sdk.clients.updateContract(detail.id, activeContract.id, payload);
         msg.success("Contract updated");
       }
       setContractDrawerOpen(false);
@@ -373,7 +402,7 @@ export default function ClientManagementPage() {
   const deleteContract = useCallback(async (c: Contract) => {
     if (!detail) return;
     try {
-      await api.del(`/api/client-management/clients/${detail.id}/contracts/${c.id}`);
+      await sdk.clients.removeContract(detail.id, c.id);
       msg.success("Contract deleted");
       await openClientDetail(detail.id);
     } catch (e) {
@@ -384,7 +413,7 @@ export default function ClientManagementPage() {
   const endContract = useCallback(async (c: Contract) => {
     if (!detail) return;
     try {
-      await api.put(`/api/client-management/clients/${detail.id}/contracts/${c.id}`, {
+      await sdk.clients.updateContract(detail.id, c.id, {
         status: "Ended",
         end_date: dayjs().format("YYYY-MM-DD"),
       });
@@ -395,6 +424,107 @@ export default function ClientManagementPage() {
     }
   }, [detail, msg, openClientDetail]);
 
+  // Rate schedule functions
+  const openVersions = useCallback(async (c: Contract) => {
+    setActiveContract(c);
+    setVersionsOpen(true);
+    setVersionsLoading(true);
+    reviseForm.resetFields();
+    reviseForm.setFieldsValue({
+      effective_from: dayjs(),
+      escalation_percent: 0,
+      monthly_cost: c.monthly_cost,
+      rates: c.rates ?? [],
+    });
+    try {
+      const data = await sdk.clients.contractVersions(c.id);
+      setVersions([...(data ?? [])].sort((a, b) => b.version - a.version));
+    } catch (e) {
+      msg.error(errorMessage(e, "Failed to load rate history"));
+      setVersions([]);
+    } finally {
+      setVersionsLoading(false);
+    }
+  }, [msg, reviseForm]);
+
+  const applyRevisionEscalation = useCallback((pct: number) => {
+    if (!activeContract) return;
+    reviseForm.setFieldsValue({
+      monthly_cost: escalate(activeContract.monthly_cost, pct),
+      rates: escalateRates(activeContract.rates ?? [], pct),
+    });
+  }, [activeContract, reviseForm]);
+
+  const saveRevision = useCallback(async () => {
+    if (!detail || !activeContract) return;
+    const values = await reviseForm.validateFields();
+    const effectiveFrom = values.effective_from.format("YYYY-MM-DD");
+    if (activeContract.start_date && effectiveFrom < activeContract.start_date) {
+      msg.error("A revision cannot take effect before the contract starts");
+      return;
+    }
+    try {
+      await sdk.clients.reviseContract(activeContract.id, {
+        effective_from: effectiveFrom,
+        monthly_cost: values.monthly_cost,
+        rates: values.rates ?? [],
+        escalation_percent: values.escalation_percent || null,
+        notes: values.notes || null,
+      });
+      msg.success(`Rates revised from ${effectiveFrom}`);
+      await openClientDetail(detail.id);
+      const refreshed = await sdk.clients.get(detail.id);
+      const updated = refreshed.contracts?.find((x) => x.id === activeContract.id);
+      await openVersions(updated ?? activeContract);
+    } catch (e) {
+      msg.error(errorMessage(e, "Failed to revise rates"));
+    }
+  }, [activeContract, detail, msg, openClientDetail, openVersions, reviseForm]);
+
+  // Renewal functions
+  const openRenew = useCallback((c: Contract) => {
+    const draft = renewalDraft(c, 5);
+    renewForm.resetFields();
+    renewForm.setFieldsValue({
+      contract_number: draft.contract_number,
+      duration: [dayjs(draft.start_date), dayjs(draft.end_date)],
+      escalation_percent: draft.escalation_percent,
+      monthly_cost: draft.monthly_cost,
+      rates: draft.rates,
+    });
+    setRenewing(c);
+  }, [renewForm]);
+
+  const applyRenewalEscalation = useCallback((pct: number) => {
+    if (!renewing) return;
+    const draft = renewalDraft(renewing, pct);
+    renewForm.setFieldsValue({ monthly_cost: draft.monthly_cost, rates: draft.rates });
+  }, [renewForm, renewing]);
+
+  const saveRenewal = useCallback(async () => {
+    if (!detail || !renewing) return;
+    const values = await renewForm.validateFields();
+    setRenewSaving(true);
+    try {
+      const created = await sdk.clients.renewContract(renewing.id, {
+        contract_number: values.contract_number,
+        start_date: values.duration[0].format("YYYY-MM-DD"),
+        end_date: values.duration[1].format("YYYY-MM-DD"),
+        escalation_percent: Number(values.escalation_percent || 0),
+        monthly_cost: values.monthly_cost,
+        rates: values.rates ?? [],
+        notes: values.notes || null,
+      });
+      msg.success(`Contract renewed as ${created.contract_number}`);
+      setRenewing(null);
+      await openClientDetail(detail.id);
+    } catch (e) {
+      msg.error(errorMessage(e, "Renewal failed"));
+    } finally {
+      setRenewSaving(false);
+    }
+  }, [detail, msg, openClientDetail, renewForm, renewing]);
+
   // Guard allocation functions
   const openAllocations = useCallback(async (c: Contract) => {
     setActiveContract(c);
@@ -402,13 +532,13 @@ export default function ClientManagementPage() {
     setAllocLoading(true);
     try {
       const [allocs, guards] = await Promise.all([
-        api.get<GuardAllocation[]>(`/api/client-management/contracts/${c.id}/allocations`),
-        api.get<any[]>("/api/employees2"),
+        sdk.clients.contractAllocations(c.id),
+        sdk.employees2.list({ limit: 500 }),
       ]);
       setAllocations(Array.isArray(allocs) ? allocs : []);
       // Filter to show only available guards (not allocated)
-      const allocatedIds = new Set((allocs || []).map((a: any) => a.employee_db_id));
-      setAvailableGuards((guards || []).filter((g: any) => !allocatedIds.has(g.id)));
+      const allocatedIds = new Set((allocs || []).map((a) => a.employee_db_id));
+      setAvailableGuards((guards?.employees || []).filter((g) => !allocatedIds.has(g.id)));
     } catch (e) {
       msg.error(errorMessage(e, "Failed to load allocations"));
     } finally {
@@ -419,7 +549,7 @@ export default function ClientManagementPage() {
   const allocateGuard = useCallback(async (employeeId: number) => {
     if (!activeContract) return;
     try {
-      await api.post(`/api/client-management/contracts/${activeContract.id}/allocations`, {
+      await sdk.clients.allocateToContract(activeContract.id, {
         employee_db_id: employeeId,
         start_date: dayjs().format("YYYY-MM-DD"),
         status: "Active",
@@ -434,7 +564,7 @@ export default function ClientManagementPage() {
   const removeAllocation = useCallback(async (allocId: number) => {
     if (!activeContract) return;
     try {
-      await api.del(`/api/client-management/contracts/${activeContract.id}/allocations/${allocId}`);
+      await sdk.clients.removeContractAllocation(activeContract.id, allocId);
       msg.success("Guard removed - now free");
       await openAllocations(activeContract);
     } catch (e) {
@@ -445,20 +575,7 @@ export default function ClientManagementPage() {
   // Download invoice/receipt
   const downloadInvoice = useCallback(async (contractId: number, contractNumber: string) => {
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
-      const res = await fetch(`${API_BASE_URL}/api/client-management/contracts/${contractId}/invoice-pdf`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error("Failed to generate invoice");
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `invoice_${contractNumber}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
+      await sdk.clients.contractInvoicePdf(contractId, contractNumber);
     } catch (e) {
       msg.error(errorMessage(e, "Download failed"));
     }
@@ -466,20 +583,7 @@ export default function ClientManagementPage() {
 
   const downloadReceipt = useCallback(async (contractId: number, contractNumber: string) => {
     try {
-      const token = typeof window !== "undefined" ? localStorage.getItem("access_token") : null;
-      const res = await fetch(`${API_BASE_URL}/api/client-management/contracts/${contractId}/receipt-pdf`, {
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-      });
-      if (!res.ok) throw new Error("Failed to generate receipt");
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `receipt_${contractNumber}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
+      await sdk.clients.contractReceiptPdf(contractId, contractNumber);
     } catch (e) {
       msg.error(errorMessage(e, "Download failed"));
     }
@@ -553,12 +657,36 @@ export default function ClientManagementPage() {
     { title: "Contract #", dataIndex: "contract_number", width: 120 },
     { title: "Type", dataIndex: "contract_type", width: 100 },
     { title: "Start", dataIndex: "start_date", width: 100 },
-    { title: "End", dataIndex: "end_date", width: 100 },
+    {
+      title: "End",
+      dataIndex: "end_date",
+      width: 130,
+      render: (v: string | null, r) => {
+        if (!v) return "-";
+        const days = daysUntil(v);
+        const window = r.status === "Active" ? expiryWindow(days) : null;
+        return (
+          <Space size={4} wrap>
+            {v}
+            {window ? (
+              <Tag color={window === "expired" ? "red" : window === 30 ? "volcano" : "gold"}>
+                {window === "expired" ? "Expired" : `${days}d left`}
+              </Tag>
+            ) : null}
+          </Space>
+        );
+      },
+    },
     {
       title: "Monthly Cost",
       dataIndex: "monthly_cost",
       width: 120,
-      render: (v) => <Typography.Text strong>{formatMoney(v || 0)}</Typography.Text>,
+      render: (v, r) => (
+        <Space orientation="vertical" size={0}>
+          <Typography.Text strong>{formatMoney(v || 0)}</Typography.Text>
+          {r.version && r.version > 1 ? <Typography.Text type="secondary">v{r.version}</Typography.Text> : null}
+        </Space>
+      ),
     },
     {
       title: "Status",
@@ -577,6 +705,14 @@ export default function ClientManagementPage() {
             Guards
           </Button>
           <Button size="small" icon={<EditOutlined />} onClick={() => openEditContract(r)} />
+          <Button size="small" icon={<HistoryOutlined />} onClick={() => void openVersions(r)}>
+            Rates
+          </Button>
+          {r.status === "Active" && (
+            <Button size="small" icon={<SyncOutlined />} onClick={() => openRenew(r)}>
+              Renew
+            </Button>
+          )}
           {r.status === "Active" && (
             <Popconfirm title="End this contract?" onConfirm={() => void endContract(r)}>
               <Button size="small" danger>End</Button>
@@ -591,12 +727,16 @@ export default function ClientManagementPage() {
         </Space>
       ),
     },
-  ], [deleteContract, downloadInvoice, endContract, openAllocations, openEditContract]);
+  ], [deleteContract, downloadInvoice, endContract, openAllocations, openEditContract, openRenew, openVersions]);
 
   return (
     <>
       {msgCtx}
       
+      <div style={{ marginBottom: 16 }}>
+        <ExpiryAlerts onOpenClient={(id) => void openClientDetail(id)} />
+      </div>
+
       {/* Main Client List */}
       <Card styles={{ body: { padding: 16 } }}>
         <Row justify="space-between" align="middle" style={{ marginBottom: 16 }}>
@@ -860,6 +1000,15 @@ export default function ClientManagementPage() {
           <Form.Item name="monthly_cost" label="Monthly Cost (Rs)" rules={[{ required: true }]}>
             <InputNumber style={{ width: "100%" }} min={0} placeholder="50000" />
           </Form.Item>
+          {contractDrawerMode === "create" ? (
+            <Form.Item label="Rates per Guard Type">
+              <RateFields />
+            </Form.Item>
+          ) : (
+            <Form.Item label="Rates per Guard Type" extra="Revise rates from the contract's Rates history">
+              {ratesSummary(activeContract?.rates)}
+            </Form.Item>
+          )}
           <Form.Item name="status" label="Status">
             <Select options={[
               { label: "Active", value: "Active" },
@@ -986,6 +1135,131 @@ export default function ClientManagementPage() {
         </Form>
       </Drawer>
 
+      {/* Rate Schedule Drawer */}
+      <Drawer
+        title={`Rate Schedule - ${activeContract?.contract_number || ""}`}
+        open={versionsOpen}
+        onClose={() => setVersionsOpen(false)}
+        width={760}
+      >
+        <Space direction="vertical" size={16} style={{ width: "100%" }}>
+          <Card size="small" title="History">
+            <Table<ContractVersion>
+              rowKey="id"
+              size="small"
+              loading={versionsLoading}
+              dataSource={versions}
+              pagination={false}
+              columns={[
+                { title: "Ver.", dataIndex: "version", width: 60, render: (v) => `v${v}` },
+                {
+                  title: "Effective",
+                  key: "effective",
+                  width: 190,
+                  render: (_, r) => `${r.effective_from} → ${r.effective_to || "current"}`,
+                },
+                { title: "Monthly", dataIndex: "monthly_cost", width: 110, render: (v) => formatMoney(Number(v || 0)) },
+                { title: "Rates", key: "rates", render: (_, r) => ratesSummary(r.rates) },
+                {
+                  title: "Esc.",
+                  dataIndex: "escalation_percent",
+                  width: 70,
+                  render: (v) => (v ? `${v}%` : "-"),
+                },
+              ]}
+            />
+          </Card>
+
+          <Card
+            size="small"
+            title="Revise Rates"
+            extra={<Button type="primary" size="small" onClick={() => void saveRevision()}>Save Revision</Button>}
+          >
+            <Form form={reviseForm} layout="vertical">
+              <Row gutter={12}>
+                <Col span={8}>
+                  <Form.Item name="effective_from" label="Effective From" rules={[{ required: true }]}>
+                    <DatePicker style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item name="escalation_percent" label="Escalation %">
+                    <InputNumber
+                      style={{ width: "100%" }}
+                      min={-100}
+                      max={100}
+                      onChange={(v) => applyRevisionEscalation(Number(v || 0))}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item name="monthly_cost" label="Monthly Cost (Rs)" rules={[{ required: true }]}>
+                    <InputNumber style={{ width: "100%" }} min={0} />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Form.Item label="Rates per Guard Type">
+                <RateFields />
+              </Form.Item>
+              <Form.Item name="notes" label="Notes">
+                <Input.TextArea rows={2} placeholder="Reason for the revision" />
+              </Form.Item>
+            </Form>
+          </Card>
+        </Space>
+      </Drawer>
+
+      {/* Renewal Modal */}
+      <Modal
+        title={`Renew Contract ${renewing?.contract_number || ""}`}
+        open={Boolean(renewing)}
+        onCancel={() => setRenewing(null)}
+        onOk={() => void saveRenewal()}
+        okText="Renew"
+        confirmLoading={renewSaving}
+        width={620}
+      >
+        <Typography.Paragraph type="secondary">
+          Creates a new contract from the current one with escalated rates. The current contract is marked Renewed
+          and its guard allocations carry over.
+        </Typography.Paragraph>
+        <Form form={renewForm} layout="vertical">
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item name="contract_number" label="New Contract Number" rules={[{ required: true }]}>
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="escalation_percent" label="Escalation %" rules={[{ required: true }]}>
+                <InputNumber
+                  style={{ width: "100%" }}
+                  min={-100}
+                  max={100}
+                  onChange={(v) => applyRenewalEscalation(Number(v || 0))}
+                />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="duration" label="Term" rules={[{ required: true }]}>
+                <DatePicker.RangePicker style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="monthly_cost" label="Monthly Cost (Rs)" rules={[{ required: true }]}>
+                <InputNumber style={{ width: "100%" }} min={0} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item label="Rates per Guard Type">
+            <RateFields />
+          </Form.Item>
+          <Form.Item name="notes" label="Notes">
+            <Input.TextArea rows={2} />
+          </Form.Item>
+        </Form>
+      </Modal>
+
       {/* Guard Allocation Drawer */}
       <Drawer
         title={`Guard Allocation - ${activeContract?.contract_number || ""}`}
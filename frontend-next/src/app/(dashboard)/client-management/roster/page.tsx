@@ -0,0 +1,551 @@
+"use client";
+
+import {
+  CalendarOutlined,
+  CloudUploadOutlined,
+  ReloadOutlined,
+  SaveOutlined,
+  ThunderboltOutlined,
+} from "@ant-design/icons";
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Empty,
+  Input,
+  message,
+  Popconfirm,
+  Row,
+  Segmented,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import dayjs, { type Dayjs } from "dayjs";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { eachDay, findRosterIssues, generateShifts, parseWeeklyOffRules, slotKey } from "@/lib/roster";
+import { sdk } from "@/lib/sdk";
+import type {
+  Client,
+  ClientGuardRequirement,
+  ClientSite,
+  ClientSiteGuardAllocation,
+  Employee2,
+  RosterShift,
+  RosterStatus,
+} from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+type View = "week" | "month";
+
+type GridRow = {
+  key: string;
+  requirement: ClientGuardRequirement;
+  slot: number;
+};
+
+const DRAG_SLOT = "application/x-roster-slot";
+const DRAG_GUARD = "application/x-roster-guard";
+
+function periodFor(view: View, anchor: Dayjs): [Dayjs, Dayjs] {
+  return [anchor.startOf(view), anchor.endOf(view).startOf("day")];
+}
+
+function shiftLabel(r: ClientGuardRequirement): string {
+  const time = r.shift_start && r.shift_end ? ` ${r.shift_start.slice(0, 5)}–${r.shift_end.slice(0, 5)}` : "";
+  return `${r.shift_type || r.guard_type}${time}`;
+}
+
+function guardCode(g: Employee2): string {
+  return String(g.fss_no || g.serial_no || g.id);
+}
+
+export default function RosterPlannerPage() {
+  const [msg, msgCtx] = message.useMessage();
+
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientId, setClientId] = useState<number | null>(null);
+  const [sites, setSites] = useState<ClientSite[]>([]);
+  const [siteId, setSiteId] = useState<number | null>(null);
+
+  const [view, setView] = useState<View>("week");
+  const [anchor, setAnchor] = useState<Dayjs>(dayjs());
+  const [from, to] = useMemo(() => periodFor(view, anchor), [anchor, view]);
+  const days = useMemo(() => eachDay(from, to), [from, to]);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [status, setStatus] = useState<RosterStatus>("draft");
+
+  const [requirements, setRequirements] = useState<ClientGuardRequirement[]>([]);
+  const [allocations, setAllocations] = useState<ClientSiteGuardAllocation[]>([]);
+  const [guards, setGuards] = useState<Employee2[]>([]);
+  const [shifts, setShifts] = useState<RosterShift[]>([]);
+  const [otherSites, setOtherSites] = useState<RosterShift[]>([]);
+  const [guardSearch, setGuardSearch] = useState("");
+
+  useEffect(() => {
+    void (async () => {
+      try {
+        const [cs, emps] = await Promise.all([sdk.clients.list(), sdk.employees2.listAll()]);
+        setClients(Array.isArray(cs) ? cs : []);
+        setGuards(emps);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to load clients"));
+      }
+    })();
+  }, [msg]);
+
+  useEffect(() => {
+    if (!clientId) {
+      setSites([]);
+      setSiteId(null);
+      return;
+    }
+    void (async () => {
+      try {
+        const d = await sdk.clients.get(clientId);
+        const list = d?.sites ?? [];
+        setSites(list);
+        setSiteId(list[0]?.id ?? null);
+      } catch (e: unknown) {
+        setSites([]);
+        setSiteId(null);
+        msg.error(errorMessage(e, "Failed to load sites"));
+      }
+    })();
+  }, [clientId, msg]);
+
+  const load = useCallback(async () => {
+    if (!siteId) return;
+    setLoading(true);
+    const fromStr = from.format("YYYY-MM-DD");
+    const toStr = to.format("YYYY-MM-DD");
+    try {
+      const [reqs, allocs, period, all] = await Promise.all([
+        sdk.sites.requirements(siteId),
+        sdk.sites.allocations(siteId),
+        sdk.roster.period(siteId, fromStr, toStr),
+        sdk.roster.shifts({ from_date: fromStr, to_date: toStr }),
+      ]);
+      setRequirements(Array.isArray(reqs) ? reqs : []);
+      setAllocations(Array.isArray(allocs) ? allocs : []);
+      setShifts(period?.shifts ?? []);
+      setStatus(period?.status ?? "draft");
+      setOtherSites((all ?? []).filter((s) => s.site_id !== siteId));
+      setDirty(false);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load roster"));
+    } finally {
+      setLoading(false);
+    }
+  }, [from, msg, siteId, to]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const generate = useCallback(
+    (overwrite: boolean) => {
+      const next = generateShifts({ siteId: siteId!, requirements, allocations, from, to, existing: shifts, overwrite });
+      setShifts(next);
+      setDirty(true);
+      msg.success(`Generated ${next.length} shifts`);
+    },
+    [allocations, from, msg, requirements, shifts, siteId, to]
+  );
+
+  const save = useCallback(async () => {
+    if (!siteId) return;
+    setSaving(true);
+    try {
+      const res = await sdk.roster.save(siteId, {
+        from_date: from.format("YYYY-MM-DD"),
+        to_date: to.format("YYYY-MM-DD"),
+        shifts,
+      });
+      setShifts(res?.shifts ?? shifts);
+      setStatus(res?.status ?? "draft");
+      setDirty(false);
+      msg.success("Roster saved");
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save roster"));
+    } finally {
+      setSaving(false);
+    }
+  }, [from, msg, shifts, siteId, to]);
+
+  const issues = useMemo(() => findRosterIssues(shifts, otherSites), [otherSites, shifts]);
+
+  const publish = useCallback(async () => {
+    if (!siteId) return;
+    setSaving(true);
+    try {
+      const res = await sdk.roster.publish(siteId, from.format("YYYY-MM-DD"), to.format("YYYY-MM-DD"));
+      setStatus(res?.status ?? "published");
+      msg.success("Roster published");
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to publish roster"));
+    } finally {
+      setSaving(false);
+    }
+  }, [from, msg, siteId, to]);
+
+  const guardById = useMemo(() => new Map(guards.map((g) => [g.id, g])), [guards]);
+  const siteNameById = useMemo(() => new Map(sites.map((s) => [s.id, s.site_name])), [sites]);
+  const shiftByKey = useMemo(() => new Map(shifts.map((s) => [slotKey(s), s])), [shifts]);
+
+  const guardName = useCallback(
+    (id: number | null | undefined, short = false) => {
+      if (id == null) return "";
+      const g = guardById.get(id);
+      if (!g) return `#${id}`;
+      return short ? g.name.split(" ")[0] || guardCode(g) : g.name;
+    },
+    [guardById]
+  );
+
+  const assign = useCallback((key: string, employeeDbId: number | null) => {
+    setShifts((prev) => prev.map((s) => (slotKey(s) === key ? { ...s, employee_db_id: employeeDbId } : s)));
+    setDirty(true);
+  }, []);
+
+  const swap = useCallback((a: string, b: string) => {
+    if (a === b) return;
+    setShifts((prev) => {
+      const ga = prev.find((s) => slotKey(s) === a)?.employee_db_id ?? null;
+      const gb = prev.find((s) => slotKey(s) === b)?.employee_db_id ?? null;
+      return prev.map((s) => {
+        const k = slotKey(s);
+        if (k === a) return { ...s, employee_db_id: gb };
+        if (k === b) return { ...s, employee_db_id: ga };
+        return s;
+      });
+    });
+    setDirty(true);
+  }, []);
+
+  const onDrop = useCallback(
+    (e: React.DragEvent, targetKey: string) => {
+      e.preventDefault();
+      const fromSlot = e.dataTransfer.getData(DRAG_SLOT);
+      const guard = e.dataTransfer.getData(DRAG_GUARD);
+      if (fromSlot) swap(fromSlot, targetKey);
+      else if (guard) assign(targetKey, Number(guard));
+    },
+    [assign, swap]
+  );
+
+  const gridRows = useMemo<GridRow[]>(
+    () =>
+      requirements.flatMap((r) =>
+        Array.from({ length: Math.max(0, Number(r.number_of_guards) || 0) }, (_, slot) => ({
+          key: `${r.id}:${slot}`,
+          requirement: r,
+          slot,
+        }))
+      ),
+    [requirements]
+  );
+
+  const columns = useMemo<ColumnsType<GridRow>>(() => {
+    const compact = view === "month";
+    return [
+      {
+        title: "Post",
+        key: "post",
+        fixed: "left",
+        width: 190,
+        render: (_, row) => (
+          <Space direction="vertical" size={0}>
+            <Typography.Text strong>
+              {shiftLabel(row.requirement)} #{row.slot + 1}
+            </Typography.Text>
+            {row.requirement.weekly_off_rules ? (
+              <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                Off: {row.requirement.weekly_off_rules}
+              </Typography.Text>
+            ) : null}
+          </Space>
+        ),
+      },
+      ...days.map((d) => {
+        const date = d.format("YYYY-MM-DD");
+        return {
+          title: (
+            <div style={{ textAlign: "center", lineHeight: 1.2 }}>
+              <div>{d.format(compact ? "DD" : "ddd DD")}</div>
+              {compact ? <div style={{ fontSize: 10 }}>{d.format("dd")}</div> : null}
+            </div>
+          ),
+          key: date,
+          width: compact ? 64 : 130,
+          render: (_: unknown, row: GridRow) => {
+            const key = slotKey({ requirement_id: row.requirement.id, date, slot: row.slot });
+            const shift = shiftByKey.get(key);
+            if (!shift) return <Typography.Text type="secondary">-</Typography.Text>;
+
+            const clashes = issues.doubleBooked.get(key);
+            const empty = shift.employee_db_id == null;
+            const clashText = clashes
+              ?.map((c) => `${siteNameById.get(c.site_id) ?? `Site #${c.site_id}`} (${c.date} ${c.shift_start ?? ""})`)
+              .join(", ");
+
+            return (
+              <Tooltip title={clashes ? `Double-booked: ${clashText}` : empty ? "Unfilled post" : guardName(shift.employee_db_id)}>
+                <div
+                  draggable={!empty}
+                  onDragStart={(e) => e.dataTransfer.setData(DRAG_SLOT, key)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => onDrop(e, key)}
+                  onDoubleClick={() => !empty && assign(key, null)}
+                  style={{
+                    minHeight: 28,
+                    padding: "2px 4px",
+                    borderRadius: 4,
+                    cursor: empty ? "default" : "grab",
+                    fontSize: compact ? 11 : 13,
+                    overflow: "hidden",
+                    whiteSpace: "nowrap",
+                    textOverflow: "ellipsis",
+                    border: `1px dashed ${empty ? "#ef4444" : "transparent"}`,
+                    background: clashes ? "#fed7aa" : empty ? "#fee2e2" : "#e0ecff",
+                  }}
+                >
+                  {empty ? (compact ? "—" : "Unfilled") : guardName(shift.employee_db_id, compact)}
+                </div>
+              </Tooltip>
+            );
+          },
+        };
+      }),
+    ];
+  }, [assign, days, guardName, issues.doubleBooked, onDrop, shiftByKey, siteNameById, view]);
+
+  const pool = useMemo(() => {
+    const q = guardSearch.trim().toLowerCase();
+    const allocated = new Set(allocations.filter((a) => a.status !== "Released").map((a) => a.employee_db_id));
+    return guards
+      .filter((g) => !q || `${g.name} ${guardCode(g)}`.toLowerCase().includes(q))
+      .sort((a, b) => Number(allocated.has(b.id)) - Number(allocated.has(a.id)))
+      .slice(0, 60)
+      .map((g) => ({ g, allocated: allocated.has(g.id) }));
+  }, [allocations, guardSearch, guards]);
+
+  const offRules = useMemo(
+    () => requirements.filter((r) => r.weekly_off_rules).map((r) => ({ r, rule: parseWeeklyOffRules(r.weekly_off_rules) })),
+    [requirements]
+  );
+
+  return (
+    <>
+      {msgCtx}
+      <Card
+        variant="borderless"
+        style={{ borderRadius: 0, height: "calc(100vh - 24px)", overflow: "hidden" }}
+        styles={{ body: { padding: 12, height: "100%", overflowY: "auto" } }}
+      >
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Guard Roster</Typography.Text>{" "}
+                <Tag color={status === "published" ? "green" : "gold"}>{status === "published" ? "Published" : "Draft"}</Tag>
+                {dirty ? <Tag color="orange">Unsaved changes</Tag> : null}
+              </div>
+            </Col>
+            <Col>
+              <Space wrap>
+                <Select
+                  showSearch
+                  placeholder="Client"
+                  style={{ width: 220 }}
+                  value={clientId ?? undefined}
+                  onChange={(v) => setClientId(v)}
+                  optionFilterProp="label"
+                  options={clients.map((c) => ({ label: c.client_name, value: c.id }))}
+                />
+                <Select
+                  placeholder="Site"
+                  style={{ width: 200 }}
+                  value={siteId ?? undefined}
+                  onChange={(v) => setSiteId(v)}
+                  options={sites.map((s) => ({ label: s.site_name, value: s.id }))}
+                />
+                <Segmented<View>
+                  value={view}
+                  onChange={(v) => setView(v)}
+                  options={[
+                    { label: "Week", value: "week" },
+                    { label: "Month", value: "month" },
+                  ]}
+                />
+                <DatePicker
+                  picker={view}
+                  value={anchor}
+                  allowClear={false}
+                  onChange={(d) => d && setAnchor(d)}
+                />
+                <Button icon={<ReloadOutlined />} onClick={() => void load()} disabled={!siteId}>
+                  Reload
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          {!siteId ? (
+            <Empty description="Select a client and site to plan its roster" />
+          ) : (
+            <>
+              <Row gutter={[12, 12]}>
+                <Col xs={12} md={6}>
+                  <Card size="small" style={{ borderRadius: 0 }}>
+                    <Statistic title="Shifts" value={shifts.length} prefix={<CalendarOutlined />} />
+                  </Card>
+                </Col>
+                <Col xs={12} md={6}>
+                  <Card size="small" style={{ borderRadius: 0 }}>
+                    <Statistic title="Filled" value={shifts.length - issues.unfilled.length} />
+                  </Card>
+                </Col>
+                <Col xs={12} md={6}>
+                  <Card size="small" style={{ borderRadius: 0 }}>
+                    <Statistic
+                      title="Unfilled posts"
+                      value={issues.unfilled.length}
+                      valueStyle={{ color: issues.unfilled.length ? "#dc2626" : undefined }}
+                    />
+                  </Card>
+                </Col>
+                <Col xs={12} md={6}>
+                  <Card size="small" style={{ borderRadius: 0 }}>
+                    <Statistic
+                      title="Double-booked"
+                      value={issues.doubleBooked.size}
+                      valueStyle={{ color: issues.doubleBooked.size ? "#ea580c" : undefined }}
+                    />
+                  </Card>
+                </Col>
+              </Row>
+
+              {issues.doubleBooked.size > 0 ? (
+                <Alert
+                  type="warning"
+                  showIcon
+                  message="Some guards are booked on overlapping shifts"
+                  description="Orange cells clash with another post at this or another site. Drag a different guard onto them before publishing."
+                />
+              ) : null}
+
+              <Space wrap>
+                <Button icon={<ThunderboltOutlined />} onClick={() => generate(false)} disabled={!requirements.length}>
+                  Fill from requirements
+                </Button>
+                <Popconfirm
+                  title="Regenerate roster?"
+                  description="All assignments in this period will be replaced."
+                  onConfirm={() => generate(true)}
+                >
+                  <Button disabled={!requirements.length}>Regenerate</Button>
+                </Popconfirm>
+                <Button type="primary" icon={<SaveOutlined />} loading={saving} onClick={() => void save()} disabled={!dirty}>
+                  Save draft
+                </Button>
+                <Popconfirm
+                  title="Publish roster?"
+                  description={
+                    issues.unfilled.length || issues.doubleBooked.size
+                      ? `${issues.unfilled.length} unfilled and ${issues.doubleBooked.size} double-booked shifts remain.`
+                      : "Supervisors will see it on their attendance sheets."
+                  }
+                  onConfirm={() => void publish()}
+                  disabled={dirty || !shifts.length}
+                >
+                  <Button icon={<CloudUploadOutlined />} loading={saving} disabled={dirty || !shifts.length}>
+                    Publish
+                  </Button>
+                </Popconfirm>
+                {offRules.map(({ r, rule }) => (
+                  <Tag key={r.id}>
+                    {shiftLabel(r)}:{" "}
+                    {rule.days.length
+                      ? rule.days.map((d) => dayjs().day(d).format("ddd")).join(", ")
+                      : rule.perWeek
+                        ? `${rule.perWeek} rotating off/week`
+                        : "no weekly off"}
+                  </Tag>
+                ))}
+              </Space>
+
+              <Row gutter={[12, 12]}>
+                <Col xs={24} lg={19}>
+                  <Table<GridRow>
+                    size="small"
+                    bordered
+                    loading={loading}
+                    rowKey="key"
+                    columns={columns}
+                    dataSource={gridRows}
+                    pagination={false}
+                    scroll={{ x: "max-content" }}
+                    locale={{ emptyText: "This site has no guard requirements" }}
+                  />
+                  <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                    Drag a guard between cells to swap, or from the list to assign. Double-click a cell to clear it.
+                  </Typography.Text>
+                </Col>
+                <Col xs={24} lg={5}>
+                  <Card size="small" title="Guards" style={{ borderRadius: 0 }}>
+                    <Input.Search
+                      allowClear
+                      placeholder="Search"
+                      value={guardSearch}
+                      onChange={(e) => setGuardSearch(e.target.value)}
+                      style={{ marginBottom: 8 }}
+                    />
+                    <Space direction="vertical" size={4} style={{ width: "100%", maxHeight: 520, overflowY: "auto" }}>
+                      {pool.map(({ g, allocated }) => (
+                        <div
+                          key={g.id}
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData(DRAG_GUARD, String(g.id))}
+                          style={{ padding: "4px 6px", border: "1px solid #e5e7eb", borderRadius: 4, cursor: "grab" }}
+                        >
+                          <Typography.Text>{g.name}</Typography.Text>{" "}
+                          <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                            {guardCode(g)}
+                          </Typography.Text>
+                          {allocated ? (
+                            <Tag color="blue" style={{ marginLeft: 4 }}>
+                              Site
+                            </Tag>
+                          ) : null}
+                        </div>
+                      ))}
+                    </Space>
+                  </Card>
+                </Col>
+              </Row>
+            </>
+          )}
+        </Space>
+      </Card>
+    </>
+  );
+}
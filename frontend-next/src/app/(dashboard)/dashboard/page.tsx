@@ -16,10 +16,11 @@ import { Button, Card, Col, DatePicker, Dropdown, Row, Space, Statistic, message
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
 
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
 import { formatRs } from "@/lib/money";
 import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
+import type { ClientPaymentsSummary, PayrollReportResponse, VehicleAssignmentEfficiencyResponse } from "@/lib/types";
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -29,46 +30,12 @@ function errorMessage(e: unknown, fallback: string): string {
   return fallback;
 }
 
-function downloadBlob(blob: Blob, filename: string) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
-
-type PayrollReportResponse = {
-  summary?: { total_net?: number; total_gross?: number; employees?: number };
-  rows: Array<{ employee_id: string; paid_status?: string; net_pay?: number }>;
-};
-
 function payrollPeriodForMonth(month: string): { from: string; to: string } {
   const to = dayjs(month + "-01").date(25);
   const from = to.subtract(1, "month").date(26);
   return { from: from.format("YYYY-MM-DD"), to: to.format("YYYY-MM-DD") };
 }
 
-type ClientSummaryResponse = {
-  month: string;
-  total_cleared?: number;
-  total_pending?: number;
-  trend?: Array<{ month: string; value: number }>;
-};
-
-type AssignmentEfficiencyResponse = {
-  total_km?: number;
-  total_amount?: number;
-  vehicles?: Array<{ vehicle_id: string; total_km?: number }>;
-};
-
-type EmployeeListResponse = {
-  employees: unknown[];
-  total: number;
-};
-
 export default function DashboardHomePage() {
   const [msg, msgCtx] = message.useMessage();
   const { has } = useAuth();
@@ -76,10 +43,10 @@ export default function DashboardHomePage() {
   const [loading, setLoading] = useState(false);
   const [month, setMonth] = useState(dayjs().format("YYYY-MM"));
 
-  const [clearedSummary, setClearedSummary] = useState<ClientSummaryResponse | null>(null);
-  const [pendingSummary, setPendingSummary] = useState<ClientSummaryResponse | null>(null);
+  const [clearedSummary, setClearedSummary] = useState<ClientPaymentsSummary | null>(null);
+  const [pendingSummary, setPendingSummary] = useState<ClientPaymentsSummary | null>(null);
   const [payrollReport, setPayrollReport] = useState<PayrollReportResponse | null>(null);
-  const [assignmentMonthSummary, setAssignmentMonthSummary] = useState<AssignmentEfficiencyResponse | null>(null);
+  const [assignmentMonthSummary, setAssignmentMonthSummary] = useState<VehicleAssignmentEfficiencyResponse | null>(null);
 
   const [counts, setCounts] = useState<{
     employees: number;
@@ -100,22 +67,22 @@ export default function DashboardHomePage() {
 
       const [cleared, pending, payroll, assignEff, empList, vehicles, clients, generalItems, restrictedItems] = await Promise.all([
         canClients
-          ? api.get<ClientSummaryResponse>("/api/client-management/invoices/cleared-summary", { query: { month, months: 6 } })
+          ? sdk.clients.clearedSummary(month, 6)
           : Promise.resolve(null),
         canClients
-          ? api.get<ClientSummaryResponse>("/api/client-management/invoices/pending-summary", { query: { month, months: 6 } })
+          ? sdk.clients.pendingSummary(month, 6)
           : Promise.resolve(null),
         canPayroll
-          ? api.get<PayrollReportResponse>("/api/payroll/range-report", { query: { month, from_date: period.from, to_date: period.to } })
+          ? sdk.payroll.rangeReport({ month, from_date: period.from, to_date: period.to })
           : Promise.resolve(null),
         canFleet
-          ? api.get<AssignmentEfficiencyResponse>("/api/vehicle-assignments/efficiency", { query: { period: "month", month } })
+          ? sdk.vehicleAssignments.efficiency({ period: "month", month })
           : Promise.resolve(null),
-        api.get<EmployeeListResponse>("/api/employees/", { query: { skip: 0, limit: 1, with_total: true } }),
-        canFleet ? api.get<unknown[]>("/api/vehicles/", { query: { limit: 5000 } }) : Promise.resolve([]),
-        canClients ? api.get<unknown[]>("/api/client-management/clients") : Promise.resolve([]),
-        canInv ? api.get<unknown[]>("/api/general-inventory/items") : Promise.resolve([]),
-        canInv ? api.get<unknown[]>("/api/restricted-inventory/items") : Promise.resolve([]),
+        sdk.employees.list({ skip: 0, limit: 1, with_total: true }),
+        canFleet ? sdk.vehicles.list(5000) : Promise.resolve([]),
+        canClients ? sdk.clients.list() : Promise.resolve([]),
+        canInv ? sdk.generalInventory.items() : Promise.resolve([]),
+        canInv ? sdk.restrictedInventory.items() : Promise.resolve([]),
       ]);
 
       setClearedSummary(cleared ?? null);
@@ -314,11 +281,7 @@ export default function DashboardHomePage() {
 
   const exportAccountsMonthPdf = useCallback(async () => {
     try {
-      const url = `${API_BASE_URL}/api/exports/accounts/monthly/pdf?month=${encodeURIComponent(month)}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`Export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, `accounts_export_${month}.pdf`);
+      await sdk.reports.accountsMonthlyPdf(month);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Export failed"));
     }
@@ -326,11 +289,7 @@ export default function DashboardHomePage() {
 
   const exportPayrollPdf = useCallback(async () => {
     try {
-      const url = `${API_BASE_URL}/api/payroll/export/pdf?month=${encodeURIComponent(month)}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`Export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, `payroll_${month}.pdf`);
+      await sdk.payroll.exportPdf({ month });
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Export failed"));
     }
@@ -349,7 +308,15 @@ export default function DashboardHomePage() {
             onChange={(d) => setMonth((d ?? dayjs()).format("YYYY-MM"))}
             style={{ width: "100%", maxWidth: 180 }}
           />
-          <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading} />
+          <Button
+            icon={<ReloadOutlined />}
+            onClick={() => {
+              // An explicit reload should not be served from the response cache
+              api.invalidate();
+              void load();
+            }}
+            loading={loading}
+          />
           <Dropdown
             placement="bottomRight"
             menu={{
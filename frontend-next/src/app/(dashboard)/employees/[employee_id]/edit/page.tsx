@@ -25,10 +25,10 @@ import {
 } from "antd";
 import dayjs from "dayjs";
 import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { API_BASE_URL } from "@/lib/config";
 import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import type {
   Employee,
   EmployeeDocumentOut,
@@ -74,10 +74,15 @@ function isImageExt(ext: string): boolean {
   return ["png", "jpg", "jpeg", "webp"].includes(ext);
 }
 
+/** Uploaded files are served by the API behind auth; externally hosted ones are fetched as-is. */
 async function fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Download failed (${res.status})`);
-  return await res.arrayBuffer();
+  if (/^https?:\/\//.test(url)) {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Download failed (${res.status})`);
+    return await res.arrayBuffer();
+  }
+  const { blob } = await api.blob(url);
+  return await blob.arrayBuffer();
 }
 
 function downloadBlob(blob: Blob, filename: string) {
@@ -91,6 +96,23 @@ function downloadBlob(blob: Blob, filename: string) {
   setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
+/** Shows a document in a new tab: uploaded files need the session token, external links open as-is. */
+async function openDocument(url: string) {
+  if (/^https?:\/\//.test(url)) {
+    window.open(url, "_blank", "noopener,noreferrer");
+    return;
+  }
+  await api.open(url);
+}
+
+async function saveDocument(url: string, filename: string) {
+  if (/^https?:\/\//.test(url)) {
+    downloadBlob(new Blob([await fetchArrayBuffer(url)]), filename);
+    return;
+  }
+  await api.download(url, filename);
+}
+
 export default function EmployeeEditPage() {
   const [msg, msgCtx] = message.useMessage();
   const router = useRouter();
@@ -154,20 +176,27 @@ export default function EmployeeEditPage() {
   }>();
   const [warningSignatureFile, setWarningSignatureFile] = useState<File | null>(null);
 
-  const docsList = useMemo(() => {
-    const base = API_BASE_URL || "";
-    return (docs ?? []).map((d) => ({ ...d, _absUrl: d.url.startsWith("http") ? d.url : `${base}${d.url}` }));
-  }, [docs]);
-
-  const warningDocsList = useMemo(() => {
-    const base = API_BASE_URL || "";
-    const out: Record<number, Array<EmployeeWarningDocumentOut & { _absUrl: string }>> = {};
-    Object.entries(warningDocs ?? {}).forEach(([k, arr]) => {
-      const id = Number(k);
-      out[id] = (arr ?? []).map((d) => ({ ...d, _absUrl: d.url.startsWith("http") ? d.url : `${base}${d.url}` }));
-    });
-    return out;
-  }, [warningDocs]);
+  const openDoc = useCallback(
+    async (url: string) => {
+      try {
+        await openDocument(url);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to open document"));
+      }
+    },
+    [msg]
+  );
+
+  const saveDoc = useCallback(
+    async (url: string, filename: string) => {
+      try {
+        await saveDocument(url, filename);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to download document"));
+      }
+    },
+    [msg]
+  );
 
   const exportWarningAsPdf = useCallback(
     async (w: EmployeeWarning) => {
@@ -209,7 +238,7 @@ export default function EmployeeEditPage() {
         drawLine("Supervisor signature", String((w as any).supervisor_signature || "-"));
         drawLine("Signature date", String((w as any).supervisor_signature_date || "-"));
 
-        const docsForWarning = warningDocsList[warningId] || [];
+        const docsForWarning = warningDocs[warningId] || [];
         if (docsForWarning.length) {
           y -= 10;
           drawLine("", "Attached documents are:", true);
@@ -226,7 +255,7 @@ export default function EmployeeEditPage() {
         }
 
         for (const d of docsForWarning) {
-          const url = d._absUrl || d.url;
+          const url = d.url;
           const name = d.filename || d.url;
           const ext = fileExt(name);
 
@@ -266,14 +295,14 @@ export default function EmployeeEditPage() {
         msg.error(errorMessage(e, "Failed to export PDF"));
       }
     },
-    [employee, msg, warningDocsList]
+    [employee, msg, warningDocs]
   );
 
   const loadEmployee = useCallback(async () => {
     if (!employeeId) return;
     setLoading(true);
     try {
-      const e = await api.get<Employee>(`/api/employees/${encodeURIComponent(employeeId)}`);
+      const e = await sdk.employees.get(employeeId);
       setEmployee(e);
 
       const fullName = `${e.first_name ?? ""} ${e.last_name ?? ""}`.trim();
@@ -316,7 +345,7 @@ export default function EmployeeEditPage() {
     if (!employeeDbId) return;
     setDocsLoading(true);
     try {
-      const res = await api.get<EmployeeDocumentOut[]>(`/api/employees/by-db-id/${employeeDbId}/documents`);
+      const res = await sdk.employees.documents(employeeDbId);
       setDocs(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setDocs([]);
@@ -331,7 +360,7 @@ export default function EmployeeEditPage() {
     if (!employeeDbId) return;
     setWarningsLoading(true);
     try {
-      const res = await api.get<EmployeeWarning[]>(`/api/employees/by-db-id/${employeeDbId}/warnings`);
+      const res = await sdk.employees.warnings(employeeDbId);
       setWarnings(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setWarnings([]);
@@ -346,7 +375,7 @@ export default function EmployeeEditPage() {
       if (!warningId) return;
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
-        const res = await api.get<EmployeeWarningDocumentOut[]>(`/api/employees/warnings/${warningId}/documents`);
+        const res = await sdk.employees.warningDocuments(warningId);
         setWarningDocs((p) => ({ ...p, [warningId]: Array.isArray(res) ? res : [] }));
       } catch (e: unknown) {
         setWarningDocs((p) => ({ ...p, [warningId]: [] }));
@@ -364,13 +393,7 @@ export default function EmployeeEditPage() {
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
         for (const file of files) {
-          const fd = new FormData();
-          fd.append("file", file);
-          const res = await fetch(`${API_BASE_URL}/api/employees/warnings/${warningId}/documents`, {
-            method: "POST",
-            body: fd,
-          });
-          if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+          await sdk.employees.uploadWarningDocument(warningId, file);
         }
         await loadWarningDocuments(warningId);
         msg.success("Uploaded");
@@ -387,7 +410,7 @@ export default function EmployeeEditPage() {
     async (warningId: number, docId: number) => {
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
-        await api.del(`/api/employees/warnings/${warningId}/documents/${docId}`);
+        await sdk.employees.removeWarningDocument(warningId, docId);
         await loadWarningDocuments(warningId);
         msg.success("Deleted");
       } catch (e: unknown) {
@@ -405,7 +428,7 @@ export default function EmployeeEditPage() {
       if (!employeeDbId) return;
       setWarningsLoading(true);
       try {
-        await api.del(`/api/employees/by-db-id/${employeeDbId}/warnings/${warningId}`);
+        await sdk.employees.removeWarning(employeeDbId, warningId);
         setWarningDocs((p) => {
           const cp = { ...p };
           delete cp[warningId];
@@ -430,14 +453,7 @@ export default function EmployeeEditPage() {
 
     setDocsLoading(true);
     try {
-      const fd = new FormData();
-      fd.append("name", docName.trim());
-      fd.append("file", docFile);
-      const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${employeeDbId}/documents`, {
-        method: "POST",
-        body: fd,
-      });
-      if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+      await sdk.employees.uploadDocument(employeeDbId, docName.trim(), docFile);
       setDocName("");
       setDocFile(null);
       msg.success("Uploaded");
@@ -466,14 +482,7 @@ export default function EmployeeEditPage() {
 
       setDocsLoading(true);
       try {
-        const fd = new FormData();
-        fd.append("name", name.trim());
-        fd.append("file", file);
-        const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${employeeDbId}/documents`, {
-          method: "POST",
-          body: fd,
-        });
-        if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+        await sdk.employees.uploadDocument(employeeDbId, name.trim(), file);
         msg.success("Uploaded");
         await loadDocuments();
       } catch (e: unknown) {
@@ -524,7 +533,7 @@ export default function EmployeeEditPage() {
 
     setWarningsLoading(true);
     try {
-      const created = await api.post<EmployeeWarning>(`/api/employees/by-db-id/${employee.id}/warnings`, {
+      const created = await sdk.employees.createWarning(employee.id, {
         warning_number: warningNumber,
         found_with: foundWith,
         notice_text: noticeText || undefined,
@@ -599,7 +608,7 @@ export default function EmployeeEditPage() {
 
     setSaving(true);
     try {
-      await api.put<Employee>(`/api/employees/${encodeURIComponent(employeeId)}`, payload);
+      await sdk.employees.update(employeeId, payload);
       msg.success("Employee updated");
       router.push(`/employees/${encodeURIComponent(employeeId)}`);
     } catch (e: unknown) {
@@ -1410,7 +1419,7 @@ export default function EmployeeEditPage() {
                           <Space direction="vertical" size={10} style={{ width: "100%" }}>
                             {warnings.map((w) => {
                               const warningId = Number(w.id);
-                              const docsForWarning = warningDocsList[warningId] || [];
+                              const docsForWarning = warningDocs[warningId] || [];
                               const docsLoadingForWarning = !!warningDocsLoading[warningId];
 
                               return (
@@ -1471,8 +1480,8 @@ export default function EmployeeEditPage() {
                                           renderItem={(d) => (
                                             <List.Item
                                               actions={[
-                                                <a key="open" href={d._absUrl} target="_blank" rel="noopener noreferrer">Open</a>,
-                                                <a key="download" href={d._absUrl} download={d.filename || "document"}>Download</a>,
+                                                <a key="open" onClick={() => void openDoc(d.url)}>Open</a>,
+                                                <a key="download" onClick={() => void saveDoc(d.url, d.filename || "document")}>Download</a>,
                                                 <Popconfirm
                                                   key="del"
                                                   title="Delete attachment?"
@@ -1522,17 +1531,17 @@ export default function EmployeeEditPage() {
 
                         {docsLoading ? (
                           <Spin />
-                        ) : docsList.length === 0 ? (
+                        ) : docs.length === 0 ? (
                           <Typography.Text type="secondary">No documents.</Typography.Text>
                         ) : (
                           <List
                             size="small"
-                            dataSource={docsList}
+                            dataSource={docs}
                             renderItem={(d) => (
                               <List.Item
                                 actions={[
-                                  <a key="open" href={d._absUrl} target="_blank" rel="noopener noreferrer">Open</a>,
-                                  <a key="download" href={d._absUrl} download={d.filename || "document"}>Download</a>,
+                                  <a key="open" onClick={() => void openDoc(d.url)}>Open</a>,
+                                  <a key="download" onClick={() => void saveDoc(d.url, d.filename || "document")}>Download</a>,
                                 ]}
                               >
                                 <List.Item.Meta title={d.name} description={<Typography.Text type="secondary">{d.filename}</Typography.Text>} />
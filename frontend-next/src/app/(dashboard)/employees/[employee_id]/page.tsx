@@ -15,10 +15,10 @@ import {
 import dayjs from "dayjs";
 import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
 import type { ReactNode } from "react";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { API_BASE_URL } from "@/lib/config";
 import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import type { Employee, EmployeeDocumentOut, EmployeeWarning, EmployeeWarningDocumentOut } from "@/lib/types";
 
 function errorMessage(e: unknown, fallback: string): string {
@@ -57,10 +57,15 @@ function isImageExt(ext: string): boolean {
   return ["png", "jpg", "jpeg", "webp"].includes(ext);
 }
 
+/** Uploaded files are served by the API behind auth; externally hosted ones are fetched as-is. */
 async function fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Download failed (${res.status})`);
-  return await res.arrayBuffer();
+  if (/^https?:\/\//.test(url)) {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Download failed (${res.status})`);
+    return await res.arrayBuffer();
+  }
+  const { blob } = await api.blob(url);
+  return await blob.arrayBuffer();
 }
 
 function downloadBlob(blob: Blob, filename: string) {
@@ -74,6 +79,23 @@ function downloadBlob(blob: Blob, filename: string) {
   setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
+/** Shows a document in a new tab: uploaded files need the session token, external links open as-is. */
+async function openDocument(url: string) {
+  if (/^https?:\/\//.test(url)) {
+    window.open(url, "_blank", "noopener,noreferrer");
+    return;
+  }
+  await api.open(url);
+}
+
+async function saveDocument(url: string, filename: string) {
+  if (/^https?:\/\//.test(url)) {
+    downloadBlob(new Blob([await fetchArrayBuffer(url)]), filename);
+    return;
+  }
+  await api.download(url, filename);
+}
+
 function Field({ label, value }: { label: string; value: ReactNode }) {
   return (
     <div>
@@ -109,26 +131,33 @@ export default function EmployeeViewPage() {
   const [warningDocsLoading, setWarningDocsLoading] = useState<Record<number, boolean>>({});
   const [warningDocs, setWarningDocs] = useState<Record<number, EmployeeWarningDocumentOut[]>>({});
 
-  const docsList = useMemo(() => {
-    const base = API_BASE_URL || "";
-    return (docs ?? []).map((d) => ({ ...d, _absUrl: d.url.startsWith("http") ? d.url : `${base}${d.url}` }));
-  }, [docs]);
-
-  const warningDocsList = useMemo(() => {
-    const base = API_BASE_URL || "";
-    const out: Record<number, Array<EmployeeWarningDocumentOut & { _absUrl: string }>> = {};
-    for (const [k, v] of Object.entries(warningDocs)) {
-      const id = Number(k);
-      out[id] = (v ?? []).map((d) => ({ ...d, _absUrl: d.url.startsWith("http") ? d.url : `${base}${d.url}` }));
-    }
-    return out;
-  }, [warningDocs]);
+  const openDoc = useCallback(
+    async (url: string) => {
+      try {
+        await openDocument(url);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to open document"));
+      }
+    },
+    [msg]
+  );
+
+  const saveDoc = useCallback(
+    async (url: string, filename: string) => {
+      try {
+        await saveDocument(url, filename);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to download document"));
+      }
+    },
+    [msg]
+  );
 
   const loadEmployee = useCallback(async () => {
     if (!employeeId) return;
     setLoading(true);
     try {
-      const e = await api.get<Employee>(`/api/employees/${encodeURIComponent(employeeId)}`);
+      const e = await sdk.employees.get(employeeId);
       setEmployee(e);
     } catch (e: unknown) {
       setEmployee(null);
@@ -141,7 +170,7 @@ export default function EmployeeViewPage() {
   const loadDocuments = useCallback(async (employeeDbId: number) => {
     setDocsLoading(true);
     try {
-      const res = await api.get<EmployeeDocumentOut[]>(`/api/employees/by-db-id/${employeeDbId}/documents`);
+      const res = await sdk.employees.documents(employeeDbId);
       setDocs(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setDocs([]);
@@ -156,7 +185,7 @@ export default function EmployeeViewPage() {
       if (!warningId) return;
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
-        const res = await api.get<EmployeeWarningDocumentOut[]>(`/api/employees/warnings/${warningId}/documents`);
+        const res = await sdk.employees.warningDocuments(warningId);
         setWarningDocs((p) => ({ ...p, [warningId]: Array.isArray(res) ? res : [] }));
       } catch (e: unknown) {
         setWarningDocs((p) => ({ ...p, [warningId]: [] }));
@@ -208,7 +237,7 @@ export default function EmployeeViewPage() {
         drawLine("Supervisor signature", String((w as any).supervisor_signature || "-"));
         drawLine("Signature date", String((w as any).supervisor_signature_date || "-"));
 
-        const docsForWarning = warningDocsList[warningId] || [];
+        const docsForWarning = warningDocs[warningId] || [];
         if (docsForWarning.length) {
           y -= 10;
           drawLine("", "Attached documents are:", true);
@@ -224,7 +253,7 @@ export default function EmployeeViewPage() {
           }
         }
         for (const d of docsForWarning) {
-          const url = d._absUrl || d.url;
+          const url = d.url;
           const name = d.filename || d.url;
           const ext = fileExt(name);
 
@@ -264,13 +293,13 @@ export default function EmployeeViewPage() {
         msg.error(errorMessage(e, "Failed to export PDF"));
       }
     },
-    [employee, msg, warningDocsList]
+    [employee, msg, warningDocs]
   );
 
   const loadWarnings = useCallback(async (employeeDbId: number) => {
     setWarningsLoading(true);
     try {
-      const res = await api.get<EmployeeWarning[]>(`/api/employees/by-db-id/${employeeDbId}/warnings`);
+      const res = await sdk.employees.warnings(employeeDbId);
       setWarnings(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setWarnings([]);
@@ -689,18 +718,18 @@ export default function EmployeeViewPage() {
                   label: "Documents",
                   children: docsLoading ? (
                     <Spin />
-                  ) : docsList.length === 0 ? (
+                  ) : docs.length === 0 ? (
                     <Typography.Text type="secondary">No documents.</Typography.Text>
                   ) : (
                     <Space direction="vertical" size={8} style={{ width: "100%" }}>
-                      {docsList.map((d) => (
+                      {docs.map((d) => (
                         <Card key={d.id} size="small" style={{ borderRadius: 12 }}>
                           <Space direction="vertical" size={2} style={{ width: "100%" }}>
                             <Typography.Text strong>{d.name}</Typography.Text>
                             <Typography.Text type="secondary">{d.filename}</Typography.Text>
                             <Space>
-                              <a href={d._absUrl} target="_blank" rel="noopener noreferrer">Open</a>
-                              <a href={d._absUrl} download={d.filename || "document"}>Download</a>
+                              <a onClick={() => void openDoc(d.url)}>Open</a>
+                              <a onClick={() => void saveDoc(d.url, d.filename || "document")}>Download</a>
                             </Space>
                           </Space>
                         </Card>
@@ -738,8 +767,8 @@ export default function EmployeeViewPage() {
                             ) : null}
                             {Boolean(warningDocsLoading[Number(w.id)]) ? (
                               <Typography.Text type="secondary">Loading attachments…</Typography.Text>
-                            ) : (warningDocsList[Number(w.id)] ?? []).length ? (
-                              <Typography.Text type="secondary">Attachments: {(warningDocsList[Number(w.id)] ?? []).map((d) => d.filename).filter(Boolean).join(", ")}</Typography.Text>
+                            ) : (warningDocs[Number(w.id)] ?? []).length ? (
+                              <Typography.Text type="secondary">Attachments: {(warningDocs[Number(w.id)] ?? []).map((d) => d.filename).filter(Boolean).join(", ")}</Typography.Text>
                             ) : (
                               <Typography.Text type="secondary">Attachments: none</Typography.Text>
                             )}
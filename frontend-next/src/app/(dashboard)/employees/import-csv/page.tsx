@@ -4,7 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Card, Button, Input, Space, Typography, Alert, Table, Spin, message, Upload, Row, Col } from "antd";
 import { ArrowLeftOutlined, UploadOutlined, DownloadOutlined, CheckCircleOutlined, CloseCircleOutlined } from "@ant-design/icons";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 
 const { Title, Text, Paragraph } = Typography;
 
@@ -26,12 +26,7 @@ export default function ImportEmployeesCSV() {
     setImportResult(null);
 
     try {
-      const params = new URLSearchParams({
-        url: googleSheetUrl,
-        mode: "preview",
-      });
-      
-      const result = await api.post(`/api/employees/import/google-sheet?${params.toString()}`);
+      const result = await sdk.employees.importGoogleSheet(googleSheetUrl, "preview");
 
       setPreviewData(result);
       message.success(`Preview complete: ${result.created} employees ready to import`);
@@ -52,12 +47,7 @@ export default function ImportEmployeesCSV() {
     setImportResult(null);
 
     try {
-      const params = new URLSearchParams({
-        url: googleSheetUrl,
-        mode: "import",
-      });
-      
-      const result = await api.post(`/api/employees/import/google-sheet?${params.toString()}`);
+      const result = await sdk.employees.importGoogleSheet(googleSheetUrl, "import");
 
       setImportResult(result);
       message.success(`Import complete: ${result.created} employees created`);
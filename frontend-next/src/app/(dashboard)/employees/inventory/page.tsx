@@ -9,8 +9,7 @@ import autoTable from "jspdf-autotable";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
+import { sdk } from "@/lib/sdk";
 import type { Employee2 } from "@/lib/types";
 
 type RestrictedIssuedSerialRow = {
@@ -43,16 +42,6 @@ type GeneralItem = {
   unit_name: string;
 };
 
-type GeneralTxRow = {
-  id: number;
-  item_code: string;
-  employee_id?: string | null;
-  action: string;
-  quantity?: number | null;
-  notes?: string | null;
-  created_at: string;
-};
-
 type RestrictedTxRow = {
   id: number;
   item_code: string;
@@ -104,11 +93,11 @@ export default function EmployeeInventoryPage() {
     setLoading(true);
     try {
       const [employeesRes, restrictedRes, itemsRes, txRes, restrictedTxRes] = await Promise.all([
-        api.get<{ employees: Employee2[] }>("/api/employees2/", { query: { limit: 500 } }),
-        api.get<RestrictedIssuedInventory[]>("/api/restricted-inventory/issued"),
-        api.get<GeneralItem[]>("/api/general-inventory/items"),
-        api.get<GeneralTxRow[]>("/api/general-inventory/transactions", { query: { limit: 5000 } }),
-        api.get<RestrictedTxRow[]>("/api/restricted-inventory/transactions", { query: { limit: 5000 } }),
+        sdk.employees2.list({ limit: 500 }),
+        sdk.restrictedInventory.issued(),
+        sdk.generalInventory.items(),
+        sdk.generalInventory.transactions({ limit: 5000 }),
+        sdk.restrictedInventory.transactions({ limit: 5000 }),
       ]);
 
       const emps = Array.isArray(employeesRes?.employees) ? employeesRes.employees : [];
@@ -332,30 +321,7 @@ export default function EmployeeInventoryPage() {
   const exportAllProfessionalPdf = useCallback(async () => {
     setExportingAllPdf(true);
     try {
-      const token = typeof window !== "undefined" ? window.localStorage.getItem("access_token") : null;
-      const url = `${API_BASE_URL}/api/exports/inventory/employees/pdf?include_zero=true`;
-      const res = await fetch(url, {
-        method: "GET",
-        headers: {
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-      });
-
-      if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(txt || `Export failed (${res.status})`);
-      }
-
-      const blob = await res.blob();
-      const href = URL.createObjectURL(blob);
-
-      const a = document.createElement("a");
-      a.href = href;
-      a.download = `employee-inventory-${dayjs().format("YYYYMMDD-HHmm")}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(href);
+      await sdk.reports.employeeInventoryPdf(`employee-inventory-${dayjs().format("YYYYMMDD-HHmm")}.pdf`);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Export failed"));
     } finally {
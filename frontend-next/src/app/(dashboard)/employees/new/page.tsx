@@ -26,8 +26,8 @@ import dayjs from "dayjs";
 import { useCallback, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { API_BASE_URL } from "@/lib/config";
-import { api } from "@/lib/api";
-import type { Employee, EmployeeCreate, EmployeeDocumentOut, EmployeeWarning } from "@/lib/types";
+import { sdk } from "@/lib/sdk";
+import type { EmployeeCreate, EmployeeDocumentOut } from "@/lib/types";
 
 type FormValues = Omit<EmployeeCreate, "date_of_birth"> & {
   date_of_birth?: string | dayjs.Dayjs | null;
@@ -120,7 +120,7 @@ export default function EmployeeCreatePage() {
   const loadDocuments = useCallback(async (employeeDbId: number) => {
     setDocsLoading(true);
     try {
-      const res = await api.get<EmployeeDocumentOut[]>(`/api/employees/by-db-id/${employeeDbId}/documents`);
+      const res = await sdk.employees.documents(employeeDbId);
       setDocs(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setDocs([]);
@@ -136,15 +136,7 @@ export default function EmployeeCreatePage() {
       setDocsLoading(true);
       try {
         for (const d of pendingDocs) {
-          const fd = new FormData();
-          fd.append("name", d.name);
-          fd.append("file", d.file);
-
-          const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${employeeDbId}/documents`, {
-            method: "POST",
-            body: fd,
-          });
-          if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+          await sdk.employees.uploadDocument(employeeDbId, d.name, d.file);
         }
 
         setPendingDocs([]);
@@ -176,15 +168,7 @@ export default function EmployeeCreatePage() {
 
       setDocsLoading(true);
       try {
-        const fd = new FormData();
-        fd.append("name", name.trim());
-        fd.append("file", file);
-
-        const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${employeeDbId}/documents`, {
-          method: "POST",
-          body: fd,
-        });
-        if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+        await sdk.employees.uploadDocument(employeeDbId, name.trim(), file);
         msg.success("Uploaded");
         await loadDocuments(employeeDbId);
       } catch (e: unknown) {
@@ -221,7 +205,7 @@ export default function EmployeeCreatePage() {
           const warningNumber = (w.warning_number || "").trim();
           if (!warningNumber) continue;
 
-          const created = await api.post<EmployeeWarning>(`/api/employees/by-db-id/${employeeDbId}/warnings`, {
+          const created = await sdk.employees.createWarning(employeeDbId, {
             warning_number: warningNumber,
             found_with: (w.found_with || "").trim() || undefined,
             notice_text: (w.notice_text || "").trim() || undefined,
@@ -233,14 +217,7 @@ export default function EmployeeCreatePage() {
           if (!warningId || !w.files?.length) continue;
 
           for (const file of w.files) {
-            const fd = new FormData();
-            fd.append("file", file);
-
-            const res = await fetch(`${API_BASE_URL}/api/employees/warnings/${warningId}/documents`, {
-              method: "POST",
-              body: fd,
-            });
-            if (!res.ok) throw new Error(`Warning upload failed (${res.status})`);
+            await sdk.employees.uploadWarningDocument(warningId, file);
           }
         }
         msg.success("Warnings uploaded");
@@ -378,7 +355,7 @@ export default function EmployeeCreatePage() {
 
     setSaving(true);
     try {
-      const created = await api.post<Employee>("/api/employees/", payload);
+      const created = await sdk.employees.create(payload);
       if (created?.id) {
         await uploadWarningsAfterCreate(Number(created.id));
         await uploadPendingDocs(Number(created.id));
@@ -46,12 +46,12 @@ import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import { API_BASE_URL } from "@/lib/config";
 import type {
   Employee,
   EmployeeCreate,
   EmployeeDocumentOut,
-  EmployeeListResponse,
   EmployeeWarning,
   EmployeeWarningDocumentOut,
   EmployeeUpdate,
@@ -103,10 +103,15 @@ function isImageExt(ext: string): boolean {
   return ["png", "jpg", "jpeg", "webp"].includes(ext);
 }
 
+/** Uploaded files are served by the API behind auth; externally hosted ones are fetched as-is. */
 async function fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Download failed (${res.status})`);
-  return await res.arrayBuffer();
+  if (/^https?:\/\//.test(url)) {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Download failed (${res.status})`);
+    return await res.arrayBuffer();
+  }
+  const { blob } = await api.blob(url);
+  return await blob.arrayBuffer();
 }
 
 function downloadBlob(blob: Blob, filename: string) {
@@ -295,26 +300,26 @@ export default function EmployeesPage() {
         const employeeKey = String(row.employee_id || "");
         if (!employeeKey) return;
 
-        const employee = await api.get<Employee>(`/api/employees/${encodeURIComponent(employeeKey)}`);
+        const employee = await sdk.employees.get(employeeKey);
         const employeeDbId = Number(employee?.id);
         if (!employeeDbId) throw new Error("Employee DB id missing");
 
         const base = API_BASE_URL || "";
 
-        const docs = await api.get<EmployeeDocumentOut[]>(`/api/employees/by-db-id/${employeeDbId}/documents`);
+        const docs = await sdk.employees.documents(employeeDbId);
         const docsAbs = (Array.isArray(docs) ? docs : []).map((d) => ({
           ...d,
           _absUrl: d.url?.startsWith("http") ? d.url : `${base}${d.url}`,
         }));
 
-        const warnings = await api.get<EmployeeWarning[]>(`/api/employees/by-db-id/${employeeDbId}/warnings`);
+        const warnings = await sdk.employees.warnings(employeeDbId);
         const warningsArr = Array.isArray(warnings) ? warnings : [];
 
         const warningDocs: Record<number, Array<EmployeeWarningDocumentOut & { _absUrl: string }>> = {};
         for (const w of warningsArr) {
           const wid = Number(w.id);
           if (!wid) continue;
-          const wdocs = await api.get<EmployeeWarningDocumentOut[]>(`/api/employees/warnings/${wid}/documents`);
+          const wdocs = await sdk.employees.warningDocuments(wid);
           warningDocs[wid] = (Array.isArray(wdocs) ? wdocs : []).map((d) => ({
             ...d,
             _absUrl: d.url?.startsWith("http") ? d.url : `${base}${d.url}`,
@@ -341,8 +346,10 @@ export default function EmployeesPage() {
 
         const tryEmbedLogo = async () => {
           try {
-            const ab = await fetchArrayBuffer("/Logo-removebg-preview.png");
-            return await pdf.embedPng(ab);
+            // The logo is a static asset of this app, not an API file
+            const res = await fetch("/Logo-removebg-preview.png");
+            if (!res.ok) return null;
+            return await pdf.embedPng(await res.arrayBuffer());
           } catch {
             return null;
           }
@@ -525,7 +532,7 @@ export default function EmployeesPage() {
         };
 
         for (const d of docsAbs) {
-          const url = (d as any)._absUrl || d.url;
+          const url = d.url;
           const name = d.filename || d.url;
           if (!url) continue;
           await appendAttachment(name, url);
@@ -535,7 +542,7 @@ export default function EmployeesPage() {
           const wid = Number(w.id);
           const wdocs = warningDocs[wid] || [];
           for (const d of wdocs) {
-            const url = d._absUrl || d.url;
+            const url = d.url;
             const name = d.filename || d.url;
             if (!url) continue;
             await appendAttachment(name, url);
@@ -577,7 +584,7 @@ export default function EmployeesPage() {
     }
     setDocsLoading(true);
     try {
-      const res = await api.get<EmployeeDocumentOut[]>(`/api/employees/by-db-id/${active.id}/documents`);
+      const res = await sdk.employees.documents(active.id);
       setDocs(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setDocs([]);
@@ -594,7 +601,7 @@ export default function EmployeesPage() {
     }
     setWarningsLoading(true);
     try {
-      const res = await api.get<EmployeeWarning[]>(`/api/employees/by-db-id/${active.id}/warnings`);
+      const res = await sdk.employees.warnings(active.id);
       setWarnings(Array.isArray(res) ? res : []);
     } catch (e: unknown) {
       setWarnings([]);
@@ -609,7 +616,7 @@ export default function EmployeesPage() {
       if (!warningId) return;
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
-        const res = await api.get<EmployeeWarningDocumentOut[]>(`/api/employees/warnings/${warningId}/documents`);
+        const res = await sdk.employees.warningDocuments(warningId);
         setWarningDocs((p) => ({ ...p, [warningId]: Array.isArray(res) ? res : [] }));
       } catch (e: unknown) {
         setWarningDocs((p) => ({ ...p, [warningId]: [] }));
@@ -628,13 +635,7 @@ export default function EmployeesPage() {
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
         for (const file of files) {
-          const fd = new FormData();
-          fd.append("file", file);
-          const res = await fetch(`${API_BASE_URL}/api/employees/warnings/${warningId}/documents`, {
-            method: "POST",
-            body: fd,
-          });
-          if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+          await sdk.employees.uploadWarningDocument(warningId, file);
         }
         await loadWarningDocuments(warningId);
         msg.success("Uploaded");
@@ -704,7 +705,7 @@ export default function EmployeesPage() {
           }
 
           for (const d of docsForWarning) {
-            const url = d._absUrl || d.url;
+            const url = d.url;
             const name = d.filename || d.url;
             const ext = fileExt(name);
 
@@ -770,16 +771,14 @@ export default function EmployeesPage() {
     setLoading(true);
     try {
       const skip = (page - 1) * pageSize;
-      const resp = await api.get<EmployeeListResponse>("/api/employees/", {
-        query: {
-          skip,
-          limit: pageSize,
-          search: filters.search,
-          department: filters.department,
-          designation: filters.designation,
-          employment_status: filters.employment_status,
-          with_total: true,
-        },
+      const resp = await sdk.employees.list({
+        skip,
+        limit: pageSize,
+        search: filters.search,
+        department: filters.department,
+        designation: filters.designation,
+        employment_status: filters.employment_status,
+        with_total: true,
       });
 
       setRows(resp.employees || []);
@@ -787,7 +786,7 @@ export default function EmployeesPage() {
 
       // Load currently allocated employees (computed)
       try {
-        const alloc = await api.get<{ employee_db_ids: number[] }>("/api/employees/allocated/active");
+        const alloc = await sdk.employees.allocatedActive();
         const ids = Array.isArray(alloc?.employee_db_ids) ? alloc.employee_db_ids : [];
         setAllocatedEmployeeDbIds(new Set(ids.map((x) => Number(x)).filter((x) => Number.isFinite(x))));
       } catch {
@@ -837,7 +836,7 @@ export default function EmployeesPage() {
 
     setWarningsLoading(true);
     try {
-      const created = await api.post<EmployeeWarning>(`/api/employees/by-db-id/${active.id}/warnings`, {
+      const created = await sdk.employees.createWarning(active.id, {
         warning_number: warningNumber,
         found_with: (values.found_with || "").trim() || undefined,
         supervisor_signature: (values.supervisor_signature || "").trim() || undefined,
@@ -884,7 +883,7 @@ export default function EmployeesPage() {
     }
     setWarningsLoading(true);
     try {
-      const created = await api.post<EmployeeWarning>(`/api/employees/by-db-id/${active.id}/warnings`, {
+      const created = await sdk.employees.createWarning(active.id, {
         warning_number: wno,
       });
       setNewWarningNumber("");
@@ -907,7 +906,7 @@ export default function EmployeesPage() {
       if (!active?.id) return;
       setWarningsLoading(true);
       try {
-        await api.del(`/api/employees/by-db-id/${active.id}/warnings/${warningId}`);
+        await sdk.employees.removeWarning(active.id, warningId);
         setWarningDocs((p) => {
           const cp = { ...p };
           delete cp[warningId];
@@ -930,7 +929,7 @@ export default function EmployeesPage() {
       if (readOnly) return;
       setWarningDocsLoading((p) => ({ ...p, [warningId]: true }));
       try {
-        await api.del(`/api/employees/warnings/${warningId}/documents/${docId}`);
+        await sdk.employees.removeWarningDocument(warningId, docId);
         await loadWarningDocuments(warningId);
         msg.success("Deleted");
       } catch (e: unknown) {
@@ -974,15 +973,7 @@ export default function EmployeesPage() {
 
     setDocsLoading(true);
     try {
-      const formData = new FormData();
-      formData.append("name", docName.trim());
-      formData.append("file", docFile);
-
-      const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${active.id}/documents`, {
-        method: "POST",
-        body: formData,
-      });
-      if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+      await sdk.employees.uploadDocument(active.id, docName.trim(), docFile);
 
       setDocName("");
       setDocFile(null);
@@ -1006,15 +997,7 @@ export default function EmployeesPage() {
       setDocsLoading(true);
       try {
         for (const d of pendingDocs) {
-          const fd = new FormData();
-          fd.append("name", d.name);
-          fd.append("file", d.file);
-
-          const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${employeeDbId}/documents`, {
-            method: "POST",
-            body: fd,
-          });
-          if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+          await sdk.employees.uploadDocument(employeeDbId, d.name, d.file);
         }
 
         setPendingDocs([]);
@@ -1045,15 +1028,7 @@ export default function EmployeesPage() {
 
       setDocsLoading(true);
       try {
-        const fd = new FormData();
-        fd.append("name", name.trim());
-        fd.append("file", file);
-
-        const res = await fetch(`${API_BASE_URL}/api/employees/by-db-id/${employeeDbId}/documents`, {
-          method: "POST",
-          body: fd,
-        });
-        if (!res.ok) throw new Error(`Upload failed (${res.status})`);
+        await sdk.employees.uploadDocument(employeeDbId, name.trim(), file);
         msg.success("Uploaded");
         await loadDocuments();
       } catch (e: unknown) {
@@ -1069,7 +1044,7 @@ export default function EmployeesPage() {
     if (!active?.id) return;
     setDocsLoading(true);
     try {
-      await api.del(`/api/employees/by-db-id/${active.id}/documents/${doc.id}`);
+      await sdk.employees.removeDocument(active.id, doc.id);
       msg.success("Document deleted");
       await loadDocuments();
     } catch (e: unknown) {
@@ -1082,8 +1057,8 @@ export default function EmployeesPage() {
   const fetchMeta = useCallback(async () => {
     try {
       const [deptRes, desigRes] = await Promise.all([
-        api.get<{ departments: string[] }>("/api/employees/departments/list"),
-        api.get<{ designations: string[] }>("/api/employees/designations/list"),
+        sdk.employees.departments(),
+        sdk.employees.designations(),
       ]);
       const dept = Array.isArray(deptRes.departments) ? deptRes.departments : [];
       const desig = Array.isArray(desigRes.designations) ? desigRes.designations : [];
@@ -1097,10 +1072,7 @@ export default function EmployeesPage() {
   const markActiveEmployeeLeft = useCallback(async () => {
     if (!active?.employee_id) return;
     try {
-      const url = `${API_BASE_URL}/api/employees/${encodeURIComponent(active.employee_id)}/mark-left`;
-      const res = await fetch(url, { method: "POST" });
-      if (!res.ok) throw new Error(`Update failed (${res.status})`);
-      const updated = (await res.json()) as Employee;
+      const updated = await sdk.employees.markLeft(active.employee_id);
       setActive(updated);
       form.setFieldValue("employment_status", updated.employment_status);
       msg.success("Employee marked as Left");
@@ -1113,17 +1085,7 @@ export default function EmployeesPage() {
   const exportActiveEmployeeClearancePdf = useCallback(async () => {
     if (!active?.employee_id) return;
     try {
-      const url = `${API_BASE_URL}/api/employees/${encodeURIComponent(active.employee_id)}/clearance/pdf`;
-      let res: Response;
-      try {
-        res = await fetch(url);
-      } catch (e: unknown) {
-        msg.error(`Failed to fetch: ${url}`);
-        throw e;
-      }
-      if (!res.ok) throw new Error(`Export failed (${res.status}) - ${url}`);
-      const blob = await res.blob();
-      downloadBlob(blob, `employee_clearance_${active.employee_id}.pdf`);
+      await sdk.employees.clearancePdf(active.employee_id);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Export failed"));
     }
@@ -1139,7 +1101,7 @@ export default function EmployeesPage() {
 
   const onDelete = useCallback(async (e: Employee) => {
     try {
-      await api.del(`/api/employees/${encodeURIComponent(e.employee_id)}`);
+      await sdk.employees.remove(e.employee_id);
       msg.success("Employee deleted");
       void fetchEmployees();
     } catch (err: unknown) {
@@ -1173,12 +1135,7 @@ export default function EmployeesPage() {
       onOk: async () => {
         setBulkDeleteLoading(true);
         try {
-          const result = await api.post<{
-            message: string;
-            deleted_count: number;
-            deleted_ids: string[];
-            warning?: string;
-          }>('/api/employees/delete-multiple', employeeIds);
+          const result = await sdk.employees.removeMany(employeeIds);
           
           msg.success(`${result.deleted_count} employee(s) deleted successfully`);
           if (result.warning) {
@@ -1246,17 +1203,14 @@ export default function EmployeesPage() {
 
     try {
       if (drawerMode === "create") {
-        const created = await api.post<Employee>("/api/employees/", payload);
+        const created = await sdk.employees.create(payload);
         if (created?.id) {
           await uploadPendingDocs(Number(created.id));
         }
         msg.success("Employee created");
       } else if (drawerMode === "edit" && active) {
         const updatePayload: EmployeeUpdate = payload;
-        await api.put<Employee>(
-          `/api/employees/${encodeURIComponent(active.employee_id)}`,
-          updatePayload
-        );
+        await sdk.employees.update(active.employee_id, updatePayload);
         msg.success("Employee updated");
       }
 
@@ -33,7 +33,8 @@ import {
   BankOutlined,
   CameraOutlined,
 } from "@ant-design/icons";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
+import type { Employee2 } from "@/lib/types";
 
 const { Title, Text } = Typography;
 
@@ -44,59 +45,6 @@ interface BankAccount {
   branch?: string;
 }
 
-interface Employee2 {
-  id: number;
-  serial_no: string | null;
-  fss_no: string | null;
-  rank: string | null;
-  name: string;
-  father_name: string | null;
-  salary: string | null;
-  status: string | null;
-  unit: string | null;
-  service_rank: string | null;
-  blood_group: string | null;
-  status2: string | null;
-  unit2: string | null;
-  rank2: string | null;
-  cnic: string | null;
-  dob: string | null;
-  cnic_expiry: string | null;
-  documents_held: string | null;
-  documents_handed_over_to: string | null;
-  photo_on_doc: string | null;
-  eobi_no: string | null;
-  insurance: string | null;
-  social_security: string | null;
-  mobile_no: string | null;
-  home_contact: string | null;
-  verified_by_sho: string | null;
-  verified_by_khidmat_markaz: string | null;
-  domicile: string | null;
-  verified_by_ssp: string | null;
-  enrolled: string | null;
-  re_enrolled: string | null;
-  village: string | null;
-  post_office: string | null;
-  thana: string | null;
-  tehsil: string | null;
-  district: string | null;
-  duty_location: string | null;
-  police_trg_ltr_date: string | null;
-  vaccination_cert: string | null;
-  vol_no: string | null;
-  payments: string | null;
-  category: string | null;
-  avatar_url: string | null;
-  cnic_attachment: string | null;
-  domicile_attachment: string | null;
-  sho_verified_attachment: string | null;
-  ssp_verified_attachment: string | null;
-  khidmat_verified_attachment: string | null;
-  police_trg_attachment: string | null;
-  bank_accounts: string | null;
-}
-
 export default function EditEmployeePage() {
   const params = useParams();
   const router = useRouter();
@@ -110,7 +58,7 @@ export default function EditEmployeePage() {
   const fetchEmployee = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<Employee2>(`/api/employees2/${params.id}`);
+      const data = await sdk.employees2.get(String(params.id));
       setEmployee(data);
       form.setFieldsValue(data);
       if (data.bank_accounts) {
@@ -136,7 +84,7 @@ export default function EditEmployeePage() {
       setSaving(true);
       const values = await form.validateFields();
       values.bank_accounts = JSON.stringify(bankAccounts);
-      await api.put(`/api/employees2/${params.id}`, values);
+      await sdk.employees2.update(Number(params.id), values);
       message.success("Employee updated");
       router.push(`/employees2/${params.id}`);
     } catch {
@@ -149,19 +97,7 @@ export default function EditEmployeePage() {
   const handleUpload = async (fieldType: string, file: File) => {
     setUploading(fieldType);
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-      const token = localStorage.getItem("access_token");
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:8000"}/api/employees2/${params.id}/upload/${fieldType}`,
-        {
-          method: "POST",
-          headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}) },
-          body: formData,
-        }
-      );
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.detail || "Upload failed");
+      await sdk.employees2.uploadFile(String(params.id), fieldType, file);
       message.success("File uploaded");
       fetchEmployee();
     } catch (err: unknown) {
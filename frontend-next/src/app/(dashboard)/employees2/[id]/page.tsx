@@ -28,7 +28,8 @@ import {
   BankOutlined,
   FilePdfOutlined,
 } from "@ant-design/icons";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
+import type { Employee2 } from "@/lib/types";
 
 const { Title, Text } = Typography;
 
@@ -39,63 +40,6 @@ interface BankAccount {
   branch?: string;
 }
 
-interface Employee2 {
-  id: number;
-  serial_no: string | null;
-  fss_no: string | null;
-  rank: string | null;
-  name: string;
-  father_name: string | null;
-  salary: string | null;
-  status: string | null;
-  unit: string | null;
-  service_rank: string | null;
-  blood_group: string | null;
-  status2: string | null;
-  unit2: string | null;
-  rank2: string | null;
-  cnic: string | null;
-  dob: string | null;
-  cnic_expiry: string | null;
-  documents_held: string | null;
-  documents_handed_over_to: string | null;
-  photo_on_doc: string | null;
-  eobi_no: string | null;
-  insurance: string | null;
-  social_security: string | null;
-  mobile_no: string | null;
-  home_contact: string | null;
-  verified_by_sho: string | null;
-  verified_by_khidmat_markaz: string | null;
-  domicile: string | null;
-  verified_by_ssp: string | null;
-  enrolled: string | null;
-  re_enrolled: string | null;
-  village: string | null;
-  post_office: string | null;
-  thana: string | null;
-  tehsil: string | null;
-  district: string | null;
-  duty_location: string | null;
-  police_trg_ltr_date: string | null;
-  vaccination_cert: string | null;
-  vol_no: string | null;
-  payments: string | null;
-  category: string | null;
-  designation: string | null;
-  allocation_status: string | null;
-  avatar_url: string | null;
-  cnic_attachment: string | null;
-  domicile_attachment: string | null;
-  sho_verified_attachment: string | null;
-  ssp_verified_attachment: string | null;
-  khidmat_verified_attachment: string | null;
-  police_trg_attachment: string | null;
-  bank_accounts: string | null;
-  created_at: string;
-  updated_at: string | null;
-}
-
 export default function EmployeeDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -107,7 +51,7 @@ export default function EmployeeDetailPage() {
   const fetchEmployee = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<Employee2>(`/api/employees2/${params.id}`);
+      const data = await sdk.employees2.get(String(params.id));
       setEmployee(data);
       if (data.bank_accounts) {
         try {
@@ -130,24 +74,7 @@ export default function EmployeeDetailPage() {
   const handleExportPDF = async () => {
     setExporting(true);
     try {
-      const token = localStorage.getItem("access_token");
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:8000"}/api/employees2/${params.id}/export-pdf`,
-        {
-          method: "GET",
-          headers: { ...(token ? { Authorization: `Bearer ${token}` } : {}) },
-        }
-      );
-      if (!res.ok) throw new Error("Export failed");
-      const blob = await res.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `Employee_${employee?.name || params.id}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      await sdk.employees2.exportPdf(String(params.id), `Employee_${employee?.name || params.id}.pdf`);
       message.success("PDF exported successfully");
     } catch {
       message.error("Failed to export PDF");
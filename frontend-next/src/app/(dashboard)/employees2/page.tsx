@@ -30,7 +30,7 @@ import {
   EyeOutlined,
 } from "@ant-design/icons";
 import type { ColumnsType } from "antd/es/table";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 
 const { Title, Text } = Typography;
 
@@ -102,18 +102,14 @@ export default function Employees2Page() {
   const fetchEmployees = useCallback(async () => {
     setLoading(true);
     try {
-      const params = new URLSearchParams({
-        skip: String((page - 1) * pageSize),
-        limit: String(pageSize),
-        with_total: "true",
+      const res = await sdk.employees2.list({
+        skip: (page - 1) * pageSize,
+        limit: pageSize,
+        with_total: true,
+        search: search || undefined,
+        category: selectedCategory,
+        status: selectedStatus,
       });
-      if (search) params.append("search", search);
-      if (selectedCategory) params.append("category", selectedCategory);
-      if (selectedStatus) params.append("status", selectedStatus);
-
-      const res = await api.get<{ employees: Employee2[]; total: number }>(
-        `/api/employees2/?${params.toString()}`
-      );
       setEmployees(res.employees);
       setTotal(res.total);
     } catch (err: unknown) {
@@ -126,8 +122,8 @@ export default function Employees2Page() {
   const fetchFilters = useCallback(async () => {
     try {
       const [cats, stats] = await Promise.all([
-        api.get<string[]>("/api/employees2/categories"),
-        api.get<string[]>("/api/employees2/statuses"),
+        sdk.employees2.categories(),
+        sdk.employees2.statuses(),
       ]);
       setCategories(cats);
       setStatuses(stats);
@@ -147,21 +143,7 @@ export default function Employees2Page() {
   const handleImportJson = async (file: File) => {
     setImporting(true);
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-      const token = localStorage.getItem("access_token");
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:8000/api"}/employees2/import-json`,
-        {
-          method: "POST",
-          headers: {
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: formData,
-        }
-      );
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.detail || "Import failed");
+      const data = await sdk.employees2.importJson(file);
       message.success(`Imported ${data.created} employees (${data.skipped} skipped)`);
       fetchEmployees();
       fetchFilters();
@@ -174,7 +156,7 @@ export default function Employees2Page() {
 
   const handleDeleteAll = async () => {
     try {
-      await api.del("/api/employees2/");
+      await sdk.employees2.removeAll();
       message.success("All employees deleted");
       fetchEmployees();
       fetchFilters();
@@ -185,7 +167,7 @@ export default function Employees2Page() {
 
   const handleDelete = async (id: number) => {
     try {
-      await api.del(`/api/employees2/${id}`);
+      await sdk.employees2.remove(id);
       message.success("Employee deleted");
       fetchEmployees();
     } catch {
@@ -209,10 +191,10 @@ export default function Employees2Page() {
     try {
       const values = await form.validateFields();
       if (editingEmployee) {
-        await api.put(`/api/employees2/${editingEmployee.id}`, values);
+        await sdk.employees2.update(editingEmployee.id, values);
         message.success("Employee updated");
       } else {
-        await api.post("/api/employees2/", values);
+        await sdk.employees2.create(values);
         message.success("Employee created");
       }
       setModalOpen(false);
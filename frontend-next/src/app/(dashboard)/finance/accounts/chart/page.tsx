@@ -2,24 +2,14 @@
 
 import { Button, Card, Space, Table, Tag, Typography, message, Modal, Form, Input, Select } from "antd";
 import type { ColumnsType } from "antd/es/table";
-import { PlusOutlined, ReloadOutlined, EditOutlined, DeleteOutlined } from "@ant-design/icons";
+import { PlusOutlined, ReloadOutlined, EditOutlined, DeleteOutlined, SettingOutlined } from "@ant-design/icons";
 import { useCallback, useEffect, useState } from "react";
-import { api } from "@/lib/api";
+import { POSTING_ROLES, accountsForRole } from "@/lib/posting";
+import { sdk } from "@/lib/sdk";
+import type { FinanceAccount, FinancePostingAccounts, FinancePostingRole } from "@/lib/types";
 
 const { Option } = Select;
 
-interface FinanceAccount {
-  id: number;
-  code: string;
-  name: string;
-  account_type: "ASSET" | "LIABILITY" | "EQUITY" | "INCOME" | "EXPENSE";
-  parent_id?: number;
-  is_system: boolean;
-  is_active: boolean;
-  created_at: string;
-  updated_at?: string;
-}
-
 const ACCOUNT_TYPES = ["ASSET", "LIABILITY", "EQUITY", "INCOME", "EXPENSE"];
 
 const ACCOUNT_TYPE_COLORS = {
@@ -46,11 +36,17 @@ export default function ChartOfAccountsPage() {
   const [modalOpen, setModalOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<FinanceAccount | null>(null);
   const [form] = Form.useForm();
+  const [postingOpen, setPostingOpen] = useState(false);
+  const [postingSaving, setPostingSaving] = useState(false);
+  const [postingForm] = Form.useForm<{
+    accounts: FinancePostingAccounts["accounts"];
+    categories: Array<{ category: string; account_id: number }>;
+  }>();
 
   const loadAccounts = useCallback(async () => {
     setLoading(true);
     try {
-      const response = await api.get<FinanceAccount[]>("/api/finance/accounts");
+      const response = await sdk.finance.accounts();
       setAccounts(Array.isArray(response) ? response : []);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load accounts"));
@@ -66,7 +62,7 @@ export default function ChartOfAccountsPage() {
 
   const handleCreateAccount = useCallback(async (values: any) => {
     try {
-      await api.post("/api/finance/accounts", {
+      await sdk.finance.createAccount({
         code: values.code,
         name: values.name,
         account_type: values.account_type,
@@ -88,7 +84,7 @@ export default function ChartOfAccountsPage() {
     if (!editingAccount) return;
     
     try {
-      await api.put(`/api/finance/accounts/${editingAccount.id}`, {
+      await sdk.finance.updateAccount(editingAccount.id, {
         name: values.name,
         account_type: values.account_type,
         parent_id: values.parent_id || null,
@@ -116,7 +112,7 @@ export default function ChartOfAccountsPage() {
       content: `Are you sure you want to delete account "${account.name}"?`,
       onOk: async () => {
         try {
-          await api.del(`/api/finance/accounts/${account.id}`);
+          await sdk.finance.removeAccount(account.id);
           msg.success("Account deleted successfully");
           void loadAccounts();
         } catch (e: unknown) {
@@ -126,6 +122,38 @@ export default function ChartOfAccountsPage() {
     });
   }, [msg, loadAccounts]);
 
+  const openPostingAccounts = useCallback(async () => {
+    try {
+      const config = await sdk.finance.postingAccounts();
+      postingForm.setFieldsValue({
+        accounts: config?.accounts ?? {},
+        categories: Object.entries(config?.expense_categories ?? {})
+          .filter(([, id]) => id)
+          .map(([category, id]) => ({ category, account_id: id as number })),
+      });
+    } catch {
+      postingForm.setFieldsValue({ accounts: {}, categories: [] });
+    }
+    setPostingOpen(true);
+  }, [postingForm]);
+
+  const savePostingAccounts = useCallback(async () => {
+    const values = await postingForm.validateFields();
+    setPostingSaving(true);
+    try {
+      await sdk.finance.savePostingAccounts({
+        accounts: values.accounts ?? {},
+        expense_categories: Object.fromEntries((values.categories ?? []).map((c) => [c.category.trim(), c.account_id])),
+      });
+      msg.success("Posting accounts saved");
+      setPostingOpen(false);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save posting accounts"));
+    } finally {
+      setPostingSaving(false);
+    }
+  }, [msg, postingForm]);
+
   const openCreateModal = useCallback(() => {
     setEditingAccount(null);
     form.resetFields();
@@ -225,6 +253,9 @@ export default function ChartOfAccountsPage() {
         extra={
           <Space>
             <Button icon={<ReloadOutlined />} onClick={() => void loadAccounts()} loading={loading} />
+            <Button icon={<SettingOutlined />} onClick={() => void openPostingAccounts()}>
+              Posting Accounts
+            </Button>
             <Button type="primary" icon={<PlusOutlined />} onClick={openCreateModal}>
               Add Account
             </Button>
@@ -245,6 +276,65 @@ export default function ChartOfAccountsPage() {
         />
       </Card>
 
+      <Modal
+        title="Posting Accounts"
+        open={postingOpen}
+        onCancel={() => setPostingOpen(false)}
+        onOk={() => void savePostingAccounts()}
+        okText="Save"
+        confirmLoading={postingSaving}
+        width={640}
+      >
+        <Typography.Paragraph type="secondary">
+          Accounts that expenses, payroll, advances, client invoices and receipts post to.
+        </Typography.Paragraph>
+        <Form form={postingForm} layout="horizontal" labelCol={{ span: 10 }} wrapperCol={{ span: 14 }}>
+          {(Object.keys(POSTING_ROLES) as FinancePostingRole[]).map((role) => (
+            <Form.Item key={role} name={["accounts", role]} label={POSTING_ROLES[role].label} style={{ marginBottom: 8 }}>
+              <Select
+                allowClear
+                showSearch
+                optionFilterProp="label"
+                placeholder={POSTING_ROLES[role].accountType}
+                options={accountsForRole(accounts, role).map((a) => ({ label: `${a.code} - ${a.name}`, value: a.id }))}
+              />
+            </Form.Item>
+          ))}
+          <Typography.Text strong>Expense categories</Typography.Text>
+          <Typography.Paragraph type="secondary" style={{ marginBottom: 8 }}>
+            Categories listed here post to their own account instead of General expenses.
+          </Typography.Paragraph>
+          <Form.List name="categories">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="start" style={{ display: "flex" }}>
+                    <Form.Item name={[field.name, "category"]} rules={[{ required: true, message: "Category" }]} wrapperCol={{ span: 24 }}>
+                      <Input placeholder="e.g., Utilities" style={{ width: 200 }} />
+                    </Form.Item>
+                    <Form.Item name={[field.name, "account_id"]} rules={[{ required: true, message: "Account" }]} wrapperCol={{ span: 24 }}>
+                      <Select
+                        showSearch
+                        optionFilterProp="label"
+                        style={{ width: 280 }}
+                        options={accountsForRole(accounts, "general_expense").map((a) => ({
+                          label: `${a.code} - ${a.name}`,
+                          value: a.id,
+                        }))}
+                      />
+                    </Form.Item>
+                    <Button danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button size="small" icon={<PlusOutlined />} onClick={() => add()}>
+                  Add category
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form>
+      </Modal>
+
       <Modal
         title={editingAccount ? "Edit Account" : "Add New Account"}
         open={modalOpen}
@@ -1,5 +1,588 @@
-import { redirect } from "next/navigation";
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Drawer,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import {
+  CheckOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  PlusOutlined,
+  ReloadOutlined,
+  StopOutlined,
+  SyncOutlined,
+} from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+import Link from "next/link";
+
+import PostingReconciliation from "@/components/PostingReconciliation";
+import { useAuth } from "@/lib/auth";
+import { JOURNAL_STATUS_COLORS, journalProblems, journalTotals, sourceHref } from "@/lib/ledger";
+import { POSTING_SOURCES } from "@/lib/posting";
+import { sdk } from "@/lib/sdk";
+import type {
+  FinanceAccount,
+  FinanceJournalEntry,
+  FinanceJournalLine,
+  FinanceJournalLineCreate,
+  FinanceJournalStatus,
+} from "@/lib/types";
+
+const SOURCE_LABELS: Record<string, string> = { manual: "Manual", ...POSTING_SOURCES };
+
+type EditorValues = {
+  entry_date: Dayjs;
+  memo?: string | null;
+  lines: Array<Partial<FinanceJournalLineCreate>>;
+};
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function money(v: number | string): string {
+  const n = Number(v || 0);
+  return n ? n.toLocaleString("en-PK", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "";
+}
 
 export default function FinanceJournalsPage() {
-  redirect("/accounts-advances/employees");
+  const [msg, msgCtx] = message.useMessage();
+  const { has } = useAuth();
+  const canEdit = has("accounts:full");
+
+  const [loading, setLoading] = useState(false);
+  const [entries, setEntries] = useState<FinanceJournalEntry[]>([]);
+  const [accounts, setAccounts] = useState<FinanceAccount[]>([]);
+
+  const [range, setRange] = useState<[Dayjs, Dayjs]>(() => [dayjs().startOf("month"), dayjs()]);
+  const [sourceType, setSourceType] = useState<string | undefined>();
+  const [status, setStatus] = useState<FinanceJournalStatus | undefined>();
+  const [accountId, setAccountId] = useState<number | undefined>();
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<FinanceJournalEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm<EditorValues>();
+  const watchedLines = Form.useWatch("lines", form);
+
+  const [voiding, setVoiding] = useState<FinanceJournalEntry | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [reconcileOpen, setReconcileOpen] = useState(false);
+
+  const accountById = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
+  const accountOptions = useMemo(
+    () =>
+      accounts
+        .filter((a) => a.is_active)
+        .map((a) => ({ label: `${a.code} - ${a.name}`, value: a.id })),
+    [accounts]
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list, accs] = await Promise.all([
+        sdk.finance.journals({
+          from_date: range[0].format("YYYY-MM-DD"),
+          to_date: range[1].format("YYYY-MM-DD"),
+          source_type: sourceType,
+          status,
+          account_id: accountId,
+          limit: 1000,
+        }),
+        sdk.finance.accounts(),
+      ]);
+      setEntries(Array.isArray(list) ? list : []);
+      setAccounts(Array.isArray(accs) ? accs : []);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load journals"));
+    } finally {
+      setLoading(false);
+    }
+  }, [accountId, msg, range, sourceType, status]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const openCreate = useCallback(() => {
+    setEditing(null);
+    form.resetFields();
+    form.setFieldsValue({ entry_date: dayjs(), memo: null, lines: [{}, {}] });
+    setEditorOpen(true);
+  }, [form]);
+
+  const openEdit = useCallback(
+    (entry: FinanceJournalEntry) => {
+      setEditing(entry);
+      form.resetFields();
+      form.setFieldsValue({
+        entry_date: dayjs(entry.entry_date),
+        memo: entry.memo,
+        lines: entry.lines.map((l) => ({
+          account_id: l.account_id,
+          description: l.description,
+          debit: Number(l.debit || 0) || undefined,
+          credit: Number(l.credit || 0) || undefined,
+          employee_id: l.employee_id,
+        })),
+      });
+      setEditorOpen(true);
+    },
+    [form]
+  );
+
+  const problems = useMemo(() => journalProblems(watchedLines ?? []), [watchedLines]);
+  const totals = useMemo(
+    () => journalTotals((watchedLines ?? []).filter(Boolean) as FinanceJournalLineCreate[]),
+    [watchedLines]
+  );
+
+  const save = useCallback(
+    async (post: boolean) => {
+      const values = await form.validateFields();
+      const issues = journalProblems(values.lines);
+      if (post && issues.length) {
+        msg.error(issues[0]);
+        return;
+      }
+      const lines: FinanceJournalLineCreate[] = values.lines.map((l) => ({
+        account_id: Number(l.account_id),
+        description: l.description || null,
+        debit: Number(l.debit || 0),
+        credit: Number(l.credit || 0),
+        employee_id: l.employee_id ?? null,
+      }));
+      setSaving(true);
+      try {
+        let entry: FinanceJournalEntry;
+        if (editing) {
+          entry = await sdk.finance.updateJournal(editing.id, {
+            entry_date: values.entry_date.format("YYYY-MM-DD"),
+            memo: values.memo || null,
+            lines,
+          });
+        } else {
+          entry = await sdk.finance.createJournal({
+            entry_date: values.entry_date.format("YYYY-MM-DD"),
+            memo: values.memo || null,
+            source_type: "manual",
+            status: "DRAFT",
+            lines,
+          });
+        }
+        if (post) entry = await sdk.finance.postJournal(entry.id);
+        msg.success(post ? `Journal ${entry.entry_no} posted` : `Draft ${entry.entry_no} saved`);
+        setEditorOpen(false);
+        await load();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to save journal"));
+      } finally {
+        setSaving(false);
+      }
+    },
+    [editing, form, load, msg]
+  );
+
+  const postEntry = useCallback(
+    async (entry: FinanceJournalEntry) => {
+      const issues = journalProblems(entry.lines);
+      if (issues.length) {
+        msg.error(issues[0]);
+        return;
+      }
+      try {
+        await sdk.finance.postJournal(entry.id);
+        msg.success(`Journal ${entry.entry_no} posted`);
+        await load();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to post journal"));
+      }
+    },
+    [load, msg]
+  );
+
+  const removeEntry = useCallback(
+    async (entry: FinanceJournalEntry) => {
+      try {
+        await sdk.finance.removeJournal(entry.id);
+        msg.success(`Draft ${entry.entry_no} deleted`);
+        await load();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to delete draft"));
+      }
+    },
+    [load, msg]
+  );
+
+  const confirmVoid = useCallback(async () => {
+    if (!voiding) return;
+    if (!voidReason.trim()) {
+      msg.error("Give a reason for voiding");
+      return;
+    }
+    try {
+      await sdk.finance.voidJournal(voiding.id, voidReason.trim());
+      msg.success(`Journal ${voiding.entry_no} voided`);
+      setVoiding(null);
+      setVoidReason("");
+      await load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to void journal"));
+    }
+  }, [load, msg, voidReason, voiding]);
+
+  const columns = useMemo<ColumnsType<FinanceJournalEntry>>(
+    () => [
+      { title: "Entry #", dataIndex: "entry_no", width: 120 },
+      { title: "Date", dataIndex: "entry_date", width: 110 },
+      { title: "Memo", dataIndex: "memo", ellipsis: true },
+      {
+        title: "Source",
+        key: "source",
+        width: 170,
+        render: (_, r) => {
+          const label = SOURCE_LABELS[r.source_type || "manual"] ?? r.source_type;
+          const href = sourceHref(r);
+          return (
+            <Space size={4}>
+              <Tag>{label}</Tag>
+              {href && r.source_id ? <Link href={href}>#{r.source_id}</Link> : null}
+              {r.reversal_of_id ? <Tag color="orange">Reversal</Tag> : null}
+            </Space>
+          );
+        },
+      },
+      {
+        title: "Amount",
+        key: "amount",
+        width: 130,
+        align: "right",
+        render: (_, r) => money(journalTotals(r.lines ?? []).debit),
+      },
+      {
+        title: "Status",
+        dataIndex: "status",
+        width: 100,
+        render: (v: string, r) => (
+          <Space orientation="vertical" size={0}>
+            <Tag color={JOURNAL_STATUS_COLORS[v] ?? "default"}>{v}</Tag>
+            {r.posted_at ? (
+              <Typography.Text type="secondary" style={{ fontSize: 11 }}>
+                {dayjs(r.posted_at).format("DD MMM HH:mm")}
+              </Typography.Text>
+            ) : null}
+          </Space>
+        ),
+      },
+      {
+        title: "",
+        key: "actions",
+        width: 170,
+        render: (_, r) =>
+          !canEdit ? null : r.status === "DRAFT" ? (
+            <Space size={4}>
+              <Button size="small" icon={<EditOutlined />} onClick={() => openEdit(r)} />
+              <Button size="small" type="primary" icon={<CheckOutlined />} onClick={() => void postEntry(r)}>
+                Post
+              </Button>
+              <Popconfirm title="Delete this draft?" onConfirm={() => void removeEntry(r)}>
+                <Button size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>
+            </Space>
+          ) : r.status === "POSTED" ? (
+            <Button size="small" danger icon={<StopOutlined />} onClick={() => setVoiding(r)}>
+              Void
+            </Button>
+          ) : null,
+      },
+    ],
+    [canEdit, openEdit, postEntry, removeEntry]
+  );
+
+  const lineColumns = useCallback(
+    (entry: FinanceJournalEntry): ColumnsType<FinanceJournalLine> => [
+      {
+        title: "Account",
+        dataIndex: "account_id",
+        render: (id: number) => {
+          const a = accountById.get(id);
+          return a ? `${a.code} - ${a.name}` : `#${id}`;
+        },
+      },
+      { title: "Description", dataIndex: "description" },
+      { title: "Debit", dataIndex: "debit", width: 130, align: "right", render: (v) => money(v) },
+      { title: "Credit", dataIndex: "credit", width: 130, align: "right", render: (v) => money(v) },
+      {
+        title: "",
+        key: "source",
+        width: 90,
+        render: (_, l) => {
+          const href = sourceHref(entry, l);
+          return href ? <Link href={href}>Open</Link> : null;
+        },
+      },
+    ],
+    [accountById]
+  );
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Journals</Typography.Text>
+              </div>
+              <Typography.Text type="secondary">General ledger entries, posted automatically or by hand</Typography.Text>
+            </Col>
+            <Col>
+              <Space wrap>
+                <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading}>
+                  Refresh
+                </Button>
+                {canEdit ? (
+                  <Button icon={<SyncOutlined />} onClick={() => setReconcileOpen(true)}>
+                    Post Missing
+                  </Button>
+                ) : null}
+                {canEdit ? (
+                  <Button type="primary" icon={<PlusOutlined />} onClick={openCreate}>
+                    Manual Journal
+                  </Button>
+                ) : null}
+              </Space>
+            </Col>
+          </Row>
+
+          <Row gutter={[12, 12]}>
+            <Col xs={24} md={8}>
+              <DatePicker.RangePicker
+                style={{ width: "100%" }}
+                allowClear={false}
+                value={range}
+                onChange={(v) => {
+                  if (v?.[0] && v?.[1]) setRange([v[0], v[1]]);
+                }}
+              />
+            </Col>
+            <Col xs={12} md={5}>
+              <Select
+                allowClear
+                placeholder="Source"
+                style={{ width: "100%" }}
+                value={sourceType}
+                onChange={setSourceType}
+                options={Object.entries(SOURCE_LABELS).map(([value, label]) => ({ label, value }))}
+              />
+            </Col>
+            <Col xs={12} md={4}>
+              <Select<FinanceJournalStatus>
+                allowClear
+                placeholder="Status"
+                style={{ width: "100%" }}
+                value={status}
+                onChange={setStatus}
+                options={(["DRAFT", "POSTED", "VOID"] as FinanceJournalStatus[]).map((s) => ({ label: s, value: s }))}
+              />
+            </Col>
+            <Col xs={24} md={7}>
+              <Select
+                allowClear
+                showSearch
+                optionFilterProp="label"
+                placeholder="Account"
+                style={{ width: "100%" }}
+                value={accountId}
+                onChange={setAccountId}
+                options={accountOptions}
+              />
+            </Col>
+          </Row>
+
+          <Table<FinanceJournalEntry>
+            size="small"
+            rowKey="id"
+            loading={loading}
+            dataSource={entries}
+            columns={columns}
+            pagination={{ pageSize: 50, showSizeChanger: true }}
+            expandable={{
+              expandedRowRender: (entry) => (
+                <Table<FinanceJournalLine>
+                  size="small"
+                  rowKey="id"
+                  dataSource={entry.lines ?? []}
+                  columns={lineColumns(entry)}
+                  pagination={false}
+                />
+              ),
+            }}
+          />
+        </Space>
+      </Card>
+
+      <Drawer
+        title={editing ? `Edit Draft ${editing.entry_no}` : "Manual Journal"}
+        open={editorOpen}
+        onClose={() => setEditorOpen(false)}
+        width={860}
+        extra={
+          <Space>
+            <Button onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button loading={saving} onClick={() => void save(false)}>
+              Save Draft
+            </Button>
+            <Button type="primary" loading={saving} disabled={problems.length > 0} onClick={() => void save(true)}>
+              Save & Post
+            </Button>
+          </Space>
+        }
+      >
+        <Form form={form} layout="vertical">
+          <Row gutter={12}>
+            <Col span={8}>
+              <Form.Item name="entry_date" label="Date" rules={[{ required: true }]}>
+                <DatePicker style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col span={16}>
+              <Form.Item name="memo" label="Memo">
+                <Input placeholder="What this entry records" />
+              </Form.Item>
+            </Col>
+          </Row>
+
+          <Form.List name="lines">
+            {(fields, { add, remove }) => (
+              <>
+                <Row gutter={8} style={{ marginBottom: 4 }}>
+                  <Col span={8}>
+                    <Typography.Text type="secondary">Account</Typography.Text>
+                  </Col>
+                  <Col span={7}>
+                    <Typography.Text type="secondary">Description</Typography.Text>
+                  </Col>
+                  <Col span={4}>
+                    <Typography.Text type="secondary">Debit</Typography.Text>
+                  </Col>
+                  <Col span={4}>
+                    <Typography.Text type="secondary">Credit</Typography.Text>
+                  </Col>
+                </Row>
+                {fields.map((field) => (
+                  <Row key={field.key} gutter={8}>
+                    <Col span={8}>
+                      <Form.Item name={[field.name, "account_id"]} style={{ marginBottom: 8 }}>
+                        <Select showSearch optionFilterProp="label" options={accountOptions} placeholder="Account" />
+                      </Form.Item>
+                    </Col>
+                    <Col span={7}>
+                      <Form.Item name={[field.name, "description"]} style={{ marginBottom: 8 }}>
+                        <Input />
+                      </Form.Item>
+                    </Col>
+                    <Col span={4}>
+                      <Form.Item name={[field.name, "debit"]} style={{ marginBottom: 8 }}>
+                        <InputNumber
+                          min={0}
+                          style={{ width: "100%" }}
+                          onChange={(v) => {
+                            if (v) form.setFieldValue(["lines", field.name, "credit"], undefined);
+                          }}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={4}>
+                      <Form.Item name={[field.name, "credit"]} style={{ marginBottom: 8 }}>
+                        <InputNumber
+                          min={0}
+                          style={{ width: "100%" }}
+                          onChange={(v) => {
+                            if (v) form.setFieldValue(["lines", field.name, "debit"], undefined);
+                          }}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={1}>
+                      <Button type="text" danger icon={<DeleteOutlined />} onClick={() => remove(field.name)} />
+                    </Col>
+                  </Row>
+                ))}
+                <Row gutter={8} align="middle">
+                  <Col span={15}>
+                    <Button size="small" icon={<PlusOutlined />} onClick={() => add({})}>
+                      Add line
+                    </Button>
+                  </Col>
+                  <Col span={4}>
+                    <Typography.Text strong>{money(totals.debit) || "0.00"}</Typography.Text>
+                  </Col>
+                  <Col span={4}>
+                    <Typography.Text strong>{money(totals.credit) || "0.00"}</Typography.Text>
+                  </Col>
+                </Row>
+              </>
+            )}
+          </Form.List>
+
+          {problems.length ? (
+            <Alert
+              style={{ marginTop: 16 }}
+              type={totals.difference ? "warning" : "info"}
+              showIcon
+              message="Not ready to post"
+              description={problems.join("; ")}
+            />
+          ) : (
+            <Alert style={{ marginTop: 16 }} type="success" showIcon message="Balanced" />
+          )}
+        </Form>
+      </Drawer>
+
+      <Modal
+        title={`Void ${voiding?.entry_no ?? ""}`}
+        open={Boolean(voiding)}
+        onCancel={() => {
+          setVoiding(null);
+          setVoidReason("");
+        }}
+        onOk={() => void confirmVoid()}
+        okText="Void"
+        okButtonProps={{ danger: true }}
+      >
+        <Typography.Paragraph type="secondary">
+          The entry stays on file but stops counting towards account balances.
+        </Typography.Paragraph>
+        <Input.TextArea rows={3} value={voidReason} onChange={(e) => setVoidReason(e.target.value)} placeholder="Reason" />
+      </Modal>
+
+      <PostingReconciliation open={reconcileOpen} onClose={() => setReconcileOpen(false)} onPosted={() => void load()} />
+    </>
+  );
 }
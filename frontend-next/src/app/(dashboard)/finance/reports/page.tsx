@@ -0,0 +1,348 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Button,
+  Card,
+  Checkbox,
+  Col,
+  DatePicker,
+  Drawer,
+  Row,
+  Segmented,
+  Space,
+  Statistic,
+  Table,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { FileExcelOutlined, FilePdfOutlined, ReloadOutlined } from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+import Link from "next/link";
+
+import {
+  STATEMENT_TITLES,
+  accountLedger,
+  buildStatement,
+  buildStatementPdf,
+  buildStatementXlsx,
+  statementFilename,
+  trialBalanceTotals,
+  type LedgerLine,
+  type StatementKind,
+  type StatementRow,
+} from "@/lib/financialReports";
+import { sourceHref } from "@/lib/ledger";
+import { loadPayslipLogo } from "@/lib/payslip";
+import { sdk } from "@/lib/sdk";
+import type { FinanceAccount, FinanceJournalEntry } from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function amount(n: number): string {
+  if (!n) return "-";
+  const s = Math.abs(n).toLocaleString("en-PK", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `(${s})` : s;
+}
+
+export default function FinancialReportsPage() {
+  const [msg, msgCtx] = message.useMessage();
+  const [kind, setKind] = useState<StatementKind>("profit_loss");
+  const [range, setRange] = useState<[Dayjs, Dayjs]>(() => [dayjs().startOf("month"), dayjs().endOf("month")]);
+  const [hideZero, setHideZero] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [accounts, setAccounts] = useState<FinanceAccount[]>([]);
+  const [entries, setEntries] = useState<FinanceJournalEntry[]>([]);
+  const [drill, setDrill] = useState<FinanceAccount | null>(null);
+
+  const to = range[1].format("YYYY-MM-DD");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Balances are cumulative, so everything posted up to the end date is needed
+      const [accs, list] = await Promise.all([
+        sdk.finance.accounts(),
+        sdk.finance.allJournals({ to_date: to, status: "POSTED" }),
+      ]);
+      setAccounts(Array.isArray(accs) ? accs : []);
+      setEntries(list);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load ledger"));
+    } finally {
+      setLoading(false);
+    }
+  }, [msg, to]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const period = useMemo(() => ({ from: range[0].format("YYYY-MM-DD"), to }), [range, to]);
+
+  const statement = useMemo(
+    () => buildStatement(kind, accounts, entries, period, hideZero),
+    [accounts, entries, hideZero, kind, period]
+  );
+
+  const ledger = useMemo(
+    () => (drill ? accountLedger(accounts, drill, entries, period, kind !== "profit_loss") : null),
+    [accounts, drill, entries, kind, period]
+  );
+
+  const exportPdf = useCallback(async () => {
+    downloadBlob(buildStatementPdf(statement, await loadPayslipLogo()), statementFilename(statement, "pdf"));
+  }, [statement]);
+
+  const exportXlsx = useCallback(() => {
+    downloadBlob(buildStatementXlsx(statement), statementFilename(statement, "xlsx"));
+  }, [statement]);
+
+  const accountCell = useCallback(
+    (r: StatementRow) => {
+      const style = { paddingLeft: r.depth * 16, fontWeight: r.kind === "account" && r.depth > 1 ? 400 : 600 };
+      if (r.account) {
+        return (
+          <Typography.Link style={style} onClick={() => setDrill(r.account ?? null)}>
+            {r.label}
+          </Typography.Link>
+        );
+      }
+      return <span style={style}>{r.label}</span>;
+    },
+    []
+  );
+
+  const asOf = kind !== "profit_loss";
+  const curHead = asOf ? `As of ${statement.period.to}` : `${statement.period.from} – ${statement.period.to}`;
+  const prevHead = asOf ? `As of ${statement.previous.to}` : `${statement.previous.from} – ${statement.previous.to}`;
+
+  const columns = useMemo<ColumnsType<StatementRow>>(() => {
+    if (kind === "trial_balance") {
+      const dr = (n: number) => (n > 0 ? amount(n) : "");
+      const cr = (n: number) => (n < 0 ? amount(-n) : "");
+      return [
+        { title: "Account", key: "account", render: (_, r) => accountCell(r) },
+        { title: `Debit`, key: "dr", width: 140, align: "right", render: (_, r) => dr(r.current) },
+        { title: `Credit`, key: "cr", width: 140, align: "right", render: (_, r) => cr(r.current) },
+        { title: `Debit (${prevHead})`, key: "pdr", width: 160, align: "right", render: (_, r) => dr(r.previous) },
+        { title: `Credit (${prevHead})`, key: "pcr", width: 160, align: "right", render: (_, r) => cr(r.previous) },
+      ];
+    }
+    return [
+      { title: "", key: "account", render: (_, r) => accountCell(r) },
+      {
+        title: curHead,
+        key: "current",
+        width: 170,
+        align: "right",
+        render: (_, r) => (r.kind === "section" ? "" : amount(r.current)),
+      },
+      {
+        title: prevHead,
+        key: "previous",
+        width: 170,
+        align: "right",
+        render: (_, r) => (r.kind === "section" ? "" : amount(r.previous)),
+      },
+      {
+        title: "Change",
+        key: "change",
+        width: 130,
+        align: "right",
+        render: (_, r) => {
+          if (r.kind === "section") return "";
+          const d = r.current - r.previous;
+          return <Typography.Text type={d < 0 ? "danger" : undefined}>{amount(Math.round(d * 100) / 100)}</Typography.Text>;
+        },
+      },
+    ];
+  }, [accountCell, curHead, kind, prevHead]);
+
+  const tbTotals = kind === "trial_balance" ? trialBalanceTotals(statement) : null;
+  const netRow = statement.rows.find((r) => r.key === "net");
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+        <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <div style={{ fontSize: 24, fontWeight: 700, lineHeight: 1.2 }}>
+                <Typography.Text>Financial Reports</Typography.Text>
+              </div>
+              <Typography.Text type="secondary">
+                {STATEMENT_TITLES[kind]} from posted journals, compared with the previous period
+              </Typography.Text>
+            </Col>
+            <Col>
+              <Space wrap>
+                <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading}>
+                  Refresh
+                </Button>
+                <Button icon={<FilePdfOutlined />} onClick={() => void exportPdf()} disabled={!statement.rows.length}>
+                  Export PDF
+                </Button>
+                <Button icon={<FileExcelOutlined />} onClick={exportXlsx} disabled={!statement.rows.length}>
+                  Export Excel
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          <Row gutter={[12, 12]} align="middle">
+            <Col>
+              <Segmented<StatementKind>
+                value={kind}
+                onChange={setKind}
+                options={(Object.keys(STATEMENT_TITLES) as StatementKind[]).map((k) => ({
+                  label: STATEMENT_TITLES[k],
+                  value: k,
+                }))}
+              />
+            </Col>
+            <Col>
+              <DatePicker.RangePicker
+                allowClear={false}
+                value={range}
+                onChange={(v) => {
+                  if (v?.[0] && v?.[1]) setRange([v[0], v[1]]);
+                }}
+              />
+            </Col>
+            <Col>
+              <Checkbox checked={hideZero} onChange={(e) => setHideZero(e.target.checked)}>
+                Hide zero balances
+              </Checkbox>
+            </Col>
+          </Row>
+
+          {statement.imbalance ? (
+            <Alert
+              type="warning"
+              showIcon
+              message={`Out of balance by ${amount(Math.abs(statement.imbalance))}`}
+              description="Check for accounts with an unexpected type or entries posted outside the journal."
+            />
+          ) : null}
+
+          {tbTotals ? (
+            <Row gutter={[12, 12]}>
+              <Col xs={12} md={6}>
+                <Statistic title="Total Debits" value={tbTotals.debit} prefix="Rs" precision={2} />
+              </Col>
+              <Col xs={12} md={6}>
+                <Statistic title="Total Credits" value={tbTotals.credit} prefix="Rs" precision={2} />
+              </Col>
+            </Row>
+          ) : netRow ? (
+            <Row gutter={[12, 12]}>
+              <Col xs={12} md={6}>
+                <Statistic title="Net Profit / (Loss)" value={netRow.current} prefix="Rs" precision={2} />
+              </Col>
+              <Col xs={12} md={6}>
+                <Statistic title="Previous Period" value={netRow.previous} prefix="Rs" precision={2} />
+              </Col>
+            </Row>
+          ) : null}
+
+          <Table<StatementRow>
+            size="small"
+            rowKey="key"
+            loading={loading}
+            dataSource={statement.rows}
+            columns={columns}
+            pagination={false}
+            rowClassName={(r) => (r.kind === "account" ? "" : "ant-table-row-selected")}
+            summary={() =>
+              tbTotals ? (
+                <Table.Summary.Row>
+                  <Table.Summary.Cell index={0}>
+                    <Typography.Text strong>Total</Typography.Text>
+                  </Table.Summary.Cell>
+                  <Table.Summary.Cell index={1} align="right">
+                    <Typography.Text strong>{amount(tbTotals.debit)}</Typography.Text>
+                  </Table.Summary.Cell>
+                  <Table.Summary.Cell index={2} align="right">
+                    <Typography.Text strong>{amount(tbTotals.credit)}</Typography.Text>
+                  </Table.Summary.Cell>
+                  <Table.Summary.Cell index={3} align="right">
+                    <Typography.Text strong>{amount(tbTotals.prevDebit)}</Typography.Text>
+                  </Table.Summary.Cell>
+                  <Table.Summary.Cell index={4} align="right">
+                    <Typography.Text strong>{amount(tbTotals.prevCredit)}</Typography.Text>
+                  </Table.Summary.Cell>
+                </Table.Summary.Row>
+              ) : null
+            }
+          />
+        </Space>
+      </Card>
+
+      <Drawer
+        title={drill ? `${drill.code} ${drill.name}` : "Account"}
+        open={Boolean(drill)}
+        onClose={() => setDrill(null)}
+        width={900}
+      >
+        {ledger ? (
+          <Table<LedgerLine>
+            size="small"
+            rowKey="key"
+            dataSource={ledger.lines}
+            pagination={ledger.lines.length > 100 ? { pageSize: 100 } : false}
+            title={() => (
+              <Typography.Text type="secondary">
+                {period.from} to {period.to}
+                {kind !== "profit_loss" ? ` · opening balance ${amount(ledger.opening)}` : ""}
+              </Typography.Text>
+            )}
+            footer={() => <Typography.Text strong>Closing balance {amount(ledger.closing)}</Typography.Text>}
+            columns={[
+              { title: "Date", key: "date", width: 100, render: (_, l) => l.entry.entry_date },
+              {
+                title: "Entry #",
+                key: "entry",
+                width: 110,
+                render: (_, l) => <Link href="/finance/journals">{l.entry.entry_no}</Link>,
+              },
+              { title: "Memo", key: "memo", ellipsis: true, render: (_, l) => l.line.description || l.entry.memo },
+              {
+                title: "Source",
+                key: "source",
+                width: 110,
+                render: (_, l) => {
+                  const href = sourceHref(l.entry, l.line);
+                  return href ? <Link href={href}>{l.entry.source_type?.replace(/_/g, " ")}</Link> : "Manual";
+                },
+              },
+              { title: "Debit", dataIndex: "debit", width: 110, align: "right", render: (v: number) => amount(v) },
+              { title: "Credit", dataIndex: "credit", width: 110, align: "right", render: (v: number) => amount(v) },
+              { title: "Balance", dataIndex: "balance", width: 120, align: "right", render: (v: number) => amount(v) },
+            ]}
+          />
+        ) : null}
+      </Drawer>
+    </>
+  );
+}
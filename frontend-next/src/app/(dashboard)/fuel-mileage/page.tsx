@@ -6,9 +6,13 @@ import {
   Card,
   Col,
   DatePicker,
+  Form,
+  Input,
   InputNumber,
   List,
   message,
+  Modal,
+  Popconfirm,
   Row,
   Select,
   Space,
@@ -17,11 +21,14 @@ import {
   Typography,
 } from "antd";
 import type { ColumnsType } from "antd/es/table";
-import { ReloadOutlined } from "@ant-design/icons";
+import { DeleteOutlined, EditOutlined, PlusOutlined, ReloadOutlined } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
+import { postEvent, reverseSource, tryPosting } from "@/lib/posting";
+import { sdk, type AssignmentPeriodQuery } from "@/lib/sdk";
 import type {
+  FuelEntry,
+  FuelEntryCreate,
   VehicleAssignmentAggRow,
   VehicleAssignmentAnalyticsResponse,
   VehicleAssignment,
@@ -36,6 +43,19 @@ type AssignmentFilters = {
   vehicle_id?: string;
 };
 
+type FuelFormValues = {
+  vehicle_id: string;
+  entry_date: dayjs.Dayjs;
+  fuel_type?: string;
+  liters: number;
+  price_per_liter?: number | null;
+  total_cost?: number | null;
+  odometer_km?: number | null;
+  vendor?: string;
+  location?: string;
+  notes?: string;
+};
+
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
     const m = (e as { message?: unknown }).message;
@@ -62,9 +82,16 @@ export default function FuelMileagePage() {
   const [detailLoading, setDetailLoading] = useState(false);
   const [detailRows, setDetailRows] = useState<VehicleAssignment[]>([]);
 
+  const [fuelLoading, setFuelLoading] = useState(false);
+  const [fuelRows, setFuelRows] = useState<FuelEntry[]>([]);
+  const [fuelModalOpen, setFuelModalOpen] = useState(false);
+  const [fuelEditing, setFuelEditing] = useState<FuelEntry | null>(null);
+  const [fuelSaving, setFuelSaving] = useState(false);
+  const [fuelForm] = Form.useForm<FuelFormValues>();
+
   const loadVehicles = useCallback(async () => {
     try {
-      const v = await api.get<Vehicle[]>("/api/vehicles/", { query: { limit: 1000 } });
+      const v = await sdk.vehicles.list(1000);
       setVehicles(Array.isArray(v) ? v : []);
     } catch {
       setVehicles([]);
@@ -93,7 +120,7 @@ export default function FuelMileagePage() {
   const loadAssignmentAnalytics = useCallback(async () => {
     setAssignLoading(true);
     try {
-      const q: Record<string, string | number | undefined> = {
+      const q: AssignmentPeriodQuery = {
         period: assignFilters.period,
         vehicle_id: assignFilters.vehicle_id,
       };
@@ -106,9 +133,7 @@ export default function FuelMileagePage() {
         q.year = Number(assignFilters.year ?? dayjs().year());
       }
 
-      const data = await api.get<VehicleAssignmentAnalyticsResponse>("/api/vehicle-assignments/analytics", {
-        query: q,
-      });
+      const data = await sdk.vehicleAssignments.analytics(q);
       setAssignAnalytics(data ?? null);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load assignment analytics"));
@@ -121,14 +146,12 @@ export default function FuelMileagePage() {
   const loadAssignmentDetails = useCallback(async () => {
     setDetailLoading(true);
     try {
-      const data = await api.get<VehicleAssignment[]>("/api/vehicle-assignments/", {
-        query: {
-          vehicle_id: assignFilters.vehicle_id,
-          status: "Complete",
-          from_date: assignmentRange.from,
-          to_date: assignmentRange.to,
-          limit: 2000,
-        },
+      const data = await sdk.vehicleAssignments.list({
+        vehicle_id: assignFilters.vehicle_id,
+        status: "Complete",
+        from_date: assignmentRange.from,
+        to_date: assignmentRange.to,
+        limit: 2000,
       });
       setDetailRows(Array.isArray(data) ? data : []);
     } catch (e: unknown) {
@@ -139,10 +162,110 @@ export default function FuelMileagePage() {
     }
   }, [assignmentRange.from, assignmentRange.to, assignFilters.vehicle_id, msg]);
 
+  const loadFuel = useCallback(async () => {
+    setFuelLoading(true);
+    try {
+      const data = await sdk.fuelEntries.list({
+        vehicle_id: assignFilters.vehicle_id,
+        from_date: assignmentRange.from,
+        to_date: assignmentRange.to,
+        limit: 2000,
+      });
+      setFuelRows(Array.isArray(data) ? data : []);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load fuel purchases"));
+      setFuelRows([]);
+    } finally {
+      setFuelLoading(false);
+    }
+  }, [assignmentRange.from, assignmentRange.to, assignFilters.vehicle_id, msg]);
+
+  const openFuel = useCallback(
+    (entry: FuelEntry | null) => {
+      setFuelEditing(entry);
+      fuelForm.resetFields();
+      fuelForm.setFieldsValue(
+        entry
+          ? {
+              vehicle_id: entry.vehicle_id,
+              entry_date: dayjs(entry.entry_date),
+              fuel_type: entry.fuel_type ?? undefined,
+              liters: entry.liters,
+              price_per_liter: entry.price_per_liter,
+              total_cost: entry.total_cost,
+              odometer_km: entry.odometer_km,
+              vendor: entry.vendor ?? undefined,
+              location: entry.location ?? undefined,
+              notes: entry.notes ?? undefined,
+            }
+          : { vehicle_id: assignFilters.vehicle_id, entry_date: dayjs() }
+      );
+      setFuelModalOpen(true);
+    },
+    [assignFilters.vehicle_id, fuelForm]
+  );
+
+  const saveFuel = useCallback(async () => {
+    const v = await fuelForm.validateFields();
+    setFuelSaving(true);
+    try {
+      const payload: FuelEntryCreate = {
+        vehicle_id: v.vehicle_id,
+        entry_date: v.entry_date.format("YYYY-MM-DD"),
+        fuel_type: v.fuel_type || null,
+        liters: Number(v.liters),
+        price_per_liter: v.price_per_liter ?? null,
+        total_cost: v.total_cost ?? (v.price_per_liter != null ? Number(v.liters) * v.price_per_liter : null),
+        odometer_km: v.odometer_km ?? null,
+        vendor: v.vendor || null,
+        location: v.location || null,
+        notes: v.notes || null,
+      };
+      const previous = fuelEditing;
+      const entry = previous ? await sdk.fuelEntries.update(previous.id, payload) : await sdk.fuelEntries.create(payload);
+      msg.success(previous ? "Fuel purchase updated" : "Fuel purchase added");
+      // An edited purchase is reversed and posted again so the ledger follows the new amount and date
+      const warning = await tryPosting(async () => {
+        if (previous) {
+          await reverseSource("fuel_entry", previous.id, dayjs().format("YYYY-MM-DD"), "fuel purchase edited");
+        }
+        return postEvent({ kind: "fuel_purchased", entry });
+      });
+      if (warning) msg.warning(warning);
+      setFuelModalOpen(false);
+      await loadFuel();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save fuel purchase"));
+    } finally {
+      setFuelSaving(false);
+    }
+  }, [fuelEditing, fuelForm, loadFuel, msg]);
+
+  const deleteFuel = useCallback(
+    async (entry: FuelEntry) => {
+      try {
+        await sdk.fuelEntries.remove(entry.id);
+        msg.success("Fuel purchase deleted");
+        const warning = await tryPosting(() =>
+          reverseSource("fuel_entry", entry.id, dayjs().format("YYYY-MM-DD"), "fuel purchase deleted")
+        );
+        if (warning) msg.warning(warning);
+        await loadFuel();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to delete fuel purchase"));
+      }
+    },
+    [loadFuel, msg]
+  );
+
   useEffect(() => {
     void loadVehicles();
   }, [loadVehicles]);
 
+  useEffect(() => {
+    void loadFuel();
+  }, [loadFuel]);
+
   useEffect(() => {
     void loadAssignmentAnalytics();
   }, [loadAssignmentAnalytics]);
@@ -320,6 +443,70 @@ export default function FuelMileagePage() {
     ];
   }, []);
 
+  const fuelColumns = useMemo((): ColumnsType<FuelEntry> => {
+    return [
+      {
+        title: "Date",
+        dataIndex: "entry_date",
+        width: 110,
+        render: (v) => (v ? dayjs(String(v)).format("YYYY-MM-DD") : "-"),
+      },
+      {
+        title: "Vehicle",
+        dataIndex: "vehicle_id",
+        width: 120,
+        render: (v) => <Tag>{String(v)}</Tag>,
+      },
+      {
+        title: "Liters",
+        dataIndex: "liters",
+        width: 90,
+        align: "right",
+        render: (v) => (typeof v === "number" ? v.toFixed(1) : "-"),
+      },
+      {
+        title: "Rs/L",
+        dataIndex: "price_per_liter",
+        width: 90,
+        align: "right",
+        render: (v) => (typeof v === "number" ? v.toFixed(2) : "-"),
+      },
+      {
+        title: "Cost",
+        dataIndex: "total_cost",
+        width: 120,
+        align: "right",
+        render: (v) => (typeof v === "number" ? `Rs ${v.toFixed(2)}` : "-"),
+      },
+      {
+        title: "Odometer",
+        dataIndex: "odometer_km",
+        width: 100,
+        align: "right",
+        render: (v) => (typeof v === "number" ? v.toFixed(0) : "-"),
+      },
+      {
+        title: "Vendor",
+        dataIndex: "vendor",
+        ellipsis: true,
+        render: (v) => (v ? String(v) : "-"),
+      },
+      {
+        title: "",
+        key: "actions",
+        width: 90,
+        render: (_, r) => (
+          <Space size={4}>
+            <Button size="small" icon={<EditOutlined />} onClick={() => openFuel(r)} />
+            <Popconfirm title="Delete this fuel purchase?" onConfirm={() => void deleteFuel(r)}>
+              <Button size="small" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          </Space>
+        ),
+      },
+    ];
+  }, [deleteFuel, openFuel]);
+
   return (
     <>
       {msgCtx}
@@ -493,6 +680,7 @@ export default function FuelMileagePage() {
                   onClick={() => {
                     void loadAssignmentAnalytics();
                     void loadAssignmentDetails();
+                    void loadFuel();
                   }}
                   style={{ width: "100%" }}
                 >
@@ -577,8 +765,99 @@ export default function FuelMileagePage() {
               scroll={{ x: 1050 }}
             />
           </Card>
+
+          <Card size="small" variant="outlined" style={{ borderRadius: 0 }} styles={{ body: { padding: 12 } }}>
+            <Row gutter={[8, 8]} align="middle" style={{ marginBottom: 8 }}>
+              <Col flex="auto">
+                <Typography.Title level={5} style={{ margin: 0 }}>
+                  Fuel Purchases
+                </Typography.Title>
+                <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                  Each purchase is posted to the ledger as fuel expense paid in cash
+                </Typography.Text>
+              </Col>
+              <Col>
+                <Button type="primary" icon={<PlusOutlined />} onClick={() => openFuel(null)}>
+                  Add Purchase
+                </Button>
+              </Col>
+            </Row>
+            <Table<FuelEntry>
+              rowKey={(r) => r.id}
+              size="small"
+              loading={fuelLoading}
+              dataSource={fuelRows}
+              columns={fuelColumns}
+              pagination={{ pageSize: 10, showSizeChanger: true }}
+              scroll={{ x: 900 }}
+            />
+          </Card>
         </Space>
       </Card>
+
+      <Modal
+        title={fuelEditing ? "Edit Fuel Purchase" : "Add Fuel Purchase"}
+        open={fuelModalOpen}
+        onCancel={() => setFuelModalOpen(false)}
+        onOk={() => void saveFuel()}
+        okText="Save"
+        confirmLoading={fuelSaving}
+      >
+        <Form form={fuelForm} layout="vertical">
+          <Row gutter={12}>
+            <Col xs={24} md={12}>
+              <Form.Item name="vehicle_id" label="Vehicle" rules={[{ required: true, message: "Select a vehicle" }]}>
+                <Select showSearch optionFilterProp="label" options={vehicleOptions} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="entry_date" label="Date" rules={[{ required: true }]}>
+                <DatePicker style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={12} md={8}>
+              <Form.Item name="liters" label="Liters" rules={[{ required: true }]}>
+                <InputNumber min={0} step={0.1} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={12} md={8}>
+              <Form.Item name="price_per_liter" label="Rs/L">
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={8}>
+              <Form.Item name="total_cost" label="Total cost" tooltip="Liters × Rs/L when left empty">
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={12} md={8}>
+              <Form.Item name="fuel_type" label="Fuel type">
+                <Input placeholder="Petrol" />
+              </Form.Item>
+            </Col>
+            <Col xs={12} md={8}>
+              <Form.Item name="odometer_km" label="Odometer (km)">
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={8}>
+              <Form.Item name="vendor" label="Vendor">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col xs={24}>
+              <Form.Item name="location" label="Location">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col xs={24}>
+              <Form.Item name="notes" label="Notes">
+                <Input.TextArea rows={2} />
+              </Form.Item>
+            </Col>
+          </Row>
+        </Form>
+      </Modal>
     </>
   );
 }
@@ -9,8 +9,7 @@ import { useParams, useRouter } from "next/navigation";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
-import { api } from "@/lib/api";
-import type { Employee } from "@/lib/types";
+import { sdk } from "@/lib/sdk";
 
 type GeneralItem = {
   item_code: string;
@@ -18,16 +17,6 @@ type GeneralItem = {
   unit_name: string;
 };
 
-type GeneralTxRow = {
-  id: number;
-  item_code: string;
-  employee_id?: string | null;
-  action: string;
-  quantity?: number | null;
-  notes?: string | null;
-  created_at: string;
-};
-
 type AllocationRow = {
   id: string;
   employee_id: string;
@@ -73,9 +62,9 @@ export default function GeneralInventoryEmployeeAllocationDetailPage() {
     setLoading(true);
     try {
       const [employeesRes, itemsRes, txRes] = await Promise.all([
-        api.get<{ employees: Employee[] }>("/api/employees/", { query: { limit: 500 } }),
-        api.get<GeneralItem[]>("/api/general-inventory/items"),
-        api.get<GeneralTxRow[]>("/api/general-inventory/transactions", { query: { employee_id: eid, limit: 5000 } }),
+        sdk.employees.list({ limit: 500 }),
+        sdk.generalInventory.items(),
+        sdk.generalInventory.transactions({ employee_id: eid, limit: 5000 }),
       ]);
 
       const employees = Array.isArray(employeesRes?.employees) ? employeesRes.employees : [];
@@ -168,7 +157,7 @@ export default function GeneralInventoryEmployeeAllocationDetailPage() {
     async (r: AllocationRow) => {
       setActionLoading((p) => ({ ...p, [r.id]: true }));
       try {
-        await api.post(`/api/general-inventory/items/${encodeURIComponent(r.item_code)}/return`, {
+        await sdk.generalInventory.returnItem(r.item_code, {
           employee_id: r.employee_id,
           quantity: Number(r.quantity ?? 0),
           notes: "Returned from Employee Allocation Detail",
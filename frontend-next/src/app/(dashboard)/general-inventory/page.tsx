@@ -37,36 +37,9 @@ import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import { useRouter } from "next/navigation";
 
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import { API_BASE_URL } from "@/lib/config";
-import type { Employee } from "@/lib/types";
-
-type GeneralItem = {
-  id: number;
-  item_code: string;
-  category: string;
-  name: string;
-  description?: string | null;
-  image_url?: string | null;
-  unit_name: string;
-  quantity_on_hand: number;
-  min_quantity?: number | null;
-  storage_location?: string | null;
-  status: string;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type GeneralItemCreate = {
-  item_code: string;
-  category: string;
-  name: string;
-  description?: string | null;
-  quantity_on_hand: number;
-  min_quantity?: number | null;
-  storage_location?: string | null;
-  status: string;
-};
+import type { Employee, GeneralItem, GeneralItemCreate } from "@/lib/types";
 
 type DrawerMode = "create" | "edit" | "view";
 
@@ -84,16 +57,6 @@ type AllocateFormValues = {
   allocation_date?: Dayjs;
 };
 
-type GeneralTxRow = {
-  id: number;
-  item_code: string;
-  employee_id?: string | null;
-  action: string;
-  quantity?: number | null;
-  notes?: string | null;
-  created_at: string;
-};
-
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
     const m = (e as { message?: unknown }).message;
@@ -201,7 +164,7 @@ export default function GeneralInventoryPage() {
 
   const loadEmployees = useCallback(async () => {
     try {
-      const data = await api.get<{ employees: Employee[] }>("/api/employees/", { query: { limit: 500 } });
+      const data = await sdk.employees.list({ limit: 500 });
       setEmployees(Array.isArray(data?.employees) ? data.employees : []);
     } catch {
       setEmployees([]);
@@ -211,11 +174,11 @@ export default function GeneralInventoryPage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<GeneralItem[]>("/api/general-inventory/items");
+      const data = await sdk.generalInventory.items();
       setRows(Array.isArray(data) ? data : []);
 
       try {
-        const cats = await api.get<string[]>("/api/general-inventory/categories");
+        const cats = await sdk.generalInventory.categories();
         setCategories(Array.isArray(cats) ? cats : []);
       } catch {
         setCategories([]);
@@ -285,9 +248,7 @@ export default function GeneralInventoryPage() {
       // Warn if employee already received same item within last 6 months
       try {
         const cutoff = dayjs().subtract(6, "month");
-        const txs = await api.get<GeneralTxRow[]>("/api/general-inventory/transactions", {
-          query: { employee_id, limit: 500 },
-        });
+        const txs = await sdk.generalInventory.transactions({ employee_id, limit: 500 });
 
         const issues = (Array.isArray(txs) ? txs : []).filter((t) => String(t.action || "") === "ISSUE");
         const recent = issues.filter((t) => {
@@ -404,7 +365,7 @@ export default function GeneralInventoryPage() {
         const availableQty = Number(item.quantity_on_hand ?? 0);
         if (qty > availableQty) throw new Error(`Not available stock quantity for ${itemCode}`);
 
-        await api.post(`/api/general-inventory/items/${encodeURIComponent(itemCode)}/issue`, {
+        await sdk.generalInventory.issue(itemCode, {
           employee_id,
           quantity: qty,
           notes: v.notes?.trim() || undefined,
@@ -436,6 +397,7 @@ export default function GeneralInventoryPage() {
       description: null,
       quantity_on_hand: 0,
       min_quantity: null,
+      unit_cost: null,
       storage_location: null,
       status: "Active",
     });
@@ -459,6 +421,7 @@ export default function GeneralInventoryPage() {
         description: r.description ?? null,
         quantity_on_hand: r.quantity_on_hand,
         min_quantity: r.min_quantity ?? null,
+        unit_cost: r.unit_cost ?? null,
         storage_location: r.storage_location ?? null,
         status: r.status,
       });
@@ -484,6 +447,7 @@ export default function GeneralInventoryPage() {
         description: r.description ?? null,
         quantity_on_hand: r.quantity_on_hand,
         min_quantity: r.min_quantity ?? null,
+        unit_cost: r.unit_cost ?? null,
         storage_location: r.storage_location ?? null,
         status: r.status,
       });
@@ -525,16 +489,17 @@ export default function GeneralInventoryPage() {
 
       let saved: GeneralItem | null = null;
       if (drawerMode === "create") {
-        saved = await api.post<GeneralItem>("/api/general-inventory/items", values);
+        saved = await sdk.generalInventory.createItem(values);
         msg.success("Item created");
       } else {
         if (!active) return;
-        saved = await api.put<GeneralItem>(`/api/general-inventory/items/${encodeURIComponent(active.item_code)}`, {
+        saved = await sdk.generalInventory.updateItem(active.item_code, {
           category: (values as any).category,
           name: (values as any).name,
           description: (values as any).description,
           quantity_on_hand: (values as any).quantity_on_hand,
           min_quantity: (values as any).min_quantity,
+          unit_cost: (values as GeneralItemCreate).unit_cost,
           storage_location: (values as any).storage_location,
           status: (values as any).status,
         });
@@ -543,24 +508,7 @@ export default function GeneralInventoryPage() {
 
       const itemCode = saved?.item_code || active?.item_code;
       if (imageFile && itemCode) {
-        const fd = new FormData();
-        fd.append("file", imageFile);
-        const token = typeof window !== "undefined" ? window.localStorage.getItem("access_token") : null;
-
-        const res = await fetch(`${API_BASE_URL}/api/general-inventory/items/${encodeURIComponent(itemCode)}/image`, {
-          method: "POST",
-          headers: {
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: fd,
-        });
-
-        if (!res.ok) {
-          const t = await res.text();
-          throw new Error(t || `Image upload failed (${res.status})`);
-        }
-
-        const updated = (await res.json()) as GeneralItem;
+        const updated = await sdk.generalInventory.uploadImage(itemCode, imageFile);
         setActive(updated);
         const base = API_BASE_URL || "";
         const abs = updated.image_url ? (updated.image_url.startsWith("http") ? updated.image_url : `${base}${updated.image_url}`) : null;
@@ -578,7 +526,7 @@ export default function GeneralInventoryPage() {
   const onDelete = useCallback(
     async (r: GeneralItem) => {
       try {
-        await api.del<{ message: string }>(`/api/general-inventory/items/${encodeURIComponent(r.item_code)}`);
+        await sdk.generalInventory.removeItem(r.item_code);
         msg.success("Item deleted");
         await load();
       } catch (e: unknown) {
@@ -1023,6 +971,11 @@ export default function GeneralInventoryPage() {
                 <Input type="number" />
               </Form.Item>
             </Col>
+            <Col xs={24} md={8}>
+              <Form.Item name="unit_cost" label="Unit Cost (Rs)">
+                <Input type="number" />
+              </Form.Item>
+            </Col>
             <Col xs={24} md={8}>
               <Form.Item name="storage_location" label="Storage Location">
                 <Input placeholder="Office / Store" />
@@ -0,0 +1,757 @@
+"use client";
+
+import {
+  Alert,
+  AutoComplete,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Form,
+  Input,
+  InputNumber,
+  message,
+  Modal,
+  Popconfirm,
+  Row,
+  Segmented,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import {
+  CheckOutlined,
+  CloseOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  PlusOutlined,
+  ReloadOutlined,
+  SearchOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/lib/auth";
+import { buildLeaveBalances, leaveDays, type LeaveBalance } from "@/lib/leaveBalance";
+import { refreshLeaveInbox } from "@/lib/leaveInbox";
+import { sdk } from "@/lib/sdk";
+import type {
+  Employee2,
+  LeaveEncashment,
+  LeavePeriodOut,
+  LeavePolicy,
+  LeavePolicyCreate,
+  LeaveRequest,
+  LeaveRequestStatus,
+  LeaveType,
+} from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function days(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(1);
+}
+
+type BalanceRow = LeaveBalance & { employee: Employee2 };
+
+type RequestFilter = LeaveRequestStatus | "all";
+
+const REQUEST_STATUS_COLORS: Record<LeaveRequestStatus, string> = {
+  pending: "gold",
+  approved: "green",
+  rejected: "red",
+  cancelled: "default",
+};
+
+type NewRequestValues = {
+  employee_id: string;
+  range: [dayjs.Dayjs, dayjs.Dayjs];
+  leave_type: LeaveType;
+  reason?: string;
+};
+
+/** Paid requests beyond the balance can't be approved; unpaid ones and employees without a policy aren't checked. */
+function exceedsBalance(r: Pick<LeaveRequest, "from_date" | "to_date" | "leave_type">, bal?: LeaveBalance): boolean {
+  return r.leave_type === "paid" && !!bal?.policy && leaveDays(r.from_date, r.to_date) > bal.available;
+}
+
+const EMPTY_POLICY: LeavePolicyCreate = {
+  name: "",
+  category: null,
+  designation: null,
+  annual_days: 14,
+  accrual: "monthly",
+  carry_forward_max: 7,
+  encashment_max: 7,
+  active: true,
+};
+
+export default function LeavePage() {
+  const [msg, msgCtx] = message.useMessage();
+  const { has } = useAuth();
+  const canApprove = has("leave:approve");
+  const canRequest = has("leave:request") || has("attendance:manage");
+
+  const [loading, setLoading] = useState(false);
+  const [asOf, setAsOf] = useState(dayjs());
+  const [search, setSearch] = useState("");
+
+  const [employees, setEmployees] = useState<Employee2[]>([]);
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [periods, setPeriods] = useState<LeavePeriodOut[]>([]);
+  const [encashments, setEncashments] = useState<LeaveEncashment[]>([]);
+
+  const [editing, setEditing] = useState<LeavePolicy | "new" | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm<LeavePolicyCreate>();
+
+  const [requestFilter, setRequestFilter] = useState<RequestFilter>("pending");
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [requestsLoading, setRequestsLoading] = useState(false);
+  const [deciding, setDeciding] = useState<{ request: LeaveRequest; status: "approved" | "rejected" } | null>(null);
+  const [comment, setComment] = useState("");
+  const [newRequestOpen, setNewRequestOpen] = useState(false);
+  const [requestForm] = Form.useForm<NewRequestValues>();
+  const requestEmployee = Form.useWatch("employee_id", requestForm);
+  const requestRange = Form.useWatch("range", requestForm);
+  const requestType = Form.useWatch("leave_type", requestForm);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [emps, pols, pers, enc] = await Promise.all([
+        sdk.employees2.listAll(),
+        sdk.leavePolicies.list(),
+        sdk.leavePeriods.list(),
+        sdk.leavePolicies.encashments(),
+      ]);
+      setEmployees(emps);
+      setPolicies(Array.isArray(pols) ? pols : []);
+      setPeriods(Array.isArray(pers) ? pers : []);
+      setEncashments(Array.isArray(enc) ? enc : []);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load leave data"));
+    } finally {
+      setLoading(false);
+    }
+  }, [msg]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const loadRequests = useCallback(async () => {
+    setRequestsLoading(true);
+    try {
+      const res = await sdk.leaveRequests.list(requestFilter === "all" ? {} : { status: requestFilter });
+      setRequests(Array.isArray(res) ? res : []);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load leave requests"));
+    } finally {
+      setRequestsLoading(false);
+    }
+  }, [msg, requestFilter]);
+
+  useEffect(() => {
+    void loadRequests();
+  }, [loadRequests]);
+
+  const balances = useMemo(
+    () => buildLeaveBalances(employees, policies, periods, encashments, asOf.format("YYYY-MM-DD")),
+    [asOf, employees, encashments, periods, policies]
+  );
+
+  const employeeOptions = useMemo(
+    () =>
+      employees.map((e) => {
+        const id = String(e.fss_no || e.serial_no || e.id);
+        return { value: id, label: `${id} · ${e.name}` };
+      }),
+    [employees]
+  );
+
+  const decide = useCallback(async () => {
+    if (!deciding) return;
+    setSaving(true);
+    try {
+      await sdk.leaveRequests.decide(deciding.request.id, {
+        status: deciding.status,
+        comment: comment.trim() || null,
+      });
+      msg.success(deciding.status === "approved" ? "Leave approved and recorded" : "Leave request rejected");
+      setDeciding(null);
+      void refreshLeaveInbox();
+      await Promise.all([loadRequests(), load()]);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save decision"));
+    } finally {
+      setSaving(false);
+    }
+  }, [comment, deciding, load, loadRequests, msg]);
+
+  const cancelRequest = useCallback(
+    async (id: number) => {
+      try {
+        await sdk.leaveRequests.cancel(id);
+        msg.success("Leave request cancelled");
+        void refreshLeaveInbox();
+        await loadRequests();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to cancel leave request"));
+      }
+    },
+    [loadRequests, msg]
+  );
+
+  const openNewRequest = useCallback(() => {
+    requestForm.resetFields();
+    requestForm.setFieldsValue({ range: [dayjs(), dayjs()], leave_type: "paid" });
+    setNewRequestOpen(true);
+  }, [requestForm]);
+
+  const submitRequest = useCallback(async () => {
+    const v = await requestForm.validateFields();
+    setSaving(true);
+    try {
+      await sdk.leaveRequests.create({
+        employee_id: v.employee_id,
+        from_date: v.range[0].format("YYYY-MM-DD"),
+        to_date: v.range[1].format("YYYY-MM-DD"),
+        leave_type: v.leave_type,
+        reason: v.reason?.trim() || null,
+      });
+      msg.success("Leave request submitted for approval");
+      setNewRequestOpen(false);
+      void refreshLeaveInbox();
+      await loadRequests();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to submit leave request"));
+    } finally {
+      setSaving(false);
+    }
+  }, [loadRequests, msg, requestForm]);
+
+  const newRequestCheck = useMemo(() => {
+    if (!requestEmployee || !requestRange?.[0] || !requestRange?.[1]) return null;
+    const bal = balances.get(requestEmployee);
+    const r = {
+      from_date: requestRange[0].format("YYYY-MM-DD"),
+      to_date: requestRange[1].format("YYYY-MM-DD"),
+      leave_type: requestType ?? "paid",
+    };
+    return { bal, days: leaveDays(r.from_date, r.to_date), exceeds: exceedsBalance(r, bal) };
+  }, [balances, requestEmployee, requestRange, requestType]);
+
+  const balanceRows = useMemo<BalanceRow[]>(() => {
+    const q = search.trim().toLowerCase();
+    return employees
+      .filter((e) => !q || `${e.fss_no || ""} ${e.serial_no || ""} ${e.name} ${e.rank || ""}`.toLowerCase().includes(q))
+      .map((employee) => ({ ...balances.get(String(employee.fss_no || employee.serial_no || employee.id))!, employee }));
+  }, [balances, employees, search]);
+
+  const unassigned = useMemo(() => balanceRows.filter((r) => !r.policy).length, [balanceRows]);
+
+  const categoryOptions = useMemo(
+    () => [...new Set(employees.map((e) => e.category).filter(Boolean))].map((v) => ({ value: String(v) })),
+    [employees]
+  );
+  const designationOptions = useMemo(
+    () => [...new Set(employees.map((e) => e.rank).filter(Boolean))].map((v) => ({ value: String(v) })),
+    [employees]
+  );
+
+  const openPolicy = useCallback(
+    (p: LeavePolicy | "new") => {
+      form.resetFields();
+      form.setFieldsValue(p === "new" ? EMPTY_POLICY : p);
+      setEditing(p);
+    },
+    [form]
+  );
+
+  const savePolicy = useCallback(async () => {
+    const v = await form.validateFields();
+    const payload: LeavePolicyCreate = {
+      ...v,
+      category: v.category?.trim() || null,
+      designation: v.designation?.trim() || null,
+    };
+    setSaving(true);
+    try {
+      if (editing === "new") await sdk.leavePolicies.create(payload);
+      else if (editing) await sdk.leavePolicies.update(editing.id, payload);
+      msg.success("Leave policy saved");
+      setEditing(null);
+      await load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to save leave policy"));
+    } finally {
+      setSaving(false);
+    }
+  }, [editing, form, load, msg]);
+
+  const deletePolicy = useCallback(
+    async (id: number) => {
+      try {
+        await sdk.leavePolicies.remove(id);
+        msg.success("Leave policy deleted");
+        await load();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to delete leave policy"));
+      }
+    },
+    [load, msg]
+  );
+
+  const balanceColumns = useMemo<ColumnsType<BalanceRow>>(
+    () => [
+      { title: "FSS No.", key: "fss", width: 90, render: (_, r) => r.employee.fss_no || r.employee.serial_no || "-" },
+      { title: "Name", key: "name", ellipsis: true, render: (_, r) => r.employee.name },
+      { title: "Rank", key: "rank", width: 110, render: (_, r) => r.employee.rank || "-" },
+      { title: "Category", key: "category", width: 110, render: (_, r) => r.employee.category || "-" },
+      {
+        title: "Policy",
+        key: "policy",
+        width: 160,
+        render: (_, r) => (r.policy ? r.policy.name : <Tag color="orange">No policy</Tag>),
+      },
+      { title: "Carried", dataIndex: "opening", width: 80, align: "right", render: (v: number) => days(v) },
+      { title: "Accrued", dataIndex: "accrued", width: 80, align: "right", render: (v: number) => days(v) },
+      { title: "Taken", dataIndex: "taken", width: 70, align: "right", render: (v: number) => days(v) },
+      { title: "Encashed", dataIndex: "encashed", width: 85, align: "right", render: (v: number) => days(v) },
+      {
+        title: "Available",
+        dataIndex: "available",
+        width: 90,
+        align: "right",
+        sorter: (a, b) => a.available - b.available,
+        render: (v: number) => (
+          <Typography.Text strong type={v < 0 ? "danger" : undefined}>
+            {days(v)}
+          </Typography.Text>
+        ),
+      },
+      { title: "Encashable", dataIndex: "encashable", width: 95, align: "right", render: (v: number) => days(v) },
+    ],
+    []
+  );
+
+  const requestColumns = useMemo<ColumnsType<LeaveRequest>>(
+    () => [
+      {
+        title: "Employee",
+        key: "employee",
+        ellipsis: true,
+        render: (_, r) => `${r.employee_id}${r.employee_name ? ` · ${r.employee_name}` : ""}`,
+      },
+      {
+        title: "Dates",
+        key: "dates",
+        width: 210,
+        render: (_, r) => `${r.from_date} → ${r.to_date} (${leaveDays(r.from_date, r.to_date)}d)`,
+      },
+      {
+        title: "Type",
+        dataIndex: "leave_type",
+        key: "leave_type",
+        width: 80,
+        render: (v: LeaveType) => <Tag color={v === "paid" ? "blue" : "default"}>{v.toUpperCase()}</Tag>,
+      },
+      {
+        title: "Balance",
+        key: "balance",
+        width: 90,
+        align: "right",
+        render: (_, r) => {
+          const bal = balances.get(r.employee_id);
+          if (!bal?.policy) return "-";
+          return (
+            <Typography.Text type={r.status === "pending" && exceedsBalance(r, bal) ? "danger" : undefined}>
+              {days(bal.available)}
+            </Typography.Text>
+          );
+        },
+      },
+      { title: "Reason", dataIndex: "reason", key: "reason", ellipsis: true },
+      {
+        title: "Requested",
+        key: "requested",
+        width: 150,
+        render: (_, r) => (
+          <Space direction="vertical" size={0}>
+            <Typography.Text>{r.requested_by}</Typography.Text>
+            <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+              {dayjs(r.requested_at).format("YYYY-MM-DD HH:mm")}
+            </Typography.Text>
+          </Space>
+        ),
+      },
+      {
+        title: "Status",
+        key: "status",
+        width: 180,
+        render: (_, r) => (
+          <Space direction="vertical" size={0}>
+            <Tag color={REQUEST_STATUS_COLORS[r.status]}>{r.status.toUpperCase()}</Tag>
+            {r.decided_by ? (
+              <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                {r.decided_by}
+                {r.decision_comment ? `: ${r.decision_comment}` : ""}
+              </Typography.Text>
+            ) : null}
+          </Space>
+        ),
+      },
+      {
+        title: "",
+        key: "actions",
+        width: 120,
+        render: (_, r) =>
+          r.status !== "pending" ? null : (
+            <Space size={4}>
+              {canApprove ? (
+                <>
+                  <Button
+                    size="small"
+                    type="primary"
+                    icon={<CheckOutlined />}
+                    onClick={() => {
+                      setComment("");
+                      setDeciding({ request: r, status: "approved" });
+                    }}
+                  />
+                  <Button
+                    size="small"
+                    danger
+                    icon={<CloseOutlined />}
+                    onClick={() => {
+                      setComment("");
+                      setDeciding({ request: r, status: "rejected" });
+                    }}
+                  />
+                </>
+              ) : null}
+              {canRequest ? (
+                <Popconfirm title="Cancel this request?" onConfirm={() => void cancelRequest(r.id)}>
+                  <Button size="small">Cancel</Button>
+                </Popconfirm>
+              ) : null}
+            </Space>
+          ),
+      },
+    ],
+    [balances, canApprove, canRequest, cancelRequest]
+  );
+
+  const decisionBalance = deciding ? balances.get(deciding.request.employee_id) : undefined;
+  const decisionBlocked = deciding?.status === "approved" && exceedsBalance(deciding.request, decisionBalance);
+
+  const policyColumns = useMemo<ColumnsType<LeavePolicy>>(
+    () => [
+      { title: "Name", dataIndex: "name", key: "name" },
+      { title: "Category", dataIndex: "category", key: "category", render: (v?: string | null) => v || "Any" },
+      { title: "Designation", dataIndex: "designation", key: "designation", render: (v?: string | null) => v || "Any" },
+      { title: "Days / Year", dataIndex: "annual_days", key: "annual_days", width: 100, align: "right" },
+      {
+        title: "Accrual",
+        dataIndex: "accrual",
+        key: "accrual",
+        width: 100,
+        render: (v: LeavePolicy["accrual"]) => (v === "monthly" ? "Monthly" : "Start of year"),
+      },
+      { title: "Carry Fwd", dataIndex: "carry_forward_max", key: "carry_forward_max", width: 90, align: "right" },
+      { title: "Encash Max", dataIndex: "encashment_max", key: "encashment_max", width: 100, align: "right" },
+      {
+        title: "Status",
+        dataIndex: "active",
+        key: "active",
+        width: 90,
+        render: (v: boolean) => (v ? <Tag color="green">Active</Tag> : <Tag>Inactive</Tag>),
+      },
+      {
+        title: "",
+        key: "actions",
+        width: 90,
+        render: (_, p) => (
+          <Space size={4}>
+            <Button size="small" icon={<EditOutlined />} onClick={() => openPolicy(p)} />
+            <Popconfirm
+              title="Delete leave policy?"
+              okText="Delete"
+              okButtonProps={{ danger: true }}
+              onConfirm={() => void deletePolicy(p.id)}
+            >
+              <Button size="small" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          </Space>
+        ),
+      },
+    ],
+    [deletePolicy, openPolicy]
+  );
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" className="flash-card" styles={{ body: { padding: 12 } }}>
+        <Space direction="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <Typography.Title level={3} style={{ margin: 0 }}>
+                Leave
+              </Typography.Title>
+            </Col>
+            <Col>
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={() => {
+                  void load();
+                  void loadRequests();
+                }}
+              >
+                Refresh
+              </Button>
+            </Col>
+          </Row>
+
+          <Tabs
+            items={[
+              {
+                key: "requests",
+                label: "Requests",
+                children: (
+                  <Space direction="vertical" size={12} style={{ width: "100%" }}>
+                    <Space wrap>
+                      <Segmented<RequestFilter>
+                        value={requestFilter}
+                        onChange={setRequestFilter}
+                        options={[
+                          { label: "Pending", value: "pending" },
+                          { label: "Approved", value: "approved" },
+                          { label: "Rejected", value: "rejected" },
+                          { label: "All", value: "all" },
+                        ]}
+                      />
+                      {canRequest ? (
+                        <Button type="primary" icon={<PlusOutlined />} onClick={openNewRequest}>
+                          New Request
+                        </Button>
+                      ) : null}
+                    </Space>
+                    <Table<LeaveRequest>
+                      size="small"
+                      rowKey={(r) => r.id}
+                      loading={requestsLoading}
+                      columns={requestColumns}
+                      dataSource={requests}
+                      pagination={{ pageSize: 20 }}
+                    />
+                  </Space>
+                ),
+              },
+              {
+                key: "balances",
+                label: "Balances",
+                children: (
+                  <Space direction="vertical" size={12} style={{ width: "100%" }}>
+                    <Space wrap>
+                      <DatePicker value={asOf} allowClear={false} onChange={(d) => d && setAsOf(d)} />
+                      <Input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search employee"
+                        allowClear
+                        prefix={<SearchOutlined style={{ color: "rgba(0,0,0,0.35)" }} />}
+                        style={{ width: 280 }}
+                      />
+                      {unassigned ? (
+                        <Typography.Text type="warning">{unassigned} employee(s) match no leave policy</Typography.Text>
+                      ) : null}
+                    </Space>
+                    <Table<BalanceRow>
+                      size="small"
+                      rowKey={(r) => r.employee.id}
+                      loading={loading}
+                      columns={balanceColumns}
+                      dataSource={balanceRows}
+                      pagination={{ pageSize: 25 }}
+                    />
+                  </Space>
+                ),
+              },
+              {
+                key: "policies",
+                label: `Policies (${policies.length})`,
+                children: (
+                  <Space direction="vertical" size={12} style={{ width: "100%" }}>
+                    <Button type="primary" icon={<PlusOutlined />} onClick={() => openPolicy("new")}>
+                      New Policy
+                    </Button>
+                    <Table<LeavePolicy>
+                      size="small"
+                      rowKey={(p) => p.id}
+                      loading={loading}
+                      columns={policyColumns}
+                      dataSource={policies}
+                      pagination={false}
+                    />
+                    <Typography.Text type="secondary">
+                      The most specific active policy applies: category and designation, then designation, then
+                      category, then a policy with neither.
+                    </Typography.Text>
+                  </Space>
+                ),
+              },
+            ]}
+          />
+        </Space>
+      </Card>
+
+      <Modal
+        title={deciding?.status === "approved" ? "Approve Leave" : "Reject Leave"}
+        open={deciding !== null}
+        onCancel={() => setDeciding(null)}
+        onOk={() => void decide()}
+        okText={deciding?.status === "approved" ? "Approve" : "Reject"}
+        okButtonProps={{
+          danger: deciding?.status === "rejected",
+          disabled: decisionBlocked || (deciding?.status === "rejected" && !comment.trim()),
+        }}
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        {deciding ? (
+          <Space direction="vertical" size={12} style={{ width: "100%" }}>
+            <Typography.Text>
+              {deciding.request.employee_id}
+              {deciding.request.employee_name ? ` · ${deciding.request.employee_name}` : ""}:{" "}
+              {deciding.request.leave_type} leave {deciding.request.from_date} → {deciding.request.to_date} (
+              {leaveDays(deciding.request.from_date, deciding.request.to_date)} days)
+            </Typography.Text>
+            {deciding.request.leave_type === "paid" && decisionBalance?.policy ? (
+              <Alert
+                type={decisionBlocked ? "error" : "info"}
+                showIcon
+                message={`${days(decisionBalance.available)} paid day(s) available under ${decisionBalance.policy.name}`}
+                description={decisionBlocked ? "Ask the supervisor to resubmit within the balance or as unpaid." : undefined}
+              />
+            ) : null}
+            <Input.TextArea
+              rows={3}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={deciding.status === "rejected" ? "Reason for rejection (required)" : "Comment (optional)"}
+            />
+          </Space>
+        ) : null}
+      </Modal>
+
+      <Modal
+        title="New Leave Request"
+        open={newRequestOpen}
+        onCancel={() => setNewRequestOpen(false)}
+        onOk={() => void submitRequest()}
+        okText="Submit"
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        <Form layout="vertical" form={requestForm}>
+          <Form.Item label="Employee" name="employee_id" rules={[{ required: true, message: "Employee is required" }]}>
+            <Select showSearch optionFilterProp="label" options={employeeOptions} placeholder="Select employee" />
+          </Form.Item>
+          <Form.Item label="Leave Dates" name="range" rules={[{ required: true, message: "Dates are required" }]}>
+            <DatePicker.RangePicker style={{ width: "100%" }} />
+          </Form.Item>
+          <Form.Item label="Leave Type" name="leave_type">
+            <Select
+              options={[
+                { label: "Paid", value: "paid" },
+                { label: "Unpaid", value: "unpaid" },
+              ]}
+            />
+          </Form.Item>
+          <Form.Item label="Reason" name="reason">
+            <Input.TextArea rows={2} />
+          </Form.Item>
+          {newRequestCheck?.bal?.policy && requestType === "paid" ? (
+            <Alert
+              type={newRequestCheck.exceeds ? "warning" : "info"}
+              showIcon
+              message={`${newRequestCheck.days} day(s) requested, ${days(newRequestCheck.bal.available)} paid day(s) available`}
+            />
+          ) : null}
+        </Form>
+      </Modal>
+
+      <Modal
+        title={editing === "new" ? "New Leave Policy" : "Edit Leave Policy"}
+        open={editing !== null}
+        onCancel={() => setEditing(null)}
+        onOk={() => void savePolicy()}
+        okText="Save"
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        <Form layout="vertical" form={form}>
+          <Form.Item label="Name" name="name" rules={[{ required: true, message: "Name is required" }]}>
+            <Input />
+          </Form.Item>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item label="Category" name="category">
+                <AutoComplete options={categoryOptions} placeholder="Any" allowClear />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item label="Designation" name="designation">
+                <AutoComplete options={designationOptions} placeholder="Any" allowClear />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item label="Paid Days per Year" name="annual_days" rules={[{ required: true }]}>
+                <InputNumber min={0} max={365} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item label="Accrual" name="accrual">
+                <Select
+                  options={[
+                    { label: "Monthly", value: "monthly" },
+                    { label: "Start of year", value: "annual" },
+                  ]}
+                />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item label="Carry Forward Max" name="carry_forward_max" rules={[{ required: true }]}>
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item label="Encashment Max / Year" name="encashment_max" rules={[{ required: true }]}>
+                <InputNumber min={0} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item label="Active" name="active" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </>
+  );
+}
@@ -22,9 +22,9 @@ import {
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
+import { sdk } from "@/lib/sdk";
 import { formatRs, formatRsCompact } from "@/lib/money";
+import { recalcPayrollRow } from "@/lib/payrollEngine";
 import type {
   PayrollPaidStatus,
   PayrollReportResponse,
@@ -126,9 +126,20 @@ export default function PayrollPage() {
     };
   }, [rows]);
 
+  const updateRow = useCallback((employee_db_id: number, patch: Partial<PayrollUiRow>) => {
+    setRows((prev) =>
+      prev.map((x) => {
+        if (x.employee_db_id !== employee_db_id) return x;
+        const next = recalcPayrollRow({ ...x, ...patch });
+        return { ...next, gross_calc: next.gross_pay, net_calc: next.net_pay };
+      })
+    );
+  }, []);
+
   const buildUiRows = useCallback(
     (rep: PayrollReportResponse): PayrollUiRow[] => {
-      return (rep.rows ?? []).map((r) => {
+      return (rep.rows ?? []).map((raw) => {
+        const r = recalcPayrollRow(raw);
         const gross = Number(r.gross_pay ?? 0);
         const net = Number(r.net_pay ?? 0);
 
@@ -151,12 +162,10 @@ export default function PayrollPage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const rep = await api.get<PayrollReportResponse>("/api/payroll/range-report", {
-        query: {
-          from_date: fromDate.format("YYYY-MM-DD"),
-          to_date: toDate.format("YYYY-MM-DD"),
-          month: monthLabel,
-        },
+      const rep = await sdk.payroll.rangeReport({
+        from_date: fromDate.format("YYYY-MM-DD"),
+        to_date: toDate.format("YYYY-MM-DD"),
+        month: monthLabel,
       });
 
       const ui = buildUiRows(rep).sort((a, b) => {
@@ -208,7 +217,7 @@ export default function PayrollPage() {
           bank_cash: (r.bank_cash ?? null) as any,
         })),
       };
-      await api.put("/api/payroll/sheet-entries", payload);
+      await sdk.payroll.saveSheetEntries(payload);
       msg.success("Saved");
       void load();
     } catch (e: unknown) {
@@ -220,13 +229,11 @@ export default function PayrollPage() {
 
   const exportPdf = useCallback(async () => {
     try {
-      const url = `${API_BASE_URL}/api/payroll/export/pdf?month=${encodeURIComponent(monthLabel)}&from_date=${encodeURIComponent(
-        fromDate.format("YYYY-MM-DD")
-      )}&to_date=${encodeURIComponent(toDate.format("YYYY-MM-DD"))}`;
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`PDF export failed (${res.status})`);
-      const blob = await res.blob();
-      downloadBlob(blob, `payroll_${monthLabel}.pdf`);
+      await sdk.payroll.exportPdf({
+        month: monthLabel,
+        from_date: fromDate.format("YYYY-MM-DD"),
+        to_date: toDate.format("YYYY-MM-DD"),
+      });
     } catch (e: unknown) {
       msg.error(errorMessage(e, "PDF export failed"));
     }
@@ -351,13 +358,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number(r.pre_days ?? 0)}
               style={{ width: 50 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) =>
-                    x.employee_db_id === r.employee_db_id ? { ...x, pre_days: Number(v ?? 0) } : x
-                  )
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { pre_days: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -381,13 +382,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number(r.cur_days ?? 0)}
               style={{ width: 50 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) =>
-                    x.employee_db_id === r.employee_db_id ? { ...x, cur_days: Number(v ?? 0) } : x
-                  )
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { cur_days: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -411,13 +406,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number(r.leave_encashment_days ?? 0)}
               style={{ width: 70 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) =>
-                    x.employee_db_id === r.employee_db_id ? { ...x, leave_encashment_days: Number(v ?? 0) } : x
-                  )
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { leave_encashment_days: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -495,13 +484,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number(r.allow_other ?? 0)}
               style={{ width: 70 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) =>
-                    x.employee_db_id === r.employee_db_id ? { ...x, allow_other: Number(v ?? 0) } : x
-                  )
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { allow_other: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -546,11 +529,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number(r.eobi ?? 0)}
               style={{ width: 70 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) => (x.employee_db_id === r.employee_db_id ? { ...x, eobi: Number(v ?? 0) } : x))
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { eobi: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -568,11 +547,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number(r.tax ?? 0)}
               style={{ width: 70 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) => (x.employee_db_id === r.employee_db_id ? { ...x, tax: Number(v ?? 0) } : x))
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { tax: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -611,13 +586,7 @@ export default function PayrollPage() {
               controls={false}
               value={Number((r as any).fine_adv_extra ?? 0)}
               style={{ width: 70 }}
-              onChange={(v) =>
-                setRows((prev) =>
-                  prev.map((x) =>
-                    x.employee_db_id === r.employee_db_id ? ({ ...x, fine_adv_extra: Number(v ?? 0) } as any) : x
-                  )
-                )
-              }
+              onChange={(v) => updateRow(r.employee_db_id, { fine_adv_extra: Number(v ?? 0) })}
             />
           </div>
         ),
@@ -652,11 +621,7 @@ export default function PayrollPage() {
             size="small"
             value={r.remarks ?? ""}
             style={{ fontSize: 11 }}
-            onChange={(e) =>
-              setRows((prev) =>
-                prev.map((x) => (x.employee_db_id === r.employee_db_id ? { ...x, remarks: e.target.value } : x))
-              )
-            }
+            onChange={(e) => updateRow(r.employee_db_id, { remarks: e.target.value })}
           />
         ),
       },
@@ -676,16 +641,12 @@ export default function PayrollPage() {
             value={r.bank_cash ?? ""}
             placeholder={[r.bank_name, r.account_number].filter(Boolean).join(" - ")}
             style={{ fontSize: 11 }}
-            onChange={(e) =>
-              setRows((prev) =>
-                prev.map((x) => (x.employee_db_id === r.employee_db_id ? { ...x, bank_cash: e.target.value } : x))
-              )
-            }
+            onChange={(e) => updateRow(r.employee_db_id, { bank_cash: e.target.value })}
           />
         ),
       },
     ];
-  }, [compactMoney, toMoney]);
+  }, [compactMoney, toMoney, updateRow]);
 
   return (
     <>
@@ -0,0 +1,547 @@
+"use client";
+
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Input,
+  message,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tabs,
+  Tag,
+  Tooltip,
+  Typography,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { BankOutlined, DownloadOutlined, FilePdfOutlined, ReloadOutlined, WalletOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { ApiError } from "@/lib/api";
+import {
+  attendanceCode,
+  disbursementMethod,
+  employee2Accounts,
+  loadBankTemplates,
+  payeeLookup,
+  renderTransferFile,
+  resetBankTemplates,
+  saveBankTemplates,
+  templateForBank,
+  transferLineErrors,
+  validateAccount,
+  type AccountCheck,
+  type AccountOption,
+  type BankTemplate,
+  type DisbursementMethod,
+  type TransferLine,
+} from "@/lib/disbursement";
+import { RUN_STATUS_COLORS, RUN_STATUS_LABELS } from "@/lib/payrollRun";
+import { loadPayslipLogo } from "@/lib/payslip";
+import { sdk } from "@/lib/sdk";
+import type { Employee2, Payroll2Row, PayrollEmployeeRow, PayrollRun } from "@/lib/types";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function money(n: number): string {
+  return `Rs ${n.toLocaleString("en-PK", { maximumFractionDigits: 0 })}`;
+}
+
+function transferLine(row: Payroll2Row, bank_name: string, account: string, cnic?: string | null): TransferLine {
+  return { employee_id: row.fss_no || row.employee_id, name: row.name, bank_name, account, amount: row.net_pay, cnic };
+}
+
+type DisbursementLine = {
+  row: Payroll2Row;
+  method: DisbursementMethod;
+  options: AccountOption[];
+  bank_name: string;
+  account: string;
+  check: AccountCheck;
+  cnic?: string | null;
+  template: BankTemplate;
+};
+
+export default function DisbursementPage() {
+  const [msg, msgCtx] = message.useMessage();
+
+  const defaultRange = useMemo(() => {
+    const today = dayjs();
+    if (today.date() >= 26) {
+      const from = today.date(26);
+      return [from, from.add(1, "month").date(25)] as const;
+    }
+    const to = today.date(25);
+    return [to.subtract(1, "month").date(26), to] as const;
+  }, []);
+
+  const [fromDate, setFromDate] = useState(defaultRange[0]);
+  const [toDate, setToDate] = useState(defaultRange[1]);
+  const monthLabel = useMemo(() => toDate.format("YYYY-MM"), [toDate]);
+
+  const [loading, setLoading] = useState(false);
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  // Payroll report rows are v1 employees, so they are matched on attendance code rather than id
+  const [bankRows, setBankRows] = useState<Map<string, PayrollEmployeeRow>>(new Map());
+  const [employees, setEmployees] = useState<Employee2[]>([]);
+
+  // Per-employee choices made on this page (method and which account to pay into)
+  const [methodOverride, setMethodOverride] = useState<Record<number, DisbursementMethod>>({});
+  const [accountOverride, setAccountOverride] = useState<Record<number, string>>({});
+
+  const [templates, setTemplates] = useState<BankTemplate[]>(() => loadBankTemplates());
+  const [templatesText, setTemplatesText] = useState(() => JSON.stringify(loadBankTemplates(), null, 2));
+  const [valueDate, setValueDate] = useState(dayjs());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const from = fromDate.format("YYYY-MM-DD");
+    const to = toDate.format("YYYY-MM-DD");
+    try {
+      const current = await sdk.payrollRuns.forPeriod(from, to).catch((e: unknown) => {
+        if (e instanceof ApiError && e.status === 404) return null;
+        throw e;
+      });
+      setRun(current);
+
+      const [report, emps] = await Promise.all([
+        sdk.payroll.rangeReport({ month: monthLabel, from_date: from, to_date: to }),
+        sdk.employees2.listAll(),
+      ]);
+      setBankRows(new Map((report.rows ?? []).filter((r) => attendanceCode(r)).map((r) => [attendanceCode(r), r])));
+      setEmployees(emps);
+      setMethodOverride({});
+      setAccountOverride({});
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load payroll"));
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, monthLabel, msg, toDate]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const locked = run?.status === "locked" || run?.status === "paid";
+  const transferOpts = useMemo(
+    () => ({ reference: `SAL ${monthLabel}`, valueDate: valueDate.format("YYYY-MM-DD") }),
+    [monthLabel, valueDate]
+  );
+
+  const payeeOf = useMemo(() => payeeLookup(employees), [employees]);
+
+  const lines = useMemo<DisbursementLine[]>(() => {
+    if (!locked) return [];
+    return (run?.snapshot_rows ?? [])
+      .filter((row) => row.net_pay > 0)
+      .map((row) => {
+        const report = attendanceCode(row) ? bankRows.get(attendanceCode(row)) : undefined;
+        const emp = payeeOf(row);
+        const options: AccountOption[] = [];
+        const push = (bank?: string | null, account?: string | null) => {
+          if (!account) return;
+          if (options.some((o) => o.account === account)) return;
+          options.push({ bank_name: String(bank ?? ""), account: String(account) });
+        };
+        push(report?.bank_name, report?.account_number);
+        for (const a of employee2Accounts(emp)) push(a.bank_name, a.account);
+
+        const chosen =
+          options.find((o) => o.account === accountOverride[row.employee_db_id]) ??
+          options.find((o) => validateAccount(o.account).ok) ??
+          options[0];
+        let check = validateAccount(chosen?.account);
+        const method = methodOverride[row.employee_db_id] ?? disbursementMethod(row.bank_cash, check.ok);
+        const bank_name = chosen?.bank_name || (row.bank_cash && !/cash/i.test(row.bank_cash) ? row.bank_cash : "");
+        const template = templateForBank(bank_name, templates);
+        if (check.ok) {
+          const tooLong = transferLineErrors(template, transferLine(row, bank_name, check.normalized, emp?.cnic), transferOpts);
+          if (tooLong.length) check = { ...check, ok: false, error: tooLong.join(", ") };
+        }
+        return {
+          row,
+          method,
+          options,
+          bank_name,
+          account: check.normalized,
+          check,
+          cnic: emp?.cnic,
+          template,
+        };
+      });
+  }, [accountOverride, bankRows, locked, methodOverride, payeeOf, run?.snapshot_rows, templates, transferOpts]);
+
+  const bankLines = useMemo(() => lines.filter((l) => l.method === "bank"), [lines]);
+  const cashLines = useMemo(() => lines.filter((l) => l.method === "cash"), [lines]);
+  const invalid = useMemo(() => bankLines.filter((l) => !l.check.ok), [bankLines]);
+
+  const groups = useMemo(() => {
+    const byTemplate = new Map<string, { template: BankTemplate; lines: DisbursementLine[] }>();
+    for (const l of bankLines) {
+      if (!l.check.ok) continue;
+      const g = byTemplate.get(l.template.id) ?? { template: l.template, lines: [] };
+      g.lines.push(l);
+      byTemplate.set(l.template.id, g);
+    }
+    return [...byTemplate.values()];
+  }, [bankLines]);
+
+  const total = (ls: DisbursementLine[]) => ls.reduce((a, l) => a + l.row.net_pay, 0);
+
+  const downloadTransferFile = useCallback(
+    (template: BankTemplate, ls: DisbursementLine[]) => {
+      try {
+        const content = renderTransferFile(
+          template,
+          ls.map((l) => transferLine(l.row, l.bank_name, l.account, l.cnic)),
+          transferOpts
+        );
+        const ext = template.format === "fixed" ? "txt" : "csv";
+        downloadBlob(new Blob([content], { type: "text/plain;charset=utf-8" }), `salary_${template.id}_${monthLabel}.${ext}`);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to build the transfer file"));
+      }
+    },
+    [monthLabel, msg, transferOpts]
+  );
+
+  const downloadCashSheet = useCallback(async () => {
+    const logo = await loadPayslipLogo();
+    const doc = new jsPDF({ orientation: "portrait", unit: "pt", format: "a4" });
+    const pageW = doc.internal.pageSize.getWidth();
+    const pageH = doc.internal.pageSize.getHeight();
+    const marginX = 40;
+
+    autoTable(doc, {
+      head: [["#", "FSS No.", "Name", "Net Pay", "Signature / Thumb"]],
+      body: cashLines.map((l, i) => [String(i + 1), l.row.fss_no || l.row.employee_id, l.row.name, money(l.row.net_pay), ""]),
+      foot: [["", "", "Total", money(total(cashLines)), ""]],
+      startY: 110,
+      margin: { left: marginX, right: marginX, top: 110 },
+      styles: { font: "helvetica", fontSize: 9.5, cellPadding: 6, minCellHeight: 28, valign: "middle" },
+      headStyles: { fillColor: [22, 119, 255], textColor: 255, fontStyle: "bold" },
+      footStyles: { fillColor: [241, 245, 249], textColor: 0, fontStyle: "bold" },
+      columnStyles: { 0: { cellWidth: 28 }, 1: { cellWidth: 70 }, 3: { cellWidth: 80, halign: "right" }, 4: { cellWidth: 150 } },
+      didDrawPage: (data) => {
+        if (logo) {
+          try {
+            doc.addImage(logo, "PNG", marginX, 32, 44, 44);
+          } catch {
+            // ignore
+          }
+        }
+        const titleX = marginX + (logo ? 56 : 0);
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(16);
+        doc.text("Cash Salary Disbursement", titleX, 50);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(10);
+        doc.setTextColor(90);
+        doc.text(`Period: ${fromDate.format("YYYY-MM-DD")} to ${toDate.format("YYYY-MM-DD")}`, titleX, 66);
+        doc.text(`Page ${data.pageNumber}`, pageW - marginX, 50, { align: "right" });
+        doc.setTextColor(120);
+        doc.setFontSize(9);
+        doc.text("Flash ERP", marginX, pageH - 24);
+        doc.text("Confidential", pageW - marginX, pageH - 24, { align: "right" });
+        doc.setTextColor(0);
+      },
+    });
+
+    const finalY = (doc as unknown as { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? 120;
+    let y = finalY + 60;
+    if (y > pageH - 80) {
+      doc.addPage();
+      y = 120;
+    }
+    doc.setDrawColor(150);
+    for (const [i, label] of ["Prepared by", "Cashier", "Approved by"].entries()) {
+      const x = marginX + i * ((pageW - marginX * 2) / 3);
+      doc.line(x, y, x + 140, y);
+      doc.setFontSize(9);
+      doc.text(label, x, y + 12);
+    }
+
+    downloadBlob(doc.output("blob"), `cash_disbursement_${monthLabel}.pdf`);
+  }, [cashLines, fromDate, monthLabel, toDate]);
+
+  const saveTemplates = useCallback(() => {
+    try {
+      const parsed = JSON.parse(templatesText) as BankTemplate[];
+      if (!Array.isArray(parsed) || parsed.some((t) => !t.id || !t.fields?.length)) {
+        throw new Error("Each template needs an id and at least one field");
+      }
+      saveBankTemplates(parsed);
+      setTemplates(parsed);
+      msg.success("Templates saved");
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Invalid template JSON"));
+    }
+  }, [msg, templatesText]);
+
+  const columns = useMemo<ColumnsType<DisbursementLine>>(
+    () => [
+      { title: "FSS No.", key: "fss", width: 90, render: (_, l) => l.row.fss_no || l.row.employee_id },
+      { title: "Name", key: "name", ellipsis: true, render: (_, l) => l.row.name },
+      {
+        title: "Net Pay",
+        key: "net",
+        width: 120,
+        align: "right",
+        render: (_, l) => <Typography.Text strong>{money(l.row.net_pay)}</Typography.Text>,
+      },
+      {
+        title: "Method",
+        key: "method",
+        width: 110,
+        render: (_, l) => (
+          <Select<DisbursementMethod>
+            size="small"
+            value={l.method}
+            style={{ width: 90 }}
+            onChange={(v) => setMethodOverride((p) => ({ ...p, [l.row.employee_db_id]: v }))}
+            options={[
+              { label: "Bank", value: "bank" },
+              { label: "Cash", value: "cash" },
+            ]}
+          />
+        ),
+      },
+      {
+        title: "Account",
+        key: "account",
+        width: 300,
+        render: (_, l) =>
+          l.method === "cash" ? (
+            <Typography.Text type="secondary">-</Typography.Text>
+          ) : l.options.length > 1 ? (
+            <Select
+              size="small"
+              value={l.options.find((o) => validateAccount(o.account).normalized === l.account)?.account}
+              style={{ width: 280 }}
+              onChange={(v) => setAccountOverride((p) => ({ ...p, [l.row.employee_db_id]: v }))}
+              options={l.options.map((o) => ({ label: `${o.bank_name || "Bank"} · ${o.account}`, value: o.account }))}
+            />
+          ) : (
+            <Typography.Text>
+              {l.bank_name ? `${l.bank_name} · ` : ""}
+              {l.account || "-"}
+            </Typography.Text>
+          ),
+      },
+      {
+        title: "Check",
+        key: "check",
+        width: 220,
+        render: (_, l) =>
+          l.method === "cash" ? null : l.check.ok ? (
+            <Space size={4}>
+              <Tag color="green">{l.check.kind === "iban" ? "IBAN" : "Account"} OK</Tag>
+              <Tag>{l.template.name}</Tag>
+            </Space>
+          ) : (
+            <Tag color="red">{l.check.error}</Tag>
+          ),
+      },
+    ],
+    []
+  );
+
+  return (
+    <>
+      {msgCtx}
+      <Card variant="borderless" className="flash-card" styles={{ body: { padding: 12 } }}>
+        <Space direction="vertical" size={16} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="middle">
+            <Col flex="auto">
+              <Space size={10} wrap>
+                <Typography.Title level={3} style={{ margin: 0 }}>
+                  Salary Disbursement
+                </Typography.Title>
+                {run ? <Tag color={RUN_STATUS_COLORS[run.status]}>{RUN_STATUS_LABELS[run.status]}</Tag> : null}
+              </Space>
+            </Col>
+            <Col>
+              <Space wrap>
+                <DatePicker.RangePicker
+                  value={[fromDate, toDate]}
+                  allowClear={false}
+                  onChange={(r) => {
+                    const a = r?.[0] ?? defaultRange[0];
+                    setFromDate(a);
+                    setToDate(r?.[1] ?? a);
+                  }}
+                />
+                <Tooltip title="Value date written into bank files">
+                  <DatePicker value={valueDate} allowClear={false} onChange={(d) => d && setValueDate(d)} />
+                </Tooltip>
+                <Button icon={<ReloadOutlined />} onClick={() => void load()}>
+                  Refresh
+                </Button>
+              </Space>
+            </Col>
+          </Row>
+
+          {!loading && !locked ? (
+            <Alert
+              type="warning"
+              showIcon
+              message="Payroll for this period is not locked"
+              description={
+                <span>
+                  Disbursement files are generated only from a locked payroll snapshot so amounts cannot change after
+                  they are sent to the bank. Lock the run on the <Link href="/payroll2">Salaries</Link> page first.
+                </span>
+              }
+            />
+          ) : null}
+
+          <Row gutter={[12, 12]}>
+            <Col xs={12} md={6}>
+              <Card size="small" className="flash-card">
+                <Statistic title="Bank transfers" value={bankLines.length} prefix={<BankOutlined />} />
+              </Card>
+            </Col>
+            <Col xs={12} md={6}>
+              <Card size="small" className="flash-card">
+                <Statistic title="Bank total" value={total(bankLines)} precision={0} prefix="Rs" />
+              </Card>
+            </Col>
+            <Col xs={12} md={6}>
+              <Card size="small" className="flash-card">
+                <Statistic title="Cash payments" value={cashLines.length} prefix={<WalletOutlined />} />
+              </Card>
+            </Col>
+            <Col xs={12} md={6}>
+              <Card size="small" className="flash-card">
+                <Statistic title="Cash total" value={total(cashLines)} precision={0} prefix="Rs" />
+              </Card>
+            </Col>
+          </Row>
+
+          <Tabs
+            items={[
+              {
+                key: "bank",
+                label: `Bank (${bankLines.length})`,
+                children: (
+                  <Space direction="vertical" size={12} style={{ width: "100%" }}>
+                    {invalid.length ? (
+                      <Alert
+                        type="error"
+                        showIcon
+                        message={`${invalid.length} bank payment(s) have invalid accounts or details too long for the bank file and are left out of the files`}
+                      />
+                    ) : null}
+                    <Space wrap>
+                      {groups.map((g) => (
+                        <Button
+                          key={g.template.id}
+                          icon={<DownloadOutlined />}
+                          onClick={() => downloadTransferFile(g.template, g.lines)}
+                        >
+                          {g.template.name} · {g.lines.length} · {money(total(g.lines))}
+                        </Button>
+                      ))}
+                    </Space>
+                    <Table<DisbursementLine>
+                      size="small"
+                      rowKey={(l) => l.row.employee_db_id}
+                      loading={loading}
+                      columns={columns}
+                      dataSource={bankLines}
+                      pagination={{ pageSize: 20 }}
+                    />
+                  </Space>
+                ),
+              },
+              {
+                key: "cash",
+                label: `Cash (${cashLines.length})`,
+                children: (
+                  <Space direction="vertical" size={12} style={{ width: "100%" }}>
+                    <Button
+                      icon={<FilePdfOutlined />}
+                      disabled={!cashLines.length}
+                      onClick={() => void downloadCashSheet()}
+                    >
+                      Cash disbursement sheet
+                    </Button>
+                    <Table<DisbursementLine>
+                      size="small"
+                      rowKey={(l) => l.row.employee_db_id}
+                      loading={loading}
+                      columns={columns.filter((c) => c.key !== "account" && c.key !== "check")}
+                      dataSource={cashLines}
+                      pagination={{ pageSize: 20 }}
+                    />
+                  </Space>
+                ),
+              },
+              {
+                key: "templates",
+                label: "Bank templates",
+                children: (
+                  <Space direction="vertical" size={12} style={{ width: "100%" }}>
+                    <Typography.Text type="secondary">
+                      One entry per bank format. `bankPattern` is matched against the employee&apos;s bank name;
+                      `format` is `csv` or `fixed` (fixed-width fields use `width`, `align` and `padChar`). Field keys:
+                      account, name, amount, amount_paisa, bank_name, employee_id, cnic, reference, value_date, serial.
+                    </Typography.Text>
+                    <Input.TextArea
+                      rows={18}
+                      value={templatesText}
+                      onChange={(e) => setTemplatesText(e.target.value)}
+                      style={{ fontFamily: "monospace", fontSize: 12 }}
+                    />
+                    <Space>
+                      <Button type="primary" onClick={saveTemplates}>
+                        Save templates
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          resetBankTemplates();
+                          const defaults = loadBankTemplates();
+                          setTemplates(defaults);
+                          setTemplatesText(JSON.stringify(defaults, null, 2));
+                        }}
+                      >
+                        Restore defaults
+                      </Button>
+                    </Space>
+                  </Space>
+                ),
+              },
+            ]}
+          />
+        </Space>
+      </Card>
+    </>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import {
+  Alert,
   Button,
   Card,
   Col,
@@ -9,9 +10,11 @@ import {
   Input,
   InputNumber,
   message,
+  Modal,
   Row,
   Space,
   Statistic,
+  Steps,
   Table,
   Tag,
   Tooltip,
@@ -19,82 +22,49 @@ import {
 } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import {
+  DollarOutlined,
   DownloadOutlined,
   ReloadOutlined,
   SearchOutlined,
   SaveOutlined,
   FilePdfOutlined,
   FileExcelOutlined,
+  FileZipOutlined,
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
-
-type Payroll2Row = {
-  employee_db_id: number;
-  employee_id: string;
-  name: string;
-  serial_no?: string;
-  fss_no?: string;
-  eobi_no?: string;
-  base_salary: number;
-  working_days: number;
-  day_rate: number;
-  // Attendance counts
-  presents_total: number;
-  present_dates_prev: string[];
-  present_dates_cur: string[];
-  present_days: number;
-  late_days: number;
-  absent_days: number;
-  paid_leave_days: number;
-  unpaid_leave_days: number;
-  // Editable fields
-  pre_days: number;
-  cur_days: number;
-  leave_encashment_days: number;
-  // Calculated
-  total_days: number;
-  total_salary: number;
-  // OT
-  overtime_minutes: number;
-  overtime_rate: number;
-  overtime_pay: number;
-  // Late
-  late_minutes: number;
-  late_deduction: number;
-  // Other
-  allow_other: number;
-  gross_pay: number;
-  // Deductions
-  eobi: number;
-  tax: number;
-  fine_deduction: number;
-  fine_adv_extra: number;
-  fine_adv: number;
-  advance_deduction: number;
-  // Net
-  net_pay: number;
-  // Other
-  remarks?: string | null;
-  bank_cash?: string | null;
-};
-
-type Payroll2Response = {
-  month: string;
-  summary: {
-    month: string;
-    from_date: string;
-    to_date: string;
-    working_days: number;
-    employees: number;
-    total_gross: number;
-    total_net: number;
-    total_presents: number;
-  };
-  rows: Payroll2Row[];
-};
+import { proposeRecovery, type RecoveryProposal } from "@/lib/advanceRecovery";
+import { ApiError } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { loadLeaveBalances, type LeaveBalance } from "@/lib/leaveBalance";
+import { recalcPayroll2Row } from "@/lib/payrollEngine";
+import {
+  buildPayslip,
+  buildPayslipPack,
+  buildPayslipZip,
+  loadAdvanceSummaries,
+  loadPayslipLogo,
+  payslipFilename,
+  type PayslipContext,
+} from "@/lib/payslip";
+import {
+  diffPayrollRows,
+  isRunEditable,
+  RUN_STATUS_COLORS,
+  RUN_STATUS_LABELS,
+  RUN_STATUSES,
+  transitionsFrom,
+  type RunTransition,
+} from "@/lib/payrollRun";
+import { postPayrollLock, reversePayrollLock, tryPosting } from "@/lib/posting";
+import { sdk } from "@/lib/sdk";
+import type {
+  Payroll2Response,
+  Payroll2Row,
+  PayrollRun,
+  PayrollRunDiff,
+  PayrollSheetEntryBulkUpsert,
+} from "@/lib/types";
 
 function errorMessage(e: unknown, fallback: string): string {
   if (e && typeof e === "object" && "message" in e) {
@@ -104,6 +74,15 @@ function errorMessage(e: unknown, fallback: string): string {
   return fallback;
 }
 
+function sortRows(rows: Payroll2Row[]): Payroll2Row[] {
+  return [...rows].sort((a, b) => {
+    const aNum = parseInt(a.serial_no || "0", 10);
+    const bNum = parseInt(b.serial_no || "0", 10);
+    if (!isNaN(aNum) && !isNaN(bNum)) return aNum - bNum;
+    return a.employee_id.localeCompare(b.employee_id);
+  });
+}
+
 function compactMoney(n: number): string {
   if (n === 0) return "Rs 0";
   return `Rs ${n.toLocaleString("en-PK", { maximumFractionDigits: 0 })}`;
@@ -129,6 +108,7 @@ function csvEscape(v: unknown): string {
 
 export default function Payroll2Page() {
   const [msg, msgCtx] = message.useMessage();
+  const { has } = useAuth();
 
   const defaultRange = useMemo(() => {
     const today = dayjs();
@@ -151,6 +131,23 @@ export default function Payroll2Page() {
   const [search, setSearch] = useState("");
   const [summaryData, setSummaryData] = useState<Payroll2Response["summary"] | null>(null);
 
+  // Run for the selected period. Once approved, `rows` shows its frozen snapshot and
+  // `liveRows` keeps the current recalculation for the reopen diff.
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  const [liveRows, setLiveRows] = useState<Payroll2Row[]>([]);
+  const [pending, setPending] = useState<RunTransition | null>(null);
+  const [reason, setReason] = useState("");
+  const [acting, setActing] = useState(false);
+
+  // Advance recovery proposals for the period, reviewed before they are written as deductions
+  const [recoveries, setRecoveries] = useState<Array<{ row: Payroll2Row; proposal: RecoveryProposal }> | null>(null);
+  const [proposing, setProposing] = useState(false);
+
+  // Leave balances excluding this month's saved encashment, which is what the sheet edits
+  const [leaveBalances, setLeaveBalances] = useState<Map<string, LeaveBalance>>(new Map());
+
+  const editable = isRunEditable(run?.status);
+
   const monthLabel = useMemo(() => toDate.format("YYYY-MM"), [toDate]);
 
   const filteredRows = useMemo(() => {
@@ -174,22 +171,24 @@ export default function Payroll2Page() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const rep = await api.get<Payroll2Response>("/api/payroll2/range-report", {
-        query: {
-          from_date: fromDate.format("YYYY-MM-DD"),
-          to_date: toDate.format("YYYY-MM-DD"),
-          month: monthLabel,
-        },
-      });
+      const from = fromDate.format("YYYY-MM-DD");
+      const to = toDate.format("YYYY-MM-DD");
+      const [rep, current] = await Promise.all([
+        sdk.payroll.range2Report({ from_date: from, to_date: to, month: monthLabel }),
+        sdk.payrollRuns.forPeriod(from, to).catch((e: unknown) => {
+          if (e instanceof ApiError && e.status === 404) return null;
+          throw e;
+        }),
+      ]);
 
-      const sorted = (rep.rows ?? []).sort((a, b) => {
-        const aNum = parseInt(a.serial_no || "0", 10);
-        const bNum = parseInt(b.serial_no || "0", 10);
-        if (!isNaN(aNum) && !isNaN(bNum)) return aNum - bNum;
-        return a.employee_id.localeCompare(b.employee_id);
-      });
-      setRows(sorted);
+      const live = sortRows(rep.rows ?? []).map(recalcPayroll2Row);
+      setLiveRows(live);
+      setRun(current);
+      setRows(current?.snapshot_rows && !isRunEditable(current.status) ? sortRows(current.snapshot_rows) : live);
       setSummaryData(rep.summary);
+      loadLeaveBalances(to, { excludeMonth: monthLabel })
+        .then(setLeaveBalances)
+        .catch(() => setLeaveBalances(new Map()));
 
       msg.success(`Loaded (${fromDate.format("YYYY-MM-DD")} to ${toDate.format("YYYY-MM-DD")})`);
     } catch (e: unknown) {
@@ -203,36 +202,40 @@ export default function Payroll2Page() {
     void load();
   }, [load]);
 
+  // Opened from a ledger entry (/payroll2?run=<id>): show that run's period
+  useEffect(() => {
+    const runId = Number(new URLSearchParams(window.location.search).get("run"));
+    if (!runId) return;
+    sdk.payrollRuns
+      .get(runId)
+      .then((r) => {
+        setFromDate(dayjs(r.from_date));
+        setToDate(dayjs(r.to_date));
+      })
+      .catch((e: unknown) => msg.error(errorMessage(e, "Failed to load payroll run")));
+  }, [msg]);
+
   // Recalculate row when editable fields change
   const updateRow = useCallback((employee_db_id: number, patch: Partial<Payroll2Row>) => {
-    setRows((prev) =>
-      prev.map((r) => {
-        if (r.employee_db_id !== employee_db_id) return r;
-        const updated = { ...r, ...patch };
-        
-        // Recalculate total_days = presents_total + leave_encashment_days
-        const total_days = (updated.presents_total || 0) + (updated.leave_encashment_days || 0);
-        const total_salary = total_days * r.day_rate;
-        const gross_pay = total_salary + r.overtime_rate + r.overtime_pay + (updated.allow_other || 0);
-        const fine_adv = r.fine_deduction + r.advance_deduction + (updated.fine_adv_extra || 0);
-        const net_pay = gross_pay - (updated.eobi || 0) - (updated.tax || 0) - fine_adv - r.late_deduction;
-        
-        return {
-          ...updated,
-          total_days,
-          total_salary,
-          gross_pay,
-          fine_adv,
-          net_pay,
-        };
-      })
-    );
+    setRows((prev) => prev.map((r) => (r.employee_db_id === employee_db_id ? recalcPayroll2Row({ ...r, ...patch }) : r)));
   }, []);
 
   const saveSheet = useCallback(async () => {
+    if (!editable) {
+      msg.warning(`This period is ${RUN_STATUS_LABELS[run!.status].toLowerCase()}. Reopen it to make changes.`);
+      return;
+    }
+    const overdrawn = rows.filter((r) => {
+      const bal = leaveBalances.get(r.employee_id);
+      return bal?.policy && r.leave_encashment_days > bal.encashable;
+    });
+    if (overdrawn.length) {
+      msg.error(`Leave encashment exceeds the available balance for ${overdrawn.map((r) => r.name).join(", ")}`);
+      return;
+    }
     setSaving(true);
     try {
-      const payload = {
+      const payload: PayrollSheetEntryBulkUpsert = {
         from_date: fromDate.format("YYYY-MM-DD"),
         to_date: toDate.format("YYYY-MM-DD"),
         entries: rows.map((r) => ({
@@ -250,7 +253,7 @@ export default function Payroll2Page() {
           bank_cash: r.bank_cash ?? null,
         })),
       };
-      await api.put("/api/payroll/sheet-entries", payload);
+      await sdk.payroll.saveSheetEntries(payload);
       msg.success("Saved");
       void load();
     } catch (e: unknown) {
@@ -258,7 +261,106 @@ export default function Payroll2Page() {
     } finally {
       setSaving(false);
     }
-  }, [fromDate, load, msg, rows, toDate]);
+  }, [editable, fromDate, leaveBalances, load, msg, rows, run, toDate]);
+
+  const startRun = useCallback(async () => {
+    setActing(true);
+    try {
+      const created = await sdk.payrollRuns.create({
+        month: monthLabel,
+        from_date: fromDate.format("YYYY-MM-DD"),
+        to_date: toDate.format("YYYY-MM-DD"),
+      });
+      setRun(created);
+      msg.success("Payroll run started");
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to start payroll run"));
+    } finally {
+      setActing(false);
+    }
+  }, [fromDate, monthLabel, msg, toDate]);
+
+  const proposeRecoveries = useCallback(async () => {
+    setProposing(true);
+    try {
+      const states = await sdk.advances.recoveries(monthLabel);
+      const byEmployee = new Map(states.map((st) => [st.employee_db_id, st]));
+      const list = rows.flatMap((row) => {
+        const st = byEmployee.get(row.employee_db_id);
+        if (!st) return [];
+        const proposal = proposeRecovery(st.advances, st.deductions, monthLabel, row.net_pay + row.advance_deduction);
+        return proposal.planned > 0 || row.advance_deduction !== proposal.proposed ? [{ row, proposal }] : [];
+      });
+      setRecoveries(list);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to load advance recovery plans"));
+    } finally {
+      setProposing(false);
+    }
+  }, [monthLabel, msg, rows]);
+
+  const applyRecoveries = useCallback(async () => {
+    const changed = (recoveries ?? []).filter((r) => r.row.advance_deduction !== r.proposal.proposed);
+    setProposing(true);
+    try {
+      for (const { row, proposal } of changed) {
+        await sdk.advances.upsertDeduction(row.employee_db_id, {
+          employee_db_id: row.employee_db_id,
+          month: monthLabel,
+          amount: proposal.proposed,
+          note: proposal.capped ? `Recovery plan (capped at net floor ${proposal.floor})` : "Recovery plan",
+        });
+      }
+      msg.success(`Advance recovery applied to ${changed.length} employee(s)`);
+      setRecoveries(null);
+      void load();
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to apply advance recovery"));
+    } finally {
+      setProposing(false);
+    }
+  }, [load, monthLabel, msg, recoveries]);
+
+  // What would change if the approved snapshot were recalculated now
+  const reopenDiff = useMemo<PayrollRunDiff[]>(
+    () => (run?.snapshot_rows && !editable ? diffPayrollRows(run.snapshot_rows, liveRows) : []),
+    [editable, liveRows, run?.snapshot_rows]
+  );
+
+  const applyTransition = useCallback(
+    async (t: RunTransition, why?: string) => {
+      if (!run) return;
+      setActing(true);
+      try {
+        const updated = await sdk.payrollRuns.transition(run.id, {
+          to_status: t.to,
+          reason: why || null,
+          ...(t.snapshot ? { snapshot_rows: rows } : {}),
+          ...(t.needsReason && run.snapshot_rows ? { diff: reopenDiff } : {}),
+        });
+        setPending(null);
+        setReason("");
+        msg.success(`Payroll ${RUN_STATUS_LABELS[updated.status].toLowerCase()}`);
+        // Locking accrues the payroll and recovers advances in the ledger; reopening a locked run reverses both
+        const wasBooked = run.status === "locked" || run.status === "paid";
+        const warning =
+          updated.status === "locked" && !wasBooked
+            ? await tryPosting(() => postPayrollLock(updated, updated.snapshot_rows ?? rows))
+            : wasBooked && updated.status !== "locked" && updated.status !== "paid"
+              ? await tryPosting(() => reversePayrollLock(run, dayjs().format("YYYY-MM-DD"), why || "payroll reopened"))
+              : null;
+        if (warning) msg.warning(warning);
+        await load();
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to update payroll run"));
+      } finally {
+        setActing(false);
+      }
+    },
+    [load, msg, reopenDiff, rows, run]
+  );
+
+  const availableTransitions = useMemo(() => (run ? transitionsFrom(run.status, has) : []), [has, run]);
 
   const exportCsv = useCallback(() => {
     const headers = [
@@ -283,18 +385,10 @@ export default function Payroll2Page() {
   const exportPdf = useCallback(async () => {
     try {
       msg.loading({ content: "Generating PDF...", key: "pdf" });
-      const token = typeof window !== "undefined" ? window.localStorage.getItem("access_token") : null;
-      const response = await fetch(`${API_BASE_URL}/api/payroll2/export-pdf?from_date=${fromDate.format("YYYY-MM-DD")}&to_date=${toDate.format("YYYY-MM-DD")}&month=${monthLabel}`, {
-        method: "POST",
-        headers: { 
-          "Content-Type": "application/json",
-          ...(token ? { "Authorization": `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ rows }),
-      });
-      if (!response.ok) throw new Error("Failed to generate PDF");
-      const blob = await response.blob();
-      downloadBlob(blob, `payroll2_${monthLabel}.pdf`);
+      await sdk.payroll.export2Pdf(
+        { month: monthLabel, from_date: fromDate.format("YYYY-MM-DD"), to_date: toDate.format("YYYY-MM-DD") },
+        rows
+      );
       msg.success({ content: "PDF downloaded", key: "pdf" });
     } catch (e) {
       msg.error({ content: errorMessage(e, "Failed to export PDF"), key: "pdf" });
@@ -302,6 +396,55 @@ export default function Payroll2Page() {
   }, [fromDate, monthLabel, msg, rows, toDate]);
 
 
+  const payslipContext = useCallback(
+    async (forRows: Payroll2Row[]): Promise<PayslipContext> => {
+      const [logoDataUrl, advances] = await Promise.all([
+        loadPayslipLogo(),
+        loadAdvanceSummaries(forRows.map((r) => r.employee_db_id)),
+      ]);
+      return {
+        fromDate: fromDate.format("YYYY-MM-DD"),
+        toDate: toDate.format("YYYY-MM-DD"),
+        month: monthLabel,
+        logoDataUrl,
+        advances,
+      };
+    },
+    [fromDate, monthLabel, toDate]
+  );
+
+  const exportPayslip = useCallback(
+    async (row: Payroll2Row) => {
+      try {
+        const ctx = await payslipContext([row]);
+        downloadBlob(buildPayslip(row, ctx), payslipFilename(row, monthLabel));
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to generate payslip"));
+      }
+    },
+    [monthLabel, msg, payslipContext]
+  );
+
+  const exportPayslips = useCallback(
+    async (kind: "pack" | "zip") => {
+      const list = filteredRows;
+      if (list.length === 0) {
+        msg.warning("No employees to export");
+        return;
+      }
+      msg.loading({ content: `Generating ${list.length} payslips...`, key: "payslips", duration: 0 });
+      try {
+        const ctx = await payslipContext(list);
+        if (kind === "pack") downloadBlob(buildPayslipPack(list, ctx), `payslips_${monthLabel}.pdf`);
+        else downloadBlob(buildPayslipZip(list, ctx), `payslips_${monthLabel}.zip`);
+        msg.success({ content: "Payslips downloaded", key: "payslips" });
+      } catch (e: unknown) {
+        msg.error({ content: errorMessage(e, "Failed to generate payslips"), key: "payslips" });
+      }
+    },
+    [filteredRows, monthLabel, msg, payslipContext]
+  );
+
   const columns = useMemo((): ColumnsType<Payroll2Row> => {
     return [
       {
@@ -395,6 +538,7 @@ export default function Payroll2Page() {
             controls={false}
             value={r.pre_days}
             style={{ width: 48 }}
+            disabled={!editable}
             onChange={(v) => updateRow(r.employee_db_id, { pre_days: Number(v ?? 0) })}
           />
         ),
@@ -411,6 +555,7 @@ export default function Payroll2Page() {
             controls={false}
             value={r.cur_days}
             style={{ width: 48 }}
+            disabled={!editable}
             onChange={(v) => updateRow(r.employee_db_id, { cur_days: Number(v ?? 0) })}
           />
         ),
@@ -420,16 +565,24 @@ export default function Payroll2Page() {
         title: <div style={{ fontSize: 10, lineHeight: 1.05, textAlign: "right" }}>Leave<br />Enc.</div>,
         width: 55,
         align: "right",
-        render: (_: unknown, r: Payroll2Row) => (
-          <InputNumber
-            size="small"
-            min={0}
-            controls={false}
-            value={r.leave_encashment_days}
-            style={{ width: 48 }}
-            onChange={(v) => updateRow(r.employee_db_id, { leave_encashment_days: Number(v ?? 0) })}
-          />
-        ),
+        render: (_: unknown, r: Payroll2Row) => {
+          const bal = leaveBalances.get(r.employee_id);
+          const limit = bal?.policy ? bal.encashable : undefined;
+          return (
+            <Tooltip title={limit === undefined ? "No leave policy" : `Encashable: ${limit} day(s)`}>
+              <InputNumber
+                size="small"
+                min={0}
+                controls={false}
+                value={r.leave_encashment_days}
+                status={limit !== undefined && r.leave_encashment_days > limit ? "error" : undefined}
+                style={{ width: 48 }}
+                disabled={!editable}
+                onChange={(v) => updateRow(r.employee_db_id, { leave_encashment_days: Number(v ?? 0) })}
+              />
+            </Tooltip>
+          );
+        },
       },
       {
         key: "total_days",
@@ -479,6 +632,7 @@ export default function Payroll2Page() {
             controls={false}
             value={r.allow_other}
             style={{ width: 65 }}
+            disabled={!editable}
             onChange={(v) => updateRow(r.employee_db_id, { allow_other: Number(v ?? 0) })}
           />
         ),
@@ -512,6 +666,7 @@ export default function Payroll2Page() {
             controls={false}
             value={r.eobi}
             style={{ width: 60 }}
+            disabled={!editable}
             onChange={(v) => updateRow(r.employee_db_id, { eobi: Number(v ?? 0) })}
           />
         ),
@@ -528,6 +683,7 @@ export default function Payroll2Page() {
             controls={false}
             value={r.tax}
             style={{ width: 60 }}
+            disabled={!editable}
             onChange={(v) => updateRow(r.employee_db_id, { tax: Number(v ?? 0) })}
           />
         ),
@@ -553,6 +709,7 @@ export default function Payroll2Page() {
             controls={false}
             value={r.fine_adv_extra}
             style={{ width: 60 }}
+            disabled={!editable}
             onChange={(v) => updateRow(r.employee_db_id, { fine_adv_extra: Number(v ?? 0) })}
           />
         ),
@@ -577,6 +734,7 @@ export default function Payroll2Page() {
             size="small"
             value={r.remarks ?? ""}
             style={{ fontSize: 11 }}
+            disabled={!editable}
             onChange={(e) => updateRow(r.employee_db_id, { remarks: e.target.value })}
           />
         ),
@@ -590,12 +748,24 @@ export default function Payroll2Page() {
             size="small"
             value={r.bank_cash ?? ""}
             style={{ fontSize: 11 }}
+            disabled={!editable}
             onChange={(e) => updateRow(r.employee_db_id, { bank_cash: e.target.value })}
           />
         ),
       },
+      {
+        key: "payslip",
+        title: <div style={{ fontSize: 10, lineHeight: 1.05 }}>Slip</div>,
+        width: 50,
+        align: "center",
+        render: (_: unknown, r: Payroll2Row) => (
+          <Tooltip title="Download payslip">
+            <Button size="small" type="text" icon={<FilePdfOutlined />} onClick={() => void exportPayslip(r)} />
+          </Tooltip>
+        ),
+      },
     ];
-  }, [updateRow]);
+  }, [editable, exportPayslip, leaveBalances, updateRow]);
 
 
   return (
@@ -612,6 +782,7 @@ export default function Payroll2Page() {
                 <Typography.Text type="secondary">
                   {fromDate.format("YYYY-MM-DD")} to {toDate.format("YYYY-MM-DD")}
                 </Typography.Text>
+                {run ? <Tag color={RUN_STATUS_COLORS[run.status]}>{RUN_STATUS_LABELS[run.status]}</Tag> : null}
               </Space>
             </Col>
             <Col>
@@ -619,14 +790,41 @@ export default function Payroll2Page() {
                 <Button icon={<ReloadOutlined />} onClick={() => void load()}>
                   Refresh
                 </Button>
-                <Button type="primary" icon={<SaveOutlined />} loading={saving} onClick={() => void saveSheet()}>
+                <Button
+                  type="primary"
+                  icon={<SaveOutlined />}
+                  loading={saving}
+                  disabled={!editable}
+                  onClick={() => void saveSheet()}
+                >
                   Save
                 </Button>
+                <Button
+                  icon={<DollarOutlined />}
+                  loading={proposing}
+                  disabled={!editable}
+                  onClick={() => void proposeRecoveries()}
+                >
+                  Advance recovery
+                </Button>
                 <Dropdown
                   menu={{
                     items: [
                       { key: "csv", label: "Export CSV", icon: <FileExcelOutlined />, onClick: exportCsv },
                       { key: "pdf", label: "Export PDF", icon: <FilePdfOutlined />, onClick: () => void exportPdf() },
+                      { type: "divider" },
+                      {
+                        key: "payslips-pdf",
+                        label: "All payslips (PDF)",
+                        icon: <FilePdfOutlined />,
+                        onClick: () => void exportPayslips("pack"),
+                      },
+                      {
+                        key: "payslips-zip",
+                        label: "Payslips (ZIP)",
+                        icon: <FileZipOutlined />,
+                        onClick: () => void exportPayslips("zip"),
+                      },
                     ],
                   }}
                 >
@@ -665,6 +863,159 @@ export default function Payroll2Page() {
             </Row>
           </Card>
 
+          <Card variant="outlined" className="flash-card" styles={{ body: { padding: 12 } }}>
+            <Row gutter={[12, 12]} align="middle">
+              <Col flex="auto">
+                <Steps
+                  size="small"
+                  current={run ? RUN_STATUSES.indexOf(run.status) : -1}
+                  items={RUN_STATUSES.map((st) => ({ title: RUN_STATUS_LABELS[st] }))}
+                />
+              </Col>
+              <Col>
+                <Space wrap>
+                  {!run ? (
+                    <Button loading={acting} disabled={!has("payroll:review")} onClick={() => void startRun()}>
+                      Start payroll run
+                    </Button>
+                  ) : (
+                    availableTransitions.map((t) => (
+                      <Button
+                        key={`${t.from}-${t.to}`}
+                        type={t.needsReason ? "default" : "primary"}
+                        danger={t.needsReason}
+                        loading={acting}
+                        onClick={() => (t.needsReason ? setPending(t) : void applyTransition(t))}
+                      >
+                        {t.label}
+                      </Button>
+                    ))
+                  )}
+                </Space>
+              </Col>
+            </Row>
+            {run && !editable ? (
+              <Alert
+                style={{ marginTop: 12 }}
+                type={reopenDiff.length ? "warning" : "info"}
+                showIcon
+                message={`Showing the snapshot frozen at approval${run.approved_by ? ` by ${run.approved_by}` : ""}${
+                  run.approved_at ? ` on ${dayjs(run.approved_at).format("DD MMM YYYY HH:mm")}` : ""
+                }.`}
+                description={
+                  reopenDiff.length
+                    ? `${reopenDiff.length} value(s) differ from a fresh recalculation. Reopen the run to apply them.`
+                    : "A fresh recalculation matches the snapshot."
+                }
+              />
+            ) : null}
+            {run?.events?.length ? (
+              <div style={{ marginTop: 8 }}>
+                {run.events.slice(-5).map((ev) => (
+                  <div key={ev.id}>
+                    <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+                      {dayjs(ev.created_at).format("DD MMM HH:mm")} · {ev.actor || "system"} ·{" "}
+                      {ev.from_status ? `${RUN_STATUS_LABELS[ev.from_status]} → ` : ""}
+                      {RUN_STATUS_LABELS[ev.to_status]}
+                      {ev.reason ? ` · "${ev.reason}"` : ""}
+                      {ev.diff?.length ? ` · ${ev.diff.length} change(s)` : ""}
+                    </Typography.Text>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </Card>
+
+          <Modal
+            title={pending ? `${pending.label} payroll` : ""}
+            open={!!pending}
+            onCancel={() => {
+              setPending(null);
+              setReason("");
+            }}
+            onOk={() => pending && void applyTransition(pending, reason.trim())}
+            okButtonProps={{ disabled: !reason.trim(), danger: true }}
+            okText={pending?.label}
+            confirmLoading={acting}
+            width={720}
+            destroyOnClose
+          >
+            <Space direction="vertical" style={{ width: "100%" }} size={12}>
+              <Input.TextArea
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (required, kept in the run history)"
+              />
+              {run?.snapshot_rows ? (
+                <Table<PayrollRunDiff>
+                  size="small"
+                  rowKey={(d) => `${d.employee_db_id}-${d.field}`}
+                  dataSource={reopenDiff}
+                  pagination={{ pageSize: 8 }}
+                  locale={{ emptyText: "No differences from the approved snapshot" }}
+                  columns={[
+                    { title: "Employee", render: (_: unknown, d: PayrollRunDiff) => `${d.employee_id} · ${d.name}` },
+                    { title: "Field", dataIndex: "field", width: 150 },
+                    { title: "Approved", dataIndex: "before", width: 110, align: "right", render: (v) => v ?? "-" },
+                    { title: "Now", dataIndex: "after", width: 110, align: "right", render: (v) => v ?? "-" },
+                  ]}
+                />
+              ) : null}
+            </Space>
+          </Modal>
+
+          <Modal
+            title={`Advance recovery for ${monthLabel}`}
+            open={recoveries !== null}
+            onCancel={() => setRecoveries(null)}
+            onOk={() => void applyRecoveries()}
+            okText="Apply deductions"
+            okButtonProps={{ disabled: !recoveries?.some((r) => r.row.advance_deduction !== r.proposal.proposed) }}
+            confirmLoading={proposing}
+            width={820}
+            destroyOnClose
+          >
+            <Table<{ row: Payroll2Row; proposal: RecoveryProposal }>
+              size="small"
+              rowKey={(r) => r.row.employee_db_id}
+              dataSource={recoveries ?? []}
+              pagination={{ pageSize: 10 }}
+              locale={{ emptyText: "No advances with a recovery plan in this period" }}
+              columns={[
+                { title: "Employee", render: (_, r) => `${r.row.fss_no || r.row.employee_id} · ${r.row.name}` },
+                {
+                  title: "Outstanding",
+                  width: 110,
+                  align: "right",
+                  render: (_, r) => r.proposal.outstanding.toLocaleString(),
+                },
+                { title: "Current", width: 100, align: "right", render: (_, r) => r.row.advance_deduction.toLocaleString() },
+                {
+                  title: "Proposed",
+                  width: 150,
+                  align: "right",
+                  render: (_, r) => (
+                    <Space size={4}>
+                      {r.proposal.capped ? (
+                        <Tooltip title={`Plan asks ${r.proposal.planned.toLocaleString()}; capped to keep net at ${r.proposal.floor.toLocaleString()}`}>
+                          <Tag color="orange">Capped</Tag>
+                        </Tooltip>
+                      ) : null}
+                      <Typography.Text strong>{r.proposal.proposed.toLocaleString()}</Typography.Text>
+                    </Space>
+                  ),
+                },
+                {
+                  title: "Net After",
+                  width: 110,
+                  align: "right",
+                  render: (_, r) => (r.row.net_pay + r.row.advance_deduction - r.proposal.proposed).toLocaleString(),
+                },
+              ]}
+            />
+          </Modal>
+
           <Row gutter={[12, 12]}>
             <Col xs={12} md={4}>
               <Card size="small" variant="outlined" className="flash-card" styles={{ body: { padding: 10 } }}>
@@ -19,37 +19,10 @@ import {
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-
-type AnalyticsData = {
-  period: { from_date: string; to_date: string; month: string };
-  employees: {
-    total: number;
-    active: number;
-    new_this_month: number;
-  };
-  payroll: {
-    total_gross: number;
-    total_net: number;
-    total_salary: number;
-    total_overtime: number;
-    total_deductions: number;
-    avg_salary: number;
-  };
-  attendance: {
-    total_records: number;
-    present: number;
-    late: number;
-    absent: number;
-    leave: number;
-    attendance_rate: number;
-    punctuality_rate: number;
-  };
-  top_earners: Array<{ name: string; net_pay: number }>;
-  top_overtime: Array<{ name: string; overtime_pay: number; overtime_hours: number }>;
-  department_breakdown: Array<{ department: string; count: number; total_salary: number }>;
-  monthly_trend: Array<{ month: string; gross: number; net: number; employees: number }>;
-};
+import ProfitabilityReport from "@/components/ProfitabilityReport";
+import { useAuth } from "@/lib/auth";
+import { sdk } from "@/lib/sdk";
+import type { AnalyticsDashboard as AnalyticsData } from "@/lib/types";
 
 function formatMoney(v: number): string {
   if (v >= 1000000) return `Rs ${(v / 1000000).toFixed(1)}M`;
@@ -59,6 +32,7 @@ function formatMoney(v: number): string {
 
 export default function PerformancePage() {
   const [msg, msgCtx] = message.useMessage();
+  const { has } = useAuth();
   
   const defaultRange = useMemo(() => {
     const today = dayjs();
@@ -80,11 +54,9 @@ export default function PerformancePage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await api.get<AnalyticsData>("/api/analytics/dashboard", {
-        query: {
-          from_date: fromDate.format("YYYY-MM-DD"),
-          to_date: toDate.format("YYYY-MM-DD"),
-        },
+      const res = await sdk.analytics.dashboard({
+        from_date: fromDate.format("YYYY-MM-DD"),
+        to_date: toDate.format("YYYY-MM-DD"),
       });
       setData(res);
     } catch (e: unknown) {
@@ -244,6 +216,8 @@ export default function PerformancePage() {
               </Col>
             </Row>
           </Spin>
+
+          {has("clients:view") && has("payroll:view") ? <ProfitabilityReport /> : null}
         </Space>
       </div>
     </>
@@ -9,8 +9,7 @@ import { useParams, useRouter } from "next/navigation";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
-import { api } from "@/lib/api";
-import type { Employee } from "@/lib/types";
+import { sdk } from "@/lib/sdk";
 
 type IssuedSerialRow = {
   serial_unit_id: number;
@@ -70,8 +69,8 @@ export default function RestrictedInventoryEmployeeAllocationDetailPage() {
     setLoading(true);
     try {
       const [employeesRes, allIssuedRes] = await Promise.all([
-        api.get<{ employees: Employee[] }>("/api/employees/", { query: { limit: 500 } }),
-        api.get<EmployeeIssuedInventory[]>("/api/restricted-inventory/issued"),
+        sdk.employees.list({ limit: 500 }),
+        sdk.restrictedInventory.issued(),
       ]);
 
       const employees = Array.isArray(employeesRes?.employees) ? employeesRes.employees : [];
@@ -113,9 +112,7 @@ export default function RestrictedInventoryEmployeeAllocationDetailPage() {
       if (!eid) return;
       setSerialActionLoading((p) => ({ ...p, [serialUnitId]: true }));
       try {
-        await api.post(`/api/restricted-inventory/employees/${encodeURIComponent(eid)}/serials/${serialUnitId}/return`, {
-          notes: "Returned from Employee Allocation Detail",
-        });
+        await sdk.restrictedInventory.returnSerial(eid, serialUnitId, "Returned from Employee Allocation Detail");
         msg.success("Returned");
         await load();
       } catch (e: unknown) {
@@ -299,7 +296,7 @@ export default function RestrictedInventoryEmployeeAllocationDetailPage() {
       const key = `${eid}__${itemCode}`;
       setQtyActionLoading((p) => ({ ...p, [key]: true }));
       try {
-        await api.post(`/api/restricted-inventory/employees/${encodeURIComponent(eid)}/items/${encodeURIComponent(itemCode)}/return`, {
+        await sdk.restrictedInventory.returnQuantity(eid, itemCode, {
           quantity: qty,
           notes: "Returned from Employee Allocation Detail",
         });
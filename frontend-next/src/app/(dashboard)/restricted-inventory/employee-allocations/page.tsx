@@ -9,7 +9,7 @@ import { useRouter } from "next/navigation";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import type { Employee } from "@/lib/types";
 
 type IssuedSerialRow = {
@@ -60,8 +60,8 @@ export default function RestrictedInventoryEmployeeAllocationsPage() {
     setLoading(true);
     try {
       const [employeesRes, issuedRes] = await Promise.all([
-        api.get<{ employees: Employee[] }>("/api/employees/", { query: { limit: 500 } }),
-        api.get<EmployeeIssuedInventory[]>("/api/restricted-inventory/issued"),
+        sdk.employees.list({ limit: 500 }),
+        sdk.restrictedInventory.issued(),
       ]);
       setEmployees(Array.isArray(employeesRes?.employees) ? employeesRes.employees : []);
       setIssued(Array.isArray(issuedRes) ? issuedRes : []);
@@ -113,10 +113,7 @@ export default function RestrictedInventoryEmployeeAllocationsPage() {
     async (employeeId: string, serialUnitId: number) => {
       setSerialActionLoading((p) => ({ ...p, [serialUnitId]: true }));
       try {
-        await api.post(
-          `/api/restricted-inventory/employees/${encodeURIComponent(employeeId)}/serials/${serialUnitId}/return`,
-          { notes: "Returned from Employee Allocations" }
-        );
+        await sdk.restrictedInventory.returnSerial(employeeId, serialUnitId, "Returned from Employee Allocations");
         msg.success("Returned");
         await load();
       } catch (e: unknown) {
@@ -323,10 +320,10 @@ export default function RestrictedInventoryEmployeeAllocationsPage() {
       const key = `${employeeId}__${itemCode}`;
       setQtyActionLoading((p) => ({ ...p, [key]: true }));
       try {
-        await api.post(
-          `/api/restricted-inventory/employees/${encodeURIComponent(employeeId)}/items/${encodeURIComponent(itemCode)}/return`,
-          { quantity: qty, notes: "Returned from Employee Allocations" }
-        );
+        await sdk.restrictedInventory.returnQuantity(employeeId, itemCode, {
+          quantity: qty,
+          notes: "Returned from Employee Allocations",
+        });
         msg.success("Returned");
         await load();
       } catch (e: unknown) {
@@ -25,7 +25,7 @@ import type { ColumnsType } from "antd/es/table";
 import { DeleteOutlined, EditOutlined, EyeOutlined, MinusCircleOutlined, PlusOutlined, ReloadOutlined } from "@ant-design/icons";
 import dayjs, { Dayjs } from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
+import { sdk, type InventoryIssuePayload, type RestrictedAction } from "@/lib/sdk";
 import { API_BASE_URL } from "@/lib/config";
 import { useRouter } from "next/navigation";
 import type {
@@ -49,8 +49,6 @@ type DrawerMode = "create" | "edit" | "view";
 
 type FormValues = RestrictedItemCreate;
 
-type ActionKind = "issue" | "return" | "lost" | "found" | "available" | "damaged" | "maintenance" | "cleaning";
-
 type AllocateLine = {
   item_code?: string;
   quantity?: number;
@@ -105,7 +103,7 @@ export default function RestrictedInventoryPage() {
   const [actionEmp, setActionEmp] = useState<string | undefined>(undefined);
   const [actionQty, setActionQty] = useState<number | null>(null);
   const [actionSerials, setActionSerials] = useState<string[]>([]);
-  const [actionKind, setActionKind] = useState<ActionKind>("issue");
+  const [actionKind, setActionKind] = useState<RestrictedAction>("issue");
   const [actionNote, setActionNote] = useState("");
 
   const watchIsSerialTracked = Form.useWatch("is_serial_tracked", form);
@@ -113,7 +111,7 @@ export default function RestrictedInventoryPage() {
 
   const loadEmployees = useCallback(async () => {
     try {
-      const data = await api.get<{ employees: Employee[] }>("/api/employees/", { query: { limit: 500 } });
+      const data = await sdk.employees.list({ limit: 500 });
       setEmployees(Array.isArray(data?.employees) ? data.employees : []);
     } catch {
       setEmployees([]);
@@ -127,9 +125,7 @@ export default function RestrictedInventoryPage() {
 
       setAllocSerialsLoading((p) => ({ ...p, [itemCode]: true }));
       try {
-        const list = await api.get<RestrictedSerialUnit[]>(
-          `/api/restricted-inventory/items/${encodeURIComponent(itemCode)}/serials`
-        );
+        const list = await sdk.restrictedInventory.serials(itemCode);
         const inStock = (Array.isArray(list) ? list : [])
           .filter((s) => s.status === "in_stock")
           .map((s) => s.serial_number);
@@ -146,7 +142,7 @@ export default function RestrictedInventoryPage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<RestrictedItem[]>("/api/restricted-inventory/items");
+      const data = await sdk.restrictedInventory.items();
       setRows(Array.isArray(data) ? data : []);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load restricted inventory"));
@@ -171,7 +167,7 @@ export default function RestrictedInventoryPage() {
   const loadImages = useCallback(async (itemCode: string) => {
     setImagesLoading(true);
     try {
-      const list = await api.get<RestrictedItemImage[]>(`/api/restricted-inventory/items/${encodeURIComponent(itemCode)}/images`);
+      const list = await sdk.restrictedInventory.images(itemCode);
       setImages(Array.isArray(list) ? list : []);
     } catch {
       setImages([]);
@@ -183,7 +179,7 @@ export default function RestrictedInventoryPage() {
   const loadSerials = useCallback(async (itemCode: string) => {
     setSerialsLoading(true);
     try {
-      const list = await api.get<RestrictedSerialUnit[]>(`/api/restricted-inventory/items/${encodeURIComponent(itemCode)}/serials`);
+      const list = await sdk.restrictedInventory.serials(itemCode);
       setSerials(Array.isArray(list) ? list : []);
     } catch {
       setSerials([]);
@@ -195,9 +191,7 @@ export default function RestrictedInventoryPage() {
   const loadTx = useCallback(async (itemCode: string) => {
     setTxLoading(true);
     try {
-      const list = await api.get<RestrictedTransaction[]>("/api/restricted-inventory/transactions", {
-        query: { item_code: itemCode, limit: 200 },
-      });
+      const list = await sdk.restrictedInventory.transactions({ item_code: itemCode, limit: 200 });
       setTxs(Array.isArray(list) ? list : []);
     } catch {
       setTxs([]);
@@ -256,6 +250,7 @@ export default function RestrictedInventoryPage() {
       unit_name: "unit",
       quantity_on_hand: 0,
       min_quantity: null,
+      unit_cost: null,
       make_model: null,
       caliber: null,
       storage_location: null,
@@ -310,7 +305,7 @@ export default function RestrictedInventoryPage() {
             setAllocLoading(false);
             return;
           }
-          await api.post(`/api/restricted-inventory/items/${encodeURIComponent(code)}/issue`, {
+          await sdk.restrictedInventory.action(code, "issue", {
             employee_id: employeeId,
             serial_numbers: sns,
             notes: finalNote,
@@ -322,7 +317,7 @@ export default function RestrictedInventoryPage() {
             setAllocLoading(false);
             return;
           }
-          await api.post(`/api/restricted-inventory/items/${encodeURIComponent(code)}/issue`, {
+          await sdk.restrictedInventory.action(code, "issue", {
             employee_id: employeeId,
             quantity: qty,
             notes: finalNote,
@@ -354,6 +349,7 @@ export default function RestrictedInventoryPage() {
         unit_name: r.unit_name,
         quantity_on_hand: r.quantity_on_hand,
         min_quantity: r.min_quantity ?? null,
+        unit_cost: r.unit_cost ?? null,
         make_model: r.make_model ?? null,
         caliber: r.caliber ?? null,
         storage_location: r.storage_location ?? null,
@@ -386,6 +382,7 @@ export default function RestrictedInventoryPage() {
         unit_name: r.unit_name,
         quantity_on_hand: r.quantity_on_hand,
         min_quantity: r.min_quantity ?? null,
+        unit_cost: r.unit_cost ?? null,
         make_model: r.make_model ?? null,
         caliber: r.caliber ?? null,
         storage_location: r.storage_location ?? null,
@@ -407,7 +404,7 @@ export default function RestrictedInventoryPage() {
   const onDelete = useCallback(
     async (r: RestrictedItem) => {
       try {
-        await api.del<{ message: string }>(`/api/restricted-inventory/items/${encodeURIComponent(r.item_code)}`);
+        await sdk.restrictedInventory.removeItem(r.item_code);
         msg.success("Item deleted");
         await load();
       } catch (e: unknown) {
@@ -418,27 +415,11 @@ export default function RestrictedInventoryPage() {
   );
 
   const uploadImage = useCallback(async (itemCode: string, file: File) => {
-    const fd = new FormData();
-    fd.set("file", file);
-
-    const res = await fetch(`${API_BASE_URL}/api/restricted-inventory/items/${encodeURIComponent(itemCode)}/images`, {
-      method: "POST",
-      body: fd,
-    });
-
-    const text = await res.text();
-    const data = text ? (JSON.parse(text) as unknown) : null;
-    if (!res.ok) {
-      let m = "Image upload failed";
-      if (data && typeof data === "object" && "detail" in data) m = String((data as { detail?: unknown }).detail);
-      throw new Error(m);
-    }
+    await sdk.restrictedInventory.uploadImage(itemCode, file);
   }, []);
 
   const deleteImage = useCallback(async (itemCode: string, imageId: number) => {
-    await api.del<{ message: string }>(
-      `/api/restricted-inventory/items/${encodeURIComponent(itemCode)}/images/${imageId}`
-    );
+    await sdk.restrictedInventory.removeImage(itemCode, imageId);
     await loadImages(itemCode);
   }, [loadImages]);
 
@@ -450,10 +431,7 @@ export default function RestrictedInventoryPage() {
       return;
     }
     try {
-      await api.post<RestrictedSerialUnit>(
-        `/api/restricted-inventory/items/${encodeURIComponent(active.item_code)}/serials`,
-        { serial_number: sn }
-      );
+      await sdk.restrictedInventory.addSerial(active.item_code, sn);
       setNewSerial("");
       msg.success("Serial added");
       await loadSerials(active.item_code);
@@ -502,23 +480,20 @@ export default function RestrictedInventoryPage() {
           }
         }
 
-        await api.post<RestrictedItem>("/api/restricted-inventory/items", values);
+        await sdk.restrictedInventory.createItem(values);
         for (const img of pendingImages) {
           await uploadImage(values.item_code, img);
         }
 
         if (values.is_serial_tracked && pendingSerials.length) {
           for (const sn of pendingSerials) {
-            await api.post<RestrictedSerialUnit>(
-              `/api/restricted-inventory/items/${encodeURIComponent(values.item_code)}/serials`,
-              { serial_number: sn }
-            );
+            await sdk.restrictedInventory.addSerial(values.item_code, sn);
           }
         }
         msg.success("Item created");
       } else {
         if (!active) return;
-        await api.put<RestrictedItem>(`/api/restricted-inventory/items/${encodeURIComponent(active.item_code)}`, {
+        await sdk.restrictedInventory.updateItem(active.item_code, {
           category: values.category,
           name: values.name,
           description: values.description,
@@ -526,6 +501,7 @@ export default function RestrictedInventoryPage() {
           unit_name: values.unit_name,
           quantity_on_hand: values.quantity_on_hand,
           min_quantity: values.min_quantity,
+          unit_cost: values.unit_cost,
           make_model: values.make_model,
           caliber: values.caliber,
           storage_location: values.storage_location,
@@ -546,24 +522,19 @@ export default function RestrictedInventoryPage() {
   }, [active, drawerMode, form, load, msg, pendingImages, pendingSerials, uploadImage]);
 
   const doAction = useCallback(
-    async (kind: ActionKind) => {
+    async (kind: RestrictedAction) => {
       if (!active) return;
 
       try {
-        const payload: Record<string, unknown> = { notes: actionNote.trim() || undefined };
+        const payload: Partial<InventoryIssuePayload> = { notes: actionNote.trim() || undefined, employee_id: actionEmp };
 
         if (active.is_serial_tracked) {
           payload.serial_numbers = actionSerials;
-          payload.employee_id = actionEmp;
         } else {
-          payload.quantity = actionQty;
-          payload.employee_id = actionEmp;
+          payload.quantity = actionQty ?? undefined;
         }
 
-        await api.post<RestrictedTransaction[]>(
-          `/api/restricted-inventory/items/${encodeURIComponent(active.item_code)}/${kind}`,
-          payload
-        );
+        await sdk.restrictedInventory.action(active.item_code, kind, payload);
 
         msg.success("Saved");
         resetActionForm();
@@ -917,6 +888,11 @@ export default function RestrictedInventoryPage() {
                 <Input type="number" />
               </Form.Item>
             </Col>
+            <Col xs={24} md={8}>
+              <Form.Item name="unit_cost" label="Unit Cost (Rs)">
+                <Input type="number" />
+              </Form.Item>
+            </Col>
 
             <Col xs={24} md={8}>
               <Form.Item name="make_model" label="Make / Model">
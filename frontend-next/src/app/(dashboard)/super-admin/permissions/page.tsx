@@ -2,13 +2,8 @@
 
 import { Button, Card, Form, Input, Modal, Table, Typography, message } from "antd";
 import { useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-
-type Permission = {
-  id: number;
-  key: string;
-  description?: string | null;
-};
+import { sdk } from "@/lib/sdk";
+import type { AdminPermission as Permission } from "@/lib/types";
 
 export default function PermissionsPage() {
   const [rows, setRows] = useState<Permission[]>([]);
@@ -19,7 +14,7 @@ export default function PermissionsPage() {
   const load = async () => {
     setLoading(true);
     try {
-      const data = await api.get<Permission[]>("/api/admin/permissions");
+      const data = await sdk.admin.permissions();
       setRows(data);
     } finally {
       setLoading(false);
@@ -40,7 +35,7 @@ export default function PermissionsPage() {
 
   const onCreate = async () => {
     const v = await form.validateFields();
-    await api.post<Permission>("/api/admin/permissions", v);
+    await sdk.admin.createPermission(v);
     message.success("Permission created");
     setOpen(false);
     form.resetFields();
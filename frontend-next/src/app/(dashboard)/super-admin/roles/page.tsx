@@ -2,21 +2,8 @@
 
 import { Button, Card, Form, Input, Modal, Select, Space, Table, Typography, message } from "antd";
 import { useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-
-type Permission = {
-  id: number;
-  key: string;
-  description?: string | null;
-};
-
-type Role = {
-  id: number;
-  name: string;
-  description?: string | null;
-  is_system: boolean;
-  permissions: Permission[];
-};
+import { sdk } from "@/lib/sdk";
+import type { AdminPermission as Permission, AdminRole as Role } from "@/lib/types";
 
 export default function RolesPage() {
   const [roles, setRoles] = useState<Role[]>([]);
@@ -30,8 +17,8 @@ export default function RolesPage() {
     setLoading(true);
     try {
       const [r, p] = await Promise.all([
-        api.get<Role[]>("/api/admin/roles"),
-        api.get<Permission[]>("/api/admin/permissions"),
+        sdk.admin.roles(),
+        sdk.admin.permissions(),
       ]);
       setRoles(r);
       setPerms(p);
@@ -73,7 +60,7 @@ export default function RolesPage() {
               danger
               disabled={row.is_system}
               onClick={async () => {
-                await api.del<void>(`/api/admin/roles/${row.id}`);
+                await sdk.admin.removeRole(row.id);
                 message.success("Role deleted");
                 await load();
               }}
@@ -90,10 +77,10 @@ export default function RolesPage() {
   const onSave = async () => {
     const v = await form.validateFields();
     if (editing) {
-      await api.put<Role>(`/api/admin/roles/${editing.id}`, v);
+      await sdk.admin.updateRole(editing.id, v);
       message.success("Role updated");
     } else {
-      await api.post<Role>("/api/admin/roles", v);
+      await sdk.admin.createRole(v);
       message.success("Role created");
     }
     setOpen(false);
@@ -2,27 +2,8 @@
 
 import { Button, Card, Form, Input, Modal, Select, Space, Switch, Table, Typography, message } from "antd";
 import { useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-
-type Permission = { id: number; key: string; description?: string | null };
-
-type Role = {
-  id: number;
-  name: string;
-  description?: string | null;
-  is_system: boolean;
-  permissions: Permission[];
-};
-
-type AdminUser = {
-  id: number;
-  email: string;
-  username: string;
-  full_name?: string | null;
-  is_active: boolean;
-  is_superuser: boolean;
-  roles: Role[];
-};
+import { sdk } from "@/lib/sdk";
+import type { AdminRole as Role, AdminUser } from "@/lib/types";
 
 const SEEDED_PASSWORDS: Record<string, string> = {
   superadmin: "SuperAdmin@123",
@@ -46,8 +27,8 @@ export default function UsersPage() {
     setLoading(true);
     try {
       const [u, r] = await Promise.all([
-        api.get<AdminUser[]>("/api/admin/users"),
-        api.get<Role[]>("/api/admin/roles"),
+        sdk.admin.users(),
+        sdk.admin.roles(),
       ]);
       setUsers(u);
       setRoles(r);
@@ -96,7 +77,7 @@ export default function UsersPage() {
             <Button
               danger
               onClick={async () => {
-                await api.del<void>(`/api/admin/users/${row.id}`);
+                await sdk.admin.removeUser(row.id);
                 message.success("User deleted");
                 await load();
               }}
@@ -113,10 +94,10 @@ export default function UsersPage() {
   const onSave = async () => {
     const v = await form.validateFields();
     if (editing) {
-      await api.put<AdminUser>(`/api/admin/users/${editing.id}`, v);
+      await sdk.admin.updateUser(editing.id, v);
       message.success("User updated");
     } else {
-      await api.post<AdminUser>("/api/admin/users", v);
+      await sdk.admin.createUser(v);
       message.success("User created");
     }
     setOpen(false);
@@ -33,9 +33,9 @@ import {
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import type {
-  Employee,
+  Employee2,
   Vehicle,
   VehicleAssignment,
   VehicleAssignmentCreate,
@@ -61,9 +61,13 @@ function errorMessage(e: unknown, fallback: string): string {
   return fallback;
 }
 
-function employeeLabel(e: Employee): string {
-  const name = `${e.first_name ?? ""} ${e.last_name ?? ""}`.trim();
-  return name ? `${name} (${e.employee_id})` : e.employee_id;
+/** Same code attendance, payroll and inventory issues use, so vehicle costs can be joined to them. */
+function employeeCode(e: Employee2): string {
+  return String(e.fss_no || e.serial_no || e.id);
+}
+
+function employeeLabel(e: Employee2): string {
+  return e.name ? `${e.name} (${employeeCode(e)})` : employeeCode(e);
 }
 
 export default function VehicleAssignmentsPage() {
@@ -73,7 +77,7 @@ export default function VehicleAssignmentsPage() {
   const [rows, setRows] = useState<VehicleAssignment[]>([]);
 
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [employees, setEmployees] = useState<Employee2[]>([]);
 
   const [filters, setFilters] = useState<TableFilters>({});
 
@@ -90,14 +94,12 @@ export default function VehicleAssignmentsPage() {
   const loadMeta = useCallback(async () => {
     try {
       const [veh, emp] = await Promise.all([
-        api.get<Vehicle[]>("/api/vehicles/", { query: { limit: 500 } }),
-        api.get<{ employees: Employee[] }>("/api/employees/", {
-          query: { skip: 0, limit: 500, with_total: false },
-        }),
+        sdk.vehicles.list(500),
+        sdk.employees2.listAll(),
       ]);
 
       setVehicles(Array.isArray(veh) ? veh : []);
-      setEmployees(Array.isArray(emp?.employees) ? emp.employees : []);
+      setEmployees(emp);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load vehicles/employees"));
     }
@@ -106,7 +108,7 @@ export default function VehicleAssignmentsPage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<VehicleAssignment[]>("/api/vehicle-assignments/");
+      const data = await sdk.vehicleAssignments.list();
       setRows(Array.isArray(data) ? data : []);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load assignments"));
@@ -196,7 +198,7 @@ export default function VehicleAssignmentsPage() {
       };
 
       if (drawerMode === "create") {
-        await api.post<VehicleAssignment>("/api/vehicle-assignments/", payload);
+        await sdk.vehicleAssignments.create(payload);
         msg.success("Assignment created");
       } else {
         if (!active) return;
@@ -209,7 +211,7 @@ export default function VehicleAssignmentsPage() {
           assignment_date: payload.assignment_date,
           notes: payload.notes ?? null,
         };
-        await api.put<VehicleAssignment>(`/api/vehicle-assignments/${active.id}`, patch);
+        await sdk.vehicleAssignments.update(active.id, patch);
         msg.success("Assignment updated");
       }
       setDrawerOpen(false);
@@ -233,7 +235,7 @@ export default function VehicleAssignmentsPage() {
       return;
     }
     try {
-      await api.put<VehicleAssignment>(`/api/vehicle-assignments/${completeTarget.id}`, {
+      await sdk.vehicleAssignments.update(completeTarget.id, {
         status: "Complete",
         distance_km: completeKm,
         amount: completeAmount,
@@ -250,7 +252,7 @@ export default function VehicleAssignmentsPage() {
   const markIncomplete = useCallback(
     async (a: VehicleAssignment) => {
       try {
-        await api.put<VehicleAssignment>(`/api/vehicle-assignments/${a.id}`, { status: "Incomplete" });
+        await sdk.vehicleAssignments.update(a.id, { status: "Incomplete" });
         msg.success("Marked incomplete");
         await load();
       } catch (e: unknown) {
@@ -263,7 +265,7 @@ export default function VehicleAssignmentsPage() {
   const onDelete = useCallback(
     async (a: VehicleAssignment) => {
       try {
-        await api.del<{ message: string }>(`/api/vehicle-assignments/${a.id}`);
+        await sdk.vehicleAssignments.remove(a.id);
         msg.success("Assignment deleted");
         await load();
       } catch (e: unknown) {
@@ -289,7 +291,7 @@ export default function VehicleAssignmentsPage() {
       employees
         .map((e) => ({
           label: employeeLabel(e),
-          value: e.employee_id,
+          value: employeeCode(e),
         }))
         .sort((a, b) => a.label.localeCompare(b.label)),
     [employees]
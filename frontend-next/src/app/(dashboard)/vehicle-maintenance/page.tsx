@@ -31,8 +31,7 @@ import {
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
-import { API_BASE_URL } from "@/lib/config";
+import { sdk } from "@/lib/sdk";
 import type {
   Employee,
   Vehicle,
@@ -86,10 +85,8 @@ export default function VehicleMaintenancePage() {
   const loadMeta = useCallback(async () => {
     try {
       const [veh, emp] = await Promise.all([
-        api.get<Vehicle[]>("/api/vehicles/", { query: { limit: 500 } }),
-        api.get<{ employees: Employee[] }>("/api/employees/", {
-          query: { skip: 0, limit: 500, with_total: false },
-        }),
+        sdk.vehicles.list(500),
+        sdk.employees.list({ skip: 0, limit: 500, with_total: false }),
       ]);
       setVehicles(Array.isArray(veh) ? veh : []);
       setEmployees(Array.isArray(emp?.employees) ? emp.employees : []);
@@ -101,11 +98,9 @@ export default function VehicleMaintenancePage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<VehicleMaintenance[]>("/api/vehicle-maintenance/", {
-        query: {
-          vehicle_id: filters.vehicle_id,
-          employee_id: filters.employee_id,
-        },
+      const data = await sdk.vehicleMaintenance.list({
+        vehicle_id: filters.vehicle_id,
+        employee_id: filters.employee_id,
       });
       setRows(Array.isArray(data) ? data : []);
     } catch (e: unknown) {
@@ -191,12 +186,12 @@ export default function VehicleMaintenancePage() {
       };
 
       if (drawerMode === "create") {
-        await api.post<VehicleMaintenance>("/api/vehicle-maintenance/", payload);
+        await sdk.vehicleMaintenance.create(payload);
         msg.success("Maintenance record created");
       } else {
         if (!active) return;
         const patch: VehicleMaintenanceUpdate = payload;
-        await api.put<VehicleMaintenance>(`/api/vehicle-maintenance/${active.id}`, patch);
+        await sdk.vehicleMaintenance.update(active.id, patch);
         msg.success("Maintenance record updated");
       }
 
@@ -210,7 +205,7 @@ export default function VehicleMaintenancePage() {
   const onDelete = useCallback(
     async (r: VehicleMaintenance) => {
       try {
-        await api.del<{ message: string }>(`/api/vehicle-maintenance/${r.id}`);
+        await sdk.vehicleMaintenance.remove(r.id);
         msg.success("Maintenance record deleted");
         await load();
       } catch (e: unknown) {
@@ -333,30 +328,30 @@ export default function VehicleMaintenancePage() {
     URL.revokeObjectURL(url);
   }, [filteredRows, filters.date, filters.month]);
 
-  const downloadReceiptPdf = useCallback((r: VehicleMaintenance) => {
-    const a = document.createElement("a");
-    a.href = `${API_BASE_URL}/api/vehicle-maintenance/${r.id}/receipt`;
-    a.download = `maintenance_receipt_${r.id}.pdf`;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-  }, []);
-
-  const exportPdf = useCallback(() => {
-    const qs = new URLSearchParams();
-    if (filters.vehicle_id) qs.set("vehicle_id", filters.vehicle_id);
-    if (filters.employee_id) qs.set("employee_id", filters.employee_id);
-    if (filters.vendor) qs.set("vendor", filters.vendor);
-    if (filters.date) qs.set("date", filters.date.format("YYYY-MM-DD"));
-    if (filters.month) qs.set("month", filters.month.format("YYYY-MM"));
+  const downloadReceiptPdf = useCallback(
+    async (r: VehicleMaintenance) => {
+      try {
+        await sdk.vehicleMaintenance.receiptPdf(r.id);
+      } catch (e: unknown) {
+        msg.error(errorMessage(e, "Failed to download receipt"));
+      }
+    },
+    [msg]
+  );
 
-    const a = document.createElement("a");
-    a.href = `${API_BASE_URL}/api/vehicle-maintenance/export/pdf?${qs.toString()}`;
-    a.download = "vehicle_maintenance_report.pdf";
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-  }, [filters.date, filters.employee_id, filters.month, filters.vehicle_id, filters.vendor]);
+  const exportPdf = useCallback(async () => {
+    try {
+      await sdk.vehicleMaintenance.exportPdf({
+        vehicle_id: filters.vehicle_id || undefined,
+        employee_id: filters.employee_id || undefined,
+        vendor: filters.vendor || undefined,
+        date: filters.date ? filters.date.format("YYYY-MM-DD") : undefined,
+        month: filters.month ? filters.month.format("YYYY-MM") : undefined,
+      });
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to export PDF"));
+    }
+  }, [filters.date, filters.employee_id, filters.month, filters.vehicle_id, filters.vendor, msg]);
 
   const columns = useMemo<ColumnsType<VehicleMaintenance>>(
     () => [
@@ -421,7 +416,7 @@ export default function VehicleMaintenancePage() {
         fixed: "right",
         render: (_, r) => (
           <Space size={4}>
-            <Button size="small" icon={<DownloadOutlined />} onClick={() => downloadReceiptPdf(r)} />
+            <Button size="small" icon={<DownloadOutlined />} onClick={() => void downloadReceiptPdf(r)} />
             <Button size="small" icon={<EyeOutlined />} onClick={() => openView(r)} />
             <Button size="small" icon={<EditOutlined />} style={{ color: "#183c70" }} onClick={() => openEdit(r)} />
             <Popconfirm title="Delete this record?" onConfirm={() => void onDelete(r)}>
@@ -453,7 +448,7 @@ export default function VehicleMaintenancePage() {
                 <Button icon={<ReloadOutlined />} onClick={() => void load()}>
                   Refresh
                 </Button>
-                <Button icon={<DownloadOutlined />} onClick={exportPdf}>
+                <Button icon={<DownloadOutlined />} onClick={() => void exportPdf()}>
                   Export PDF
                 </Button>
                 <Button icon={<DownloadOutlined />} onClick={exportCsv}>
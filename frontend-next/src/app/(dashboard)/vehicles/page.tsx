@@ -31,9 +31,9 @@ import {
   ReloadOutlined,
 } from "@ant-design/icons";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { api } from "@/lib/api";
+import { sdk } from "@/lib/sdk";
 import { API_BASE_URL } from "@/lib/config";
-import type { Vehicle, VehicleCreate, VehicleUpdate } from "@/lib/types";
+import type { Vehicle, VehicleCreate, VehicleDocument, VehicleImage, VehicleUpdate } from "@/lib/types";
 
 type TableFilters = {
   search?: string;
@@ -46,27 +46,6 @@ type TableFilters = {
 
 type FormValues = VehicleCreate;
 
-type VehicleDocument = {
-  id: number;
-  vehicle_id: string;
-  name: string;
-  filename: string;
-  url: string;
-  mime_type: string;
-  created_at: string;
-  updated_at?: string | null;
-};
-
-type VehicleImage = {
-  id: number;
-  vehicle_id: string;
-  filename: string;
-  url: string;
-  mime_type: string;
-  created_at: string;
-  updated_at?: string | null;
-};
-
 type PendingDoc = { name: string; file: File };
 
 function errorMessage(e: unknown, fallback: string): string {
@@ -105,7 +84,7 @@ export default function VehiclesPage() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await api.get<Vehicle[]>("/api/vehicles/", { query: { limit: 500 } });
+      const data = await sdk.vehicles.list(500);
       setRows(Array.isArray(data) ? data : []);
     } catch (e: unknown) {
       msg.error(errorMessage(e, "Failed to load vehicles"));
@@ -149,7 +128,7 @@ export default function VehiclesPage() {
     async (vehicleId: string) => {
       setDocsLoading(true);
       try {
-        const list = await api.get<VehicleDocument[]>(`/api/vehicles/${encodeURIComponent(vehicleId)}/documents`);
+        const list = await sdk.vehicles.documents(vehicleId);
         setDocs(Array.isArray(list) ? list : []);
       } catch {
         setDocs([]);
@@ -163,7 +142,7 @@ export default function VehiclesPage() {
   const loadImages = useCallback(async (vehicleId: string) => {
     setImagesLoading(true);
     try {
-      const list = await api.get<VehicleImage[]>(`/api/vehicles/${encodeURIComponent(vehicleId)}/images`);
+      const list = await sdk.vehicles.images(vehicleId);
       setImages(Array.isArray(list) ? list : []);
     } catch {
       setImages([]);
@@ -233,50 +212,16 @@ export default function VehiclesPage() {
   );
 
   const uploadDoc = useCallback(async (vehicleId: string, name: string, file: File) => {
-    const fd = new FormData();
-    fd.set("name", name);
-    fd.set("file", file);
-
-    const res = await fetch(
-      `${API_BASE_URL}/api/vehicles/${encodeURIComponent(vehicleId)}/documents`,
-      {
-        method: "POST",
-        body: fd,
-      }
-    );
-
-    const text = await res.text();
-    const data = text ? (JSON.parse(text) as unknown) : null;
-    if (!res.ok) {
-      let m = "Upload failed";
-      if (data && typeof data === "object" && "detail" in data) m = String((data as { detail?: unknown }).detail);
-      throw new Error(m);
-    }
+    await sdk.vehicles.uploadDocument(vehicleId, name, file);
   }, []);
 
   const uploadImage = useCallback(async (vehicleId: string, file: File) => {
-    const fd = new FormData();
-    fd.set("file", file);
-
-    const res = await fetch(`${API_BASE_URL}/api/vehicles/${encodeURIComponent(vehicleId)}/images`, {
-      method: "POST",
-      body: fd,
-    });
-
-    const text = await res.text();
-    const data = text ? (JSON.parse(text) as unknown) : null;
-    if (!res.ok) {
-      let m = "Image upload failed";
-      if (data && typeof data === "object" && "detail" in data) m = String((data as { detail?: unknown }).detail);
-      throw new Error(m);
-    }
+    await sdk.vehicles.uploadImage(vehicleId, file);
   }, []);
 
   const deleteDoc = useCallback(
     async (vehicleId: string, docId: number) => {
-      await api.del<{ message: string }>(
-        `/api/vehicles/${encodeURIComponent(vehicleId)}/documents/${docId}`
-      );
+      await sdk.vehicles.removeDocument(vehicleId, docId);
       await loadDocs(vehicleId);
     },
     [loadDocs]
@@ -284,9 +229,7 @@ export default function VehiclesPage() {
 
   const deleteImage = useCallback(
     async (vehicleId: string, imageId: number) => {
-      await api.del<{ message: string }>(
-        `/api/vehicles/${encodeURIComponent(vehicleId)}/images/${imageId}`
-      );
+      await sdk.vehicles.removeImage(vehicleId, imageId);
       await loadImages(vehicleId);
     },
     [loadImages]
@@ -314,7 +257,7 @@ export default function VehiclesPage() {
 
     try {
       if (drawerMode === "create") {
-        await api.post<Vehicle>("/api/vehicles/", values);
+        await sdk.vehicles.create(values);
         for (const img of pendingImages) {
           await uploadImage(values.vehicle_id, img);
         }
@@ -336,7 +279,7 @@ export default function VehiclesPage() {
           compliance: values.compliance,
           government_permit: values.government_permit,
         };
-        await api.put<Vehicle>(`/api/vehicles/${encodeURIComponent(active.vehicle_id)}`, patch);
+        await sdk.vehicles.update(active.vehicle_id, patch);
         for (const img of pendingImages) {
           await uploadImage(active.vehicle_id, img);
         }
@@ -355,7 +298,7 @@ export default function VehiclesPage() {
   const onDelete = useCallback(
     async (v: Vehicle) => {
       try {
-        await api.del<{ message: string }>(`/api/vehicles/${encodeURIComponent(v.vehicle_id)}`);
+        await sdk.vehicles.remove(v.vehicle_id);
         msg.success("Vehicle deleted");
         await load();
       } catch (e: unknown) {
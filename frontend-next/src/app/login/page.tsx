@@ -3,14 +3,10 @@
 import { Alert, Button, Card, Form, Input, Typography } from "antd";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
-import { useAuth } from "@/lib/auth";
+import { setSession, type TokenPair } from "@/lib/api";
+import { safeNextPath, useAuth } from "@/lib/auth";
 import { API_BASE_URL } from "@/lib/config";
 
-type LoginResponse = {
-  access_token: string;
-  token_type: string;
-};
-
 export default function LoginPage() {
   const router = useRouter();
   const { refresh } = useAuth();
@@ -44,10 +40,10 @@ export default function LoginPage() {
         throw new Error(msg);
       }
 
-      const token = data as LoginResponse;
-      window.localStorage.setItem("access_token", token.access_token);
+      setSession(data as TokenPair);
       await refresh();
-      router.replace("/dashboard");
+      const next = new URLSearchParams(window.location.search).get("next");
+      router.replace(safeNextPath(next) ?? "/dashboard");
     } catch (e) {
       setError(e instanceof Error ? e.message : "Login failed");
     } finally {
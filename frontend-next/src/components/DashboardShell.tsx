@@ -2,12 +2,17 @@
 
 import { Avatar, Layout, Menu, Typography, theme, type MenuProps } from "antd";
 import {
+  BankOutlined,
   BarChartOutlined,
+  BookOutlined,
   CalendarOutlined,
   CarOutlined,
   DollarOutlined,
   DashboardOutlined,
+  PartitionOutlined,
   SafetyCertificateOutlined,
+  ScheduleOutlined,
+  TableOutlined,
   ToolOutlined,
   TeamOutlined,
   UserOutlined,
@@ -15,7 +20,10 @@ import {
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
-import { useAuth } from "@/lib/auth";
+import { loginPath, useAuth } from "@/lib/auth";
+import IdleTimeoutModal from "./IdleTimeoutModal";
+import LeaveInbox from "./LeaveInbox";
+import SyncStatus from "./SyncStatus";
 
 const { Header, Sider, Content } = Layout;
 
@@ -41,7 +49,7 @@ export default function DashboardShell({
   useEffect(() => {
     if (loading) return;
     if (!user) {
-      router.replace("/login");
+      router.replace(loginPath(pathname));
       return;
     }
 
@@ -62,13 +70,21 @@ export default function DashboardShell({
     if (pathname.startsWith("/dashboard")) return hideDashboard ? ["employees"] : ["dashboard"];
     if (pathname.startsWith("/employees/inventory")) return ["employees-inventory"];
     if (pathname.startsWith("/employees")) return ["employees"];
+    if (pathname.startsWith("/attendance/register")) return ["attendance-register"];
     if (pathname.startsWith("/attendance")) return ["attendance"];
+    if (pathname.startsWith("/leave")) return ["leave"];
+    if (pathname.startsWith("/payroll2/disbursement")) return ["payroll2-disbursement"];
     if (pathname.startsWith("/payroll2")) return ["payroll2"];
     if (pathname.startsWith("/payroll")) return ["payroll"];
     if (pathname.startsWith("/performance")) return ["performance"];
+    if (pathname.startsWith("/client-management/roster")) return ["client-roster"];
     if (pathname.startsWith("/client-management")) return ["client-management"];
     if (pathname.startsWith("/accounts-advances/expenses")) return ["accounts-expenses"];
+    if (pathname.startsWith("/accounts-advances/receivables")) return ["accounts-receivables"];
     if (pathname.startsWith("/accounts-advances")) return ["accounts-employee-records"];
+    if (pathname.startsWith("/finance/journals")) return ["accounts-journals"];
+    if (pathname.startsWith("/finance/accounts")) return ["accounts-chart"];
+    if (pathname.startsWith("/finance/reports")) return ["accounts-reports"];
     if (pathname.startsWith("/super-admin/users")) return ["super-admin-users"];
     if (pathname.startsWith("/super-admin/roles")) return ["super-admin-roles"];
     if (pathname.startsWith("/super-admin/permissions")) return ["super-admin-permissions"];
@@ -84,9 +100,27 @@ export default function DashboardShell({
 
   const activeRootKey = useMemo(() => {
     const key = selectedKeys[0];
-    if (["employees", "employees-inventory", "attendance", "payroll", "performance"].includes(key)) return "hrm";
-    if (["client-management"].includes(key)) return "clients";
-    if (["accounts-employee-records", "accounts-expenses"].includes(key)) return "accounts";
+    const hrmKeys = [
+      "employees",
+      "employees-inventory",
+      "attendance",
+      "attendance-register",
+      "leave",
+      "payroll",
+      "payroll2-disbursement",
+      "performance",
+    ];
+    if (hrmKeys.includes(key)) return "hrm";
+    if (["client-management", "client-roster"].includes(key)) return "clients";
+    const accountsKeys = [
+      "accounts-employee-records",
+      "accounts-expenses",
+      "accounts-receivables",
+      "accounts-journals",
+      "accounts-chart",
+      "accounts-reports",
+    ];
+    if (accountsKeys.includes(key)) return "accounts";
     if (["vehicles", "vehicle-assignments", "vehicle-maintenance", "fuel-mileage"].includes(key)) return "fleet";
     if (["general-inventory", "restricted-inventory"].includes(key)) return "inventory";
     return "hrm";
@@ -137,6 +171,18 @@ export default function DashboardShell({
         icon: <CalendarOutlined />,
         label: <Link href="/attendance">Attendance</Link>,
       });
+      hrmChildren.push({
+        key: "attendance-register",
+        icon: <TableOutlined />,
+        label: <Link href="/attendance/register">Muster Roll</Link>,
+      });
+    }
+    if (has("attendance:manage") || has("leave:request") || has("leave:approve")) {
+      hrmChildren.push({
+        key: "leave",
+        icon: <ScheduleOutlined />,
+        label: <Link href="/leave">Leave</Link>,
+      });
     }
     if (has("payroll:view")) {
       // Hidden for now
@@ -150,6 +196,11 @@ export default function DashboardShell({
         icon: <DollarOutlined />,
         label: <Link href="/payroll2">Salaries</Link>,
       });
+      hrmChildren.push({
+        key: "payroll2-disbursement",
+        icon: <BankOutlined />,
+        label: <Link href="/payroll2/disbursement">Disbursement</Link>,
+      });
     }
 
     if (has("performance:view")) {
@@ -181,6 +232,11 @@ export default function DashboardShell({
             icon: <UserOutlined />,
             label: <Link href="/client-management">Client Management</Link>,
           },
+          {
+            key: "client-roster",
+            icon: <CalendarOutlined />,
+            label: <Link href="/client-management/roster">Guard Roster</Link>,
+          },
         ],
       });
       addDivider();
@@ -202,6 +258,26 @@ export default function DashboardShell({
             icon: <DollarOutlined />,
             label: <Link href="/accounts-advances/expenses">Expenses</Link>,
           },
+          {
+            key: "accounts-receivables",
+            icon: <BankOutlined />,
+            label: <Link href="/accounts-advances/receivables">Receivables</Link>,
+          },
+          {
+            key: "accounts-journals",
+            icon: <BookOutlined />,
+            label: <Link href="/finance/journals">Journals</Link>,
+          },
+          {
+            key: "accounts-chart",
+            icon: <PartitionOutlined />,
+            label: <Link href="/finance/accounts/chart">Chart of Accounts</Link>,
+          },
+          {
+            key: "accounts-reports",
+            icon: <BarChartOutlined />,
+            label: <Link href="/finance/reports">Financial Reports</Link>,
+          },
         ],
       });
       addDivider();
@@ -479,13 +555,17 @@ export default function DashboardShell({
           <Typography.Title level={3} style={{ margin: 0 }}>
             {greeting}
           </Typography.Title>
-          <Avatar
-            size={36}
-            style={{ background: token.colorPrimary, cursor: "pointer" }}
-            src={avatarUrl}
-          >
-            U
-          </Avatar>
+          <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+            {has("leave:approve") ? <LeaveInbox /> : null}
+            <SyncStatus />
+            <Avatar
+              size={36}
+              style={{ background: token.colorPrimary, cursor: "pointer" }}
+              src={avatarUrl}
+            >
+              U
+            </Avatar>
+          </div>
         </Header>
 
         <Content
@@ -500,6 +580,7 @@ export default function DashboardShell({
           {children}
         </Content>
       </Layout>
+      <IdleTimeoutModal />
     </Layout>
   );
 }
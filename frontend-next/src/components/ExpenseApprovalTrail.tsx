@@ -0,0 +1,53 @@
+"use client";
+
+import { Timeline, Typography } from "antd";
+import dayjs from "dayjs";
+import type { Expense } from "@/lib/types";
+
+function when(at: string): string {
+  return dayjs(at).format("MMM DD, YYYY HH:mm");
+}
+
+/** Who submitted, approved, rejected and paid an expense, and when. */
+export default function ExpenseApprovalTrail({ expense }: { expense: Expense }) {
+  const items = [
+    {
+      color: "gray",
+      children: (
+        <>
+          Submitted{expense.submitted_by ? ` by ${expense.submitted_by}` : ""}
+          <br />
+          <Typography.Text type="secondary">{when(expense.created_at)}</Typography.Text>
+        </>
+      ),
+    },
+    ...(expense.approvals ?? []).map((a) => ({
+      color: a.action === "approved" ? "green" : "red",
+      children: (
+        <>
+          {a.action === "approved" ? "Approved" : "Rejected"} by <b>{a.approver}</b>
+          {a.on_behalf_of ? ` on behalf of ${a.on_behalf_of}` : ""}
+          <br />
+          <Typography.Text type="secondary">{when(a.created_at)}</Typography.Text>
+          {a.comment ? <div style={{ marginTop: 4 }}>“{a.comment}”</div> : null}
+        </>
+      ),
+    })),
+    ...(expense.paid_at
+      ? [
+          {
+            color: "blue",
+            children: (
+              <>
+                Paid
+                <br />
+                <Typography.Text type="secondary">{when(expense.paid_at)}</Typography.Text>
+              </>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return <Timeline items={items} />;
+}
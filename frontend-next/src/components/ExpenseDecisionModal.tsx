@@ -0,0 +1,87 @@
+"use client";
+
+import { Form, Input, Modal, Typography, message } from "antd";
+import { useEffect, useState } from "react";
+import { formatRs } from "@/lib/money";
+import { sdk } from "@/lib/sdk";
+import type { Expense } from "@/lib/types";
+
+export type ExpenseDecision = {
+  expense: Expense;
+  action: "approve" | "reject";
+  /** Approver being stood in for when it is not the current user. */
+  onBehalfOf?: string | null;
+};
+
+/** Approve with an optional comment, or reject with a required reason. */
+export default function ExpenseDecisionModal({
+  decision,
+  onClose,
+  onDone,
+}: {
+  decision: ExpenseDecision | null;
+  onClose: () => void;
+  onDone: (updated: Expense) => void;
+}) {
+  const [msg, msgCtx] = message.useMessage();
+  const [form] = Form.useForm<{ text?: string }>();
+  const [saving, setSaving] = useState(false);
+  const rejecting = decision?.action === "reject";
+
+  useEffect(() => {
+    if (decision) form.resetFields();
+  }, [decision, form]);
+
+  const submit = async () => {
+    if (!decision) return;
+    const { text } = await form.validateFields();
+    const on_behalf_of = decision.onBehalfOf || null;
+    setSaving(true);
+    try {
+      const updated = rejecting
+        ? await sdk.expenses.reject(decision.expense.id, { reason: String(text || "").trim(), on_behalf_of })
+        : await sdk.expenses.approve(decision.expense.id, { comment: text?.trim() || null, on_behalf_of });
+      onDone(updated);
+    } catch (e: unknown) {
+      const m = e && typeof e === "object" && "message" in e ? (e as { message?: unknown }).message : null;
+      msg.error(typeof m === "string" ? m : rejecting ? "Failed to reject expense" : "Failed to approve expense");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={Boolean(decision)}
+      title={rejecting ? "Reject Expense" : "Approve Expense"}
+      okText={rejecting ? "Reject" : "Approve"}
+      okButtonProps={{ danger: rejecting }}
+      confirmLoading={saving}
+      onOk={() => void submit()}
+      onCancel={onClose}
+      destroyOnHidden
+    >
+      {msgCtx}
+      {decision ? (
+        <Typography.Paragraph>
+          {decision.expense.category} · {decision.expense.description} · <b>{formatRs(decision.expense.amount, 2)}</b>
+          {decision.onBehalfOf ? (
+            <>
+              <br />
+              <Typography.Text type="secondary">Signing on behalf of {decision.onBehalfOf}</Typography.Text>
+            </>
+          ) : null}
+        </Typography.Paragraph>
+      ) : null}
+      <Form form={form} layout="vertical">
+        <Form.Item
+          name="text"
+          label={rejecting ? "Reason" : "Comment"}
+          rules={rejecting ? [{ required: true, whitespace: true, message: "Give a reason for the rejection" }] : []}
+        >
+          <Input.TextArea rows={3} maxLength={500} showCount />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { Button, Card, Segmented, Table, Tag, Typography } from "antd";
+import { ReloadOutlined } from "@ant-design/icons";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { EXPIRY_WINDOWS, buildExpiryAlerts, type ExpiryAlert, type ExpiryWindow } from "@/lib/contracts";
+import { sdk } from "@/lib/sdk";
+
+const WINDOW_TAGS: Record<string, { color: string; label: string }> = {
+  expired: { color: "red", label: "Expired" },
+  30: { color: "volcano", label: "≤ 30 days" },
+  60: { color: "orange", label: "31–60 days" },
+  90: { color: "gold", label: "61–90 days" },
+};
+
+/** Contracts and client documents expiring within 90 days, grouped by window. */
+export default function ExpiryAlerts({ onOpenClient }: { onOpenClient?: (clientId: number) => void }) {
+  const [alerts, setAlerts] = useState<ExpiryAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [filter, setFilter] = useState<"all" | ExpiryWindow>("all");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setFailed(false);
+    try {
+      setAlerts(buildExpiryAlerts(await sdk.clients.expiries(90)));
+    } catch {
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const counts = useMemo(() => {
+    const out: Record<string, number> = {};
+    for (const a of alerts) out[a.window] = (out[a.window] ?? 0) + 1;
+    return out;
+  }, [alerts]);
+
+  const shown = filter === "all" ? alerts : alerts.filter((a) => a.window === filter);
+
+  return (
+    <Card
+      size="small"
+      title="Expiring Contracts & Documents"
+      extra={<Button size="small" type="text" icon={<ReloadOutlined />} onClick={() => void load()} loading={loading} />}
+    >
+      <Segmented<"all" | ExpiryWindow>
+        size="small"
+        style={{ marginBottom: 8 }}
+        value={filter}
+        onChange={setFilter}
+        options={[
+          { label: `All (${alerts.length})`, value: "all" },
+          ...(["expired", ...EXPIRY_WINDOWS] as ExpiryWindow[]).map((w) => ({
+            label: `${WINDOW_TAGS[w].label} (${counts[w] ?? 0})`,
+            value: w,
+          })),
+        ]}
+      />
+      <Table<ExpiryAlert>
+        size="small"
+        rowKey="key"
+        loading={loading}
+        dataSource={shown}
+        pagination={shown.length > 8 ? { pageSize: 8, size: "small" } : false}
+        locale={{ emptyText: failed ? "Could not load expiries" : "Nothing expiring in the next 90 days" }}
+        columns={[
+          {
+            title: "Client",
+            dataIndex: "client_name",
+            render: (v: string, r) =>
+              onOpenClient ? (
+                <Typography.Link onClick={() => onOpenClient(r.client_id)}>{v}</Typography.Link>
+              ) : (
+                v
+              ),
+          },
+          {
+            title: "Item",
+            key: "item",
+            render: (_, r) => (
+              <>
+                <Tag color={r.kind === "contract" ? "blue" : "purple"}>{r.kind === "contract" ? "Contract" : "Document"}</Tag>
+                {r.label}
+              </>
+            ),
+          },
+          { title: "Expiry", dataIndex: "expiry_date", width: 110 },
+          {
+            title: "",
+            key: "window",
+            width: 130,
+            render: (_, r) => (
+              <Tag color={WINDOW_TAGS[r.window].color}>
+                {r.days_left < 0 ? `${-r.days_left} days ago` : r.days_left === 0 ? "Today" : `${r.days_left} days`}
+              </Tag>
+            ),
+          },
+        ]}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { Button, Modal, Typography } from "antd";
+import { usePathname, useRouter } from "next/navigation";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loginPath, useAuth } from "@/lib/auth";
+
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const WARNING_MS = 60 * 1000;
+const ACTIVITY_KEY = "last_activity_at";
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "scroll", "touchstart"] as const;
+
+function readLastActivity(): number {
+  const raw = Number(window.localStorage.getItem(ACTIVITY_KEY));
+  return Number.isFinite(raw) && raw > 0 ? raw : Date.now();
+}
+
+/**
+ * Signs the user out after a period of inactivity, with a countdown warning
+ * first. Activity is shared through localStorage so working in one tab keeps
+ * the others alive.
+ */
+export default function IdleTimeoutModal() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { user, logout } = useAuth();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastWrite = useRef(0);
+
+  const markActive = useCallback(() => {
+    const now = Date.now();
+    // Throttled: every keystroke does not need to hit localStorage
+    if (now - lastWrite.current < 5000) return;
+    lastWrite.current = now;
+    window.localStorage.setItem(ACTIVITY_KEY, String(now));
+  }, []);
+
+  const signOut = useCallback(() => {
+    setSecondsLeft(null);
+    window.localStorage.removeItem(ACTIVITY_KEY);
+    logout();
+    router.replace(loginPath(pathname));
+  }, [logout, pathname, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    lastWrite.current = 0;
+    markActive();
+
+    for (const ev of ACTIVITY_EVENTS) window.addEventListener(ev, markActive, { passive: true });
+
+    const tick = window.setInterval(() => {
+      const remaining = readLastActivity() + IDLE_TIMEOUT_MS - Date.now();
+      if (remaining <= 0) signOut();
+      else if (remaining <= WARNING_MS) setSecondsLeft(Math.ceil(remaining / 1000));
+      else setSecondsLeft(null);
+    }, 1000);
+
+    return () => {
+      for (const ev of ACTIVITY_EVENTS) window.removeEventListener(ev, markActive);
+      window.clearInterval(tick);
+    };
+  }, [markActive, signOut, user]);
+
+  const stay = useCallback(() => {
+    lastWrite.current = 0;
+    markActive();
+    setSecondsLeft(null);
+  }, [markActive]);
+
+  return (
+    <Modal
+      open={secondsLeft !== null}
+      title="Are you still there?"
+      closable={false}
+      maskClosable={false}
+      keyboard={false}
+      footer={[
+        <Button key="logout" onClick={signOut}>
+          Sign out
+        </Button>,
+        <Button key="stay" type="primary" onClick={stay}>
+          Stay signed in
+        </Button>,
+      ]}
+    >
+      <Typography.Text>
+        You have been inactive for a while. For security you will be signed out in{" "}
+        <Typography.Text strong>{secondsLeft ?? 0}s</Typography.Text>.
+      </Typography.Text>
+    </Modal>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { Alert, Col, DatePicker, InputNumber, Modal, Row, Space, Statistic, Table, Tag, Typography, message } from "antd";
+import dayjs, { type Dayjs } from "dayjs";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_SALES_TAX_RATE,
+  buildInvoicePreview,
+  invoicePayload,
+  loadInvoiceInputs,
+  type InvoiceInputs,
+  type RequirementBilling,
+} from "@/lib/invoicing";
+import { formatRs } from "@/lib/money";
+import { postEvent, tryPosting } from "@/lib/posting";
+import { sdk } from "@/lib/sdk";
+import type { ClientDetail, ClientInvoice, ClientInvoiceLine } from "@/lib/types";
+
+const SOURCE_TAGS: Record<RequirementBilling["source"], { color: string; label: string }> = {
+  roster: { color: "blue", label: "Roster" },
+  allocations: { color: "purple", label: "Allocations" },
+  contract: { color: "default", label: "Contract" },
+};
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+function defaultPeriod(): [Dayjs, Dayjs] {
+  const today = dayjs();
+  const to = today.date() >= 26 ? today.date(25) : today.subtract(1, "month").date(25);
+  return [to.subtract(1, "month").date(26), to];
+}
+
+/** Invoice preview from delivered guard-days, issued only after review. */
+export default function InvoiceBuilder({
+  client,
+  open,
+  onClose,
+  onIssued,
+}: {
+  client: ClientDetail | null;
+  open: boolean;
+  onClose: () => void;
+  onIssued: (invoice: ClientInvoice) => void;
+}) {
+  const [msg, msgCtx] = message.useMessage();
+  const [period, setPeriod] = useState<[Dayjs, Dayjs]>(defaultPeriod);
+  const [invoiceDate, setInvoiceDate] = useState(() => dayjs());
+  const [taxRate, setTaxRate] = useState(DEFAULT_SALES_TAX_RATE);
+  const [inputs, setInputs] = useState<InvoiceInputs | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [issuing, setIssuing] = useState(false);
+
+  const registered = Boolean(client?.vat_gst_number?.trim());
+
+  useEffect(() => {
+    if (!open || !client) return;
+    let cancelled = false;
+    setLoading(true);
+    setInputs(null);
+    void loadInvoiceInputs(client, period[0].format("YYYY-MM-DD"), period[1].format("YYYY-MM-DD"))
+      .then((next) => {
+        if (!cancelled) setInputs(next);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) msg.error(errorMessage(e, "Failed to load attendance for the period"));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, msg, open, period]);
+
+  const preview = useMemo(() => (inputs ? buildInvoicePreview(inputs, taxRate) : null), [inputs, taxRate]);
+
+  const issue = useCallback(async () => {
+    if (!client || !preview) return;
+    if (!preview.lines.length) {
+      msg.error("Nothing to invoice for this period");
+      return;
+    }
+    setIssuing(true);
+    try {
+      const invoice = await sdk.clients.createInvoice(client.id, invoicePayload(preview, invoiceDate.format("YYYY-MM-DD")));
+      msg.success(`Invoice ${invoice.invoice_number} issued`);
+      const warning = await tryPosting(() =>
+        postEvent({ kind: "invoice_issued", invoice: { ...invoice, client_name: invoice.client_name ?? client.client_name } })
+      );
+      if (warning) msg.warning(warning);
+      onIssued(invoice);
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to issue invoice"));
+    } finally {
+      setIssuing(false);
+    }
+  }, [client, invoiceDate, msg, onIssued, preview]);
+
+  return (
+    <>
+      {msgCtx}
+      <Modal
+        title={`Invoice from delivered guard-days${client ? `: ${client.client_name}` : ""}`}
+        open={open}
+        onCancel={onClose}
+        onOk={() => void issue()}
+        okText="Issue Invoice"
+        okButtonProps={{ disabled: !preview?.lines.length }}
+        confirmLoading={issuing}
+        width={1000}
+        destroyOnClose
+      >
+        <Space direction="vertical" size={12} style={{ width: "100%" }}>
+          <Row gutter={[12, 12]} align="bottom">
+            <Col xs={24} md={10}>
+              <Typography.Text type="secondary">Billing period</Typography.Text>
+              <DatePicker.RangePicker
+                style={{ width: "100%" }}
+                allowClear={false}
+                value={period}
+                onChange={(v) => {
+                  if (v?.[0] && v?.[1]) setPeriod([v[0], v[1]]);
+                }}
+              />
+            </Col>
+            <Col xs={12} md={7}>
+              <Typography.Text type="secondary">Invoice date</Typography.Text>
+              <DatePicker
+                style={{ width: "100%" }}
+                allowClear={false}
+                value={invoiceDate}
+                onChange={(v) => v && setInvoiceDate(v)}
+              />
+            </Col>
+            <Col xs={12} md={7}>
+              <Typography.Text type="secondary">
+                Sales tax % {registered ? `(GST ${client?.vat_gst_number})` : "(not registered)"}
+              </Typography.Text>
+              <InputNumber
+                min={0}
+                max={100}
+                style={{ width: "100%" }}
+                value={registered ? taxRate : 0}
+                disabled={!registered}
+                onChange={(v) => setTaxRate(Number(v ?? 0))}
+              />
+            </Col>
+          </Row>
+
+          {preview?.warnings.length ? (
+            <Alert type="warning" showIcon message="Check before issuing" description={preview.warnings.join("; ")} />
+          ) : null}
+
+          <Table<RequirementBilling>
+            size="small"
+            loading={loading}
+            rowKey={(r) => r.requirement.id}
+            dataSource={preview?.billing ?? []}
+            pagination={false}
+            columns={[
+              { title: "Site", key: "site", render: (_, r) => r.site.site_name },
+              { title: "Guard Type", key: "type", width: 120, render: (_, r) => r.requirement.guard_type },
+              {
+                title: "Source",
+                key: "source",
+                width: 110,
+                render: (_, r) => <Tag color={SOURCE_TAGS[r.source].color}>{SOURCE_TAGS[r.source].label}</Tag>,
+              },
+              { title: "Contracted", dataIndex: "expectedDays", width: 100, align: "right" },
+              { title: "Delivered", dataIndex: "deliveredDays", width: 100, align: "right" },
+              { title: "OT hrs", dataIndex: "overtimeHours", width: 90, align: "right" },
+              { title: "Day Rate", key: "rate", width: 120, align: "right", render: (_, r) => formatRs(r.dayRate) },
+            ]}
+          />
+
+          <Table<ClientInvoiceLine>
+            size="small"
+            loading={loading}
+            rowKey={(_, i) => String(i)}
+            dataSource={preview?.lines ?? []}
+            pagination={false}
+            columns={[
+              { title: "Description", dataIndex: "description" },
+              { title: "Qty", dataIndex: "quantity", width: 90, align: "right" },
+              { title: "Rate", key: "rate", width: 130, align: "right", render: (_, l) => formatRs(l.rate) },
+              {
+                title: "Amount",
+                key: "amount",
+                width: 140,
+                align: "right",
+                render: (_, l) => (
+                  <Typography.Text type={l.amount < 0 ? "danger" : undefined}>{formatRs(l.amount)}</Typography.Text>
+                ),
+              },
+            ]}
+          />
+
+          <Row gutter={[12, 12]}>
+            <Col xs={8}>
+              <Statistic title="Subtotal" value={preview?.subtotal ?? 0} prefix="Rs" precision={2} />
+            </Col>
+            <Col xs={8}>
+              <Statistic title="Sales Tax" value={preview?.taxAmount ?? 0} prefix="Rs" precision={2} />
+            </Col>
+            <Col xs={8}>
+              <Statistic title="Net Payable" value={preview?.net ?? 0} prefix="Rs" precision={2} />
+            </Col>
+          </Row>
+        </Space>
+      </Modal>
+    </>
+  );
+}
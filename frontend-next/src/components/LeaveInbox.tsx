@@ -0,0 +1,24 @@
+"use client";
+
+import { Badge, Button, Tooltip } from "antd";
+import { InboxOutlined } from "@ant-design/icons";
+import Link from "next/link";
+import { useEffect } from "react";
+import { startLeaveInbox, useLeaveInbox } from "@/lib/leaveInbox";
+
+/** Header link to pending leave requests; only mounted for approvers. */
+export default function LeaveInbox() {
+  const pending = useLeaveInbox();
+
+  useEffect(() => startLeaveInbox(), []);
+
+  return (
+    <Tooltip title={pending ? `${pending} leave request${pending === 1 ? "" : "s"} awaiting approval` : "Leave requests"}>
+      <Link href="/leave">
+        <Badge count={pending} size="small" offset={[-4, 4]}>
+          <Button type="text" icon={<InboxOutlined />} />
+        </Badge>
+      </Link>
+    </Tooltip>
+  );
+}
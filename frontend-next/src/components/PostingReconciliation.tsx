@@ -0,0 +1,138 @@
+"use client";
+
+import { Alert, Button, DatePicker, Modal, Space, Table, Tag, Typography, message } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import dayjs, { type Dayjs } from "dayjs";
+import { useCallback, useState } from "react";
+import { formatRs } from "@/lib/money";
+import { POSTING_SOURCES, postSources, unpostedSources, type UnpostedSource } from "@/lib/posting";
+
+function errorMessage(e: unknown, fallback: string): string {
+  if (e && typeof e === "object" && "message" in e) {
+    const m = (e as { message?: unknown }).message;
+    if (typeof m === "string") return m;
+  }
+  return fallback;
+}
+
+/** Finds paid expenses, locked payroll, advances, invoices, receipts and fuel missing from the ledger, and posts them. */
+export default function PostingReconciliation({
+  open,
+  onClose,
+  onPosted,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onPosted: () => void;
+}) {
+  const [msg, msgCtx] = message.useMessage();
+  const [range, setRange] = useState<[Dayjs, Dayjs]>(() => [dayjs().startOf("month"), dayjs()]);
+  const [checking, setChecking] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [missing, setMissing] = useState<UnpostedSource[] | null>(null);
+  const [failed, setFailed] = useState<Map<string, string>>(new Map());
+
+  const check = useCallback(async () => {
+    setChecking(true);
+    try {
+      setMissing(await unpostedSources(range[0].format("YYYY-MM-DD"), range[1].format("YYYY-MM-DD")));
+      setFailed(new Map());
+    } catch (e: unknown) {
+      msg.error(errorMessage(e, "Failed to check postings"));
+    } finally {
+      setChecking(false);
+    }
+  }, [msg, range]);
+
+  const close = useCallback(() => {
+    setMissing(null);
+    setFailed(new Map());
+    onClose();
+  }, [onClose]);
+
+  const postAll = useCallback(async () => {
+    if (!missing?.length) return;
+    setPosting(true);
+    try {
+      const errors = await postSources(missing);
+      const posted = missing.length - errors.size;
+      if (posted) {
+        msg.success(`Posted ${posted} ${posted === 1 ? "entry" : "entries"}`);
+        onPosted();
+      }
+      setMissing(missing.filter((s) => errors.has(s.key)));
+      setFailed(errors);
+    } finally {
+      setPosting(false);
+    }
+  }, [missing, msg, onPosted]);
+
+  const columns: ColumnsType<UnpostedSource> = [
+    { title: "Date", key: "date", width: 110, render: (_, s) => s.draft.entry_date },
+    {
+      title: "Source",
+      key: "source",
+      width: 130,
+      render: (_, s) => <Tag>{POSTING_SOURCES[s.draft.source_type]}</Tag>,
+    },
+    {
+      title: "Memo",
+      key: "memo",
+      render: (_, s) =>
+        failed.has(s.key) ? (
+          <>
+            {s.draft.memo}
+            <br />
+            <Typography.Text type="danger">{failed.get(s.key)}</Typography.Text>
+          </>
+        ) : (
+          s.draft.memo
+        ),
+    },
+    { title: "Amount", key: "amount", width: 140, align: "right", render: (_, s) => formatRs(s.amount, 2) },
+  ];
+
+  return (
+    <Modal
+      open={open}
+      title="Post Missing Entries"
+      width={860}
+      onCancel={close}
+      okText={missing?.length ? `Post ${missing.length} ${missing.length === 1 ? "entry" : "entries"}` : "Post"}
+      okButtonProps={{ disabled: !missing?.length }}
+      confirmLoading={posting}
+      onOk={() => void postAll()}
+      destroyOnHidden
+    >
+      {msgCtx}
+      <Typography.Paragraph type="secondary">
+        Entries are posted when an expense is paid, payroll is locked, an advance is issued, fuel is bought, or an
+        invoice or receipt is recorded. If a posting failed at the time, the source is listed here.
+      </Typography.Paragraph>
+      <Space wrap style={{ marginBottom: 12 }}>
+        <DatePicker.RangePicker
+          allowClear={false}
+          value={range}
+          onChange={(v) => {
+            if (v?.[0] && v?.[1]) setRange([v[0], v[1]]);
+          }}
+        />
+        <Button loading={checking} onClick={() => void check()}>
+          Check
+        </Button>
+      </Space>
+      {missing && !missing.length ? (
+        <Alert type="success" showIcon message="Everything in this period is on the books" />
+      ) : null}
+      {missing?.length ? (
+        <Table<UnpostedSource>
+          size="small"
+          rowKey="key"
+          dataSource={missing}
+          columns={columns}
+          pagination={{ pageSize: 20 }}
+        />
+      ) : null}
+    </Modal>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { Alert, Button, Card, Col, DatePicker, Row, Segmented, Statistic, Table, Tag, Typography, message } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { ReloadOutlined } from "@ant-design/icons";
+import { Column, Line } from "@ant-design/plots";
+import dayjs, { type Dayjs } from "dayjs";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatRs } from "@/lib/money";
+import {
+  computeProfitability,
+  loadProfitabilityInputs,
+  monthlyTrend,
+  payrollMonth,
+  rollUp,
+  type ProfitGrouping,
+  type ProfitInputs,
+  type ProfitRow,
+} from "@/lib/profitability";
+
+const MAX_MONTHS = 12;
+
+function marginTag(pct: number | null) {
+  if (pct == null) return <Tag>—</Tag>;
+  return <Tag color={pct < 0 ? "red" : pct < 15 ? "gold" : "green"}>{pct.toFixed(1)}%</Tag>;
+}
+
+/** Revenue against guard, equipment and vehicle cost per client and site, with monthly trend. */
+export default function ProfitabilityReport() {
+  const [msg, msgCtx] = message.useMessage();
+  const [range, setRange] = useState<[Dayjs, Dayjs]>(() => {
+    const current = dayjs(payrollMonth(dayjs().format("YYYY-MM-DD")) + "-01");
+    return [current.subtract(2, "month"), current];
+  });
+  const [grouping, setGrouping] = useState<ProfitGrouping>("client");
+  const [selected, setSelected] = useState<ProfitRow | null>(null);
+  const [inputs, setInputs] = useState<ProfitInputs | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const fromMonth = range[0].format("YYYY-MM");
+  const toMonth = range[1].format("YYYY-MM");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setFailed(false);
+    try {
+      setInputs(await loadProfitabilityInputs(fromMonth, toMonth));
+    } catch {
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [fromMonth, toMonth]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const rows = useMemo(() => (inputs ? computeProfitability(inputs) : []), [inputs]);
+  const grouped = useMemo(() => rollUp(rows, grouping), [rows, grouping]);
+  const totals = useMemo(() => monthlyTrend(rows, inputs?.months ?? []), [inputs, rows]);
+
+  const trend = useMemo(() => {
+    const filter = selected
+      ? { client_id: selected.client_id, site_id: grouping === "site" ? selected.site_id : undefined }
+      : undefined;
+    return monthlyTrend(rows, inputs?.months ?? [], filter);
+  }, [grouping, inputs, rows, selected]);
+
+  const lineData = useMemo(
+    () =>
+      trend.flatMap((t) => [
+        { month: t.month, series: "Revenue", value: t.revenue },
+        { month: t.month, series: "Cost", value: t.cost },
+        { month: t.month, series: "Margin", value: t.margin },
+      ]),
+    [trend]
+  );
+
+  const sum = (k: "revenue" | "cost" | "margin") => totals.reduce((a, t) => a + t[k], 0);
+  const revenue = sum("revenue");
+  const margin = sum("margin");
+
+  const columns: ColumnsType<ProfitRow> = [
+    {
+      title: "Client",
+      dataIndex: "client_name",
+      render: (v: string, r) => (r.client_id == null ? <Typography.Text type="secondary">{v}</Typography.Text> : v),
+    },
+    ...(grouping === "site" ? [{ title: "Site", dataIndex: "site_name" }] : []),
+    { title: "Revenue", dataIndex: "revenue", align: "right", render: (v: number) => formatRs(v, 0) },
+    { title: "Guards", dataIndex: "labour", align: "right", render: (v: number) => formatRs(v, 0) },
+    { title: "Equipment", dataIndex: "equipment", align: "right", render: (v: number) => formatRs(v, 0) },
+    { title: "Vehicles", dataIndex: "vehicles", align: "right", render: (v: number) => formatRs(v, 0) },
+    {
+      title: "Margin",
+      dataIndex: "margin",
+      align: "right",
+      sorter: (a, b) => a.margin - b.margin,
+      render: (v: number) => <Typography.Text type={v < 0 ? "danger" : undefined}>{formatRs(v, 0)}</Typography.Text>,
+    },
+    {
+      title: "Margin %",
+      dataIndex: "margin_pct",
+      align: "right",
+      sorter: (a, b) => (a.margin_pct ?? -Infinity) - (b.margin_pct ?? -Infinity),
+      render: (v: number | null) => marginTag(v),
+    },
+  ];
+
+  return (
+    <Card
+      title="Client & Site Profitability"
+      styles={{ body: { padding: 20 } }}
+      extra={
+        <Row gutter={8} align="middle" wrap={false}>
+          <Col>
+            <DatePicker.RangePicker
+              picker="month"
+              allowClear={false}
+              value={range}
+              onChange={(v) => {
+                if (!v?.[0] || !v?.[1]) return;
+                if (v[1].diff(v[0], "month") >= MAX_MONTHS) {
+                  msg.warning(`Choose up to ${MAX_MONTHS} months`);
+                  return;
+                }
+                setSelected(null);
+                setRange([v[0], v[1]]);
+              }}
+            />
+          </Col>
+          <Col>
+            <Button icon={<ReloadOutlined />} onClick={() => void load()} loading={loading} />
+          </Col>
+        </Row>
+      }
+    >
+      {msgCtx}
+      {failed ? (
+        <Alert type="error" showIcon message="Failed to load profitability data" style={{ marginBottom: 16 }} />
+      ) : null}
+
+      <Row gutter={[24, 16]} style={{ marginBottom: 16 }}>
+        <Col xs={12} md={6}>
+          <Statistic title="Revenue" value={revenue} prefix="Rs" precision={0} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Cost" value={sum("cost")} prefix="Rs" precision={0} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic
+            title="Margin"
+            value={margin}
+            prefix="Rs"
+            precision={0}
+            valueStyle={{ color: margin < 0 ? "#ff4d4f" : "#52c41a" }}
+          />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Margin %" value={revenue ? (margin / revenue) * 100 : 0} suffix="%" precision={1} />
+        </Col>
+      </Row>
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+        <Col xs={24} lg={14}>
+          <Typography.Text strong>
+            Monthly trend{selected ? ` — ${selected.client_name}${grouping === "site" && selected.site_name ? ` / ${selected.site_name}` : ""}` : ""}
+          </Typography.Text>
+          {selected ? (
+            <Button type="link" size="small" onClick={() => setSelected(null)}>
+              Show all
+            </Button>
+          ) : null}
+          <Line
+            data={lineData}
+            xField="month"
+            yField="value"
+            colorField="series"
+            height={240}
+            autoFit
+            axis={{ y: { labelFormatter: (v: number) => formatRs(Number(v || 0), 0) } }}
+          />
+        </Col>
+        <Col xs={24} lg={10}>
+          <Typography.Text strong>Margin % by month</Typography.Text>
+          <Column
+            data={trend.map((t) => ({ month: t.month, margin_pct: t.margin_pct ?? 0 }))}
+            xField="month"
+            yField="margin_pct"
+            height={240}
+            autoFit
+            style={{ fill: (d: { margin_pct: number }) => (d.margin_pct < 0 ? "#ff4d4f" : "#52c41a") }}
+          />
+        </Col>
+      </Row>
+
+      <Segmented<ProfitGrouping>
+        style={{ marginBottom: 8 }}
+        value={grouping}
+        onChange={(v) => {
+          setGrouping(v);
+          setSelected(null);
+        }}
+        options={[
+          { label: "By client", value: "client" },
+          { label: "By site", value: "site" },
+        ]}
+      />
+      <Table<ProfitRow>
+        size="small"
+        rowKey="key"
+        loading={loading}
+        dataSource={grouped}
+        columns={columns}
+        pagination={grouped.length > 20 ? { pageSize: 20 } : false}
+        rowClassName={(r) => (selected?.key === r.key ? "ant-table-row-selected" : "")}
+        onRow={(r) => ({
+          style: { cursor: "pointer" },
+          onClick: () => setSelected((cur) => (cur?.key === r.key ? null : r)),
+        })}
+      />
+    </Card>
+  );
+}
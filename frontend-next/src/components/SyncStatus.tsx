@@ -0,0 +1,50 @@
+"use client";
+
+import { Badge, Tag, Tooltip } from "antd";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { useEffect } from "react";
+import { startAttendanceSync, useAttendanceSync } from "@/lib/attendanceOutbox";
+
+/**
+ * Header indicator for the offline attendance outbox. Also owns the
+ * background replay loop, since it is mounted for every signed-in page.
+ */
+export default function SyncStatus() {
+  const sync = useAttendanceSync();
+
+  useEffect(() => startAttendanceSync(), []);
+
+  const last = sync.lastSyncedAt ? `Last synced ${dayjs(sync.lastSyncedAt).format("HH:mm")}` : "Nothing synced yet";
+
+  let tag;
+  if (sync.conflicts > 0) {
+    tag = (
+      <Link href="/attendance">
+        <Tag color="red" style={{ cursor: "pointer" }}>
+          {sync.conflicts} conflict{sync.conflicts === 1 ? "" : "s"}
+        </Tag>
+      </Link>
+    );
+  } else if (!sync.online) {
+    tag = <Tag color="default">Offline{sync.pending > 0 ? ` · ${sync.pending} queued` : ""}</Tag>;
+  } else if (sync.syncing) {
+    tag = <Tag color="processing">Syncing…</Tag>;
+  } else if (sync.pending > 0 || sync.failed > 0) {
+    tag = (
+      <Link href="/attendance">
+        <Tag color={sync.failed > 0 ? "orange" : "gold"} style={{ cursor: "pointer" }}>
+          {sync.pending + sync.failed} pending
+        </Tag>
+      </Link>
+    );
+  } else {
+    tag = (
+      <Tag color="green">
+        <Badge status="success" /> Synced
+      </Tag>
+    );
+  }
+
+  return <Tooltip title={`Attendance sync · ${last}`}>{tag}</Tooltip>;
+}
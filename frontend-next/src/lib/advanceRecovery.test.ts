@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { proposeRecovery } from "./advanceRecovery";
+import type { AdvanceRecoveryPlan, EmployeeAdvance } from "./types";
+
+function advance(id: number, amount: number, plan: Partial<AdvanceRecoveryPlan>): EmployeeAdvance {
+  return {
+    id,
+    employee_db_id: 5,
+    amount,
+    advance_date: `2026-0${id}-01`,
+    recovery_plan: { mode: "fixed", start_month: "2026-08", net_floor: 0, ...plan },
+    created_at: `2026-0${id}-01T00:00:00Z`,
+  };
+}
+
+describe("proposeRecovery", () => {
+  it("recovers a fixed installment, limited to what is outstanding", () => {
+    const p = proposeRecovery([advance(1, 3000, { installment: 5000 })], [], "2026-10", 40000);
+    expect(p.proposed).toBe(3000);
+    expect(p.lines).toEqual([{ advance_id: 1, amount: 3000 }]);
+  });
+
+  it("takes a percent plan's share of net pay once per employee, not once per advance", () => {
+    const advances = [advance(1, 20000, { mode: "percent", percent: 10 }), advance(2, 20000, { mode: "percent", percent: 10 })];
+    const p = proposeRecovery(advances, [], "2026-10", 40000);
+    expect(p.proposed).toBe(4000);
+    expect(p.lines).toEqual([{ advance_id: 1, amount: 4000 }]);
+  });
+
+  it("spills the percent allowance to the next advance once the oldest is cleared", () => {
+    const advances = [advance(1, 1500, { mode: "percent", percent: 10 }), advance(2, 20000, { mode: "percent", percent: 10 })];
+    const p = proposeRecovery(advances, [], "2026-10", 40000);
+    expect(p.lines).toEqual([
+      { advance_id: 1, amount: 1500 },
+      { advance_id: 2, amount: 2500 },
+    ]);
+  });
+
+  it("keeps net pay at the floor", () => {
+    const p = proposeRecovery([advance(1, 20000, { installment: 8000, net_floor: 15000 })], [], "2026-10", 20000);
+    expect(p).toMatchObject({ planned: 8000, proposed: 5000, capped: true });
+  });
+});
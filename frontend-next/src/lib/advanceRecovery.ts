@@ -0,0 +1,172 @@
+import dayjs from "dayjs";
+import { roundMoney } from "./payrollEngine";
+import type { AdvanceRecoveryPlan, EmployeeAdvance, EmployeeAdvanceDeduction } from "./types";
+
+/**
+ * Advance recovery plans. Deductions are stored per employee per month, not
+ * per advance, so recovered amounts are allocated to advances oldest first.
+ * A month's proposal is the sum of each active plan's installment, limited
+ * to what is outstanding and capped so net pay stays at or above the floor.
+ * Percent plans share one allowance per employee, the highest of their
+ * percentages of net pay, rather than each taking its own share.
+ */
+
+export const DEFAULT_NET_FLOOR = 10000;
+
+export const RECOVERY_MODE_LABELS: Record<AdvanceRecoveryPlan["mode"], string> = {
+  fixed: "Fixed installment",
+  percent: "% of net pay",
+  months: "Equal months",
+};
+
+export type AdvanceBalance = {
+  advance: EmployeeAdvance;
+  recovered: number;
+  outstanding: number;
+};
+
+export type RecoveryProposal = {
+  month: string;
+  /** Sum of plan installments before the floor cap. */
+  planned: number;
+  proposed: number;
+  floor: number;
+  capped: boolean;
+  outstanding: number;
+  lines: Array<{ advance_id: number; amount: number }>;
+};
+
+export type RecoveryProjectionRow = {
+  month: string;
+  deduction: number;
+  balance: number;
+  /** Already deducted (past months) rather than projected. */
+  actual: boolean;
+};
+
+function byDate(a: EmployeeAdvance, b: EmployeeAdvance): number {
+  return a.advance_date.localeCompare(b.advance_date) || a.id - b.id;
+}
+
+/** Allocates the recovered total to advances oldest first. */
+export function advanceBalances(advances: EmployeeAdvance[], recoveredTotal: number): AdvanceBalance[] {
+  let left = Math.max(0, recoveredTotal);
+  return [...advances].sort(byDate).map((advance) => {
+    const recovered = Math.min(advance.amount, left);
+    left -= recovered;
+    return { advance, recovered: roundMoney(recovered), outstanding: roundMoney(advance.amount - recovered) };
+  });
+}
+
+export function planSummary(plan?: AdvanceRecoveryPlan | null): string {
+  if (!plan) return "Manual";
+  const from = `from ${plan.start_month}`;
+  if (plan.mode === "fixed") return `Rs ${Number(plan.installment ?? 0).toLocaleString()} / month ${from}`;
+  if (plan.mode === "percent") return `${Number(plan.percent ?? 0)}% of net ${from}`;
+  return `${Number(plan.months ?? 0)} months ${from}`;
+}
+
+function installment(plan: AdvanceRecoveryPlan, advance: EmployeeAdvance): number {
+  if (plan.mode === "fixed") return Math.max(0, Number(plan.installment ?? 0));
+  const months = Math.max(1, Math.round(Number(plan.months ?? 1)));
+  return Math.ceil(advance.amount / months);
+}
+
+function propose(balances: AdvanceBalance[], month: string, netBeforeAdvance: number): RecoveryProposal {
+  const lines: RecoveryProposal["lines"] = [];
+  const active = balances.flatMap((b) => {
+    const plan = b.advance.recovery_plan;
+    return plan && b.outstanding > 0 && plan.start_month <= month ? [{ b, plan }] : [];
+  });
+  const percent = Math.max(0, ...active.filter((x) => x.plan.mode === "percent").map((x) => Number(x.plan.percent ?? 0)));
+  let percentLeft = Math.max(0, (netBeforeAdvance * percent) / 100);
+  let floor = 0;
+  for (const { b, plan } of active) {
+    floor = Math.max(floor, Number(plan.net_floor ?? DEFAULT_NET_FLOOR));
+    const due = plan.mode === "percent" ? percentLeft : installment(plan, b.advance);
+    const amount = roundMoney(Math.min(b.outstanding, due));
+    if (plan.mode === "percent") percentLeft = Math.max(0, percentLeft - amount);
+    if (amount > 0) lines.push({ advance_id: b.advance.id, amount });
+  }
+
+  const planned = roundMoney(lines.reduce((a, l) => a + l.amount, 0));
+  const room = Math.max(0, roundMoney(netBeforeAdvance - floor));
+  const proposed = planned <= room ? planned : Math.floor(room);
+
+  // Shrink lines (newest first) until they add up to the capped amount
+  let excess = roundMoney(planned - proposed);
+  for (let i = lines.length - 1; i >= 0 && excess > 0; i -= 1) {
+    const cut = Math.min(lines[i].amount, excess);
+    lines[i].amount = roundMoney(lines[i].amount - cut);
+    excess = roundMoney(excess - cut);
+  }
+
+  return {
+    month,
+    planned,
+    proposed,
+    floor,
+    capped: proposed < planned,
+    outstanding: roundMoney(balances.reduce((a, b) => a + b.outstanding, 0)),
+    lines: lines.filter((l) => l.amount > 0),
+  };
+}
+
+/**
+ * Proposal for one payroll month. Deductions already recorded for that month
+ * are ignored so re-proposing replaces them instead of stacking.
+ */
+export function proposeRecovery(
+  advances: EmployeeAdvance[],
+  deductions: EmployeeAdvanceDeduction[],
+  month: string,
+  netBeforeAdvance: number
+): RecoveryProposal {
+  const recovered = deductions.filter((d) => d.month < month).reduce((a, d) => a + Number(d.amount || 0), 0);
+  return propose(advanceBalances(advances, recovered), month, netBeforeAdvance);
+}
+
+/**
+ * Recorded deductions followed by projected ones (assuming the same net pay
+ * every month) until the balance is cleared. `payoffMonth` is null when the
+ * remaining balance has no plan or would take longer than `maxMonths`.
+ */
+export function projectRecovery(
+  advances: EmployeeAdvance[],
+  deductions: EmployeeAdvanceDeduction[],
+  fromMonth: string,
+  expectedNet: number,
+  maxMonths = 120
+): { rows: RecoveryProjectionRow[]; payoffMonth: string | null } {
+  const total = advances.reduce((a, x) => a + Number(x.amount || 0), 0);
+  const rows: RecoveryProjectionRow[] = [];
+  let recovered = 0;
+
+  const past = [...deductions].filter((d) => d.month < fromMonth).sort((a, b) => a.month.localeCompare(b.month));
+  for (const d of past) {
+    recovered += Number(d.amount || 0);
+    rows.push({ month: d.month, deduction: d.amount, balance: roundMoney(Math.max(0, total - recovered)), actual: true });
+  }
+
+  let month = dayjs(`${fromMonth}-01`);
+  for (let i = 0; i < maxMonths; i += 1) {
+    if (roundMoney(total - recovered) <= 0) break;
+    const key = month.format("YYYY-MM");
+    const recorded = deductions.find((d) => d.month === key);
+    let amount = Number(recorded?.amount || 0);
+    if (!recorded) {
+      const balances = advanceBalances(advances, recovered).filter((b) => b.outstanding > 0);
+      amount = propose(balances, key, expectedNet).proposed;
+      // Nothing to recover now and no plan still waiting to start: it would stay that way
+      const waiting = balances.some((b) => b.advance.recovery_plan && b.advance.recovery_plan.start_month > key);
+      if (amount <= 0 && !waiting) break;
+    }
+    recovered += amount;
+    rows.push({ month: key, deduction: amount, balance: roundMoney(Math.max(0, total - recovered)), actual: Boolean(recorded) });
+    month = month.add(1, "month");
+  }
+
+  const last = rows[rows.length - 1];
+  const cleared = roundMoney(total - recovered) <= 0;
+  return { rows, payoffMonth: cleared ? (last?.month ?? null) : null };
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, api, invalidate, onUnauthorized } from "./api";
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => void items.set(k, String(v)),
+    removeItem: (k: string) => void items.delete(k),
+  };
+}
+
+function reply(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+let storage: ReturnType<typeof memoryStorage>;
+
+beforeEach(() => {
+  storage = memoryStorage();
+  vi.stubGlobal("window", { localStorage: storage });
+  vi.stubGlobal("fetch", fetchMock);
+  fetchMock.mockReset();
+  invalidate();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("session refresh", () => {
+  beforeEach(() => {
+    storage.setItem(ACCESS_TOKEN_KEY, "old-access");
+    storage.setItem(REFRESH_TOKEN_KEY, "refresh");
+  });
+
+  it("replays the request with the new token after a 401", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(401))
+      .mockResolvedValueOnce(reply(200, { access_token: "new-access" }))
+      .mockResolvedValueOnce(reply(200, { ok: true }));
+    await expect(api.get("/api/sites", { retries: 0 })).resolves.toEqual({ ok: true });
+    const headers = fetchMock.mock.calls[2][1]?.headers as Record<string, string>;
+    expect(headers.Authorization).toBe("Bearer new-access");
+  });
+
+  it("ends the session when the server rejects the refresh token", async () => {
+    const lost = vi.fn();
+    const off = onUnauthorized(lost);
+    fetchMock.mockResolvedValueOnce(reply(401)).mockResolvedValueOnce(reply(403, { detail: "Refresh token revoked" }));
+    await expect(api.get("/api/sites", { retries: 0 })).rejects.toMatchObject({ status: 401 });
+    off();
+    expect(lost).toHaveBeenCalledOnce();
+    expect(storage.getItem(ACCESS_TOKEN_KEY)).toBeNull();
+  });
+
+  it("keeps the session when the refresh fails on a server or network error", async () => {
+    const lost = vi.fn();
+    const off = onUnauthorized(lost);
+    fetchMock.mockResolvedValueOnce(reply(401)).mockResolvedValueOnce(reply(503));
+    await expect(api.get("/api/sites", { retries: 0 })).rejects.toMatchObject({ status: 401 });
+    fetchMock.mockResolvedValueOnce(reply(401)).mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    await expect(api.get("/api/sites", { retries: 0 })).rejects.toMatchObject({ status: 401 });
+    off();
+    expect(lost).not.toHaveBeenCalled();
+    expect(storage.getItem(ACCESS_TOKEN_KEY)).toBe("old-access");
+    expect(storage.getItem(REFRESH_TOKEN_KEY)).toBe("refresh");
+  });
+});
+
+describe("cached GET", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one request between concurrent callers", async () => {
+    fetchMock.mockResolvedValueOnce(reply(200, [1, 2]));
+    const [a, b] = await Promise.all([api.get("/api/sites"), api.get("/api/sites")]);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(a).toEqual([1, 2]);
+    expect(b).toBe(a);
+  });
+
+  it("serves a stale response at once and refreshes it in the background", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    fetchMock.mockResolvedValueOnce(reply(200, { v: 1 })).mockResolvedValueOnce(reply(200, { v: 2 }));
+    expect(await api.get("/api/sites", { staleTime: 1000, swr: true })).toEqual({ v: 1 });
+
+    vi.setSystemTime(Date.now() + 5000);
+    expect(await api.get("/api/sites", { staleTime: 1000, swr: true })).toEqual({ v: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.waitFor(async () => {
+      expect(await api.get("/api/sites", { staleTime: 1000, swr: true })).toEqual({ v: 2 });
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a 5xx but not a 4xx", async () => {
+    fetchMock.mockResolvedValueOnce(reply(503)).mockResolvedValueOnce(reply(200, { ok: true }));
+    await expect(api.get("/api/sites", { retries: 1 })).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(reply(404, { detail: "Not found" }));
+    await expect(api.get("/api/clients", { retries: 1 })).rejects.toMatchObject({ status: 404 });
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("drops cached GETs under the same /api/<segment> after a write", async () => {
+    fetchMock.mockImplementation(async () => reply(200, {}));
+    await api.get("/api/payroll/range-report", { staleTime: 60_000 });
+    await api.get("/api/clients", { staleTime: 60_000 });
+    await api.get("/api/payroll/range-report", { staleTime: 60_000 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await api.put("/api/payroll/sheet-entries", { entries: [] });
+    await api.get("/api/payroll/range-report", { staleTime: 60_000 });
+    await api.get("/api/clients", { staleTime: 60_000 });
+    expect(fetchMock.mock.calls.map((c) => String(c[0]).replace(/^https?:\/\/[^/]+/, ""))).toEqual([
+      "/api/payroll/range-report",
+      "/api/clients",
+      "/api/payroll/sheet-entries",
+      "/api/payroll/range-report",
+    ]);
+  });
+});
+
+describe("open", () => {
+  it("fetches the file with the session token and shows it in the tab opened on click", async () => {
+    storage.setItem(ACCESS_TOKEN_KEY, "access");
+    const tab = { location: { href: "" }, close: vi.fn() };
+    vi.stubGlobal("window", { localStorage: storage, open: vi.fn(() => tab) });
+    vi.stubGlobal("URL", { createObjectURL: () => "blob:receipt", revokeObjectURL: vi.fn() });
+    fetchMock.mockResolvedValueOnce(new Response("%PDF", { status: 200 }));
+
+    await api.open("/uploads/expenses/receipt.pdf");
+    const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers.Authorization).toBe("Bearer access");
+    expect(tab.location.href).toBe("blob:receipt");
+  });
+
+  it("closes the tab when the file cannot be fetched", async () => {
+    const tab = { location: { href: "" }, close: vi.fn() };
+    vi.stubGlobal("window", { localStorage: storage, open: vi.fn(() => tab) });
+    fetchMock.mockResolvedValueOnce(reply(404, { detail: "Not found" }));
+
+    await expect(api.open("/uploads/expenses/missing.pdf")).rejects.toMatchObject({ status: 404 });
+    expect(tab.close).toHaveBeenCalledOnce();
+  });
+});
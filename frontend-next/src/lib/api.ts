@@ -12,7 +12,7 @@ export class ApiError extends Error {
   }
 }
 
-type QueryValue = string | number | boolean | null | undefined;
+export type QueryValue = string | number | boolean | null | undefined;
 
 function buildQuery(params: Record<string, QueryValue>): string {
   const usp = new URLSearchParams();
@@ -24,21 +24,219 @@ function buildQuery(params: Record<string, QueryValue>): string {
   return s ? `?${s}` : "";
 }
 
-async function request<T>(
-  path: string,
-  opts: {
-    method?: "GET" | "POST" | "PUT" | "DELETE";
-    query?: Record<string, QueryValue>;
-    body?: unknown;
-    signal?: AbortSignal;
-  } = {}
-): Promise<T> {
-  const url = `${API_BASE_URL}${path}${buildQuery(opts.query ?? {})}`;
+function parseBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+function errorFor(status: number, data: unknown): ApiError {
+  let msg = `Request failed (${status})`;
+  if (typeof data === "object" && data !== null && "detail" in data) {
+    const maybeDetail = (data as { detail?: unknown }).detail;
+    if (typeof maybeDetail === "string") msg = maybeDetail;
+    else if (Array.isArray(maybeDetail)) {
+      // FastAPI validation errors: [{ loc: [...], msg: "..." }, ...]
+      msg = maybeDetail
+        .map((d: { loc?: unknown[]; msg?: unknown }) => (d?.loc ? `${d.loc.join(".")} - ${String(d.msg)}` : String(d?.msg ?? d)))
+        .join(", ");
+    } else if (maybeDetail !== undefined && maybeDetail !== null) {
+      msg = String(maybeDetail);
+    }
+  }
+  return new ApiError(msg, status, data);
+}
+
+export const ACCESS_TOKEN_KEY = "access_token";
+export const REFRESH_TOKEN_KEY = "refresh_token";
+
+export type TokenPair = {
+  access_token: string;
+  refresh_token?: string | null;
+  token_type?: string;
+};
+
+function readStorage(key: string): string | null {
+  return typeof window !== "undefined" ? window.localStorage.getItem(key) : null;
+}
+
+function readToken(): string | null {
+  return readStorage(ACCESS_TOKEN_KEY);
+}
+
+/** Stores a login/refresh response. A missing refresh token keeps the previous one. */
+export function setSession(tokens: TokenPair) {
+  window.localStorage.setItem(ACCESS_TOKEN_KEY, tokens.access_token);
+  if (tokens.refresh_token) window.localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+}
+
+export function clearSession() {
+  // Cached responses belong to the user who fetched them
+  invalidate();
+  if (typeof window === "undefined") return;
+  window.localStorage.removeItem(ACCESS_TOKEN_KEY);
+  window.localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+/** Reads `exp` (ms since epoch) from a JWT without verifying it; null when the token is opaque. */
+export function tokenExpiresAt(token: string | null): number | null {
+  const payload = token?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const exp = (JSON.parse(json) as { exp?: unknown }).exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function authHeaders(): Record<string, string> {
+  const token = readToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+type UnauthorizedHandler = () => void;
+const unauthorizedHandlers = new Set<UnauthorizedHandler>();
+
+/** Registers a callback for when the session is gone for good (refresh failed or impossible). */
+export function onUnauthorized(handler: UnauthorizedHandler): () => void {
+  unauthorizedHandlers.add(handler);
+  return () => {
+    unauthorizedHandlers.delete(handler);
+  };
+}
+
+// Refresh a little before `exp` so a request never leaves with a token that dies in flight.
+const REFRESH_SKEW_MS = 30_000;
+
+let refreshing: Promise<void> | null = null;
+
+/**
+ * Swaps the refresh token for a new access token. Concurrent callers share one
+ * in-flight refresh, so a burst of 401s results in a single round-trip and the
+ * queued requests replay with the new token once it settles.
+ */
+export function refreshAccessToken(): Promise<void> {
+  if (refreshing) return refreshing;
+
+  refreshing = (async () => {
+    const refreshToken = readStorage(REFRESH_TOKEN_KEY);
+    if (!refreshToken) throw new ApiError("Session expired", 401, null);
+
+    const res = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+      cache: "no-store",
+    });
+    const data = parseBody(await res.text());
+    if (!res.ok) throw errorFor(res.status, data);
+    setSession(data as TokenPair);
+  })().finally(() => {
+    refreshing = null;
+  });
+
+  return refreshing;
+}
+
+function isAuthPath(path: string): boolean {
+  return path.startsWith("/api/auth/login") || path.startsWith("/api/auth/refresh");
+}
+
+function sessionLost() {
+  clearSession();
+  for (const h of unauthorizedHandlers) h();
+}
+
+/**
+ * Runs an authenticated call: waits for any refresh already in progress,
+ * refreshes up front when the token is about to expire, and on a 401 refreshes
+ * once and replays. If the server rejects the refresh token the unauthorized
+ * handlers fire; either way a failed refresh rethrows the original error.
+ */
+async function withAuth<T>(path: string, run: () => Promise<T>): Promise<T> {
+  if (isAuthPath(path) || !readToken()) return run();
+
+  if (refreshing) await refreshing.catch(() => undefined);
+
+  const exp = tokenExpiresAt(readToken());
+  if (exp !== null && exp - REFRESH_SKEW_MS < Date.now() && readStorage(REFRESH_TOKEN_KEY)) {
+    await refreshAccessToken().catch(() => undefined);
+  }
+
+  try {
+    return await run();
+  } catch (e) {
+    if (!(e instanceof ApiError) || e.status !== 401) throw e;
+    try {
+      await refreshAccessToken();
+    } catch (refreshErr) {
+      // Only the server turning the refresh token down ends the session; a network blip or 5xx keeps it
+      if (refreshErr instanceof ApiError && (refreshErr.status === 401 || refreshErr.status === 403)) sessionLost();
+      throw e;
+    }
+    try {
+      return await run();
+    } catch (retryErr) {
+      if (retryErr instanceof ApiError && retryErr.status === 401) sessionLost();
+      throw retryErr;
+    }
+  }
+}
+
+/** Extracts the filename from a Content-Disposition header, preferring the RFC 5987 `filename*` form. */
+function filenameFromDisposition(header: string | null): string | null {
+  if (!header) return null;
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ""));
+    } catch {
+      // fall through to the plain form
+    }
+  }
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  if (!plain) return null;
+  return (plain[2] ?? plain[1]).trim() || null;
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+type RequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+};
 
-  const token = typeof window !== "undefined" ? window.localStorage.getItem("access_token") : null;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
+  return withAuth(path, () => send<T>(path, opts));
+}
+
+async function send<T>(path: string, opts: RequestOptions): Promise<T> {
+  const url = `${API_BASE_URL}${path}${buildQuery(opts.query ?? {})}`;
 
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 15000);
+  const timeoutId = setTimeout(
+    () => controller.abort(new DOMException("Request timed out", "TimeoutError")),
+    opts.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  );
 
   const onAbort = () => controller.abort();
   if (opts.signal) {
@@ -52,7 +250,7 @@ async function request<T>(
       method: opts.method ?? "GET",
       headers: {
         "Content-Type": "application/json",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...authHeaders(),
       },
       body: opts.body ? JSON.stringify(opts.body) : undefined,
       signal: controller.signal,
@@ -64,27 +262,322 @@ async function request<T>(
   }
 
   const text = await res.text();
-  const data = text ? (JSON.parse(text) as unknown) : null;
-
-  if (!res.ok) {
-    let msg = `Request failed (${res.status})`;
-    if (typeof data === "object" && data !== null && "detail" in data) {
-      const maybeDetail = (data as { detail?: unknown }).detail;
-      if (typeof maybeDetail === "string") msg = maybeDetail;
-      else if (maybeDetail !== undefined && maybeDetail !== null) {
-        msg = String(maybeDetail);
+  const data = parseBody(text);
+
+  if (!res.ok) throw errorFor(res.status, data);
+
+  return data as T;
+}
+
+export type GetOptions = {
+  query?: Record<string, QueryValue>;
+  signal?: AbortSignal;
+  /** How long (ms) a cached response is served without touching the network. Default 0: in-flight dedupe only. */
+  staleTime?: number;
+  /** Serve an expired cached response immediately and refresh it in the background. */
+  swr?: boolean;
+  /** Extra attempts after network errors, timeouts, 408/429 and 5xx. Default 2. */
+  retries?: number;
+  /** Per-attempt timeout in ms. */
+  timeoutMs?: number;
+};
+
+export type MutationOptions = {
+  /** Further resource keys (e.g. "/api/payroll") whose cached GETs this write makes stale. */
+  invalidates?: string[];
+};
+
+type CacheEntry = {
+  resource: string;
+  hasData: boolean;
+  data: unknown;
+  fetchedAt: number;
+  keep: boolean;
+  inflight?: Promise<unknown>;
+};
+
+const cache = new Map<string, CacheEntry>();
+
+// Even with `swr`, data older than this is refetched rather than shown.
+const MAX_CACHE_AGE_MS = 5 * 60 * 1000;
+const DEFAULT_RETRIES = 2;
+
+/** The cache-invalidation unit for a path: `/api/<first segment>`, e.g. `/api/payroll/range-report` → `/api/payroll`. */
+export function resourceKey(path: string): string {
+  const [, first = "", second = ""] = path.split("?")[0].split("/");
+  return first === "api" ? `/api/${second}` : `/${first}`;
+}
+
+/** Drops cached GETs for the given resources (any path under them), or everything when called bare. */
+export function invalidate(...resources: string[]) {
+  if (!resources.length) {
+    cache.clear();
+    return;
+  }
+  const keys = new Set(resources.map(resourceKey));
+  for (const [k, e] of cache) {
+    if (keys.has(e.resource)) cache.delete(k);
+  }
+}
+
+function pruneCache() {
+  if (cache.size < 200) return;
+  const cutoff = Date.now() - MAX_CACHE_AGE_MS;
+  for (const [k, e] of cache) {
+    if (!e.inflight && e.fetchedAt < cutoff) cache.delete(k);
+  }
+}
+
+function isRetryable(e: unknown): boolean {
+  if (e instanceof ApiError) return e.status === 0 || e.status === 408 || e.status === 429 || e.status >= 500;
+  if (e instanceof DOMException) return e.name === "TimeoutError";
+  // fetch reports network failures as TypeError
+  return e instanceof TypeError;
+}
+
+function backoffMs(attempt: number): number {
+  return Math.min(300 * 2 ** attempt, 4000) + Math.random() * 100;
+}
+
+async function fetchWithRetry<T>(path: string, opts: GetOptions): Promise<T> {
+  const retries = opts.retries ?? DEFAULT_RETRIES;
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await request<T>(path, { query: opts.query, timeoutMs: opts.timeoutMs });
+    } catch (e) {
+      if (attempt >= retries || !isRetryable(e)) throw e;
+      await new Promise((r) => setTimeout(r, backoffMs(attempt)));
+    }
+  }
+}
+
+/** Lets one caller stop waiting on a shared request without cancelling it for the others. */
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function revalidate<T>(key: string, path: string, opts: GetOptions, entry: CacheEntry): Promise<T> {
+  const inflight = fetchWithRetry<T>(path, opts).then(
+    (data) => {
+      // A write may have invalidated this key while we were waiting; don't resurrect it
+      if (cache.get(key) === entry) {
+        entry.inflight = undefined;
+        if (entry.keep) {
+          entry.data = data;
+          entry.hasData = true;
+          entry.fetchedAt = Date.now();
+        } else {
+          cache.delete(key);
+        }
       }
+      return data;
+    },
+    (e: unknown) => {
+      if (cache.get(key) === entry) {
+        entry.inflight = undefined;
+        if (!entry.hasData) cache.delete(key);
+      }
+      throw e;
     }
-    throw new ApiError(msg, res.status, data);
+  );
+  entry.inflight = inflight;
+  return inflight;
+}
+
+/**
+ * Cached, deduplicated GET. Concurrent calls for the same URL share one
+ * request; with `staleTime` the response is reused for that long, and with
+ * `swr` an expired response is returned at once while a refresh runs.
+ * Retryable failures are retried with exponential backoff.
+ */
+function get<T>(path: string, opts: GetOptions = {}): Promise<T> {
+  const key = `${path}${buildQuery(opts.query ?? {})}`;
+  const staleTime = opts.staleTime ?? 0;
+  pruneCache();
+
+  let entry = cache.get(key);
+  const age = entry?.hasData ? Date.now() - entry.fetchedAt : Infinity;
+
+  if (entry?.hasData && age <= staleTime) return withSignal(Promise.resolve(entry.data as T), opts.signal);
+
+  if (!entry) {
+    entry = { resource: resourceKey(path), hasData: false, data: null, fetchedAt: 0, keep: false };
+    cache.set(key, entry);
   }
+  entry.keep = entry.keep || staleTime > 0 || !!opts.swr;
 
-  return data as T;
+  const inflight = (entry.inflight as Promise<T> | undefined) ?? revalidate<T>(key, path, opts, entry);
+
+  if (opts.swr && entry.hasData && age <= MAX_CACHE_AGE_MS) {
+    inflight.catch(() => undefined);
+    return Promise.resolve(entry.data as T);
+  }
+  return withSignal(inflight, opts.signal);
+}
+
+function mutate<T>(path: string, opts: RequestOptions, mopts: MutationOptions = {}): Promise<T> {
+  return request<T>(path, opts).finally(() => invalidate(path, ...(mopts.invalidates ?? [])));
+}
+
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  percent: number;
+};
+
+export type UploadOptions = MutationOptions & {
+  method?: "POST" | "PUT";
+  query?: Record<string, QueryValue>;
+  onProgress?: (p: UploadProgress) => void;
+  signal?: AbortSignal;
+};
+
+/** Builds a multipart body; `undefined`/`null` fields are skipped. */
+export function toFormData(fields: Record<string, string | Blob | null | undefined>): FormData {
+  const fd = new FormData();
+  for (const [k, v] of Object.entries(fields)) {
+    if (v === undefined || v === null) continue;
+    fd.append(k, v);
+  }
+  return fd;
+}
+
+/**
+ * Multipart upload. Uses XHR rather than fetch so upload progress can be
+ * reported; aborting `signal` cancels the transfer and rejects with an
+ * `AbortError` like fetch does.
+ */
+function upload<T>(path: string, form: FormData, opts: UploadOptions = {}): Promise<T> {
+  return withAuth(path, () => sendUpload<T>(path, form, opts)).finally(() =>
+    invalidate(path, ...(opts.invalidates ?? []))
+  );
+}
+
+function sendUpload<T>(path: string, form: FormData, opts: UploadOptions): Promise<T> {
+  const url = `${API_BASE_URL}${path}${buildQuery(opts.query ?? {})}`;
+
+  return new Promise<T>((resolve, reject) => {
+    if (opts.signal?.aborted) {
+      reject(new DOMException("Upload aborted", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(opts.method ?? "POST", url);
+    for (const [k, v] of Object.entries(authHeaders())) xhr.setRequestHeader(k, v);
+
+    const onAbort = () => xhr.abort();
+    const cleanup = () => opts.signal?.removeEventListener("abort", onAbort);
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+    if (opts.onProgress) {
+      const onProgress = opts.onProgress;
+      xhr.upload.onprogress = (ev) => {
+        const total = ev.lengthComputable ? ev.total : 0;
+        onProgress({ loaded: ev.loaded, total, percent: total ? Math.round((ev.loaded / total) * 100) : 0 });
+      };
+    }
+
+    xhr.onload = () => {
+      cleanup();
+      const data = parseBody(xhr.responseText);
+      if (xhr.status < 200 || xhr.status >= 300) reject(errorFor(xhr.status, data));
+      else resolve(data as T);
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new ApiError("Network error during upload", 0, null));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException("Upload aborted", "AbortError"));
+    };
+
+    xhr.send(form);
+  });
+}
+
+export type BlobResult = {
+  blob: Blob;
+  filename: string | null;
+};
+
+export type BlobOptions = {
+  method?: "GET" | "POST";
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  signal?: AbortSignal;
+};
+
+/** Authenticated binary fetch (PDFs, images, documents). No timeout: large exports may take a while. */
+function blob(path: string, opts: BlobOptions = {}): Promise<BlobResult> {
+  return withAuth(path, () => sendBlob(path, opts));
+}
+
+async function sendBlob(path: string, opts: BlobOptions): Promise<BlobResult> {
+  const url = `${API_BASE_URL}${path}${buildQuery(opts.query ?? {})}`;
+  const res = await fetch(url, {
+    method: opts.method ?? "GET",
+    headers: {
+      ...(opts.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...authHeaders(),
+    },
+    body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+    signal: opts.signal,
+    cache: "no-store",
+  });
+
+  if (!res.ok) throw errorFor(res.status, parseBody(await res.text()));
+
+  return { blob: await res.blob(), filename: filenameFromDisposition(res.headers.get("Content-Disposition")) };
+}
+
+/**
+ * Fetches a file and hands it to the browser as a download. The server's
+ * Content-Disposition filename wins; `fallbackName` is used when it sends none.
+ */
+async function download(path: string, fallbackName: string, opts: BlobOptions = {}): Promise<string> {
+  const res = await blob(path, opts);
+  const filename = res.filename ?? fallbackName;
+  saveBlob(res.blob, filename);
+  return filename;
+}
+
+/**
+ * Fetches a file and shows it in a new tab. The tab is opened before the
+ * fetch so popup blockers still treat it as part of the click.
+ */
+async function open(path: string, opts: BlobOptions = {}): Promise<void> {
+  const tab = window.open("", "_blank");
+  try {
+    const res = await blob(path, opts);
+    const url = URL.createObjectURL(res.blob);
+    if (tab) tab.location.href = url;
+    else window.open(url, "_blank");
+    // The tab loads the object URL asynchronously, so it cannot be revoked straight away
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  } catch (e) {
+    tab?.close();
+    throw e;
+  }
 }
 
 export const api = {
-  get: request,
-  post: <T>(path: string, body: unknown) => request<T>(path, { method: "POST", body }),
-  put: <T>(path: string, body: unknown) => request<T>(path, { method: "PUT", body }),
-  del: <T>(path: string) => request<T>(path, { method: "DELETE" }),
-  deleteBulk: <T>(path: string, body: unknown) => request<T>(path, { method: "DELETE", body }),
+  get,
+  post: <T>(path: string, body: unknown, opts?: MutationOptions) => mutate<T>(path, { method: "POST", body }, opts),
+  put: <T>(path: string, body: unknown, opts?: MutationOptions) => mutate<T>(path, { method: "PUT", body }, opts),
+  del: <T>(path: string, opts?: MutationOptions) => mutate<T>(path, { method: "DELETE" }, opts),
+  deleteBulk: <T>(path: string, body: unknown, opts?: MutationOptions) =>
+    mutate<T>(path, { method: "DELETE", body }, opts),
+  upload,
+  blob,
+  download,
+  open,
+  invalidate,
 };
@@ -0,0 +1,344 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { api, ApiError } from "./api";
+import { idbAvailable, idbDelete, idbGet, idbGetAll, idbPut, STORES } from "./idb";
+import { sdk } from "./sdk";
+import type { AttendanceBulkUpsert, AttendanceRecordOut, AttendanceRow, AttendanceUpsert } from "./types";
+
+/**
+ * Offline support for attendance marking. Unsaved sheets are kept as drafts
+ * per date, and saves go through an outbox that is replayed when the browser
+ * is back online. Before replaying, the server copy is compared against what
+ * the user was looking at when they edited, so a supervisor marking the same
+ * guard from another device is surfaced as a conflict rather than overwritten.
+ */
+
+/** employee_id -> last-modified stamp of the server record the edit was based on (null: no record). */
+export type AttendanceBaseline = Record<string, string | null>;
+
+export type AttendanceDraft = {
+  date: string;
+  rows: AttendanceRow[];
+  initialStatusByEmployeeId: Record<string, string>;
+  baseline: AttendanceBaseline;
+  savedAt: string;
+};
+
+export type AttendanceConflict = {
+  employee_id: string;
+  mine: AttendanceUpsert;
+  server: AttendanceRecordOut | null;
+};
+
+export type OutboxStatus = "pending" | "conflict" | "failed";
+
+export type OutboxItem = {
+  id?: number;
+  date: string;
+  payload: AttendanceBulkUpsert;
+  baseline: AttendanceBaseline;
+  queuedAt: string;
+  attempts: number;
+  status: OutboxStatus;
+  conflicts?: AttendanceConflict[];
+  lastError?: string;
+};
+
+export type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: number;
+  failed: number;
+  lastSyncedAt: string | null;
+};
+
+const SERVER_STATE: SyncState = {
+  online: true,
+  syncing: false,
+  pending: 0,
+  conflicts: 0,
+  failed: 0,
+  lastSyncedAt: null,
+};
+
+let state: SyncState = SERVER_STATE;
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  for (const fn of listeners) fn();
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+export function subscribeSyncState(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function useAttendanceSync(): SyncState {
+  return useSyncExternalStore(subscribeSyncState, getSyncState, () => SERVER_STATE);
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine;
+}
+
+export function recordStamp(r: AttendanceRecordOut): string {
+  return r.updated_at ?? r.created_at;
+}
+
+export function baselineFrom(records: AttendanceRecordOut[]): AttendanceBaseline {
+  const out: AttendanceBaseline = {};
+  for (const r of records) out[r.employee_id] = recordStamp(r);
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Drafts
+
+export async function saveDraft(draft: Omit<AttendanceDraft, "savedAt">): Promise<void> {
+  if (!idbAvailable()) return;
+  await idbPut<AttendanceDraft>(STORES.attendanceDrafts, { ...draft, savedAt: new Date().toISOString() });
+}
+
+export async function loadDraft(date: string): Promise<AttendanceDraft | undefined> {
+  if (!idbAvailable()) return undefined;
+  return idbGet<AttendanceDraft>(STORES.attendanceDrafts, date);
+}
+
+export async function deleteDraft(date: string): Promise<void> {
+  if (!idbAvailable()) return;
+  await idbDelete(STORES.attendanceDrafts, date);
+}
+
+// ---------------------------------------------------------------------------
+// Outbox
+
+export async function listOutbox(): Promise<OutboxItem[]> {
+  if (!idbAvailable()) return [];
+  const items = await idbGetAll<OutboxItem>(STORES.attendanceOutbox);
+  return items.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+async function refreshCounts(): Promise<void> {
+  const items = await listOutbox();
+  setState({
+    online: isOnline(),
+    pending: items.filter((i) => i.status === "pending").length,
+    conflicts: items.filter((i) => i.status === "conflict").length,
+    failed: items.filter((i) => i.status === "failed").length,
+  });
+}
+
+/**
+ * Queues a save. A newer save for the same date supersedes the records of an
+ * older pending one, so the outbox never replays stale values over fresh ones.
+ */
+export async function enqueueAttendance(payload: AttendanceBulkUpsert, baseline: AttendanceBaseline): Promise<void> {
+  if (!idbAvailable()) throw new Error("Offline storage is not available in this browser");
+
+  const items = await listOutbox();
+  const incoming = new Set(payload.records.map((r) => r.employee_id));
+  for (const item of items) {
+    if (item.date !== payload.date || item.status !== "pending" || item.id == null) continue;
+    const records = item.payload.records.filter((r) => !incoming.has(r.employee_id));
+    if (records.length === 0) await idbDelete(STORES.attendanceOutbox, item.id);
+    else await idbPut<OutboxItem>(STORES.attendanceOutbox, { ...item, payload: { ...item.payload, records } });
+  }
+
+  await idbPut<OutboxItem>(STORES.attendanceOutbox, {
+    date: payload.date,
+    payload,
+    baseline,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+  });
+  await refreshCounts();
+}
+
+function sameValues(mine: AttendanceUpsert, server: AttendanceRecordOut): boolean {
+  const norm = (v: unknown) => (v === undefined || v === "" ? null : v);
+  const keys: (keyof AttendanceUpsert)[] = [
+    "status",
+    "note",
+    "overtime_minutes",
+    "overtime_rate",
+    "late_minutes",
+    "late_deduction",
+    "leave_type",
+    "fine_amount",
+  ];
+  return keys.every((k) => norm(mine[k]) === norm(server[k]));
+}
+
+async function fetchServerRecords(date: string): Promise<Map<string, AttendanceRecordOut>> {
+  // Conflict checks must see the live server copy, not the response cache
+  api.invalidate("/api/attendance");
+  const res = await sdk.attendance.list(date);
+  return new Map((res.records ?? []).map((r) => [r.employee_id, r]));
+}
+
+function detectConflicts(item: OutboxItem, server: Map<string, AttendanceRecordOut>): AttendanceConflict[] {
+  const out: AttendanceConflict[] = [];
+  for (const mine of item.payload.records) {
+    const current = server.get(mine.employee_id) ?? null;
+    const seen = item.baseline[mine.employee_id] ?? null;
+    const now = current ? recordStamp(current) : null;
+    if (now === seen) continue;
+    // Someone else changed it to exactly what we were going to write: not a conflict
+    if (current && sameValues(mine, current)) continue;
+    out.push({ employee_id: mine.employee_id, mine, server: current });
+  }
+  return out;
+}
+
+function isTransient(e: unknown): boolean {
+  if (e instanceof ApiError) return e.status === 0 || e.status === 408 || e.status === 429 || e.status >= 500;
+  return true;
+}
+
+let flushing: Promise<void> | null = null;
+
+/** Replays pending outbox items in order. Safe to call repeatedly; concurrent calls share one run. */
+export function flushAttendanceOutbox(): Promise<void> {
+  if (flushing) return flushing;
+  flushing = runFlush().finally(() => {
+    flushing = null;
+  });
+  return flushing;
+}
+
+async function runFlush(): Promise<void> {
+  if (!idbAvailable()) return;
+  setState({ online: isOnline() });
+  if (!isOnline()) {
+    await refreshCounts();
+    return;
+  }
+
+  setState({ syncing: true });
+  let synced = false;
+  try {
+    for (const item of await listOutbox()) {
+      if (item.status !== "pending" || item.id == null) continue;
+      try {
+        const server = await fetchServerRecords(item.date);
+        const conflicts = detectConflicts(item, server);
+        if (conflicts.length > 0) {
+          await idbPut<OutboxItem>(STORES.attendanceOutbox, { ...item, status: "conflict", conflicts });
+          continue;
+        }
+        await sdk.attendance.bulkUpsert(item.payload);
+        await idbDelete(STORES.attendanceOutbox, item.id);
+        synced = true;
+      } catch (e) {
+        const lastError = e instanceof Error ? e.message : String(e);
+        const attempts = item.attempts + 1;
+        if (isTransient(e)) {
+          // Keep ordering: later saves for the same day must not overtake this one
+          await idbPut<OutboxItem>(STORES.attendanceOutbox, { ...item, attempts, lastError });
+          break;
+        }
+        await idbPut<OutboxItem>(STORES.attendanceOutbox, { ...item, attempts, lastError, status: "failed" });
+      }
+    }
+  } finally {
+    await refreshCounts();
+    setState({ syncing: false, ...(synced ? { lastSyncedAt: new Date().toISOString() } : {}) });
+  }
+}
+
+/**
+ * Resolves a conflicted item. "mine" re-bases the queued records on the
+ * current server copy and replays them; "server" drops the conflicting
+ * records and keeps whatever else was queued.
+ */
+export async function resolveConflict(id: number, keep: "mine" | "server"): Promise<void> {
+  const item = await idbGet<OutboxItem>(STORES.attendanceOutbox, id);
+  if (!item) return;
+  const conflicts = item.conflicts ?? [];
+
+  if (keep === "mine") {
+    const baseline = { ...item.baseline };
+    for (const c of conflicts) baseline[c.employee_id] = c.server ? recordStamp(c.server) : null;
+    await idbPut<OutboxItem>(STORES.attendanceOutbox, {
+      ...item,
+      baseline,
+      status: "pending",
+      conflicts: undefined,
+    });
+  } else {
+    const dropped = new Set(conflicts.map((c) => c.employee_id));
+    const records = item.payload.records.filter((r) => !dropped.has(r.employee_id));
+    if (records.length === 0) await idbDelete(STORES.attendanceOutbox, id);
+    else
+      await idbPut<OutboxItem>(STORES.attendanceOutbox, {
+        ...item,
+        payload: { ...item.payload, records },
+        status: "pending",
+        conflicts: undefined,
+      });
+  }
+  await refreshCounts();
+  await flushAttendanceOutbox();
+}
+
+/** Gives up on an item (e.g. one the server rejected as invalid). */
+export async function discardOutboxItem(id: number): Promise<void> {
+  await idbDelete(STORES.attendanceOutbox, id);
+  await refreshCounts();
+}
+
+/** Puts a failed item back in the queue for another attempt. */
+export async function retryOutboxItem(id: number): Promise<void> {
+  const item = await idbGet<OutboxItem>(STORES.attendanceOutbox, id);
+  if (!item) return;
+  await idbPut<OutboxItem>(STORES.attendanceOutbox, { ...item, status: "pending", lastError: undefined });
+  await flushAttendanceOutbox();
+}
+
+const SYNC_INTERVAL_MS = 30_000;
+let started = 0;
+let stopLoop: (() => void) | null = null;
+
+/**
+ * Starts background replay: on reconnect, on an interval and once right away.
+ * Reference counted so multiple mounted shells share one loop; the loop stops
+ * when the last caller releases it.
+ */
+export function startAttendanceSync(): () => void {
+  if (!idbAvailable()) return () => {};
+  started += 1;
+  if (started === 1) {
+    const onOnline = () => void flushAttendanceOutbox();
+    const onOffline = () => setState({ online: false });
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    const timer = window.setInterval(() => void flushAttendanceOutbox(), SYNC_INTERVAL_MS);
+    stopLoop = () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.clearInterval(timer);
+    };
+    void flushAttendanceOutbox();
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    started -= 1;
+    if (started === 0) {
+      stopLoop?.();
+      stopLoop = null;
+    }
+  };
+}
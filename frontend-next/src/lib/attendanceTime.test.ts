@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TIME_RULES, deriveAttendanceTimes, timeFigures } from "./attendanceTime";
+
+const rules = { ...DEFAULT_TIME_RULES, rates: [{ designation: null, overtime_rate: 150, late_deduction_per_hour: 400 }] };
+
+describe("timeFigures", () => {
+  it("saves the late minutes and deduction of a row marked late", () => {
+    const d = deriveAttendanceTimes({ date: "2026-10-19", check_in: "08:45", check_out: "20:00", rules });
+    expect(d).toMatchObject({ late_minutes: 45, late_deduction: 300 });
+    const figures = timeFigures({ status: "late", late_hours: 0.75, late_deduction: d?.late_deduction });
+    expect(figures).toEqual({ overtime_minutes: null, overtime_rate: null, late_minutes: 45, late_deduction: 300 });
+  });
+
+  it("saves no time figures for a guard who was not on duty", () => {
+    expect(timeFigures({ status: "absent", late_hours: 1, late_deduction: 400, overtime_hours: 2 })).toEqual({
+      overtime_minutes: null,
+      overtime_rate: null,
+      late_minutes: null,
+      late_deduction: null,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import dayjs from "dayjs";
+import type { AttendanceRateRow, AttendanceTimeRules } from "./types";
+
+/**
+ * Late and overtime minutes derived from clock-in/clock-out against the
+ * guard's shift:
+ *
+ *   late     = check-in − shift start, counted in full once past the late grace
+ *   overtime = check-out − shift end, counted once it reaches the overtime grace
+ *
+ * Arriving early or leaving early never adds overtime. Times are matched to
+ * the day nearest the shift, so night shifts that run past midnight work.
+ */
+
+export const DEFAULT_TIME_RULES: AttendanceTimeRules = {
+  late_grace_minutes: 15,
+  overtime_grace_minutes: 30,
+  default_shift_start: "08:00",
+  default_shift_end: "20:00",
+  rates: [],
+};
+
+/** Present and late guards are on duty: they carry clock times and the late and overtime figures. */
+export function onDuty(status: string | null | undefined): boolean {
+  return status === "present" || status === "late";
+}
+
+export function toMinutesFromHours(hours?: number): number | null {
+  if (hours === undefined || hours === null) return null;
+  if (Number.isNaN(hours)) return null;
+  const mins = Math.round(hours * 60);
+  return mins > 0 ? mins : 0;
+}
+
+/** Late and overtime figures an attendance row saves; rows not on duty save none. */
+export function timeFigures(row: {
+  status: string;
+  overtime_hours?: number;
+  overtime_rate?: number;
+  late_hours?: number;
+  late_deduction?: number;
+}) {
+  const duty = onDuty(row.status);
+  return {
+    overtime_minutes: duty ? toMinutesFromHours(row.overtime_hours) : null,
+    overtime_rate: duty ? (row.overtime_rate ?? null) : null,
+    late_minutes: duty ? toMinutesFromHours(row.late_hours) : null,
+    late_deduction: duty ? (row.late_deduction ?? null) : null,
+  };
+}
+
+export type DerivedTimes = {
+  late_minutes: number;
+  overtime_minutes: number;
+  overtime_rate: number | null;
+  late_deduction: number;
+  check_in_at: string;
+  check_out_at: string | null;
+};
+
+const STAMP = "YYYY-MM-DDTHH:mm:ss";
+
+export function rateFor(designation: string | null | undefined, rules: AttendanceTimeRules): AttendanceRateRow | null {
+  const d = String(designation ?? "").trim().toLowerCase();
+  return (
+    rules.rates.find((r) => d && String(r.designation ?? "").trim().toLowerCase() === d) ??
+    rules.rates.find((r) => !r.designation) ??
+    null
+  );
+}
+
+/** `hhmm` on whichever of the day before, the day itself or the day after is closest to `anchor`. */
+export function clockAt(date: string, hhmm: string, anchor: dayjs.Dayjs): dayjs.Dayjs {
+  const base = dayjs(`${date}T${hhmm.slice(0, 5)}`);
+  return [base.subtract(1, "day"), base, base.add(1, "day")].reduce((best, c) =>
+    Math.abs(c.diff(anchor)) < Math.abs(best.diff(anchor)) ? c : best
+  );
+}
+
+export function shiftWindow(date: string, start: string, end: string): [dayjs.Dayjs, dayjs.Dayjs] {
+  const from = dayjs(`${date}T${start.slice(0, 5)}`);
+  let to = dayjs(`${date}T${end.slice(0, 5)}`);
+  if (!to.isAfter(from)) to = to.add(1, "day");
+  return [from, to];
+}
+
+export function deriveAttendanceTimes(input: {
+  date: string;
+  check_in?: string;
+  check_out?: string;
+  shift_start?: string | null;
+  shift_end?: string | null;
+  designation?: string | null;
+  rules: AttendanceTimeRules;
+}): DerivedTimes | null {
+  if (!input.check_in) return null;
+  const { rules } = input;
+  const [start, end] = shiftWindow(
+    input.date,
+    input.shift_start || rules.default_shift_start,
+    input.shift_end || rules.default_shift_end
+  );
+
+  const inAt = clockAt(input.date, input.check_in, start);
+  const outAt = input.check_out ? clockAt(input.date, input.check_out, end) : null;
+
+  const lateRaw = Math.max(0, inAt.diff(start, "minute"));
+  const late_minutes = lateRaw > rules.late_grace_minutes ? lateRaw : 0;
+  const otRaw = outAt ? Math.max(0, outAt.diff(end, "minute")) : 0;
+  const overtime_minutes = otRaw >= Math.max(1, rules.overtime_grace_minutes) ? otRaw : 0;
+
+  const rate = rateFor(input.designation, rules);
+  return {
+    late_minutes,
+    overtime_minutes,
+    overtime_rate: rate ? rate.overtime_rate : null,
+    late_deduction: rate ? Math.round((late_minutes / 60) * rate.late_deduction_per_hour) : 0,
+    check_in_at: inAt.format(STAMP),
+    check_out_at: outAt ? outAt.format(STAMP) : null,
+  };
+}
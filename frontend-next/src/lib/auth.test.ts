@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { loginPath, safeNextPath } from "./auth";
+
+describe("safeNextPath", () => {
+  it("keeps in-app paths", () => {
+    expect(safeNextPath("/employees")).toBe("/employees");
+    expect(safeNextPath("/payroll2?month=2026-09")).toBe("/payroll2?month=2026-09");
+  });
+
+  it("refuses missing, relative and absolute URLs", () => {
+    expect(safeNextPath(null)).toBeNull();
+    expect(safeNextPath("")).toBeNull();
+    expect(safeNextPath("employees")).toBeNull();
+    expect(safeNextPath("https://evil.example")).toBeNull();
+  });
+
+  it("refuses protocol-relative and backslash tricks", () => {
+    expect(safeNextPath("//evil.example")).toBeNull();
+    expect(safeNextPath("/\\evil.example")).toBeNull();
+    expect(safeNextPath("/foo\\bar")).toBeNull();
+  });
+
+  it("refuses control characters browsers strip", () => {
+    expect(safeNextPath("/\t/evil.example")).toBeNull();
+    expect(safeNextPath("/\n/evil.example")).toBeNull();
+    expect(safeNextPath("/employees\u0000")).toBeNull();
+  });
+
+  it("does not loop back to the login page", () => {
+    expect(safeNextPath("/login?next=/employees")).toBeNull();
+    expect(loginPath("/login")).toBe("/login");
+    expect(loginPath("/employees")).toBe("/login?next=%2Femployees");
+  });
+});
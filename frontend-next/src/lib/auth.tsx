@@ -1,7 +1,8 @@
 "use client";
 
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
-import { api, ApiError } from "./api";
+import { useRouter } from "next/navigation";
+import { ACCESS_TOKEN_KEY, api, ApiError, clearSession, onUnauthorized } from "./api";
 
 export type AuthUser = {
   id: number;
@@ -24,16 +25,35 @@ type AuthState = {
 
 const AuthContext = createContext<AuthState | null>(null);
 
+/**
+ * Accepts only in-app paths for post-login redirects, so `?next=` cannot send
+ * users off-site. Browsers treat `/\host` like `//host` and strip tabs and
+ * newlines from URLs, so backslashes and control characters are refused too.
+ */
+export function safeNextPath(next?: string | null): string | null {
+  if (!next || !/^\/(?![/\\])/.test(next) || /[\\\u0000-\u001f\u007f]/.test(next)) return null;
+  if (next.startsWith("/login")) return null;
+  return next;
+}
+
+export function loginPath(next?: string | null): string {
+  const safe = safeNextPath(next);
+  return safe ? `/login?next=${encodeURIComponent(safe)}` : "/login";
+}
+
+function currentPath(): string {
+  return typeof window !== "undefined" ? `${window.location.pathname}${window.location.search}` : "/";
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [roles, setRoles] = useState<string[]>([]);
   const [permissions, setPermissions] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
+  const router = useRouter();
 
   const logout = useCallback(() => {
-    if (typeof window !== "undefined") {
-      window.localStorage.removeItem("access_token");
-    }
+    clearSession();
     setUser(null);
     setRoles([]);
     setPermissions(new Set());
@@ -42,7 +62,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const refresh = useCallback(async () => {
     setLoading(true);
     try {
-      const token = typeof window !== "undefined" ? window.localStorage.getItem("access_token") : null;
+      const token = typeof window !== "undefined" ? window.localStorage.getItem(ACCESS_TOKEN_KEY) : null;
       if (!token) {
         setUser(null);
         setRoles([]);
@@ -57,11 +77,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setRoles(Array.isArray(roleNames) ? roleNames : []);
       setPermissions(new Set(perms));
     } catch (e) {
-      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) {
-        logout();
-      } else {
-        logout();
-      }
+      // Only a rejected token ends the session; a network blip or server error keeps it
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) logout();
     } finally {
       setLoading(false);
     }
@@ -71,6 +88,33 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     refresh();
   }, [refresh]);
 
+  // A 401 the API client could not recover from ends the session everywhere.
+  useEffect(
+    () =>
+      onUnauthorized(() => {
+        logout();
+        if (!window.location.pathname.startsWith("/login")) router.replace(loginPath(currentPath()));
+      }),
+    [logout, router]
+  );
+
+  // Keep tabs in step: logging out (or in) in one tab is mirrored in the others.
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== ACCESS_TOKEN_KEY && e.key !== null) return;
+      if (e.newValue === null) {
+        setUser(null);
+        setRoles([]);
+        setPermissions(new Set());
+        if (!window.location.pathname.startsWith("/login")) router.replace(loginPath(currentPath()));
+      } else if (e.oldValue === null) {
+        void refresh();
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [refresh, router]);
+
   const has = useCallback(
     (perm: string) => {
       if (user?.is_superuser) return true;
@@ -0,0 +1,235 @@
+import dayjs from "dayjs";
+
+/**
+ * Biometric punch log import. Fingerprint terminals export either a plain
+ * attendance log (ZKTeco style `attlog.dat`/TXT: device user ID, timestamp,
+ * then status columns) or a CSV with a header row. Both reduce to punches of
+ * (device user ID, timestamp), which are then paired into shifts per guard:
+ *
+ *   - punches within DOUBLE_TAP_MINUTES of the previous one are ignored
+ *   - the first punch opens a shift; the last punch within MAX_SHIFT_HOURS
+ *     of it closes the shift
+ *   - a shift belongs to the day it started on, so night shifts stay whole
+ */
+
+export type Punch = {
+  device_id: string;
+  /** Local date-time, YYYY-MM-DDTHH:mm:ss. */
+  at: string;
+  line: number;
+};
+
+export type PunchLog = {
+  punches: Punch[];
+  errors: string[];
+};
+
+export type PairedShift = {
+  employee_id: string;
+  device_id: string;
+  date: string;
+  /** HH:mm */
+  check_in: string;
+  check_out?: string;
+  punches: number;
+};
+
+export const DOUBLE_TAP_MINUTES = 2;
+export const MAX_SHIFT_HOURS = 16;
+
+const STAMP = "YYYY-MM-DDTHH:mm:ss";
+
+// Tried in order, so the more specific names win over "id"/"no." and "time"
+const ID_HEADERS = [
+  "user id",
+  "userid",
+  "enroll no",
+  "enrollno",
+  "enroll id",
+  "ac-no.",
+  "ac-no",
+  "ac no",
+  "pin",
+  "emp id",
+  "employee id",
+  "id",
+  "no.",
+];
+const DATETIME_HEADERS = [
+  "datetime",
+  "date time",
+  "date/time",
+  "punch time",
+  "check time",
+  "checktime",
+  "timestamp",
+  "time",
+];
+const DATE_HEADERS = ["date"];
+const TIME_HEADERS = ["time"];
+
+function splitLine(line: string): string[] {
+  if (line.includes("\t")) return line.split("\t").map((c) => c.trim());
+  for (const d of [",", ";"]) {
+    if (line.includes(d)) return line.split(d).map((c) => c.trim().replace(/^"(.*)"$/, "$1"));
+  }
+  return line.trim().split(/\s+/);
+}
+
+function pad(n: string): string {
+  return n.padStart(2, "0");
+}
+
+/** Accepts YYYY-MM-DD, YYYY/MM/DD and DD/MM/YYYY (or DD-MM-YYYY) dates with HH:mm[:ss] times. */
+export function parsePunchTime(date: string, time?: string): string | null {
+  const text = time ? `${date} ${time}` : date;
+  const m =
+    text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?/) ??
+    text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!m) return null;
+  const [y, mo, d] = m[1].length === 4 ? [m[1], m[2], m[3]] : [m[3], m[2], m[1]];
+  const value = dayjs(`${y}-${pad(mo)}-${pad(d)}T${pad(m[4])}:${m[5]}:${m[6] ?? "00"}`);
+  return value.isValid() ? value.format(STAMP) : null;
+}
+
+function headerIndex(cells: string[], names: string[]): number {
+  const lower = cells.map((c) => c.toLowerCase());
+  for (const n of names) {
+    const i = lower.indexOf(n);
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+export function parsePunchLog(text: string): PunchLog {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const punches: Punch[] = [];
+  const errors: string[] = [];
+
+  // A header row names the columns; without one the device layout is ID, date time, ...
+  let idCol = 0;
+  let dateCol = 1;
+  let timeCol = -1;
+  let first = lines.findIndex((l) => l.trim());
+  if (first < 0) return { punches, errors: ["The file is empty"] };
+
+  const head = splitLine(lines[first]);
+  if (!parsePunchTime(head.slice(1).join(" ")) && head.some((c) => /[a-z]/i.test(c))) {
+    idCol = headerIndex(head, ID_HEADERS);
+    dateCol = headerIndex(head, DATETIME_HEADERS);
+    const dateOnly = headerIndex(head, DATE_HEADERS);
+    const timeOnly = headerIndex(head, TIME_HEADERS);
+    if (dateOnly >= 0 && timeOnly >= 0) {
+      dateCol = dateOnly;
+      timeCol = timeOnly;
+    }
+    if (idCol < 0 || dateCol < 0) {
+      return { punches, errors: ["Could not find the user ID and time columns in the header row"] };
+    }
+    first += 1;
+  }
+
+  for (let i = first; i < lines.length; i += 1) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    const cells = splitLine(line);
+    const device_id = String(cells[idCol] ?? "").trim();
+    // Headerless device logs split the timestamp into separate date and time cells
+    const at =
+      timeCol >= 0
+        ? parsePunchTime(cells[dateCol] ?? "", cells[timeCol])
+        : parsePunchTime(cells[dateCol] ?? "", cells[dateCol + 1]) ?? parsePunchTime(cells[dateCol] ?? "");
+    if (!device_id || !at) {
+      errors.push(`Line ${i + 1}: could not read user ID and time`);
+      continue;
+    }
+    punches.push({ device_id, at, line: i + 1 });
+  }
+  return { punches, errors };
+}
+
+function normId(v?: string | null): string {
+  return String(v ?? "").trim().replace(/^0+(?=.)/, "").toLowerCase();
+}
+
+/**
+ * Device user ID → attendance employee code. Saved mappings win; otherwise
+ * a device ID matching an employee's code (FSS no., serial no. or employee ID,
+ * ignoring leading zeros) maps to that employee.
+ */
+export function matchDeviceIds(
+  deviceIds: string[],
+  employees: Array<{ employee_id: string; aliases: Array<string | null | undefined> }>,
+  saved: Record<string, string>
+): Map<string, string> {
+  const byAlias = new Map<string, string>();
+  for (const e of employees) {
+    for (const a of [e.employee_id, ...e.aliases]) {
+      const key = normId(a);
+      if (key && !byAlias.has(key)) byAlias.set(key, e.employee_id);
+    }
+  }
+  const out = new Map<string, string>();
+  for (const id of deviceIds) {
+    const code = saved[id] ?? byAlias.get(normId(id));
+    if (code) out.set(id, code);
+  }
+  return out;
+}
+
+export function pairPunches(punches: Punch[], mapping: Map<string, string>): PairedShift[] {
+  const byEmployee = new Map<string, Punch[]>();
+  for (const p of punches) {
+    const code = mapping.get(p.device_id);
+    if (!code) continue;
+    byEmployee.set(code, [...(byEmployee.get(code) ?? []), p]);
+  }
+
+  const shifts: PairedShift[] = [];
+  for (const [employee_id, list] of byEmployee) {
+    const sorted = [...list].sort((a, b) => a.at.localeCompare(b.at));
+    let open: { start: dayjs.Dayjs; last: dayjs.Dayjs; count: number; device_id: string } | null = null;
+    const close = () => {
+      if (!open) return;
+      shifts.push({
+        employee_id,
+        device_id: open.device_id,
+        date: open.start.format("YYYY-MM-DD"),
+        check_in: open.start.format("HH:mm"),
+        check_out: open.count > 1 ? open.last.format("HH:mm") : undefined,
+        punches: open.count,
+      });
+      open = null;
+    };
+    for (const p of sorted) {
+      const at = dayjs(p.at);
+      if (open && at.diff(open.last, "minute") < DOUBLE_TAP_MINUTES) continue;
+      if (open && at.diff(open.start, "hour", true) <= MAX_SHIFT_HOURS) {
+        open.last = at;
+        open.count += 1;
+        continue;
+      }
+      close();
+      open = { start: at, last: at, count: 1, device_id: p.device_id };
+    }
+    close();
+  }
+  return shifts.sort((a, b) => a.date.localeCompare(b.date) || a.employee_id.localeCompare(b.employee_id));
+}
+
+const DEVICE_MAP_KEY = "biometric_device_map";
+
+export function loadDeviceMap(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = window.localStorage.getItem(DEVICE_MAP_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Record<string, string>) : null;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveDeviceMap(map: Record<string, string>) {
+  window.localStorage.setItem(DEVICE_MAP_KEY, JSON.stringify(map));
+}
@@ -0,0 +1,116 @@
+import dayjs from "dayjs";
+import { roundMoney } from "./payrollEngine";
+import type { ClientExpiries, Contract, ContractRate, ContractRenewal, ContractVersion } from "./types";
+
+/**
+ * Contract rate schedules, renewals and expiry alerts. A contract's rates
+ * are versioned: each revision takes effect from a date and closes the one
+ * before it. Renewing clones the contract to start the day after it ends,
+ * for the same length of term, with every rate escalated by a percentage.
+ */
+
+export const GUARD_TYPES = ["Unarmed", "Armed", "Supervisor", "Female Guard"];
+
+export const EXPIRY_WINDOWS = [30, 60, 90] as const;
+
+export type ExpiryWindow = (typeof EXPIRY_WINDOWS)[number] | "expired";
+
+export type ExpiryAlert = {
+  key: string;
+  kind: "contract" | "document";
+  client_id: number;
+  client_name: string;
+  label: string;
+  expiry_date: string;
+  days_left: number;
+  window: ExpiryWindow;
+};
+
+/** Contracts no longer running are not alerted on. */
+const CLOSED_STATUSES = new Set(["ended", "renewed", "cancelled"]);
+
+export function daysUntil(date: string, today = dayjs()): number {
+  return dayjs(date).startOf("day").diff(today.startOf("day"), "day");
+}
+
+export function expiryWindow(daysLeft: number): ExpiryWindow | null {
+  if (daysLeft < 0) return "expired";
+  return EXPIRY_WINDOWS.find((w) => daysLeft <= w) ?? null;
+}
+
+export function buildExpiryAlerts(expiries: ClientExpiries, today = dayjs()): ExpiryAlert[] {
+  const alerts: ExpiryAlert[] = [];
+  for (const c of expiries.contracts ?? []) {
+    if (!c.end_date || CLOSED_STATUSES.has(String(c.status).toLowerCase())) continue;
+    const days = daysUntil(c.end_date, today);
+    const window = expiryWindow(days);
+    if (!window) continue;
+    alerts.push({
+      key: `contract-${c.id}`,
+      kind: "contract",
+      client_id: c.client_id,
+      client_name: c.client_name,
+      label: `Contract ${c.contract_number}${c.contract_type ? ` (${c.contract_type})` : ""}`,
+      expiry_date: c.end_date,
+      days_left: days,
+      window,
+    });
+  }
+  for (const d of expiries.documents ?? []) {
+    if (!d.expiry_date) continue;
+    const days = daysUntil(d.expiry_date, today);
+    const window = expiryWindow(days);
+    if (!window) continue;
+    alerts.push({
+      key: `document-${d.id}`,
+      kind: "document",
+      client_id: d.client_id,
+      client_name: d.client_name,
+      label: d.document_type,
+      expiry_date: d.expiry_date,
+      days_left: days,
+      window,
+    });
+  }
+  return alerts.sort((a, b) => a.days_left - b.days_left);
+}
+
+export function escalate(amount: number, percent: number): number {
+  return roundMoney(Number(amount || 0) * (1 + Number(percent || 0) / 100));
+}
+
+export function escalateRates(rates: ContractRate[], percent: number): ContractRate[] {
+  return rates.map((r) => ({ ...r, monthly_rate: escalate(r.monthly_rate, percent) }));
+}
+
+/** The rate schedule in force on `date`, if any. */
+export function versionOn(versions: ContractVersion[], date: string): ContractVersion | null {
+  return (
+    [...versions]
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from))
+      .find((v) => v.effective_from <= date && (!v.effective_to || v.effective_to >= date)) ?? null
+  );
+}
+
+function nextContractNumber(contractNumber: string): string {
+  const m = /^(.*)-R(\d+)$/.exec(contractNumber);
+  return m ? `${m[1]}-R${Number(m[2]) + 1}` : `${contractNumber}-R1`;
+}
+
+/** Proposed renewal: same term length starting the day after the contract ends (one year when undated). */
+export function renewalDraft(contract: Contract, escalationPercent: number, today = dayjs()): ContractRenewal {
+  const start = contract.end_date ? dayjs(contract.end_date).add(1, "day") : today;
+  const term =
+    contract.start_date && contract.end_date
+      ? dayjs(contract.end_date).diff(dayjs(contract.start_date), "month", true)
+      : 12;
+  const end = start.add(Math.max(1, Math.round(term)), "month").subtract(1, "day");
+  return {
+    contract_number: nextContractNumber(contract.contract_number),
+    start_date: start.format("YYYY-MM-DD"),
+    end_date: end.format("YYYY-MM-DD"),
+    escalation_percent: escalationPercent,
+    monthly_cost: escalate(contract.monthly_cost, escalationPercent),
+    rates: escalateRates(contract.rates ?? [], escalationPercent),
+  };
+}
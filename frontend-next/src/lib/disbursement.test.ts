@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { employee2Accounts, payeeLookup } from "./disbursement";
+import type { Employee, Employee2, Payroll2Row } from "./types";
+
+function employee2(id: number, fss_no: string, cnic: string, account: string): Employee2 {
+  return {
+    id,
+    fss_no,
+    serial_no: null,
+    name: `Guard ${fss_no}`,
+    cnic,
+    bank_accounts: JSON.stringify([{ bank_name: "HBL", account_title: `Guard ${fss_no}`, account_number: account }]),
+  } as Employee2;
+}
+
+function row(employee_db_id: number, fss_no: string): Payroll2Row {
+  return { employee_db_id, employee_id: fss_no, fss_no, name: `Guard ${fss_no}`, net_pay: 30000 } as Payroll2Row;
+}
+
+describe("payeeLookup", () => {
+  it("pays the Employee2 record, not a v1 employee that shares its id", () => {
+    const v1 = { id: 7, cnic: "11111-1111111-1", bank_accounts: [{ bank_name: "MCB", account_number: "99999999" }] } as Employee;
+    const payee = payeeLookup([employee2(7, "F-7", "35202-1234567-1", "12345678")])(row(v1.id, "F-7"));
+    expect(payee?.cnic).toBe("35202-1234567-1");
+    expect(employee2Accounts(payee)).toEqual([{ bank_name: "HBL", account: "12345678" }]);
+  });
+
+  it("passes over a record whose attendance code disagrees", () => {
+    const lookup = payeeLookup([employee2(7, "F-99", "1", "11111111"), employee2(9, "F-7", "2", "22222222")]);
+    expect(lookup(row(7, "F-7"))?.id).toBe(9);
+    expect(lookup(row(7, "F-55"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,319 @@
+import dayjs from "dayjs";
+import type { Employee2, Payroll2Row } from "./types";
+
+/**
+ * Salary disbursement helpers: account validation and bank bulk-transfer
+ * file rendering from per-bank templates. Templates are plain data so
+ * accounts staff can adjust them from the disbursement page when a bank
+ * changes its upload format.
+ */
+
+export type AccountCheck = {
+  ok: boolean;
+  kind: "iban" | "account" | null;
+  normalized: string;
+  error?: string;
+};
+
+function ibanChecksumOk(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let rem = 0;
+  for (const ch of rearranged) {
+    const code = ch >= "A" && ch <= "Z" ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const d of code) rem = (rem * 10 + Number(d)) % 97;
+  }
+  return rem === 1;
+}
+
+/**
+ * Accepts an IBAN (Pakistani IBANs are 24 characters: PK, 2 check digits,
+ * 4-letter bank code, 16-digit account) or a plain 8 to 20 digit account number.
+ */
+export function validateAccount(raw?: string | null): AccountCheck {
+  const normalized = String(raw ?? "")
+    .replace(/[\s-]/g, "")
+    .toUpperCase();
+  if (!normalized) return { ok: false, kind: null, normalized, error: "Missing account number" };
+
+  if (/^[A-Z]{2}\d{2}/.test(normalized)) {
+    if (normalized.startsWith("PK") && !/^PK\d{2}[A-Z]{4}\d{16}$/.test(normalized)) {
+      return { ok: false, kind: "iban", normalized, error: "PK IBAN must be 24 characters (PKkk BBBB 16 digits)" };
+    }
+    if (normalized.length < 15 || normalized.length > 34 || !/^[A-Z0-9]+$/.test(normalized)) {
+      return { ok: false, kind: "iban", normalized, error: "IBAN has an invalid length" };
+    }
+    if (!ibanChecksumOk(normalized)) return { ok: false, kind: "iban", normalized, error: "IBAN check digits do not match" };
+    return { ok: true, kind: "iban", normalized };
+  }
+
+  if (!/^\d+$/.test(normalized)) return { ok: false, kind: "account", normalized, error: "Account number must be digits" };
+  if (normalized.length < 8 || normalized.length > 20) {
+    return { ok: false, kind: "account", normalized, error: "Account number must be 8 to 20 digits" };
+  }
+  return { ok: true, kind: "account", normalized };
+}
+
+export type AccountOption = { bank_name: string; account: string };
+
+/** FSS number, else serial number: the code attendance and payroll sheets use for a guard. */
+export function attendanceCode(r: { fss_no?: string | null; serial_no?: string | null }): string {
+  return String(r.fss_no || r.serial_no || "").trim();
+}
+
+/** Bank accounts saved on an Employee2 record, which keeps them as a JSON list. */
+export function employee2Accounts(emp?: Employee2 | null): AccountOption[] {
+  if (!emp?.bank_accounts) return [];
+  try {
+    const parsed = JSON.parse(emp.bank_accounts) as Array<{ bank_name?: string | null; account_number?: string | null }>;
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((a) => a?.account_number)
+          .map((a) => ({ bank_name: String(a.bank_name ?? ""), account: String(a.account_number) }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds the Employee2 record behind a payroll2 row. Rows carry the Employee2
+ * id in `employee_db_id`; v1 employees are numbered separately, so their ids
+ * must never be used here. The attendance code is checked too, and a record
+ * whose code disagrees is passed over for the one that matches it.
+ */
+export function payeeLookup(employees: Employee2[]): (row: Payroll2Row) => Employee2 | undefined {
+  const byId = new Map(employees.map((e) => [e.id, e]));
+  const byCode = new Map(employees.filter((e) => attendanceCode(e)).map((e) => [attendanceCode(e), e]));
+  return (row) => {
+    const code = attendanceCode(row);
+    const emp = byId.get(row.employee_db_id);
+    if (emp && (!code || !attendanceCode(emp) || attendanceCode(emp) === code)) return emp;
+    return code ? byCode.get(code) : undefined;
+  };
+}
+
+export type DisbursementMethod = "bank" | "cash";
+
+/** Payroll sheets record the method as free text ("Bank", "HBL", "Cash", ...). */
+export function disbursementMethod(bankCash?: string | null, hasValidAccount = false): DisbursementMethod {
+  const t = String(bankCash ?? "").trim().toLowerCase();
+  if (t.includes("cash")) return "cash";
+  if (t) return "bank";
+  return hasValidAccount ? "bank" : "cash";
+}
+
+export type TransferLine = {
+  employee_id: string;
+  name: string;
+  bank_name: string;
+  account: string;
+  amount: number;
+  cnic?: string | null;
+};
+
+export type TemplateFieldKey =
+  | "account"
+  | "name"
+  | "amount"
+  | "amount_paisa"
+  | "bank_name"
+  | "employee_id"
+  | "cnic"
+  | "reference"
+  | "value_date"
+  | "serial";
+
+export type TemplateField = {
+  key: TemplateFieldKey;
+  label: string;
+  /** Fixed-width only. */
+  width?: number;
+  align?: "left" | "right";
+  padChar?: string;
+};
+
+export type BankTemplate = {
+  id: string;
+  name: string;
+  /** Matched against the employee's bank name to pick a template automatically. */
+  bankPattern: string;
+  format: "csv" | "fixed";
+  delimiter?: string;
+  header?: boolean;
+  dateFormat: string;
+  fields: TemplateField[];
+};
+
+export const DEFAULT_BANK_TEMPLATES: BankTemplate[] = [
+  {
+    id: "hbl",
+    name: "HBL Bulk Transfer (CSV)",
+    bankPattern: "hbl|habib bank",
+    format: "csv",
+    delimiter: ",",
+    header: true,
+    dateFormat: "DD/MM/YYYY",
+    fields: [
+      { key: "serial", label: "S.No" },
+      { key: "account", label: "Beneficiary Account" },
+      { key: "name", label: "Beneficiary Name" },
+      { key: "amount", label: "Amount" },
+      { key: "reference", label: "Payment Reference" },
+      { key: "value_date", label: "Value Date" },
+    ],
+  },
+  {
+    id: "mcb",
+    name: "MCB Salary Upload (fixed width)",
+    bankPattern: "mcb|muslim commercial",
+    format: "fixed",
+    dateFormat: "YYYYMMDD",
+    fields: [
+      { key: "account", label: "Account", width: 24 },
+      { key: "name", label: "Name", width: 35 },
+      { key: "amount_paisa", label: "Amount (paisa)", width: 15, align: "right", padChar: "0" },
+      { key: "value_date", label: "Value date", width: 8 },
+      { key: "reference", label: "Reference", width: 20 },
+    ],
+  },
+  {
+    id: "meezan",
+    name: "Meezan Bank (CSV)",
+    bankPattern: "meezan",
+    format: "csv",
+    delimiter: ",",
+    header: true,
+    dateFormat: "YYYY-MM-DD",
+    fields: [
+      { key: "account", label: "IBAN/Account" },
+      { key: "name", label: "Title" },
+      { key: "cnic", label: "CNIC" },
+      { key: "amount", label: "Amount" },
+      { key: "reference", label: "Narration" },
+    ],
+  },
+  {
+    id: "ibft",
+    name: "Generic IBFT (CSV)",
+    bankPattern: ".*",
+    format: "csv",
+    delimiter: ",",
+    header: true,
+    dateFormat: "YYYY-MM-DD",
+    fields: [
+      { key: "bank_name", label: "Bank" },
+      { key: "account", label: "IBAN/Account" },
+      { key: "name", label: "Beneficiary" },
+      { key: "amount", label: "Amount" },
+      { key: "reference", label: "Reference" },
+    ],
+  },
+];
+
+const TEMPLATES_KEY = "disbursement_templates";
+
+export function loadBankTemplates(): BankTemplate[] {
+  if (typeof window === "undefined") return DEFAULT_BANK_TEMPLATES;
+  try {
+    const raw = window.localStorage.getItem(TEMPLATES_KEY);
+    const parsed = raw ? (JSON.parse(raw) as BankTemplate[]) : null;
+    return Array.isArray(parsed) && parsed.length ? parsed : DEFAULT_BANK_TEMPLATES;
+  } catch {
+    return DEFAULT_BANK_TEMPLATES;
+  }
+}
+
+export function saveBankTemplates(templates: BankTemplate[]) {
+  window.localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+export function resetBankTemplates() {
+  window.localStorage.removeItem(TEMPLATES_KEY);
+}
+
+/** First template whose pattern matches the bank name; the catch-all generic one otherwise. */
+export function templateForBank(bankName: string, templates: BankTemplate[]): BankTemplate {
+  const name = bankName.toLowerCase();
+  for (const t of templates) {
+    try {
+      if (t.bankPattern !== ".*" && new RegExp(t.bankPattern, "i").test(name)) return t;
+    } catch {
+      // bad pattern typed into the editor: skip it
+    }
+  }
+  return templates.find((t) => t.bankPattern === ".*") ?? templates[templates.length - 1];
+}
+
+function fieldValue(key: TemplateFieldKey, line: TransferLine, i: number, meta: { reference: string; date: string }) {
+  switch (key) {
+    case "account":
+      return line.account;
+    case "name":
+      return line.name;
+    case "amount":
+      return (Math.round(line.amount * 100) / 100).toFixed(2);
+    case "amount_paisa":
+      return String(Math.round(line.amount * 100));
+    case "bank_name":
+      return line.bank_name;
+    case "employee_id":
+      return line.employee_id;
+    case "cnic":
+      return String(line.cnic ?? "").replace(/\D/g, "");
+    case "reference":
+      return `${meta.reference} ${line.employee_id}`.trim();
+    case "value_date":
+      return meta.date;
+    case "serial":
+      return String(i + 1);
+  }
+}
+
+function csvCell(v: string, delimiter: string): string {
+  return v.includes(delimiter) || /["\n]/.test(v) ? `"${v.replaceAll('"', '""')}"` : v;
+}
+
+type TransferOptions = { reference: string; valueDate: string };
+
+function transferMeta(template: BankTemplate, opts: TransferOptions) {
+  return { reference: opts.reference, date: dayjs(opts.valueDate).format(template.dateFormat) };
+}
+
+/**
+ * Values too long for their fixed-width field. Cutting them short would send
+ * the bank a wrong account or amount, so such lines are held back instead.
+ */
+export function transferLineErrors(template: BankTemplate, line: TransferLine, opts: TransferOptions, i = 0): string[] {
+  if (template.format !== "fixed") return [];
+  const meta = transferMeta(template, opts);
+  return template.fields.flatMap((f) => {
+    const width = f.width ?? 20;
+    return fieldValue(f.key, line, i, meta).length > width ? [`${f.label} longer than ${width} characters`] : [];
+  });
+}
+
+export function renderTransferFile(template: BankTemplate, lines: TransferLine[], opts: TransferOptions): string {
+  const meta = transferMeta(template, opts);
+
+  if (template.format === "fixed") {
+    return lines
+      .map((line, i) => {
+        const errors = transferLineErrors(template, line, opts, i);
+        if (errors.length) throw new Error(`${line.name || line.employee_id}: ${errors.join(", ")}`);
+        return template.fields
+          .map((f) => {
+            const width = f.width ?? 20;
+            const v = fieldValue(f.key, line, i, meta);
+            const pad = f.padChar ?? " ";
+            return f.align === "right" ? v.padStart(width, pad) : v.padEnd(width, pad);
+          })
+          .join("");
+      })
+      .join("\r\n");
+  }
+
+  const d = template.delimiter || ",";
+  const out = lines.map((line, i) => template.fields.map((f) => csvCell(fieldValue(f.key, line, i, meta), d)).join(d));
+  if (template.header) out.unshift(template.fields.map((f) => csvCell(f.label, d)).join(d));
+  return out.join("\r\n");
+}
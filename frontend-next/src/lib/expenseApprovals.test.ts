@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { approvalState } from "./expenseApprovals";
+import type { Expense, ExpenseApprovalDelegation, ExpenseApprovalPolicy } from "./types";
+
+const today = "2026-10-19";
+
+function expense(patch: Partial<Expense> = {}): Expense {
+  return {
+    id: 1,
+    expense_date: "2026-10-18",
+    category: "Travel & Transportation",
+    description: "Site visit",
+    amount: 50000,
+    status: "PENDING",
+    is_active: true,
+    created_at: "2026-10-18T09:00:00Z",
+    submitted_by: "amir",
+    approvals: [],
+    ...patch,
+  };
+}
+
+const policy: ExpenseApprovalPolicy = {
+  id: 7,
+  name: "Large travel",
+  category: "Travel & Transportation",
+  min_amount: 25000,
+  max_amount: null,
+  approvals_required: 2,
+  approvers: ["sara", "bilal"],
+  is_active: true,
+  created_at: "2026-01-01T00:00:00Z",
+};
+
+function delegation(delegator: string, delegate: string): ExpenseApprovalDelegation {
+  return { id: 1, delegator, delegate, from_date: "2026-10-01", to_date: "2026-10-31", created_at: "2026-10-01T00:00:00Z" };
+}
+
+describe("approvalState", () => {
+  it("lets a listed approver sign", () => {
+    const s = approvalState(expense(), [policy], [], "sara", today);
+    expect(s).toMatchObject({ required: 2, approved: 0, actAs: "sara", blocked: null });
+  });
+
+  it("lets a delegate sign for an absent approver", () => {
+    const s = approvalState(expense(), [policy], [delegation("bilal", "nadia")], "nadia", today);
+    expect(s.actAs).toBe("bilal");
+  });
+
+  it("blocks the submitter even when they hold a delegation", () => {
+    const s = approvalState(expense(), [policy], [delegation("sara", "amir")], "amir", today);
+    expect(s).toMatchObject({ actAs: null, blocked: "You cannot approve your own expense" });
+  });
+
+  it("counts an approver once whether they signed or were signed for", () => {
+    const signed = expense({
+      approvals: [
+        { id: 1, expense_id: 1, action: "approved", approver: "nadia", on_behalf_of: "sara", created_at: "2026-10-18T10:00:00Z" },
+      ],
+    });
+    expect(approvalState(signed, [policy], [], "sara", today).actAs).toBeNull();
+    expect(approvalState(signed, [policy], [], "bilal", today).actAs).toBe("bilal");
+  });
+
+  it("counts a repeated approval once and blocks the approver from signing again", () => {
+    const approval = { expense_id: 1, action: "approved" as const, approver: "sara", created_at: "2026-10-18T10:00:00Z" };
+    const twice = expense({ approvals: [{ ...approval, id: 1 }, { ...approval, id: 2 }] });
+    expect(approvalState(twice, [policy], [], "sara", today)).toMatchObject({
+      approved: 1,
+      actAs: null,
+      blocked: "You have already approved this expense",
+    });
+    expect(approvalState(twice, [policy], [], "bilal", today)).toMatchObject({ approved: 1, actAs: "bilal" });
+  });
+});
@@ -0,0 +1,123 @@
+import type { Expense, ExpenseApproval, ExpenseApprovalDelegation, ExpenseApprovalPolicy } from "./types";
+
+/**
+ * Who may approve an expense. The server records each decision and moves the
+ * expense to APPROVED once enough distinct approvers have signed; these rules
+ * mirror it so pages only offer actions it will accept.
+ *
+ * The governing policy is the active one whose category (a specific category
+ * beats "any") and amount band match, preferring the highest minimum. With no
+ * matching policy a single approval from anyone with access to expenses is
+ * enough. An approver who is away can delegate to someone for a date range;
+ * the delegate then signs on their behalf, but one person still only counts
+ * once towards the required approvals. Nobody approves an expense they
+ * submitted, not even on someone else's behalf; the server enforces the same.
+ */
+
+export const EXPENSE_CATEGORIES = [
+  "Office Supplies",
+  "Travel & Transportation",
+  "Utilities",
+  "Rent",
+  "Marketing & Advertising",
+  "Professional Services",
+  "Equipment & Maintenance",
+  "Insurance",
+  "Training & Development",
+  "Meals & Entertainment",
+  "Communication",
+  "Other",
+];
+
+export function policyFor(
+  expense: Pick<Expense, "category" | "amount">,
+  policies: ExpenseApprovalPolicy[]
+): ExpenseApprovalPolicy | null {
+  const amount = Number(expense.amount || 0);
+  const matching = policies.filter(
+    (p) =>
+      p.is_active &&
+      (!p.category || p.category === expense.category) &&
+      amount >= Number(p.min_amount || 0) &&
+      (p.max_amount == null || amount <= Number(p.max_amount))
+  );
+  matching.sort((a, b) => Number(Boolean(b.category)) - Number(Boolean(a.category)) || b.min_amount - a.min_amount);
+  return matching[0] ?? null;
+}
+
+export function delegationActive(d: ExpenseApprovalDelegation, date: string): boolean {
+  return d.from_date.slice(0, 10) <= date && date <= d.to_date.slice(0, 10);
+}
+
+/** Approvers `username` may sign for on `date`. */
+export function delegatorsFor(username: string, delegations: ExpenseApprovalDelegation[], date: string): string[] {
+  return delegations.filter((d) => d.delegate === username && delegationActive(d, date)).map((d) => d.delegator);
+}
+
+export function approvalsOf(expense: Pick<Expense, "approvals">): ExpenseApproval[] {
+  return (expense.approvals ?? []).filter((a) => a.action === "approved");
+}
+
+export type ApprovalState = {
+  policy: ExpenseApprovalPolicy | null;
+  required: number;
+  approved: number;
+  /** Who the current user would sign as: themselves or an approver they stand in for. */
+  actAs: string | null;
+  /** Why the current user cannot act, when `actAs` is null. */
+  blocked: string | null;
+};
+
+export function approvalState(
+  expense: Expense,
+  policies: ExpenseApprovalPolicy[],
+  delegations: ExpenseApprovalDelegation[],
+  username: string | null | undefined,
+  date: string
+): ApprovalState {
+  // The policy fixed at submission wins over one edited or added since
+  const policy = policies.find((p) => p.id === expense.policy_id) ?? policyFor(expense, policies);
+  const required = Math.max(1, Number(expense.approvals_required ?? policy?.approvals_required ?? 1));
+  const approvals = approvalsOf(expense);
+  // Distinct people, so a decision recorded twice does not count twice
+  const approved = new Set(approvals.map((a) => a.approver)).size;
+  const state = { policy, required, approved, actAs: null, blocked: null };
+
+  if (expense.status !== "PENDING") return { ...state, blocked: `Expense is ${expense.status.toLowerCase()}` };
+  if (!username) return { ...state, blocked: "Not signed in" };
+  if (expense.submitted_by === username) return { ...state, blocked: "You cannot approve your own expense" };
+  if (approvals.some((a) => a.approver === username)) return { ...state, blocked: "You have already approved this expense" };
+
+  const signed = new Set(approvals.map((a) => a.on_behalf_of || a.approver));
+  const allowed = policy?.approvers?.length ? new Set(policy.approvers) : null;
+  const candidates = [username, ...delegatorsFor(username, delegations, date)].filter(
+    (who) => !signed.has(who) && who !== expense.submitted_by && (!allowed || allowed.has(who))
+  );
+  if (candidates.length) return { ...state, actAs: candidates[0] };
+  return { ...state, blocked: allowed ? `Needs approval from ${[...allowed].join(", ")}` : "Awaiting another approver" };
+}
+
+/** Pending expenses the user can approve or reject now, oldest first. */
+export function approvalInbox(
+  expenses: Expense[],
+  policies: ExpenseApprovalPolicy[],
+  delegations: ExpenseApprovalDelegation[],
+  username: string | null | undefined,
+  date: string
+): Array<{ expense: Expense; state: ApprovalState }> {
+  return expenses
+    .filter((e) => e.status === "PENDING")
+    .map((expense) => ({ expense, state: approvalState(expense, policies, delegations, username, date) }))
+    .filter((r) => r.state.actAs)
+    .sort((a, b) => a.expense.expense_date.localeCompare(b.expense.expense_date) || a.expense.id - b.expense.id);
+}
+
+/** One line per policy for tables and tooltips. */
+export function describePolicy(p: ExpenseApprovalPolicy): string {
+  const band =
+    p.max_amount != null
+      ? `Rs ${p.min_amount.toLocaleString()}–${Number(p.max_amount).toLocaleString()}`
+      : `Rs ${p.min_amount.toLocaleString()} and above`;
+  const who = p.approvers.length ? ` from ${p.approvers.join(", ")}` : "";
+  return `${p.category || "Any category"}, ${band}: ${p.approvals_required} approval${p.approvals_required === 1 ? "" : "s"}${who}`;
+}
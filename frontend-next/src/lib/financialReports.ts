@@ -0,0 +1,441 @@
+import dayjs from "dayjs";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { roundMoney } from "./payrollEngine";
+import type { FinanceAccount, FinanceJournalEntry, FinanceJournalLine } from "./types";
+import { createXlsx, type XlsxCell } from "./xlsx";
+
+/**
+ * Financial statements from posted journal lines. Balances follow each
+ * account's normal side (assets and expenses are debit-normal; liabilities,
+ * equity and income credit-normal) and roll up through `parent_id`, so a
+ * parent shows its own lines plus every descendant's.
+ *
+ *   trial balance   closing balance of every account at the end date
+ *   profit & loss   income and expense movement within the range
+ *   balance sheet   assets, liabilities and equity at the end date, with
+ *                   income less expenses to date shown as current earnings
+ *
+ * Each report is compared with the previous period of the same length.
+ */
+
+export type StatementKind = "trial_balance" | "profit_loss" | "balance_sheet";
+
+export const STATEMENT_TITLES: Record<StatementKind, string> = {
+  trial_balance: "Trial Balance",
+  profit_loss: "Profit & Loss",
+  balance_sheet: "Balance Sheet",
+};
+
+export type Period = { from: string; to: string };
+
+export type StatementRow = {
+  key: string;
+  kind: "section" | "account" | "total";
+  label: string;
+  depth: number;
+  account?: FinanceAccount;
+  current: number;
+  previous: number;
+};
+
+export type Statement = {
+  kind: StatementKind;
+  period: Period;
+  previous: Period;
+  rows: StatementRow[];
+  /** Trial balance: closing debits less credits; balance sheet: assets less liabilities and equity. Zero when in balance. */
+  imbalance: number;
+};
+
+const DEBIT_NORMAL = new Set(["ASSET", "EXPENSE"]);
+
+/** Previous period of the same length; whole months shift by months. */
+export function previousPeriod({ from, to }: Period): Period {
+  const f = dayjs(from);
+  const t = dayjs(to);
+  if (f.date() === 1 && t.isSame(t.endOf("month"), "day")) {
+    const months = t.diff(f, "month") + 1;
+    return {
+      from: f.subtract(months, "month").format("YYYY-MM-DD"),
+      to: f.subtract(1, "day").format("YYYY-MM-DD"),
+    };
+  }
+  const days = t.diff(f, "day") + 1;
+  return {
+    from: f.subtract(days, "day").format("YYYY-MM-DD"),
+    to: f.subtract(1, "day").format("YYYY-MM-DD"),
+  };
+}
+
+function posted(entries: FinanceJournalEntry[]): FinanceJournalEntry[] {
+  return entries.filter((e) => e.status === "POSTED");
+}
+
+/** Net debit per account for posted lines dated within [from, to]; `from` null means since inception. */
+export function netDebits(entries: FinanceJournalEntry[], from: string | null, to: string): Map<number, number> {
+  const out = new Map<number, number>();
+  for (const e of posted(entries)) {
+    if (e.entry_date > to || (from && e.entry_date < from)) continue;
+    for (const l of e.lines ?? []) {
+      out.set(l.account_id, (out.get(l.account_id) ?? 0) + Number(l.debit || 0) - Number(l.credit || 0));
+    }
+  }
+  return out;
+}
+
+function natural(account: FinanceAccount, netDebit: number): number {
+  return roundMoney(DEBIT_NORMAL.has(account.account_type) ? netDebit : -netDebit);
+}
+
+/** The account and all its descendants' ids. */
+export function descendantIds(accounts: FinanceAccount[], rootId: number): Set<number> {
+  const ids = new Set([rootId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const a of accounts) {
+      if (a.parent_id && ids.has(a.parent_id) && !ids.has(a.id)) {
+        ids.add(a.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/** Accounts of the given types in tree order (by code within each parent), with depth. */
+function accountTree(accounts: FinanceAccount[], types: string[]): Array<{ account: FinanceAccount; depth: number }> {
+  const pool = accounts.filter((a) => types.includes(a.account_type));
+  const ids = new Set(pool.map((a) => a.id));
+  const byParent = new Map<number | null, FinanceAccount[]>();
+  for (const a of pool) {
+    const parent = a.parent_id && ids.has(a.parent_id) ? a.parent_id : null;
+    byParent.set(parent, [...(byParent.get(parent) ?? []), a]);
+  }
+  const out: Array<{ account: FinanceAccount; depth: number }> = [];
+  const walk = (parent: number | null, depth: number) => {
+    for (const a of (byParent.get(parent) ?? []).sort((x, y) => x.code.localeCompare(y.code))) {
+      out.push({ account: a, depth });
+      walk(a.id, depth + 1);
+    }
+  };
+  walk(null, 0);
+  return out;
+}
+
+/** Rows for one section: every account with its rolled-up balance, then the section total (root accounts only). */
+function sectionRows(
+  key: string,
+  label: string,
+  accounts: FinanceAccount[],
+  types: string[],
+  current: Map<number, number>,
+  previous: Map<number, number>,
+  hideZero: boolean
+): { rows: StatementRow[]; current: number; previous: number } {
+  const tree = accountTree(accounts, types);
+  const rolled = (own: Map<number, number>, a: FinanceAccount) => {
+    let sum = 0;
+    for (const id of descendantIds(accounts, a.id)) sum += own.get(id) ?? 0;
+    return natural(a, sum);
+  };
+  const rows: StatementRow[] = [{ key: `${key}-head`, kind: "section", label, depth: 0, current: 0, previous: 0 }];
+  let totalCurrent = 0;
+  let totalPrevious = 0;
+  for (const { account, depth } of tree) {
+    const cur = rolled(current, account);
+    const prev = rolled(previous, account);
+    if (depth === 0) {
+      totalCurrent += cur;
+      totalPrevious += prev;
+    }
+    if (hideZero && !cur && !prev) continue;
+    rows.push({
+      key: `${key}-${account.id}`,
+      kind: "account",
+      label: `${account.code} ${account.name}`,
+      depth: depth + 1,
+      account,
+      current: cur,
+      previous: prev,
+    });
+  }
+  totalCurrent = roundMoney(totalCurrent);
+  totalPrevious = roundMoney(totalPrevious);
+  rows.push({ key: `${key}-total`, kind: "total", label: `Total ${label}`, depth: 0, current: totalCurrent, previous: totalPrevious });
+  return { rows, current: totalCurrent, previous: totalPrevious };
+}
+
+export function buildStatement(
+  kind: StatementKind,
+  accounts: FinanceAccount[],
+  entries: FinanceJournalEntry[],
+  period: Period,
+  hideZero = true
+): Statement {
+  const prev = previousPeriod(period);
+
+  if (kind === "profit_loss") {
+    const cur = netDebits(entries, period.from, period.to);
+    const old = netDebits(entries, prev.from, prev.to);
+    const income = sectionRows("income", "Income", accounts, ["INCOME"], cur, old, hideZero);
+    const expense = sectionRows("expense", "Expenses", accounts, ["EXPENSE"], cur, old, hideZero);
+    return {
+      kind,
+      period,
+      previous: prev,
+      rows: [
+        ...income.rows,
+        ...expense.rows,
+        {
+          key: "net",
+          kind: "total",
+          label: "Net Profit / (Loss)",
+          depth: 0,
+          current: roundMoney(income.current - expense.current),
+          previous: roundMoney(income.previous - expense.previous),
+        },
+      ],
+      imbalance: 0,
+    };
+  }
+
+  const cur = netDebits(entries, null, period.to);
+  const old = netDebits(entries, null, prev.to);
+
+  if (kind === "balance_sheet") {
+    const assets = sectionRows("assets", "Assets", accounts, ["ASSET"], cur, old, hideZero);
+    const liabilities = sectionRows("liabilities", "Liabilities", accounts, ["LIABILITY"], cur, old, hideZero);
+    const equity = sectionRows("equity", "Equity", accounts, ["EQUITY"], cur, old, hideZero);
+    // Income less expenses not yet closed to equity
+    const earnings = (m: Map<number, number>) =>
+      roundMoney(
+        -accounts
+          .filter((a) => a.account_type === "INCOME" || a.account_type === "EXPENSE")
+          .reduce((s, a) => s + (m.get(a.id) ?? 0), 0)
+      );
+    const earnCur = earnings(cur);
+    const earnPrev = earnings(old);
+    const equityRows = equity.rows.slice(0, -1);
+    equityRows.push({ key: "equity-earnings", kind: "account", label: "Current earnings", depth: 1, current: earnCur, previous: earnPrev });
+    const equityCur = roundMoney(equity.current + earnCur);
+    const equityPrev = roundMoney(equity.previous + earnPrev);
+    equityRows.push({ key: "equity-total", kind: "total", label: "Total Equity", depth: 0, current: equityCur, previous: equityPrev });
+    const lePrev = roundMoney(liabilities.previous + equityPrev);
+    const leCur = roundMoney(liabilities.current + equityCur);
+    return {
+      kind,
+      period,
+      previous: prev,
+      rows: [
+        ...assets.rows,
+        ...liabilities.rows,
+        ...equityRows,
+        { key: "le-total", kind: "total", label: "Total Liabilities & Equity", depth: 0, current: leCur, previous: lePrev },
+      ],
+      imbalance: roundMoney(assets.current - leCur),
+    };
+  }
+
+  // Trial balance: signed as net debit so the debit and credit columns can be read off the sign
+  const rows: StatementRow[] = [];
+  let imbalance = 0;
+  for (const { account, depth } of accountTree(accounts, ["ASSET", "LIABILITY", "EQUITY", "INCOME", "EXPENSE"])) {
+    let c = 0;
+    let p = 0;
+    for (const id of descendantIds(accounts, account.id)) {
+      c += cur.get(id) ?? 0;
+      p += old.get(id) ?? 0;
+    }
+    if (depth === 0) imbalance += c;
+    if (hideZero && !roundMoney(c) && !roundMoney(p)) continue;
+    rows.push({
+      key: `tb-${account.id}`,
+      kind: "account",
+      label: `${account.code} ${account.name}`,
+      depth,
+      account,
+      current: roundMoney(c),
+      previous: roundMoney(p),
+    });
+  }
+  return { kind, period, previous: prev, rows, imbalance: roundMoney(imbalance) };
+}
+
+export function trialBalanceTotals(statement: Statement): { debit: number; credit: number; prevDebit: number; prevCredit: number } {
+  const roots = statement.rows.filter((r) => r.kind === "account" && r.depth === 0);
+  const pos = (n: number) => (n > 0 ? n : 0);
+  const neg = (n: number) => (n < 0 ? -n : 0);
+  return {
+    debit: roundMoney(roots.reduce((a, r) => a + pos(r.current), 0)),
+    credit: roundMoney(roots.reduce((a, r) => a + neg(r.current), 0)),
+    prevDebit: roundMoney(roots.reduce((a, r) => a + pos(r.previous), 0)),
+    prevCredit: roundMoney(roots.reduce((a, r) => a + neg(r.previous), 0)),
+  };
+}
+
+export type LedgerLine = {
+  key: string;
+  entry: FinanceJournalEntry;
+  line: FinanceJournalLine;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+/** Posted lines on an account (and its descendants) within the period, with opening and running balance. */
+export function accountLedger(
+  accounts: FinanceAccount[],
+  account: FinanceAccount,
+  entries: FinanceJournalEntry[],
+  period: Period,
+  cumulative: boolean
+): { opening: number; lines: LedgerLine[]; closing: number } {
+  const ids = descendantIds(accounts, account.id);
+  const sign = DEBIT_NORMAL.has(account.account_type) ? 1 : -1;
+  let opening = 0;
+  const inPeriod: Array<Omit<LedgerLine, "balance">> = [];
+  for (const e of posted(entries)) {
+    if (e.entry_date > period.to) continue;
+    for (const l of e.lines ?? []) {
+      if (!ids.has(l.account_id)) continue;
+      const debit = Number(l.debit || 0);
+      const credit = Number(l.credit || 0);
+      if (e.entry_date < period.from) {
+        if (cumulative) opening += sign * (debit - credit);
+        continue;
+      }
+      inPeriod.push({ key: `${e.id}-${l.id}`, entry: e, line: l, debit, credit });
+    }
+  }
+  inPeriod.sort((a, b) => a.entry.entry_date.localeCompare(b.entry.entry_date) || a.entry.id - b.entry.id);
+  let balance = roundMoney(opening);
+  const lines = inPeriod.map((l) => {
+    balance = roundMoney(balance + sign * (l.debit - l.credit));
+    return { ...l, balance };
+  });
+  return { opening: roundMoney(opening), lines, closing: balance };
+}
+
+/* ---------- export ---------- */
+
+export type StatementTable = {
+  head: string[];
+  body: Array<{ cells: XlsxCell[]; bold?: boolean }>;
+};
+
+function amount(n: number): string {
+  if (!n) return "-";
+  const s = Math.abs(n).toLocaleString("en-PK", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `(${s})` : s;
+}
+
+function periodLabel(p: Period): string {
+  return `${dayjs(p.from).format("DD MMM YYYY")} – ${dayjs(p.to).format("DD MMM YYYY")}`;
+}
+
+/** Columns and rows as shown on screen, shared by the PDF and Excel exports. */
+export function statementTable(statement: Statement, asNumbers = false): StatementTable {
+  const fmt = (n: number): XlsxCell => (asNumbers ? n || null : amount(n));
+  const indent = (r: StatementRow) => `${"    ".repeat(r.depth)}${r.label}`;
+  const asOf = statement.kind !== "profit_loss";
+  const curHead = asOf ? `As of ${statement.period.to}` : periodLabel(statement.period);
+  const prevHead = asOf ? `As of ${statement.previous.to}` : periodLabel(statement.previous);
+
+  if (statement.kind === "trial_balance") {
+    const t = trialBalanceTotals(statement);
+    const side = (n: number, debit: boolean): XlsxCell => (debit ? (n > 0 ? fmt(n) : "") : n < 0 ? fmt(-n) : "");
+    return {
+      head: ["Account", `Debit (${curHead})`, `Credit (${curHead})`, `Debit (${prevHead})`, `Credit (${prevHead})`],
+      body: [
+        ...statement.rows.map((r) => ({
+          cells: [indent(r), side(r.current, true), side(r.current, false), side(r.previous, true), side(r.previous, false)],
+          bold: r.depth === 0,
+        })),
+        { cells: ["Total", fmt(t.debit), fmt(t.credit), fmt(t.prevDebit), fmt(t.prevCredit)], bold: true },
+      ],
+    };
+  }
+
+  return {
+    head: ["", curHead, prevHead, "Change"],
+    body: statement.rows.map((r) => ({
+      cells:
+        r.kind === "section"
+          ? [r.label, "", "", ""]
+          : [indent(r), fmt(r.current), fmt(r.previous), fmt(roundMoney(r.current - r.previous))],
+      bold: r.kind !== "account",
+    })),
+  };
+}
+
+export function statementFilename(statement: Statement, ext: "pdf" | "xlsx"): string {
+  return `${statement.kind}_${statement.period.from}_${statement.period.to}.${ext}`;
+}
+
+export function buildStatementPdf(statement: Statement, logoDataUrl?: string | null): Blob {
+  const doc = new jsPDF({ orientation: "portrait", unit: "pt", format: "a4" });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const marginX = 40;
+  const table = statementTable(statement);
+  const title = STATEMENT_TITLES[statement.kind];
+  const subtitle =
+    statement.kind === "profit_loss" ? `For the period ${periodLabel(statement.period)}` : `As of ${dayjs(statement.period.to).format("DD MMM YYYY")}`;
+
+  autoTable(doc, {
+    head: [table.head],
+    body: table.body.map((r) => r.cells.map((c) => String(c ?? ""))),
+    startY: 100,
+    margin: { left: marginX, right: marginX, top: 100 },
+    styles: { font: "helvetica", fontSize: 9, cellPadding: 4 },
+    headStyles: { fillColor: [22, 119, 255], textColor: 255, fontStyle: "bold", halign: "right" },
+    columnStyles: Object.fromEntries(table.head.map((_, i) => [i, i === 0 ? { halign: "left" as const } : { halign: "right" as const, cellWidth: 90 }])),
+    didParseCell: (data) => {
+      if (data.section === "head" && data.column.index === 0) data.cell.styles.halign = "left";
+      if (data.section === "body" && table.body[data.row.index]?.bold) data.cell.styles.fontStyle = "bold";
+    },
+    didDrawPage: (data) => {
+      if (logoDataUrl) {
+        try {
+          doc.addImage(logoDataUrl, "PNG", marginX, 28, 44, 44);
+        } catch {
+          // ignore
+        }
+      }
+      const titleX = marginX + (logoDataUrl ? 56 : 0);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(16);
+      doc.text(title, titleX, 46);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(10);
+      doc.setTextColor(90);
+      doc.text(subtitle, titleX, 62);
+      doc.text(`Page ${data.pageNumber}`, pageW - marginX, 46, { align: "right" });
+      doc.setTextColor(120);
+      doc.setFontSize(9);
+      doc.text("Flash ERP", marginX, pageH - 24);
+      doc.text(`Generated ${dayjs().format("YYYY-MM-DD HH:mm")}`, pageW - marginX, pageH - 24, { align: "right" });
+      doc.setTextColor(0);
+    },
+  });
+
+  return doc.output("blob");
+}
+
+export function buildStatementXlsx(statement: Statement): Blob {
+  const table = statementTable(statement, true);
+  const title = STATEMENT_TITLES[statement.kind];
+  const rows: XlsxCell[][] = [[title], [`Period: ${statement.period.from} to ${statement.period.to}`], [], table.head, ...table.body.map((r) => r.cells)];
+  const boldRows = [0, 3, ...table.body.flatMap((r, i) => (r.bold ? [i + 4] : []))];
+  return createXlsx([
+    {
+      name: title,
+      rows,
+      boldRows,
+      widths: [44, ...table.head.slice(1).map(() => 20)],
+      freeze: { rows: 4, cols: 1 },
+    },
+  ]);
+}
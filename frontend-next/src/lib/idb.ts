@@ -0,0 +1,71 @@
+/**
+ * Minimal promise wrapper over IndexedDB for the few offline stores the app
+ * keeps. Schema changes go through `DB_VERSION` + the upgrade callback below.
+ */
+
+const DB_NAME = "flash-erp-offline";
+const DB_VERSION = 1;
+
+export const STORES = {
+  attendanceDrafts: "attendance_drafts",
+  attendanceOutbox: "attendance_outbox",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function idbAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORES.attendanceDrafts)) {
+        db.createObjectStore(STORES.attendanceDrafts, { keyPath: "date" });
+      }
+      if (!db.objectStoreNames.contains(STORES.attendanceOutbox)) {
+        db.createObjectStore(STORES.attendanceOutbox, { keyPath: "id", autoIncrement: true });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("Failed to open offline storage"));
+    };
+  });
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+async function store(name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export async function idbGet<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return wrap((await store(name, "readonly")).get(key)) as Promise<T | undefined>;
+}
+
+export async function idbGetAll<T>(name: StoreName): Promise<T[]> {
+  return wrap((await store(name, "readonly")).getAll()) as Promise<T[]>;
+}
+
+/** Inserts or replaces; resolves to the record key (generated for auto-increment stores). */
+export async function idbPut<T>(name: StoreName, value: T): Promise<IDBValidKey> {
+  return wrap((await store(name, "readwrite")).put(value));
+}
+
+export async function idbDelete(name: StoreName, key: IDBValidKey): Promise<void> {
+  await wrap((await store(name, "readwrite")).delete(key));
+}
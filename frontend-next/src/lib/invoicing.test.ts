@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { buildInvoicePreview, contractsForSite, type InvoiceInputs } from "./invoicing";
+import type { ClientDetail, ClientGuardRequirement, ClientSite, Contract, ContractVersion } from "./types";
+
+function site(id: number, contract_id: number | null): ClientSite {
+  return { id, client_id: 1, site_name: `Site ${id}`, status: "Active", contract_id, created_at: "2026-01-01" };
+}
+
+function contract(id: number, renewed_from_id: number | null = null): Contract {
+  return { id, client_id: 1, contract_number: `C-${id}`, monthly_cost: 0, status: "active", renewed_from_id, created_at: "2026-01-01" };
+}
+
+function schedule(contract_id: number, effective_from: string, monthly_rate: number): ContractVersion {
+  return {
+    id: contract_id,
+    contract_id,
+    version: 1,
+    effective_from,
+    monthly_cost: monthly_rate,
+    rates: [{ guard_type: "Unarmed", monthly_rate }],
+    created_at: "2026-01-01",
+  };
+}
+
+function requirement(id: number, site_id: number): ClientGuardRequirement {
+  return { id, site_id, guard_type: "Unarmed", number_of_guards: 1, created_at: "2026-01-01" };
+}
+
+describe("buildInvoicePreview", () => {
+  it("bills each site at the rates of its own contract", () => {
+    const sites = [site(1, 10), site(2, 20)];
+    const contracts = [contract(10), contract(20)];
+    const inputs: InvoiceInputs = {
+      client: { id: 1, sites, contracts } as unknown as ClientDetail,
+      from: "2026-09-01",
+      to: "2026-09-30",
+      requirements: new Map([
+        [1, [requirement(100, 1)]],
+        [2, [requirement(200, 2)]],
+      ]),
+      rosterShifts: new Map(),
+      allocations: new Map(),
+      attendance: new Map(),
+      codeByDbId: new Map(),
+      rateVersions: new Map([
+        [10, [schedule(10, "2026-01-01", 30000)]],
+        [20, [schedule(20, "2026-01-01", 45000)]],
+      ]),
+      siteContracts: new Map(sites.map((s) => [s.id, contractsForSite(s, contracts)])),
+    };
+    const service = buildInvoicePreview(inputs, 0).lines.filter((l) => l.kind === "service");
+    expect(service.map((l) => [l.site_id, l.rate, l.amount])).toEqual([
+      [1, 1000, 30000],
+      [2, 1500, 45000],
+    ]);
+  });
+});
+
+describe("contractsForSite", () => {
+  it("follows the site's contract into its renewal", () => {
+    const running = [contract(10), contract(20), contract(30, 10)];
+    expect(contractsForSite(site(1, 10), running)).toEqual([10, 30]);
+    expect(contractsForSite(site(2, 20), running)).toEqual([20]);
+  });
+
+  it("falls back to the client's only contract for an unlinked site", () => {
+    expect(contractsForSite(site(1, null), [contract(10), contract(30, 10)])).toEqual([10, 30]);
+    expect(contractsForSite(site(1, null), [contract(10), contract(20)])).toEqual([]);
+  });
+});
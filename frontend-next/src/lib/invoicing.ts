@@ -0,0 +1,332 @@
+import dayjs from "dayjs";
+import { versionOn } from "./contracts";
+import { roundMoney } from "./payrollEngine";
+import { eachDay } from "./roster";
+import { sdk } from "./sdk";
+import type {
+  AttendanceRecordOut,
+  ClientDetail,
+  ClientGuardRequirement,
+  ClientInvoiceCreate,
+  ClientInvoiceLine,
+  ClientSite,
+  ClientSiteGuardAllocation,
+  Contract,
+  ContractVersion,
+  RosterShift,
+} from "./types";
+
+/**
+ * Client invoices computed from delivered guard-days rather than the flat
+ * monthly amount. Per contract requirement:
+ *
+ *   day rate      = monthly rate per guard ÷ days in the billing period
+ *   OT hour rate  = day rate ÷ contracted shift hours
+ *   service       = guards × days the requirement is active in the period
+ *                   (pro-rated for requirements starting or ending mid-period)
+ *   absence credit = contracted guard-days not delivered (absent, on leave
+ *                   or unmarked), credited back at the day rate
+ *
+ * The monthly rate per guard is the rate for the guard type in the schedule
+ * of the site's contract in force on each day, so a revision taking effect
+ * mid-period bills the days after it at the new rate; requirements with no
+ * contract rate for their guard type fall back to monthly amount ÷ guards.
+ *
+ * Guard-days come from the published roster when the site has one, else from
+ * the site's guard allocations. Sales tax is added for clients registered for
+ * sales tax (a VAT/GST number on file).
+ */
+
+export const DEFAULT_SALES_TAX_RATE = 16;
+const DEFAULT_SHIFT_HOURS = 12;
+
+export type InvoiceSource = "roster" | "allocations" | "contract";
+
+export type RequirementBilling = {
+  site: ClientSite;
+  requirement: ClientGuardRequirement;
+  source: InvoiceSource;
+  activeDays: number;
+  expectedDays: number;
+  deliveredDays: number;
+  overtimeHours: number;
+  dayRate: number;
+  overtimeRate: number;
+};
+
+export type InvoicePreview = {
+  from: string;
+  to: string;
+  periodDays: number;
+  billing: RequirementBilling[];
+  lines: ClientInvoiceLine[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  net: number;
+  warnings: string[];
+};
+
+export type InvoiceInputs = {
+  client: ClientDetail;
+  from: string;
+  to: string;
+  requirements: Map<number, ClientGuardRequirement[]>;
+  rosterShifts: Map<number, RosterShift[]>;
+  allocations: Map<number, ClientSiteGuardAllocation[]>;
+  /** Attendance keyed `${employee_code}|${date}`. */
+  attendance: Map<string, AttendanceRecordOut>;
+  /** Employee2 id (as held by allocations and roster shifts) → attendance employee code. */
+  codeByDbId: Map<number, string>;
+  /** Rate schedules of the client's contracts running in the period, by contract id. */
+  rateVersions: Map<number, ContractVersion[]>;
+  /** Site id → the running contracts billing it: the site's contract and its renewals. */
+  siteContracts: Map<number, number[]>;
+};
+
+/** Monthly rate for one guard of a type on `date`, from the contract schedule then in force. */
+function contractRateOn(versions: ContractVersion[], guardType: string, date: string): number | null {
+  const rate = versionOn(versions, date)?.rates?.find((r) => r.guard_type === guardType)?.monthly_rate;
+  return rate == null ? null : Number(rate);
+}
+
+/**
+ * The running contracts that bill a site: the one it is linked to, or the
+ * client's only contract when it is not linked, followed by any renewal of
+ * it, so a renewal starting mid-period picks up where the old schedule ends.
+ */
+export function contractsForSite(site: ClientSite, running: Contract[]): number[] {
+  const ids = new Set(running.map((c) => c.id));
+  const roots = running.filter((c) => c.renewed_from_id == null || !ids.has(c.renewed_from_id));
+  const linked = site.contract_id ?? (roots.length === 1 ? roots[0].id : null);
+  if (linked == null) return [];
+  const chain = [linked];
+  for (let i = 0; i < chain.length; i += 1) {
+    for (const c of running) if (c.renewed_from_id === chain[i] && !chain.includes(c.id)) chain.push(c.id);
+  }
+  return chain;
+}
+
+function shiftHours(req: ClientGuardRequirement): number {
+  if (!req.shift_start || !req.shift_end) return DEFAULT_SHIFT_HOURS;
+  const start = dayjs(`2000-01-01T${req.shift_start.slice(0, 5)}`);
+  let end = dayjs(`2000-01-01T${req.shift_end.slice(0, 5)}`);
+  if (!end.isAfter(start)) end = end.add(1, "day");
+  return end.diff(start, "minute") / 60 || DEFAULT_SHIFT_HOURS;
+}
+
+function within(date: string, start?: string | null, end?: string | null): boolean {
+  if (start && date < start.slice(0, 10)) return false;
+  if (end && date > end.slice(0, 10)) return false;
+  return true;
+}
+
+/** (employee code, date) pairs the client was promised for one requirement. */
+function assignments(
+  req: ClientGuardRequirement,
+  dates: string[],
+  inputs: InvoiceInputs
+): { source: InvoiceSource; pairs: Array<[string, string]> } {
+  const code = (id: number) => inputs.codeByDbId.get(id) ?? String(id);
+
+  const shifts = (inputs.rosterShifts.get(req.site_id) ?? []).filter((s) => s.requirement_id === req.id);
+  if (shifts.length) {
+    return {
+      source: "roster",
+      pairs: shifts
+        .filter((s) => s.employee_db_id && within(s.date, req.start_date, req.end_date))
+        .map((s) => [code(s.employee_db_id as number), s.date]),
+    };
+  }
+
+  const allocs = (inputs.allocations.get(req.site_id) ?? []).filter((a) => a.requirement_id === req.id);
+  if (allocs.length) {
+    const pairs: Array<[string, string]> = [];
+    for (const a of allocs) {
+      for (const d of dates) {
+        if (within(d, a.start_date, a.end_date) && within(d, req.start_date, req.end_date)) {
+          pairs.push([code(a.employee_db_id), d]);
+        }
+      }
+    }
+    return { source: "allocations", pairs };
+  }
+
+  return { source: "contract", pairs: [] };
+}
+
+export function buildInvoicePreview(inputs: InvoiceInputs, taxRate = DEFAULT_SALES_TAX_RATE): InvoicePreview {
+  const dates = eachDay(dayjs(inputs.from), dayjs(inputs.to)).map((d) => d.format("YYYY-MM-DD"));
+  const periodDays = dates.length;
+  const billing: RequirementBilling[] = [];
+  const lines: ClientInvoiceLine[] = [];
+  const warnings: string[] = [];
+
+  for (const site of inputs.client.sites ?? []) {
+    const versions = (inputs.siteContracts.get(site.id) ?? []).flatMap((id) => inputs.rateVersions.get(id) ?? []);
+    if (!versions.length && inputs.rateVersions.size > 1) {
+      warnings.push(`${site.site_name}: not linked to one of the client's contracts, billed at the requirement amounts`);
+    }
+    for (const req of inputs.requirements.get(site.id) ?? []) {
+      const activeDates = dates.filter((d) => within(d, req.start_date, req.end_date));
+      const activeDays = activeDates.length;
+      const guards = Math.max(0, Number(req.number_of_guards || 0));
+      if (!activeDays || !guards) continue;
+      const fallback = Number(req.monthly_amount ?? 0) / guards;
+      const monthlyRates = activeDates.map((d) => contractRateOn(versions, req.guard_type, d) ?? fallback);
+      if (monthlyRates.some((m) => !m)) {
+        warnings.push(`${site.site_name} (${req.guard_type}): no monthly amount on the contract`);
+        continue;
+      }
+
+      // Average over the period, so a mid-period revision weighs by the days at each rate
+      const dayRate = monthlyRates.reduce((a, m) => a + m, 0) / periodDays / activeDays;
+      const overtimeRate = dayRate / shiftHours(req);
+      const expectedDays = guards * activeDays;
+
+      const { source, pairs } = assignments(req, dates, inputs);
+      let deliveredDays = expectedDays;
+      let overtimeMinutes = 0;
+      if (source === "contract") {
+        warnings.push(`${site.site_name} (${req.guard_type}): no roster or allocated guards, billed at the contract amount`);
+      } else {
+        deliveredDays = 0;
+        for (const [code, date] of pairs) {
+          const rec = inputs.attendance.get(`${code}|${date}`);
+          if (rec?.status !== "present" && rec?.status !== "late") continue;
+          deliveredDays += 1;
+          overtimeMinutes += Number(rec.overtime_minutes ?? 0);
+        }
+      }
+      const overtimeHours = Math.round((overtimeMinutes / 60) * 100) / 100;
+
+      billing.push({ site, requirement: req, source, activeDays, expectedDays, deliveredDays, overtimeHours, dayRate, overtimeRate });
+
+      const ref = { site_id: site.id, requirement_id: req.id };
+      const partial = activeDays < periodDays ? ` (${activeDays} of ${periodDays} days)` : "";
+      lines.push({
+        ...ref,
+        kind: "service",
+        description: `${site.site_name}: ${req.guard_type} guards × ${guards}${partial}`,
+        quantity: expectedDays,
+        rate: roundMoney(dayRate),
+        amount: roundMoney(expectedDays * dayRate),
+      });
+      if (deliveredDays < expectedDays) {
+        const short = expectedDays - deliveredDays;
+        lines.push({
+          ...ref,
+          kind: "absence_credit",
+          description: `${site.site_name}: absence credit, ${short} guard-day(s) not delivered`,
+          quantity: short,
+          rate: -roundMoney(dayRate),
+          amount: -roundMoney(short * dayRate),
+        });
+      } else if (deliveredDays > expectedDays) {
+        const extra = deliveredDays - expectedDays;
+        lines.push({
+          ...ref,
+          kind: "additional",
+          description: `${site.site_name}: additional guard-days`,
+          quantity: extra,
+          rate: roundMoney(dayRate),
+          amount: roundMoney(extra * dayRate),
+        });
+      }
+      if (overtimeHours > 0) {
+        lines.push({
+          ...ref,
+          kind: "overtime",
+          description: `${site.site_name}: overtime`,
+          quantity: overtimeHours,
+          rate: roundMoney(overtimeRate),
+          amount: roundMoney(overtimeHours * overtimeRate),
+        });
+      }
+    }
+  }
+
+  const subtotal = roundMoney(lines.reduce((a, l) => a + l.amount, 0));
+  const registered = Boolean(inputs.client.vat_gst_number?.trim());
+  const appliedRate = registered ? taxRate : 0;
+  const taxAmount = roundMoney((subtotal * appliedRate) / 100);
+  if (registered && taxAmount) {
+    lines.push({
+      kind: "tax",
+      description: `Sales tax @ ${appliedRate}% (GST ${inputs.client.vat_gst_number})`,
+      quantity: 1,
+      rate: taxAmount,
+      amount: taxAmount,
+    });
+  }
+
+  return {
+    from: inputs.from,
+    to: inputs.to,
+    periodDays,
+    billing,
+    lines,
+    subtotal,
+    taxRate: appliedRate,
+    taxAmount,
+    net: roundMoney(subtotal + taxAmount),
+    warnings,
+  };
+}
+
+export function invoicePayload(preview: InvoicePreview, invoiceDate: string): ClientInvoiceCreate {
+  return {
+    invoice_date: invoiceDate,
+    billing_period: `${preview.from} to ${preview.to}`,
+    period_from: preview.from,
+    period_to: preview.to,
+    lines: preview.lines,
+    subtotal: preview.subtotal,
+    tax_rate: preview.taxRate,
+    tax_amount: preview.taxAmount,
+    net_payable: preview.net,
+  };
+}
+
+/** Fetches requirements, roster, allocations and attendance for every site of the client, and its contracts' rate schedules. */
+export async function loadInvoiceInputs(client: ClientDetail, from: string, to: string): Promise<InvoiceInputs> {
+  const sites = client.sites ?? [];
+  const running = (client.contracts ?? []).filter(
+    (c) =>
+      String(c.status).toLowerCase() !== "cancelled" &&
+      (!c.start_date || c.start_date.slice(0, 10) <= to) &&
+      (!c.end_date || c.end_date.slice(0, 10) >= from)
+  );
+  const [perSite, range, employees, versions] = await Promise.all([
+    Promise.all(
+      sites.map((s) =>
+        Promise.all([
+          sdk.sites.requirements(s.id).catch(() => [] as ClientGuardRequirement[]),
+          sdk.roster
+            .shifts({ from_date: from, to_date: to, site_id: s.id, published_only: true })
+            .catch(() => [] as RosterShift[]),
+          sdk.sites.allocations(s.id).catch(() => [] as ClientSiteGuardAllocation[]),
+        ])
+      )
+    ),
+    sdk.attendance.range(from, to),
+    sdk.employees2.listAll(),
+    Promise.all(running.map((c) => sdk.clients.contractVersions(c.id).catch(() => [] as ContractVersion[]))),
+  ]);
+
+  const attendance = new Map<string, AttendanceRecordOut>();
+  for (const r of range.records ?? []) attendance.set(`${r.employee_id}|${r.date}`, r);
+
+  return {
+    client,
+    from,
+    to,
+    requirements: new Map(sites.map((s, i) => [s.id, perSite[i][0]])),
+    rosterShifts: new Map(sites.map((s, i) => [s.id, perSite[i][1]])),
+    allocations: new Map(sites.map((s, i) => [s.id, perSite[i][2]])),
+    attendance,
+    codeByDbId: new Map(employees.map((e) => [e.id, String(e.fss_no || e.serial_no || e.id)])),
+    rateVersions: new Map(running.map((c, i) => [c.id, versions[i]])),
+    siteContracts: new Map(sites.map((s) => [s.id, contractsForSite(s, running)])),
+  };
+}
@@ -0,0 +1,204 @@
+import dayjs from "dayjs";
+import { sdk } from "./sdk";
+import type { Employee2, LeaveEncashment, LeavePeriodOut, LeavePolicy } from "./types";
+
+/**
+ * Paid leave balances, worked out year by year from the employee's enrolment:
+ *
+ *   accrued   = annual days, or annual/12 per month started (monthly accrual),
+ *               pro-rated in the joining year
+ *   taken     = paid leave period days falling in the year
+ *   encashed  = leave encashment days saved on payroll sheets in the year
+ *   available = carried forward + accrued − taken − encashed
+ *
+ * Unused days carry into the next year up to the policy's carry-forward
+ * limit; an overdrawn balance carries in full.
+ */
+
+export type LeaveBalance = {
+  employee_id: string;
+  policy: LeavePolicy | null;
+  year: number;
+  opening: number;
+  accrued: number;
+  taken: number;
+  encashed: number;
+  available: number;
+  /** Days that can still be encashed this year. */
+  encashable: number;
+};
+
+export type LeaveBalanceInput = {
+  employee_id: string;
+  policy: LeavePolicy | null;
+  joinedOn?: string | null;
+  periods: Array<Pick<LeavePeriodOut, "employee_id" | "from_date" | "to_date" | "leave_type">>;
+  encashments: LeaveEncashment[];
+  asOf: string;
+  /** Payroll month whose saved encashment is being edited; left out so it is not counted twice. */
+  excludeMonth?: string;
+};
+
+const MAX_YEARS_BACK = 10;
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function norm(v?: string | null): string {
+  return String(v ?? "").trim().toLowerCase();
+}
+
+/** Most specific active policy: category and designation, then designation, then category, then the default. */
+export function policyFor(
+  employee: Pick<Employee2, "category" | "rank">,
+  policies: LeavePolicy[]
+): LeavePolicy | null {
+  const category = norm(employee.category);
+  const designation = norm(employee.rank);
+  let best: LeavePolicy | null = null;
+  let bestScore = -1;
+  for (const p of policies) {
+    if (!p.active) continue;
+    const pc = norm(p.category);
+    const pd = norm(p.designation);
+    if ((pc && pc !== category) || (pd && pd !== designation)) continue;
+    const score = (pd ? 2 : 0) + (pc ? 1 : 0);
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Inclusive day count. */
+export function leaveDays(from: string, to: string): number {
+  const a = dayjs(from);
+  const b = dayjs(to);
+  if (!a.isValid() || !b.isValid() || b.isBefore(a)) return 0;
+  return b.diff(a, "day") + 1;
+}
+
+function paidDaysInYear(periods: LeaveBalanceInput["periods"], year: number): number {
+  const start = `${year}-01-01`;
+  const end = `${year}-12-31`;
+  let days = 0;
+  for (const p of periods) {
+    if (p.leave_type !== "paid") continue;
+    const from = p.from_date > start ? p.from_date : start;
+    const to = p.to_date < end ? p.to_date : end;
+    days += leaveDays(from, to);
+  }
+  return days;
+}
+
+function accruedInYear(policy: LeavePolicy, year: number, joined: dayjs.Dayjs | null, asOf: dayjs.Dayjs): number {
+  const yearStart = dayjs(`${year}-01-01`);
+  const start = joined && joined.isAfter(yearStart) ? joined : yearStart;
+  const end = year === asOf.year() ? asOf : dayjs(`${year}-12-31`);
+  if (start.isAfter(end)) return 0;
+
+  const perMonth = Number(policy.annual_days || 0) / 12;
+  if (policy.accrual === "annual") return round(perMonth * (12 - start.month()));
+  return round(perMonth * (end.month() - start.month() + 1));
+}
+
+export function computeLeaveBalance(input: LeaveBalanceInput): LeaveBalance {
+  const asOf = dayjs(input.asOf);
+  const year = asOf.year();
+  const policy = input.policy;
+  const empty: LeaveBalance = {
+    employee_id: input.employee_id,
+    policy,
+    year,
+    opening: 0,
+    accrued: 0,
+    taken: 0,
+    encashed: 0,
+    available: 0,
+    encashable: 0,
+  };
+  if (!policy) return empty;
+
+  const joinedRaw = input.joinedOn ? dayjs(input.joinedOn) : null;
+  const joined = joinedRaw?.isValid() ? joinedRaw : null;
+  const firstYear = Math.max(joined ? joined.year() : year, year - MAX_YEARS_BACK);
+  const periods = input.periods.filter((p) => p.employee_id === input.employee_id);
+  const encashments = input.encashments.filter(
+    (e) => e.employee_id === input.employee_id && e.month !== input.excludeMonth
+  );
+
+  let opening = 0;
+  let current = empty;
+  for (let y = firstYear; y <= year; y += 1) {
+    const accrued = accruedInYear(policy, y, joined, asOf);
+    const taken = paidDaysInYear(periods, y);
+    const encashed = round(
+      encashments.filter((e) => e.month.startsWith(`${y}-`)).reduce((a, e) => a + Number(e.days || 0), 0)
+    );
+    const available = round(opening + accrued - taken - encashed);
+    current = {
+      ...empty,
+      year: y,
+      opening,
+      accrued,
+      taken,
+      encashed,
+      available,
+      encashable: round(Math.max(0, Math.min(available, Number(policy.encashment_max || 0) - encashed))),
+    };
+    opening = round(Math.min(available, Number(policy.carry_forward_max || 0)));
+  }
+  return current;
+}
+
+/** Balances for everyone in `employees`, keyed by attendance employee code. */
+export function buildLeaveBalances(
+  employees: Employee2[],
+  policies: LeavePolicy[],
+  periods: LeaveBalanceInput["periods"],
+  encashments: LeaveEncashment[],
+  asOf: string,
+  excludeMonth?: string
+): Map<string, LeaveBalance> {
+  const periodsBy = new Map<string, LeaveBalanceInput["periods"]>();
+  for (const p of periods) periodsBy.set(p.employee_id, [...(periodsBy.get(p.employee_id) ?? []), p]);
+  const encashBy = new Map<string, LeaveEncashment[]>();
+  for (const e of encashments) encashBy.set(e.employee_id, [...(encashBy.get(e.employee_id) ?? []), e]);
+
+  const out = new Map<string, LeaveBalance>();
+  for (const e of employees) {
+    const employee_id = String(e.fss_no || e.serial_no || e.id);
+    out.set(
+      employee_id,
+      computeLeaveBalance({
+        employee_id,
+        policy: policyFor(e, policies),
+        joinedOn: e.re_enrolled || e.enrolled,
+        periods: periodsBy.get(employee_id) ?? [],
+        encashments: encashBy.get(employee_id) ?? [],
+        asOf,
+        excludeMonth,
+      })
+    );
+  }
+  return out;
+}
+
+/** Fetches what the balances need and builds them; pass `employee_id` for a single employee. */
+export async function loadLeaveBalances(
+  asOf: string,
+  opts: { employee_id?: string; excludeMonth?: string } = {}
+): Promise<Map<string, LeaveBalance>> {
+  const [employees, policies, periods, encashments] = await Promise.all([
+    sdk.employees2.listAll(),
+    sdk.leavePolicies.list(),
+    sdk.leavePeriods.list(opts.employee_id ? { employee_id: opts.employee_id } : {}),
+    sdk.leavePolicies.encashments(opts.employee_id ? { employee_id: opts.employee_id } : {}),
+  ]);
+  const selected = opts.employee_id
+    ? employees.filter((e) => String(e.fss_no || e.serial_no || e.id) === opts.employee_id)
+    : employees;
+  return buildLeaveBalances(selected, policies, periods, encashments, asOf, opts.excludeMonth);
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { sdk } from "./sdk";
+
+/**
+ * Pending leave request count for the header badge. Pages that submit or
+ * decide requests call `refreshLeaveInbox()` so the badge updates at once
+ * instead of on the next poll.
+ */
+
+const POLL_MS = 60_000;
+
+let pending = 0;
+const listeners = new Set<() => void>();
+
+function subscribe(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function useLeaveInbox(): number {
+  return useSyncExternalStore(
+    subscribe,
+    () => pending,
+    () => 0
+  );
+}
+
+export async function refreshLeaveInbox(): Promise<void> {
+  try {
+    const counts = await sdk.leaveRequests.counts();
+    pending = Number(counts?.pending ?? 0);
+  } catch {
+    return;
+  }
+  for (const fn of listeners) fn();
+}
+
+/** Starts polling; returns the cleanup for a `useEffect`. */
+export function startLeaveInbox(): () => void {
+  void refreshLeaveInbox();
+  const timer = window.setInterval(() => void refreshLeaveInbox(), POLL_MS);
+  return () => window.clearInterval(timer);
+}
@@ -0,0 +1,81 @@
+import { roundMoney } from "./payrollEngine";
+import type { PostingSource } from "./posting";
+import type { FinanceJournalEntry, FinanceJournalLine, FinanceJournalLineCreate } from "./types";
+
+/**
+ * Reading the general ledger: journal totals and balancing checks for the
+ * manual journal editor, and links from an entry or line back to the
+ * document that produced it.
+ */
+
+export const JOURNAL_STATUS_COLORS: Record<string, string> = {
+  DRAFT: "default",
+  POSTED: "green",
+  VOID: "red",
+};
+
+type AnyLine = Pick<FinanceJournalLine | FinanceJournalLineCreate, "debit" | "credit">;
+
+export function journalTotals(lines: AnyLine[]): { debit: number; credit: number; difference: number } {
+  const debit = roundMoney(lines.reduce((a, l) => a + Number(l?.debit || 0), 0));
+  const credit = roundMoney(lines.reduce((a, l) => a + Number(l?.credit || 0), 0));
+  return { debit, credit, difference: roundMoney(debit - credit) };
+}
+
+/** Why a set of lines cannot be posted; empty when it balances. */
+export function journalProblems(lines: Array<Partial<FinanceJournalLineCreate> | undefined>): string[] {
+  const problems: string[] = [];
+  const used = lines.filter((l): l is Partial<FinanceJournalLineCreate> => Boolean(l));
+  if (used.length < 2) problems.push("An entry needs at least two lines");
+  used.forEach((l, i) => {
+    const dr = Number(l.debit || 0);
+    const cr = Number(l.credit || 0);
+    if (!l.account_id) problems.push(`Line ${i + 1}: choose an account`);
+    if (dr < 0 || cr < 0) problems.push(`Line ${i + 1}: amounts cannot be negative`);
+    else if (dr && cr) problems.push(`Line ${i + 1}: enter either a debit or a credit, not both`);
+    else if (!dr && !cr) problems.push(`Line ${i + 1}: enter an amount`);
+  });
+  const { debit, difference } = journalTotals(used as AnyLine[]);
+  if (difference !== 0) problems.push(`Debits and credits differ by ${Math.abs(difference).toFixed(2)}`);
+  else if (debit === 0 && used.length >= 2) problems.push("The entry has no amount");
+  return problems;
+}
+
+/**
+ * Where a ledger line came from: the employee for advance lines, else the
+ * source document itself. The target pages open the record named in the query.
+ */
+export function sourceHref(
+  entry: Pick<FinanceJournalEntry, "source_type" | "source_id"> & { lines?: FinanceJournalLine[] },
+  line?: FinanceJournalLine
+): string | null {
+  if (
+    line?.employee_id &&
+    (entry.source_type === "employee_advance" ||
+      entry.source_type === "advance_recovery" ||
+      entry.source_type === "payroll_run")
+  ) {
+    return `/accounts-advances/employees/${line.employee_id}`;
+  }
+  const id = encodeURIComponent(entry.source_id ?? "");
+  switch (entry.source_type as PostingSource | null | undefined) {
+    case "expense":
+      return `/accounts-advances/expenses?expense=${id}`;
+    case "payroll_run":
+      return `/payroll2?run=${id}`;
+    case "employee_advance": {
+      const employeeId = entry.lines?.find((l) => l.employee_id)?.employee_id;
+      return employeeId ? `/accounts-advances/employees/${employeeId}` : "/accounts-advances/employees";
+    }
+    case "advance_recovery":
+      return `/payroll2?run=${encodeURIComponent((entry.source_id ?? "").split(":")[0])}`;
+    case "client_invoice":
+      return `/accounts-advances/receivables?invoice=${id}`;
+    case "client_receipt":
+      return `/accounts-advances/receivables?receipt=${id}`;
+    case "fuel_entry":
+      return "/fuel-mileage";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,184 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import type { AttendanceRecordOut, AttendanceStatus } from "./types";
+import { createXlsx } from "./xlsx";
+
+/**
+ * Monthly attendance register (muster roll): employees down the side, the
+ * days of the 26th–25th payroll period across, one code per cell. The PDF
+ * and the workbook are drawn from the same rows so the copy sent with client
+ * billing always matches the screen.
+ */
+
+export type MusterCode = "P" | "L" | "A" | "Lv";
+
+export const MUSTER_CODES: Array<{ code: MusterCode; status: AttendanceStatus; label: string; color: string }> = [
+  { code: "P", status: "present", label: "Present", color: "green" },
+  { code: "L", status: "late", label: "Late", color: "gold" },
+  { code: "A", status: "absent", label: "Absent", color: "red" },
+  { code: "Lv", status: "leave", label: "Leave", color: "blue" },
+];
+
+export type MusterRow = {
+  employee_id: string;
+  serial_no?: string | null;
+  name: string;
+  rank?: string | null;
+  department?: string | null;
+  /** Code per YYYY-MM-DD; missing means unmarked. */
+  cells: Record<string, MusterCode | undefined>;
+};
+
+export type MusterTotals = Record<MusterCode, number> & { worked: number; unmarked: number };
+
+export type MusterContext = {
+  fromDate: string;
+  toDate: string;
+  dates: string[];
+  title?: string;
+  /** Filters applied, e.g. "Site: Gate 2 · Department: Guards". */
+  subtitle?: string;
+  logoDataUrl?: string | null;
+};
+
+export function codeForStatus(status?: string | null): MusterCode | undefined {
+  const s = String(status ?? "").toLowerCase();
+  return MUSTER_CODES.find((c) => c.status === s)?.code;
+}
+
+export function statusForCode(code?: MusterCode | null): AttendanceStatus {
+  return MUSTER_CODES.find((c) => c.code === code)?.status ?? "unmarked";
+}
+
+export function cellsFromRecords(records: AttendanceRecordOut[]): Map<string, Record<string, MusterCode | undefined>> {
+  const out = new Map<string, Record<string, MusterCode | undefined>>();
+  for (const r of records) {
+    const code = codeForStatus(r.status);
+    if (!code) continue;
+    out.set(r.employee_id, { ...(out.get(r.employee_id) ?? {}), [r.date]: code });
+  }
+  return out;
+}
+
+export function musterTotals(row: MusterRow, dates: string[]): MusterTotals {
+  const t: MusterTotals = { P: 0, L: 0, A: 0, Lv: 0, worked: 0, unmarked: 0 };
+  for (const d of dates) {
+    const code = row.cells[d];
+    if (code) t[code] += 1;
+    else t.unmarked += 1;
+  }
+  t.worked = t.P + t.L;
+  return t;
+}
+
+function dayHeaders(dates: string[]): string[] {
+  return dates.map((d) => String(Number(d.slice(8, 10))));
+}
+
+const TOTAL_HEADERS = ["P", "L", "A", "Lv", "Worked"];
+
+function totalCells(t: MusterTotals): number[] {
+  return [t.P, t.L, t.A, t.Lv, t.worked];
+}
+
+export function musterFilename(ctx: Pick<MusterContext, "fromDate" | "toDate">, ext: "pdf" | "xlsx"): string {
+  return `muster_roll_${ctx.fromDate}_${ctx.toDate}.${ext}`;
+}
+
+export function buildMusterPdf(rows: MusterRow[], ctx: MusterContext): Blob {
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "a3" });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const marginX = 24;
+  const dayStart = 4;
+
+  const columnStyles: Record<number, { cellWidth?: number; halign?: "center" | "right"; fontStyle?: "bold" }> = {
+    0: { cellWidth: 22 },
+    1: { cellWidth: 50 },
+    2: { cellWidth: 120 },
+    3: { cellWidth: 70 },
+  };
+  ctx.dates.forEach((_, i) => {
+    columnStyles[dayStart + i] = { cellWidth: 22, halign: "center" };
+  });
+  TOTAL_HEADERS.forEach((_, i) => {
+    columnStyles[dayStart + ctx.dates.length + i] = { cellWidth: 30, halign: "center", fontStyle: "bold" };
+  });
+
+  autoTable(doc, {
+    head: [["#", "FSS No.", "Name", "Designation", ...dayHeaders(ctx.dates), ...TOTAL_HEADERS]],
+    body: rows.map((r, i) => [
+      String(i + 1),
+      r.employee_id,
+      r.name,
+      r.rank ?? "",
+      ...ctx.dates.map((d) => r.cells[d] ?? ""),
+      ...totalCells(musterTotals(r, ctx.dates)).map(String),
+    ]),
+    startY: 84,
+    margin: { left: marginX, right: marginX, top: 84, bottom: 60 },
+    styles: { font: "helvetica", fontSize: 7.5, cellPadding: 2.5, lineWidth: 0.4, lineColor: [200, 200, 200] },
+    headStyles: { fillColor: [22, 119, 255], textColor: 255, fontStyle: "bold", halign: "center" },
+    columnStyles,
+    didParseCell: (data) => {
+      if (data.section !== "body") return;
+      const code = String(data.cell.raw ?? "");
+      if (data.column.index < dayStart || data.column.index >= dayStart + ctx.dates.length) return;
+      if (code === "A") data.cell.styles.textColor = [207, 19, 34];
+      else if (code === "Lv") data.cell.styles.textColor = [9, 88, 217];
+      else if (code === "L") data.cell.styles.textColor = [173, 104, 0];
+    },
+    didDrawPage: (data) => {
+      if (ctx.logoDataUrl) {
+        try {
+          doc.addImage(ctx.logoDataUrl, "PNG", marginX, 20, 44, 44);
+        } catch {
+          // ignore
+        }
+      }
+      const titleX = marginX + (ctx.logoDataUrl ? 56 : 0);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(16);
+      doc.text(ctx.title ?? "Attendance Register (Muster Roll)", titleX, 38);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(10);
+      doc.setTextColor(90);
+      doc.text(`Period: ${ctx.fromDate} to ${ctx.toDate}`, titleX, 54);
+      if (ctx.subtitle) doc.text(ctx.subtitle, titleX, 68);
+      doc.text("P = Present   L = Late   A = Absent   Lv = Leave", pageW - marginX, 54, { align: "right" });
+      doc.text(`Page ${data.pageNumber}`, pageW - marginX, 38, { align: "right" });
+      doc.setFontSize(9);
+      doc.setTextColor(120);
+      doc.text("Prepared by: ____________________", marginX, pageH - 30);
+      doc.text("Verified by: ____________________", pageW / 2, pageH - 30, { align: "center" });
+      doc.text("Site In-charge: ____________________", pageW - marginX, pageH - 30, { align: "right" });
+      doc.setTextColor(0);
+    },
+  });
+
+  return doc.output("blob");
+}
+
+export function buildMusterXlsx(rows: MusterRow[], ctx: MusterContext): Blob {
+  const header = ["#", "FSS No.", "Name", "Designation", ...dayHeaders(ctx.dates), ...TOTAL_HEADERS];
+  const title = [ctx.title ?? "Attendance Register (Muster Roll)"];
+  const period = [`Period: ${ctx.fromDate} to ${ctx.toDate}${ctx.subtitle ? ` · ${ctx.subtitle}` : ""}`];
+  const body = rows.map((r, i) => [
+    i + 1,
+    r.employee_id,
+    r.name,
+    r.rank ?? "",
+    ...ctx.dates.map((d) => r.cells[d] ?? ""),
+    ...totalCells(musterTotals(r, ctx.dates)),
+  ]);
+
+  return createXlsx([
+    {
+      name: `Muster ${ctx.toDate.slice(0, 7)}`,
+      rows: [title, period, [], header, ...body],
+      boldRows: [0, 3],
+      widths: [5, 10, 28, 16, ...ctx.dates.map(() => 4), ...TOTAL_HEADERS.map(() => 7)],
+      freeze: { rows: 4, cols: 3 },
+    },
+  ]);
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { computePay, dayRate, overtimePay, recalcPayroll2Row } from "./payrollEngine";
+import type { Payroll2Row } from "./types";
+
+const base = { base_salary: 30000, working_days: 30, pre_days: 0, cur_days: 0 };
+
+describe("computePay", () => {
+  it("derives the day rate from salary and working days", () => {
+    expect(dayRate(30000, 30)).toBe(1000);
+    expect(computePay({ ...base, base_salary: 25000, working_days: 31 }).day_rate).toBe(806.45);
+    expect(computePay({ ...base, working_days: 0, cur_days: 20 })).toMatchObject({ day_rate: 0, total_salary: 0 });
+  });
+
+  it("pays presents across both halves of the period", () => {
+    const r = computePay({ ...base, pre_days: 5, cur_days: 20 });
+    expect(r.total_days).toBe(25);
+    expect(r.total_salary).toBe(25000);
+    expect(r.gross_pay).toBe(25000);
+    expect(r.net_pay).toBe(25000);
+  });
+
+  it("adds leave encashment days to payable days", () => {
+    const r = computePay({ ...base, pre_days: 5, cur_days: 20, leave_encashment_days: 3 });
+    expect(r.total_days).toBe(28);
+    expect(r.total_salary).toBe(28000);
+  });
+
+  it("adds overtime and allowances to gross", () => {
+    expect(overtimePay(90, 200)).toBe(300);
+    expect(overtimePay(null, 200)).toBe(0);
+    const r = computePay({ ...base, cur_days: 30, overtime_pay: overtimePay(90, 200), allowances: 2000, allow_other: 500 });
+    expect(r.overtime_pay).toBe(300);
+    expect(r.gross_pay).toBe(32800);
+    expect(r.net_pay).toBe(32800);
+  });
+
+  it("deducts late fines", () => {
+    const r = computePay({ ...base, cur_days: 30, late_deduction: 750 });
+    expect(r.total_deductions).toBe(750);
+    expect(r.net_pay).toBe(29250);
+  });
+
+  it("deducts EOBI and tax", () => {
+    const r = computePay({ ...base, cur_days: 30, eobi: 370, tax: 1250 });
+    expect(r.total_deductions).toBe(1620);
+    expect(r.net_pay).toBe(28380);
+  });
+
+  it("groups fines and advance recoveries under fine/adv", () => {
+    const r = computePay({ ...base, cur_days: 30, fine_deduction: 200, advance_deduction: 5000, fine_adv_extra: 100 });
+    expect(r.fine_adv).toBe(5300);
+    expect(r.total_deductions).toBe(5300);
+    expect(r.net_pay).toBe(24700);
+  });
+
+  it("nets to zero when deductions equal gross", () => {
+    const r = computePay({ ...base, cur_days: 10, advance_deduction: 9630, eobi: 370 });
+    expect(r.gross_pay).toBe(10000);
+    expect(r.net_pay).toBe(0);
+  });
+
+  it("reports a negative net rather than hiding an over-deduction", () => {
+    const r = computePay({ ...base, cur_days: 2, eobi: 370, advance_deduction: 5000, late_deduction: 500 });
+    expect(r.gross_pay).toBe(2000);
+    expect(r.total_deductions).toBe(5870);
+    expect(r.net_pay).toBe(-3870);
+  });
+
+  it("treats missing or non-numeric inputs as zero", () => {
+    const r = computePay({ ...base, cur_days: 30, tax: Number.NaN, overtime_pay: undefined });
+    expect(r.total_deductions).toBe(0);
+    expect(r.net_pay).toBe(30000);
+  });
+});
+
+describe("recalcPayroll2Row", () => {
+  it("writes the computed figures back onto the sheet row", () => {
+    const row = {
+      ...base,
+      pre_days: 4,
+      cur_days: 22,
+      leave_encashment_days: 0,
+      overtime_pay: 0,
+      allow_other: 1000,
+      eobi: 370,
+      tax: 0,
+      fine_deduction: 0,
+      advance_deduction: 2000,
+      fine_adv_extra: 0,
+      late_deduction: 0,
+      day_rate: 0,
+      total_days: 0,
+      total_salary: 0,
+      gross_pay: 0,
+      fine_adv: 0,
+      net_pay: 0,
+    } as unknown as Payroll2Row;
+    expect(recalcPayroll2Row(row)).toMatchObject({
+      day_rate: 1000,
+      total_days: 26,
+      total_salary: 26000,
+      gross_pay: 27000,
+      fine_adv: 2000,
+      net_pay: 24630,
+    });
+  });
+});
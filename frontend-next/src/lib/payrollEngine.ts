@@ -0,0 +1,120 @@
+import type { Payroll2Row, PayrollEmployeeRow } from "./types";
+
+/**
+ * The one place salary arithmetic lives. Both payroll sheets, their CSV/PDF
+ * exports and payslips go through `computePay`, so what the user sees is
+ * what gets saved and printed.
+ *
+ * Rules (26th-to-25th period):
+ *   day rate     = monthly salary / working days in the period
+ *   payable days = presents (previous-month + current-month days) + leave encashment days
+ *   basic        = payable days × day rate
+ *   overtime     = attendance OT pay (minutes × hourly rate, summed per record)
+ *   gross        = basic + overtime + fixed allowances + other allowance
+ *   fine/adv     = attendance fines + advance deductions + extra fine/advance
+ *   net          = gross − EOBI − tax − fine/adv − late deductions
+ */
+
+export type PayInput = {
+  base_salary: number;
+  working_days: number;
+  /** Days present in the previous month's part of the period (26th onwards). */
+  pre_days: number;
+  /** Days present in the current month's part of the period (up to the 25th). */
+  cur_days: number;
+  leave_encashment_days?: number;
+  overtime_pay?: number;
+  /** Fixed monthly allowances from the employee record. */
+  allowances?: number;
+  allow_other?: number;
+  eobi?: number;
+  tax?: number;
+  fine_deduction?: number;
+  advance_deduction?: number;
+  fine_adv_extra?: number;
+  late_deduction?: number;
+};
+
+export type PayResult = {
+  day_rate: number;
+  total_days: number;
+  total_salary: number;
+  overtime_pay: number;
+  gross_pay: number;
+  fine_adv: number;
+  total_deductions: number;
+  net_pay: number;
+};
+
+export function roundMoney(n: number): number {
+  return Math.round((Number.isFinite(n) ? n : 0) * 100) / 100;
+}
+
+function num(v: unknown): number {
+  const n = Number(v ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function dayRate(baseSalary: number, workingDays: number): number {
+  return workingDays > 0 ? num(baseSalary) / workingDays : 0;
+}
+
+/** OT for one attendance record; `ratePerHour` is what supervisors enter on the sheet. */
+export function overtimePay(minutes: number | null | undefined, ratePerHour: number | null | undefined): number {
+  return roundMoney((num(minutes) / 60) * num(ratePerHour));
+}
+
+export function computePay(input: PayInput): PayResult {
+  const rate = dayRate(input.base_salary, num(input.working_days));
+  const total_days = num(input.pre_days) + num(input.cur_days) + num(input.leave_encashment_days);
+  const total_salary = roundMoney(total_days * rate);
+  const overtime = roundMoney(num(input.overtime_pay));
+  const gross_pay = roundMoney(total_salary + overtime + num(input.allowances) + num(input.allow_other));
+  const fine_adv = roundMoney(num(input.fine_deduction) + num(input.advance_deduction) + num(input.fine_adv_extra));
+  const total_deductions = roundMoney(num(input.eobi) + num(input.tax) + fine_adv + num(input.late_deduction));
+  return {
+    day_rate: roundMoney(rate),
+    total_days,
+    total_salary,
+    overtime_pay: overtime,
+    gross_pay,
+    fine_adv,
+    total_deductions,
+    net_pay: roundMoney(gross_pay - total_deductions),
+  };
+}
+
+/** Recomputes the derived fields of a payroll2 sheet row from its inputs. */
+export function recalcPayroll2Row(row: Payroll2Row): Payroll2Row {
+  const r = computePay(row);
+  return {
+    ...row,
+    day_rate: r.day_rate,
+    total_days: r.total_days,
+    total_salary: r.total_salary,
+    overtime_pay: r.overtime_pay,
+    gross_pay: r.gross_pay,
+    fine_adv: r.fine_adv,
+    net_pay: r.net_pay,
+  };
+}
+
+/** Same for the original payroll sheet, whose rows also carry fixed allowances. */
+export function recalcPayrollRow<T extends PayrollEmployeeRow>(row: T): T {
+  const r = computePay({
+    ...row,
+    working_days: num(row.working_days),
+    pre_days: num(row.pre_days),
+    cur_days: num(row.cur_days),
+  });
+  return {
+    ...row,
+    day_rate: r.day_rate,
+    total_days: r.total_days,
+    total_salary: r.total_salary,
+    overtime_pay: r.overtime_pay,
+    gross_pay: r.gross_pay,
+    fine_adv: r.fine_adv,
+    net_pay: r.net_pay,
+  };
+}
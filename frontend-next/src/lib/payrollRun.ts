@@ -0,0 +1,105 @@
+import type { Payroll2Row, PayrollRunDiff, PayrollRunStatus } from "./types";
+
+/**
+ * Payroll run lifecycle. The backend enforces the same rules; they live here
+ * so the UI only offers transitions the signed-in user can actually make.
+ */
+
+export const RUN_STATUSES: PayrollRunStatus[] = ["draft", "reviewed", "approved", "locked", "paid"];
+
+export const RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+  draft: "Draft",
+  reviewed: "Reviewed",
+  approved: "Approved",
+  locked: "Locked",
+  paid: "Paid",
+};
+
+export const RUN_STATUS_COLORS: Record<PayrollRunStatus, string> = {
+  draft: "default",
+  reviewed: "blue",
+  approved: "geekblue",
+  locked: "purple",
+  paid: "green",
+};
+
+export type RunTransition = {
+  from: PayrollRunStatus;
+  to: PayrollRunStatus;
+  label: string;
+  permission: string;
+  /** Reopening discards the approval, so it must say why and what changed. */
+  needsReason?: boolean;
+  /** Approval freezes the current rows as the run's snapshot. */
+  snapshot?: boolean;
+};
+
+export const RUN_TRANSITIONS: RunTransition[] = [
+  { from: "draft", to: "reviewed", label: "Mark reviewed", permission: "payroll:review" },
+  { from: "reviewed", to: "draft", label: "Send back", permission: "payroll:approve", needsReason: true },
+  { from: "reviewed", to: "approved", label: "Approve", permission: "payroll:approve", snapshot: true },
+  { from: "approved", to: "locked", label: "Lock", permission: "payroll:lock" },
+  { from: "approved", to: "draft", label: "Reopen", permission: "payroll:reopen", needsReason: true },
+  { from: "locked", to: "draft", label: "Reopen", permission: "payroll:reopen", needsReason: true },
+  { from: "locked", to: "paid", label: "Mark paid", permission: "accounts:full" },
+];
+
+export function transitionsFrom(status: PayrollRunStatus, has: (perm: string) => boolean): RunTransition[] {
+  return RUN_TRANSITIONS.filter((t) => t.from === status && has(t.permission));
+}
+
+/** Only a draft run (or a period with no run yet) may be recalculated or edited. */
+export function isRunEditable(status: PayrollRunStatus | null | undefined): boolean {
+  return !status || status === "draft";
+}
+
+const DIFF_FIELDS: (keyof Payroll2Row)[] = [
+  "base_salary",
+  "presents_total",
+  "pre_days",
+  "cur_days",
+  "leave_encashment_days",
+  "total_days",
+  "total_salary",
+  "overtime_pay",
+  "allow_other",
+  "gross_pay",
+  "eobi",
+  "tax",
+  "fine_adv",
+  "advance_deduction",
+  "late_deduction",
+  "net_pay",
+  "bank_cash",
+];
+
+/**
+ * Field-level changes between two sets of payroll rows, matched by
+ * employee_db_id. Employees present on only one side show as a change of
+ * `net_pay` to or from null.
+ */
+export function diffPayrollRows(before: Payroll2Row[], after: Payroll2Row[]): PayrollRunDiff[] {
+  const out: PayrollRunDiff[] = [];
+  const prev = new Map(before.map((r) => [r.employee_db_id, r]));
+  const next = new Map(after.map((r) => [r.employee_db_id, r]));
+
+  for (const [id, a] of next) {
+    const b = prev.get(id);
+    if (!b) {
+      out.push({ employee_db_id: id, employee_id: a.employee_id, name: a.name, field: "net_pay", before: null, after: a.net_pay });
+      continue;
+    }
+    for (const field of DIFF_FIELDS) {
+      const x = (b[field] ?? null) as number | string | null;
+      const y = (a[field] ?? null) as number | string | null;
+      const same = typeof x === "number" && typeof y === "number" ? Math.abs(x - y) < 0.005 : x === y;
+      if (!same) out.push({ employee_db_id: id, employee_id: a.employee_id, name: a.name, field, before: x, after: y });
+    }
+  }
+  for (const [id, b] of prev) {
+    if (!next.has(id)) {
+      out.push({ employee_db_id: id, employee_id: b.employee_id, name: b.name, field: "net_pay", before: b.net_pay, after: null });
+    }
+  }
+  return out;
+}
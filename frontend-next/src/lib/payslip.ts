@@ -0,0 +1,253 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { computePay } from "./payrollEngine";
+import { sdk } from "./sdk";
+import type { EmployeeAdvanceSummary, Payroll2Row } from "./types";
+import { createZip } from "./zip";
+
+/**
+ * Payslips rendered from `Payroll2Row`s with jsPDF/autotable. One slip per
+ * page; the same drawing is used for a single slip, the bulk pack and the
+ * per-employee ZIP so they never disagree.
+ */
+
+export type PayslipContext = {
+  fromDate: string;
+  toDate: string;
+  month: string;
+  logoDataUrl?: string | null;
+  advances?: Map<number, EmployeeAdvanceSummary>;
+};
+
+const MARGIN_X = 40;
+const HEAD_FILL: [number, number, number] = [22, 119, 255];
+
+function money(n: number | null | undefined): string {
+  const v = Number(n ?? 0);
+  return `Rs ${(Number.isFinite(v) ? v : 0).toLocaleString("en-PK", { maximumFractionDigits: 0 })}`;
+}
+
+export async function loadPayslipLogo(url: string = "/logo-removebg-preview.png"): Promise<string | null> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const blob = await res.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result || ""));
+      reader.onerror = () => reject(new Error("Failed to read logo"));
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+/** Advance balances for the given employees, fetched a few at a time. Missing ones are skipped. */
+export async function loadAdvanceSummaries(employeeDbIds: number[]): Promise<Map<number, EmployeeAdvanceSummary>> {
+  const out = new Map<number, EmployeeAdvanceSummary>();
+  const ids = [...new Set(employeeDbIds)];
+  for (let i = 0; i < ids.length; i += 6) {
+    const batch = await Promise.all(ids.slice(i, i + 6).map((id) => sdk.advances.summary(id).catch(() => null)));
+    for (const s of batch) if (s) out.set(s.employee_db_id, s);
+  }
+  return out;
+}
+
+function lastY(doc: jsPDF, fallback: number): number {
+  const y = (doc as unknown as { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY;
+  return typeof y === "number" ? y : fallback;
+}
+
+function drawPayslip(doc: jsPDF, row: Payroll2Row, ctx: PayslipContext) {
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const top = 32;
+  const logoSize = 44;
+
+  if (ctx.logoDataUrl) {
+    try {
+      doc.addImage(ctx.logoDataUrl, "PNG", MARGIN_X, top, logoSize, logoSize);
+    } catch {
+      // ignore
+    }
+  }
+  const titleX = MARGIN_X + (ctx.logoDataUrl ? logoSize + 12 : 0);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text("Salary Slip", titleX, top + 18);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(90);
+  doc.text(`Period: ${ctx.fromDate} to ${ctx.toDate}`, titleX, top + 34);
+  doc.text(`Month: ${ctx.month}`, pageW - MARGIN_X, top + 18, { align: "right" });
+  doc.setTextColor(0);
+  doc.setDrawColor(230);
+  doc.line(MARGIN_X, top + 56, pageW - MARGIN_X, top + 56);
+
+  const half = (pageW - MARGIN_X * 2 - 12) / 2;
+  const common = {
+    styles: { font: "helvetica", fontSize: 9.5, cellPadding: 5 },
+    headStyles: { fillColor: HEAD_FILL, textColor: 255, fontStyle: "bold" as const },
+    alternateRowStyles: { fillColor: [248, 250, 252] as [number, number, number] },
+  };
+
+  autoTable(doc, {
+    ...common,
+    startY: top + 68,
+    margin: { left: MARGIN_X, right: MARGIN_X },
+    theme: "plain",
+    body: [
+      ["Name", row.name, "FSS No.", row.fss_no || "-"],
+      ["Employee ID", row.employee_id, "Serial No.", row.serial_no || "-"],
+      ["EOBI No.", row.eobi_no || "-", "Payment", row.bank_cash || "-"],
+      ["Monthly Salary", money(row.base_salary), "Day Rate", money(row.day_rate)],
+    ],
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 95 }, 2: { fontStyle: "bold", cellWidth: 80 } },
+  });
+
+  const attendanceY = lastY(doc, top + 140) + 12;
+  autoTable(doc, {
+    ...common,
+    startY: attendanceY,
+    margin: { left: MARGIN_X, right: MARGIN_X },
+    head: [["Presents", "Prev. Days", "Cur. Days", "Late", "Absent", "Paid Leave", "Unpaid Leave", "Leave Enc.", "Payable Days"]],
+    body: [
+      [
+        row.presents_total,
+        row.pre_days,
+        row.cur_days,
+        row.late_days,
+        row.absent_days,
+        row.paid_leave_days,
+        row.unpaid_leave_days,
+        row.leave_encashment_days,
+        row.total_days,
+      ].map((v) => String(v ?? 0)),
+    ],
+    styles: { ...common.styles, halign: "center" },
+  });
+
+  const tablesY = lastY(doc, attendanceY + 40) + 12;
+  const pay = computePay(row);
+  autoTable(doc, {
+    ...common,
+    startY: tablesY,
+    margin: { left: MARGIN_X, right: pageW - MARGIN_X - half },
+    tableWidth: half,
+    head: [["Earnings", "Amount"]],
+    body: [
+      [`Basic (${pay.total_days} days)`, money(pay.total_salary)],
+      [`Overtime (${Math.round((row.overtime_minutes || 0) / 6) / 10} h)`, money(pay.overtime_pay)],
+      ["Other Allowance", money(row.allow_other)],
+    ],
+    foot: [["Gross Pay", money(pay.gross_pay)]],
+    footStyles: { fillColor: [241, 245, 249], textColor: 0, fontStyle: "bold" },
+    columnStyles: { 1: { halign: "right" } },
+  });
+  const earningsEnd = lastY(doc, tablesY);
+
+  autoTable(doc, {
+    ...common,
+    startY: tablesY,
+    margin: { left: MARGIN_X + half + 12, right: MARGIN_X },
+    tableWidth: half,
+    head: [["Deductions", "Amount"]],
+    body: [
+      ["EOBI", money(row.eobi)],
+      ["Income Tax", money(row.tax)],
+      ["Attendance Fines", money(row.fine_deduction)],
+      ["Advance Recovery", money(row.advance_deduction)],
+      ["Other Fine / Advance", money(row.fine_adv_extra)],
+      ["Late Deduction", money(row.late_deduction)],
+    ],
+    foot: [["Total Deductions", money(pay.total_deductions)]],
+    footStyles: { fillColor: [241, 245, 249], textColor: 0, fontStyle: "bold" },
+    columnStyles: { 1: { halign: "right" } },
+  });
+
+  let y = Math.max(earningsEnd, lastY(doc, tablesY)) + 20;
+  doc.setFillColor(22, 119, 255);
+  doc.rect(MARGIN_X, y, pageW - MARGIN_X * 2, 30, "F");
+  doc.setTextColor(255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(13);
+  doc.text("Net Pay", MARGIN_X + 10, y + 20);
+  doc.text(money(pay.net_pay), pageW - MARGIN_X - 10, y + 20, { align: "right" });
+  doc.setTextColor(0);
+  y += 44;
+
+  const adv = ctx.advances?.get(row.employee_db_id);
+  if (adv) {
+    autoTable(doc, {
+      ...common,
+      startY: y,
+      margin: { left: MARGIN_X, right: MARGIN_X },
+      head: [["Advances", "Total Advanced", "Recovered", "Outstanding Balance"]],
+      body: [["To date", money(adv.total_advanced), money(adv.total_deducted), money(adv.balance)]],
+      columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" } },
+    });
+    y = lastY(doc, y) + 16;
+  }
+
+  if (row.remarks) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9.5);
+    doc.text(`Remarks: ${row.remarks}`, MARGIN_X, y, { maxWidth: pageW - MARGIN_X * 2 });
+  }
+
+  const signY = pageH - 90;
+  doc.setDrawColor(150);
+  doc.line(MARGIN_X, signY, MARGIN_X + 160, signY);
+  doc.line(pageW - MARGIN_X - 160, signY, pageW - MARGIN_X, signY);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.text("Employee Signature", MARGIN_X, signY + 12);
+  doc.text("Authorized Signatory", pageW - MARGIN_X, signY + 12, { align: "right" });
+
+  doc.setTextColor(120);
+  doc.text("Flash ERP", MARGIN_X, pageH - 24);
+  doc.text("Confidential", pageW - MARGIN_X, pageH - 24, { align: "right" });
+  doc.setTextColor(0);
+}
+
+function newDoc(): jsPDF {
+  return new jsPDF({ orientation: "portrait", unit: "pt", format: "a4" });
+}
+
+export function payslipFilename(row: Payroll2Row, month: string): string {
+  const id = String(row.fss_no || row.employee_id || row.employee_db_id).replace(/[^\w-]+/g, "_");
+  return `payslip_${month}_${id}.pdf`;
+}
+
+export function buildPayslip(row: Payroll2Row, ctx: PayslipContext): Blob {
+  const doc = newDoc();
+  drawPayslip(doc, row, ctx);
+  return doc.output("blob");
+}
+
+/** Every slip for the period in one PDF, one employee per page. */
+export function buildPayslipPack(rows: Payroll2Row[], ctx: PayslipContext): Blob {
+  const doc = newDoc();
+  rows.forEach((row, i) => {
+    if (i > 0) doc.addPage();
+    drawPayslip(doc, row, ctx);
+  });
+  return doc.output("blob");
+}
+
+/** One PDF per employee, bundled as a ZIP. */
+export function buildPayslipZip(rows: Payroll2Row[], ctx: PayslipContext): Blob {
+  const seen = new Map<string, number>();
+  return createZip(
+    rows.map((row) => {
+      let name = payslipFilename(row, ctx.month);
+      const n = seen.get(name) ?? 0;
+      seen.set(name, n + 1);
+      if (n > 0) name = name.replace(/\.pdf$/, `_${n + 1}.pdf`);
+      const doc = newDoc();
+      drawPayslip(doc, row, ctx);
+      return { name, data: new Uint8Array(doc.output("arraybuffer")) };
+    })
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { POSTING_ROLES, journalFromDraft, payrollLockEvents, postingDraft } from "./posting";
+import type { FinancePostingAccounts, FinancePostingRole, FuelEntry, Payroll2Row, PayrollRun } from "./types";
+
+// One account per role, numbered in declaration order
+const roles = Object.keys(POSTING_ROLES) as FinancePostingRole[];
+const accountOf = (role: FinancePostingRole) => roles.indexOf(role) + 1;
+const config: FinancePostingAccounts = { accounts: Object.fromEntries(roles.map((role) => [role, accountOf(role)])) };
+
+const run = { id: 12, month: "2026-09", from_date: "2026-09-01", to_date: "2026-09-30" } as PayrollRun;
+
+function row(employee_db_id: number, advance_deduction: number): Payroll2Row {
+  const deductions = 370 + 500 + 200 + 300 + advance_deduction;
+  return {
+    employee_db_id,
+    name: `Guard ${employee_db_id}`,
+    gross_pay: 30000,
+    eobi: 370,
+    tax: 500,
+    fine_deduction: 200,
+    late_deduction: 300,
+    advance_deduction,
+    net_pay: 30000 - deductions,
+  } as Payroll2Row;
+}
+
+describe("postingDraft", () => {
+  it("posts a fuel purchase as fuel expense paid in cash", () => {
+    const entry = { id: 4, vehicle_id: "V-01", entry_date: "2026-09-14T08:00:00", liters: 40, price_per_liter: 265.5 } as FuelEntry;
+    const journal = journalFromDraft(postingDraft({ kind: "fuel_purchased", entry }), config);
+    expect(journal).toMatchObject({ entry_date: "2026-09-14", source_type: "fuel_entry", source_id: "4" });
+    expect(journal.lines).toEqual([
+      expect.objectContaining({ account_id: accountOf("fuel_expense"), debit: 10620, credit: 0 }),
+      expect.objectContaining({ account_id: accountOf("cash"), debit: 0, credit: 10620, description: "Fuel purchase" }),
+    ]);
+  });
+
+  it("balances a payroll lock and settles each advance withheld in its own entry", () => {
+    const events = payrollLockEvents(run, [row(1, 5000), row(2, 0), row(3, 2500)]);
+    expect(events.map((e) => e.kind)).toEqual(["payroll_locked", "advance_recovered", "advance_recovered"]);
+
+    const journals = events.map((e) => journalFromDraft(postingDraft(e), config));
+    expect(journals.map((j) => j.source_id)).toEqual(["12", "12:1", "12:3"]);
+
+    const credited = journals.flatMap((j) => j.lines).filter((l) => l.account_id === accountOf("employee_advances"));
+    expect(credited.map((l) => [l.employee_id, l.credit])).toEqual([
+      [1, 5000],
+      [3, 2500],
+    ]);
+
+    // Whatever the lock leaves payable for advances, the recoveries take back out
+    const payable = journals
+      .flatMap((j) => j.lines)
+      .filter((l) => l.account_id === accountOf("salaries_payable"))
+      .reduce((a, l) => a + Number(l.credit) - Number(l.debit), 0);
+    expect(payable).toBe(3 * 30000 - 3 * 1370 - 7500);
+  });
+});
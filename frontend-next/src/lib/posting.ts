@@ -0,0 +1,470 @@
+import dayjs from "dayjs";
+import { roundMoney } from "./payrollEngine";
+import { sdk } from "./sdk";
+import type {
+  ClientInvoice,
+  ClientPaymentReceipt,
+  EmployeeAdvance,
+  Expense,
+  FinanceAccount,
+  FinanceJournalEntry,
+  FinanceJournalEntryCreate,
+  FinancePostingAccounts,
+  FinancePostingRole,
+  FuelEntry,
+  Payroll2Row,
+  PayrollRun,
+} from "./types";
+
+/**
+ * Double-entry posting of operational events. Each rule turns one source
+ * event into balanced lines against ledger roles (cash, receivables, salaries
+ * payable, ...); the roles resolve to accounts through the posting-accounts
+ * settings on the chart of accounts page. Entries carry `source_type` and
+ * `source_id` so a source's net effect on the ledger can always be found:
+ * posting is skipped while that net is non-zero, and undoing the event posts
+ * a reversal that brings it back to zero.
+ *
+ *   expense paid        Dr expense (by category)    Cr cash
+ *   payroll locked      Dr salaries expense         Cr salaries payable (net + advances withheld),
+ *                                                      EOBI, income tax, fines income
+ *   advance issued      Dr employee advances        Cr cash
+ *   advance recovered   Dr salaries payable         Cr employee advances
+ *   invoice issued      Dr receivables              Cr service revenue, sales tax payable
+ *   payment received    Dr bank/cash, tax withheld  Cr receivables
+ *   fuel purchased      Dr fuel expense             Cr cash
+ *
+ * Advances are recovered through payroll: locking a run posts the payroll
+ * entry and one recovery per employee whose pay had an advance withheld, so
+ * each recovery can be traced and reversed on its own.
+ */
+
+export const POSTING_ROLES: Record<FinancePostingRole, { label: string; accountType: string }> = {
+  cash: { label: "Cash in hand", accountType: "ASSET" },
+  bank: { label: "Bank", accountType: "ASSET" },
+  receivables: { label: "Accounts receivable", accountType: "ASSET" },
+  employee_advances: { label: "Employee advances", accountType: "ASSET" },
+  wht_receivable: { label: "Income tax withheld by clients", accountType: "ASSET" },
+  salaries_payable: { label: "Salaries payable", accountType: "LIABILITY" },
+  eobi_payable: { label: "EOBI payable", accountType: "LIABILITY" },
+  income_tax_payable: { label: "Income tax payable", accountType: "LIABILITY" },
+  sales_tax_payable: { label: "Sales tax payable", accountType: "LIABILITY" },
+  service_revenue: { label: "Security services revenue", accountType: "INCOME" },
+  fines_income: { label: "Fines and deductions", accountType: "INCOME" },
+  salaries_expense: { label: "Salaries and wages", accountType: "EXPENSE" },
+  general_expense: { label: "General expenses", accountType: "EXPENSE" },
+  fuel_expense: { label: "Fuel", accountType: "EXPENSE" },
+};
+
+export const POSTING_SOURCES = {
+  expense: "Expense",
+  payroll_run: "Payroll",
+  employee_advance: "Advance",
+  advance_recovery: "Advance recovery",
+  client_invoice: "Client invoice",
+  client_receipt: "Client receipt",
+  fuel_entry: "Fuel",
+} as const;
+
+export type PostingSource = keyof typeof POSTING_SOURCES;
+
+export type PostingEvent =
+  | { kind: "expense_paid"; expense: Expense }
+  | { kind: "payroll_locked"; run: PayrollRun; rows: Payroll2Row[] }
+  | { kind: "advance_issued"; advance: EmployeeAdvance }
+  | { kind: "advance_recovered"; run: PayrollRun; row: Payroll2Row }
+  | { kind: "invoice_issued"; invoice: ClientInvoice }
+  | { kind: "payment_received"; receipt: ClientPaymentReceipt; invoice_number: string }
+  | { kind: "fuel_purchased"; entry: FuelEntry };
+
+export type PostingLine = {
+  role: FinancePostingRole;
+  /** Expense category, for `general_expense` lines. */
+  category?: string;
+  description: string;
+  debit?: number;
+  credit?: number;
+  employee_id?: number | null;
+};
+
+export type PostingDraft = {
+  entry_date: string;
+  memo: string;
+  source_type: PostingSource;
+  source_id: string;
+  lines: PostingLine[];
+};
+
+export class PostingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PostingError";
+  }
+}
+
+function sum<T>(items: T[], f: (item: T) => number): number {
+  return roundMoney(items.reduce((a, x) => a + Number(f(x) || 0), 0));
+}
+
+/** The balanced lines an event posts, before roles are resolved to accounts. */
+export function postingDraft(event: PostingEvent): PostingDraft {
+  switch (event.kind) {
+    case "expense_paid": {
+      const e = event.expense;
+      const amount = roundMoney(Number(e.amount || 0));
+      return {
+        entry_date: (e.paid_at || e.expense_date).slice(0, 10),
+        memo: `Expense paid: ${e.description}`,
+        source_type: "expense",
+        source_id: String(e.id),
+        lines: [
+          { role: "general_expense", category: e.category, description: e.category, debit: amount },
+          { role: "cash", description: e.vendor_name || "Payment", credit: amount },
+        ],
+      };
+    }
+
+    case "payroll_locked": {
+      const { run, rows } = event;
+      const gross = sum(rows, (r) => r.gross_pay);
+      const fines = sum(rows, (r) => Number(r.fine_deduction || 0) + Number(r.fine_adv_extra || 0) + Number(r.late_deduction || 0));
+      return {
+        entry_date: run.to_date,
+        memo: `Payroll ${run.month} (${run.from_date} to ${run.to_date})`,
+        source_type: "payroll_run",
+        source_id: String(run.id),
+        lines: [
+          { role: "salaries_expense", description: `Gross pay, ${rows.length} employees`, debit: gross },
+          { role: "eobi_payable", description: "EOBI deducted", credit: sum(rows, (r) => r.eobi) },
+          { role: "income_tax_payable", description: "Income tax deducted", credit: sum(rows, (r) => r.tax) },
+          { role: "fines_income", description: "Fines and late deductions", credit: fines },
+          // Advances withheld stay payable until their recovery entries settle them against the advances
+          {
+            role: "salaries_payable",
+            description: "Net pay and advances withheld",
+            credit: sum(rows, (r) => Number(r.net_pay || 0) + Number(r.advance_deduction || 0)),
+          },
+        ],
+      };
+    }
+
+    case "advance_recovered": {
+      const { run, row } = event;
+      const amount = roundMoney(Number(row.advance_deduction || 0));
+      return {
+        entry_date: run.to_date,
+        memo: `Advance recovered from ${row.name}, payroll ${run.month}`,
+        source_type: "advance_recovery",
+        source_id: advanceRecoveryId(run.id, row.employee_db_id),
+        lines: [
+          { role: "salaries_payable", description: "Withheld from pay", debit: amount },
+          { role: "employee_advances", description: `Advance recovered: ${row.name}`, credit: amount, employee_id: row.employee_db_id },
+        ],
+      };
+    }
+
+    case "advance_issued": {
+      const a = event.advance;
+      const amount = roundMoney(Number(a.amount || 0));
+      return {
+        entry_date: a.advance_date,
+        memo: `Advance issued${a.note ? `: ${a.note}` : ""}`,
+        source_type: "employee_advance",
+        source_id: String(a.id),
+        lines: [
+          { role: "employee_advances", description: "Advance", debit: amount, employee_id: a.employee_db_id },
+          { role: "cash", description: "Advance paid out", credit: amount },
+        ],
+      };
+    }
+
+    case "invoice_issued": {
+      const inv = event.invoice;
+      const net = roundMoney(Number(inv.net_payable || 0));
+      const tax = roundMoney(Number(inv.tax_amount || 0));
+      return {
+        entry_date: inv.invoice_date,
+        memo: `Invoice ${inv.invoice_number} for ${inv.billing_period}`,
+        source_type: "client_invoice",
+        source_id: String(inv.id),
+        lines: [
+          { role: "receivables", description: inv.client_name || `Client #${inv.client_id}`, debit: net },
+          { role: "service_revenue", description: "Security services", credit: roundMoney(net - tax) },
+          { role: "sales_tax_payable", description: "Sales tax", credit: tax },
+        ],
+      };
+    }
+
+    case "payment_received": {
+      const r = event.receipt;
+      const amount = roundMoney(Number(r.amount || 0));
+      const wht = roundMoney(Number(r.withholding_tax || 0));
+      return {
+        entry_date: r.receipt_date,
+        memo: `Receipt against ${event.invoice_number}${r.reference ? ` (${r.reference})` : ""}`,
+        source_type: "client_receipt",
+        source_id: String(r.id),
+        lines: [
+          { role: r.method === "cash" ? "cash" : "bank", description: r.bank_name || r.method, debit: amount },
+          { role: "wht_receivable", description: "Income tax withheld at source", debit: wht },
+          { role: "receivables", description: event.invoice_number, credit: roundMoney(amount + wht) },
+        ],
+      };
+    }
+
+    case "fuel_purchased": {
+      const f = event.entry;
+      const amount = roundMoney(Number(f.total_cost ?? Number(f.liters || 0) * Number(f.price_per_liter || 0)));
+      return {
+        entry_date: f.entry_date.slice(0, 10),
+        memo: `Fuel ${f.liters} L for ${f.vehicle_id}`,
+        source_type: "fuel_entry",
+        source_id: String(f.id),
+        lines: [
+          { role: "fuel_expense", description: f.vehicle_id, debit: amount },
+          { role: "cash", description: f.vendor || "Fuel purchase", credit: amount },
+        ],
+      };
+    }
+  }
+}
+
+/** One recovery per run and employee, so reopening a run can find and reverse each. */
+export function advanceRecoveryId(runId: number, employeeDbId: number): string {
+  return `${runId}:${employeeDbId}`;
+}
+
+/** What locking a run posts: the payroll accrual, then a recovery for each advance withheld. */
+export function payrollLockEvents(run: PayrollRun, rows: Payroll2Row[]): PostingEvent[] {
+  return [
+    { kind: "payroll_locked", run, rows },
+    ...rows
+      .filter((row) => Number(row.advance_deduction || 0) > 0)
+      .map<PostingEvent>((row) => ({ kind: "advance_recovered", run, row })),
+  ];
+}
+
+/** Resolves roles to accounts, drops zero lines and checks the entry balances. */
+export function journalFromDraft(draft: PostingDraft, config: FinancePostingAccounts): FinanceJournalEntryCreate {
+  const missing = new Set<string>();
+  const lines = draft.lines
+    .filter((l) => roundMoney(Number(l.debit || 0)) !== 0 || roundMoney(Number(l.credit || 0)) !== 0)
+    .map((l) => {
+      const accountId =
+        (l.category ? config.expense_categories?.[l.category] : null) ?? config.accounts?.[l.role] ?? null;
+      if (!accountId) missing.add(POSTING_ROLES[l.role].label);
+      return {
+        account_id: accountId ?? 0,
+        description: l.description,
+        debit: roundMoney(Number(l.debit || 0)),
+        credit: roundMoney(Number(l.credit || 0)),
+        employee_id: l.employee_id ?? null,
+      };
+    });
+  if (missing.size) throw new PostingError(`No ledger account set for: ${[...missing].join(", ")}`);
+
+  const debits = sum(lines, (l) => l.debit);
+  const credits = sum(lines, (l) => l.credit);
+  if (debits !== credits) throw new PostingError(`Entry does not balance (debits ${debits}, credits ${credits})`);
+
+  return {
+    entry_date: draft.entry_date,
+    memo: draft.memo,
+    source_type: draft.source_type,
+    source_id: draft.source_id,
+    status: "POSTED",
+    lines,
+  };
+}
+
+/** Net debit per account across a source's live (non-void) entries. */
+export function sourceBalance(entries: FinanceJournalEntry[]): Map<number, number> {
+  const net = new Map<number, number>();
+  for (const e of entries) {
+    if (e.status === "VOID" || e.status === "DRAFT") continue;
+    for (const l of e.lines ?? []) {
+      net.set(l.account_id, roundMoney((net.get(l.account_id) ?? 0) + Number(l.debit || 0) - Number(l.credit || 0)));
+    }
+  }
+  for (const [k, v] of net) if (v === 0) net.delete(k);
+  return net;
+}
+
+function sourceEntries(source: PostingSource, sourceId: string | number) {
+  return sdk.finance.allJournals({ source_type: source, source_id: String(sourceId) });
+}
+
+/** Records the posting on the source document, for sources that keep a link to their entry. */
+async function linkSource(source: PostingSource, sourceId: string, entryId: number | null): Promise<void> {
+  if (source === "expense") await sdk.expenses.update(Number(sourceId), { journal_entry_id: entryId });
+}
+
+/** Posts the event to the ledger; returns null when the source is already on the books. */
+export async function postEvent(event: PostingEvent): Promise<FinanceJournalEntry | null> {
+  const draft = postingDraft(event);
+  const [config, existing] = await Promise.all([sdk.finance.postingAccounts(), sourceEntries(draft.source_type, draft.source_id)]);
+  if (sourceBalance(existing).size) return null;
+  const entry = await sdk.finance.createJournal(journalFromDraft(draft, config));
+  await linkSource(draft.source_type, draft.source_id, entry.id);
+  return entry;
+}
+
+/** Posts a reversal bringing the source's net ledger effect back to zero; null when there is nothing to reverse. */
+export async function reverseSource(
+  source: PostingSource,
+  sourceId: string | number,
+  date: string,
+  reason: string
+): Promise<FinanceJournalEntry | null> {
+  const entries = await sourceEntries(source, sourceId);
+  const net = sourceBalance(entries);
+  if (!net.size) return null;
+  const original = [...entries]
+    .filter((e) => e.status === "POSTED" && !e.reversal_of_id)
+    .sort((a, b) => b.id - a.id)[0];
+  const reversal = await sdk.finance.createJournal({
+    entry_date: date,
+    memo: `Reversal${original ? ` of ${original.entry_no}` : ""}: ${reason}`,
+    source_type: source,
+    source_id: String(sourceId),
+    status: "POSTED",
+    reversal_of_id: original?.id ?? null,
+    lines: [...net].map(([accountId, v]) => ({
+      account_id: accountId,
+      description: "Reversal",
+      debit: v < 0 ? -v : 0,
+      credit: v > 0 ? v : 0,
+    })),
+  });
+  await linkSource(source, String(sourceId), null);
+  return reversal;
+}
+
+/** Posts a newly locked run and its advance recoveries; returns the payroll entry. */
+export async function postPayrollLock(run: PayrollRun, rows: Payroll2Row[]): Promise<FinanceJournalEntry | null> {
+  const [payroll, ...recoveries] = payrollLockEvents(run, rows);
+  const entry = await postEvent(payroll);
+  for (const e of recoveries) await postEvent(e);
+  return entry;
+}
+
+/** Reverses what locking the run posted, recoveries included. */
+export async function reversePayrollLock(run: PayrollRun, date: string, reason: string): Promise<FinanceJournalEntry | null> {
+  for (const row of run.snapshot_rows ?? []) {
+    if (Number(row.advance_deduction || 0) > 0) {
+      await reverseSource("advance_recovery", advanceRecoveryId(run.id, row.employee_db_id), date, reason);
+    }
+  }
+  return reverseSource("payroll_run", run.id, date, reason);
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+
+export type UnpostedSource = {
+  key: string;
+  draft: PostingDraft;
+  event: PostingEvent;
+  amount: number;
+};
+
+function monthsBetween(from: string, to: string): string[] {
+  const out: string[] = [];
+  for (let m = dayjs(from).startOf("month"); !m.isAfter(dayjs(to), "month"); m = m.add(1, "month")) out.push(m.format("YYYY-MM"));
+  return out;
+}
+
+/** Every source event dated within the period that should be on the books. */
+async function periodEvents(from: string, to: string): Promise<PostingEvent[]> {
+  const [expenses, runs, advances, invoices, fuel] = await Promise.all([
+    sdk.expenses.list({ status: "PAID", from_date: from, to_date: to, limit: 5000 }),
+    sdk.payrollRuns.list(),
+    Promise.all(monthsBetween(from, to).map((m) => sdk.advances.monthRows(m))),
+    sdk.clients.receivables(),
+    sdk.fuelEntries.list({ from_date: from, to_date: to, limit: 5000 }),
+  ]);
+  const within = (date?: string | null) => {
+    const d = (date ?? "").slice(0, 10);
+    return d >= from && d <= to;
+  };
+
+  const events: PostingEvent[] = expenses.map((expense) => ({ kind: "expense_paid", expense }));
+  for (const run of runs) {
+    if ((run.status !== "locked" && run.status !== "paid") || !within(run.to_date)) continue;
+    const rows = run.snapshot_rows ?? (await sdk.payrollRuns.forPeriod(run.from_date, run.to_date)).snapshot_rows ?? [];
+    events.push(...payrollLockEvents(run, rows));
+  }
+  for (const a of advances.flat()) {
+    if (within(a.advance_date)) events.push({ kind: "advance_issued", advance: a });
+  }
+  for (const invoice of invoices) {
+    if (within(invoice.invoice_date)) events.push({ kind: "invoice_issued", invoice });
+    for (const receipt of invoice.receipts ?? []) {
+      if (within(receipt.receipt_date)) events.push({ kind: "payment_received", receipt, invoice_number: invoice.invoice_number });
+    }
+  }
+  for (const entry of fuel) {
+    if (within(entry.entry_date)) events.push({ kind: "fuel_purchased", entry });
+  }
+  return events;
+}
+
+/**
+ * Sources dated within the period with no net effect on the ledger: never
+ * posted because posting failed or was skipped, or reversed since. Undone
+ * sources (unpaid expenses, reopened payroll, deleted receipts) are not
+ * listed, so whatever comes back should be posted.
+ */
+export async function unpostedSources(from: string, to: string): Promise<UnpostedSource[]> {
+  const sources = Object.keys(POSTING_SOURCES) as PostingSource[];
+  const [events, journals] = await Promise.all([
+    periodEvents(from, to),
+    Promise.all(sources.map((source_type) => sdk.finance.allJournals({ source_type }))),
+  ]);
+
+  const bySource = new Map<string, FinanceJournalEntry[]>();
+  for (const e of journals.flat()) {
+    const key = `${e.source_type}|${e.source_id}`;
+    bySource.set(key, [...(bySource.get(key) ?? []), e]);
+  }
+
+  const out: UnpostedSource[] = [];
+  for (const event of events) {
+    const draft = postingDraft(event);
+    const key = `${draft.source_type}|${draft.source_id}`;
+    if (sourceBalance(bySource.get(key) ?? []).size) continue;
+    const amount = sum(draft.lines, (l) => Number(l.debit || 0));
+    if (amount) out.push({ key, draft, event, amount });
+  }
+  return out.sort((a, b) => a.draft.entry_date.localeCompare(b.draft.entry_date) || a.key.localeCompare(b.key));
+}
+
+/** Posts each source in turn; returns why each failed one could not be posted. */
+export async function postSources(sources: UnpostedSource[]): Promise<Map<string, string>> {
+  const failed = new Map<string, string>();
+  for (const s of sources) {
+    try {
+      await postEvent(s.event);
+    } catch (e: unknown) {
+      failed.set(s.key, e instanceof Error ? e.message : "unknown error");
+    }
+  }
+  return failed;
+}
+
+/** Runs a posting after its source event succeeded; failures come back as a message instead of throwing. */
+export async function tryPosting(post: () => Promise<FinanceJournalEntry | null>): Promise<string | null> {
+  try {
+    await post();
+    return null;
+  } catch (e: unknown) {
+    const m = e instanceof Error ? e.message : "unknown error";
+    return `Saved, but not posted to the ledger: ${m}`;
+  }
+}
+
+/** Accounts of the type a role expects, for the posting-accounts settings. */
+export function accountsForRole(accounts: FinanceAccount[], role: FinancePostingRole): FinanceAccount[] {
+  const type = POSTING_ROLES[role].accountType;
+  return accounts.filter((a) => a.is_active && a.account_type === type);
+}
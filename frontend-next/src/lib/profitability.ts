@@ -0,0 +1,329 @@
+import dayjs from "dayjs";
+import { ApiError } from "./api";
+import { roundMoney } from "./payrollEngine";
+import { eachDay } from "./roster";
+import { sdk } from "./sdk";
+import type {
+  ClientDetail,
+  ClientInvoice,
+  ClientSiteGuardAllocation,
+  GeneralItem,
+  GeneralTransaction,
+  Payroll2Row,
+  RestrictedItem,
+  RestrictedTransaction,
+  VehicleAssignment,
+} from "./types";
+
+/**
+ * Margin per client site per payroll month (26th to 25th):
+ *
+ *   revenue   = invoice net payable, split across sites by the invoice's line
+ *               amounts (or its site), in the month its billing period ends
+ *   labour    = each guard's gross pay spread over the days of the month and
+ *               charged to the site they were allocated to on each day
+ *   equipment = inventory issued to a guard at the item's unit cost, less
+ *               returns, charged to their site on the day of the transaction
+ *   vehicles  = assignment amount shared equally by the guards carried
+ *
+ * Cost that cannot be tied to a site (unallocated days, office staff, items
+ * without a unit cost) is reported as overhead rather than spread.
+ */
+
+export type ProfitMonth = { month: string; from: string; to: string };
+
+export type ProfitInputs = {
+  months: ProfitMonth[];
+  clients: ClientDetail[];
+  allocations: Map<number, ClientSiteGuardAllocation[]>;
+  payroll: Map<string, Payroll2Row[]>;
+  equipment: Array<{ date: string; employee_id: string; cost: number }>;
+  vehicles: VehicleAssignment[];
+  /** Employee2 code → Employee2 id, the identity payroll rows and allocations are keyed by. */
+  dbIdByCode: Map<string, number>;
+};
+
+export type ProfitRow = {
+  key: string;
+  month: string;
+  /** Null on the overhead row. */
+  client_id: number | null;
+  client_name: string;
+  site_id: number | null;
+  site_name: string;
+  revenue: number;
+  labour: number;
+  equipment: number;
+  vehicles: number;
+  cost: number;
+  margin: number;
+  /** Margin as a percentage of revenue; null without revenue. */
+  margin_pct: number | null;
+};
+
+export type ProfitGrouping = "client" | "site";
+
+const OVERHEAD_LABEL = "Unallocated overhead";
+
+/** The 26th-to-25th payroll month a date falls in. */
+export function payrollMonth(date: string): string {
+  const d = dayjs(date);
+  return (d.date() >= 26 ? d.add(1, "month") : d).format("YYYY-MM");
+}
+
+export function payrollMonths(fromMonth: string, toMonth: string): ProfitMonth[] {
+  const out: ProfitMonth[] = [];
+  for (let m = dayjs(fromMonth + "-01"); !m.isAfter(dayjs(toMonth + "-01")); m = m.add(1, "month")) {
+    const to = m.date(25);
+    out.push({ month: m.format("YYYY-MM"), from: to.subtract(1, "month").date(26).format("YYYY-MM-DD"), to: to.format("YYYY-MM-DD") });
+  }
+  return out;
+}
+
+/** Billing period end from "from to to", falling back to the invoice date. */
+function invoiceDate(inv: ClientInvoice): string {
+  const m = /(\d{4}-\d{2}-\d{2})\s*$/.exec(inv.billing_period || "");
+  return m ? m[1] : inv.invoice_date.slice(0, 10);
+}
+
+/** Share of an invoice's net payable per site; null when it cannot be placed. */
+function invoiceSiteShares(inv: ClientInvoice): Map<number | null, number> {
+  const net = Number(inv.net_payable || 0);
+  const bySite = new Map<number, number>();
+  for (const l of inv.lines ?? []) {
+    if (l.site_id) bySite.set(l.site_id, (bySite.get(l.site_id) ?? 0) + Number(l.amount || 0));
+  }
+  const weight = [...bySite.values()].reduce((a, v) => a + v, 0);
+  if (weight > 0) return new Map([...bySite].map(([id, v]) => [id, (net * v) / weight]));
+  return new Map([[inv.site_id ?? null, net]]);
+}
+
+type Assignment = { site_id: number; start: string | null; end: string | null };
+
+function assignmentIndex(allocations: Map<number, ClientSiteGuardAllocation[]>): Map<number, Assignment[]> {
+  const out = new Map<number, Assignment[]>();
+  for (const [siteId, list] of allocations) {
+    for (const a of list) {
+      const row = { site_id: siteId, start: a.start_date?.slice(0, 10) ?? null, end: a.end_date?.slice(0, 10) ?? null };
+      out.set(a.employee_db_id, [...(out.get(a.employee_db_id) ?? []), row]);
+    }
+  }
+  return out;
+}
+
+/** Sites a guard was allocated to on a date; a guard on two sites is split evenly. */
+function sitesOn(index: Map<number, Assignment[]>, employeeDbId: number | undefined, date: string): number[] {
+  if (employeeDbId == null) return [];
+  return (index.get(employeeDbId) ?? [])
+    .filter((a) => (!a.start || date >= a.start) && (!a.end || date <= a.end))
+    .map((a) => a.site_id);
+}
+
+type Bucket = { revenue: number; labour: number; equipment: number; vehicles: number };
+
+export function computeProfitability(inputs: ProfitInputs): ProfitRow[] {
+  const wanted = new Set(inputs.months.map((m) => m.month));
+  const siteClient = new Map<number, { client: ClientDetail; site_name: string }>();
+  for (const c of inputs.clients) {
+    for (const s of c.sites ?? []) siteClient.set(s.id, { client: c, site_name: s.site_name });
+  }
+  const index = assignmentIndex(inputs.allocations);
+
+  // month|client|site; client "" is overhead
+  const buckets = new Map<string, Bucket>();
+  const add = (month: string, site: number | null, field: keyof Bucket, amount: number, clientId?: number) => {
+    if (!wanted.has(month) || !amount) return;
+    const owner = site != null ? siteClient.get(site)?.client.id : clientId;
+    const key = `${month}|${owner ?? ""}|${owner != null ? site ?? "" : ""}`;
+    const b = buckets.get(key) ?? { revenue: 0, labour: 0, equipment: 0, vehicles: 0 };
+    b[field] += amount;
+    buckets.set(key, b);
+  };
+  const charge = (month: string, sites: number[], field: keyof Bucket, amount: number) => {
+    if (!sites.length) add(month, null, field, amount);
+    else for (const s of sites) add(month, s, field, amount / sites.length);
+  };
+
+  for (const c of inputs.clients) {
+    for (const inv of c.invoices ?? []) {
+      const month = payrollMonth(invoiceDate(inv));
+      for (const [site, amount] of invoiceSiteShares(inv)) add(month, site, "revenue", amount, c.id);
+    }
+  }
+
+  for (const m of inputs.months) {
+    const days = eachDay(dayjs(m.from), dayjs(m.to)).map((d) => d.format("YYYY-MM-DD"));
+    for (const r of inputs.payroll.get(m.month) ?? []) {
+      const perDay = Number(r.gross_pay || 0) / days.length;
+      for (const d of days) charge(m.month, sitesOn(index, r.employee_db_id, d), "labour", perDay);
+    }
+  }
+
+  for (const e of inputs.equipment) {
+    const date = e.date.slice(0, 10);
+    charge(payrollMonth(date), sitesOn(index, inputs.dbIdByCode.get(e.employee_id), date), "equipment", e.cost);
+  }
+
+  for (const v of inputs.vehicles) {
+    const date = (v.assignment_date || v.created_at).slice(0, 10);
+    const guards = v.employee_ids ?? [];
+    const amount = Number(v.amount || 0);
+    if (!guards.length) {
+      charge(payrollMonth(date), [], "vehicles", amount);
+      continue;
+    }
+    for (const code of guards) {
+      charge(payrollMonth(date), sitesOn(index, inputs.dbIdByCode.get(code), date), "vehicles", amount / guards.length);
+    }
+  }
+
+  const clientName = new Map(inputs.clients.map((c) => [c.id, c.client_name]));
+  const rows: ProfitRow[] = [];
+  for (const [key, b] of buckets) {
+    const [month, client, site] = key.split("|");
+    const siteId = site ? Number(site) : null;
+    rows.push(
+      profitRow(key, month, {
+        client_id: client ? Number(client) : null,
+        client_name: client ? clientName.get(Number(client)) ?? `Client #${client}` : OVERHEAD_LABEL,
+        site_id: siteId,
+        site_name: siteId != null ? siteClient.get(siteId)?.site_name ?? `Site #${siteId}` : client ? "No site" : "",
+        ...b,
+      })
+    );
+  }
+  return rows.sort(
+    (a, b) =>
+      a.month.localeCompare(b.month) ||
+      Number(a.client_id == null) - Number(b.client_id == null) ||
+      a.client_name.localeCompare(b.client_name) ||
+      a.site_name.localeCompare(b.site_name)
+  );
+}
+
+function profitRow(
+  key: string,
+  month: string,
+  v: Omit<ProfitRow, "key" | "month" | "cost" | "margin" | "margin_pct">
+): ProfitRow {
+  const revenue = roundMoney(v.revenue);
+  const labour = roundMoney(v.labour);
+  const equipment = roundMoney(v.equipment);
+  const vehicles = roundMoney(v.vehicles);
+  const cost = roundMoney(labour + equipment + vehicles);
+  const margin = roundMoney(revenue - cost);
+  return {
+    ...v,
+    key,
+    month,
+    revenue,
+    labour,
+    equipment,
+    vehicles,
+    cost,
+    margin,
+    margin_pct: revenue ? Math.round((margin / revenue) * 1000) / 10 : null,
+  };
+}
+
+/** Totals over the whole range per client, or per client site. */
+export function rollUp(rows: ProfitRow[], by: ProfitGrouping): ProfitRow[] {
+  const groups = new Map<string, ProfitRow>();
+  for (const r of rows) {
+    const key = by === "client" ? `${r.client_id ?? ""}` : `${r.client_id ?? ""}|${r.site_id ?? ""}`;
+    const g = groups.get(key);
+    if (!g) {
+      groups.set(key, { ...r, key, month: "", site_id: by === "client" ? null : r.site_id, site_name: by === "client" ? "" : r.site_name });
+      continue;
+    }
+    g.revenue += r.revenue;
+    g.labour += r.labour;
+    g.equipment += r.equipment;
+    g.vehicles += r.vehicles;
+  }
+  return [...groups.values()]
+    .map((g) => profitRow(g.key, "", g))
+    .sort((a, b) => Number(a.client_id == null) - Number(b.client_id == null) || b.margin - a.margin);
+}
+
+/** Revenue, cost and margin per month, optionally for one client or site. */
+export function monthlyTrend(
+  rows: ProfitRow[],
+  months: ProfitMonth[],
+  filter?: { client_id: number | null; site_id?: number | null }
+): Array<{ month: string; revenue: number; cost: number; margin: number; margin_pct: number | null }> {
+  return months.map(({ month }) => {
+    const picked = rows.filter(
+      (r) =>
+        r.month === month &&
+        (!filter || (r.client_id === filter.client_id && (filter.site_id === undefined || r.site_id === filter.site_id)))
+    );
+    const revenue = roundMoney(picked.reduce((a, r) => a + r.revenue, 0));
+    const cost = roundMoney(picked.reduce((a, r) => a + r.cost, 0));
+    const margin = roundMoney(revenue - cost);
+    return { month, revenue, cost, margin, margin_pct: revenue ? Math.round((margin / revenue) * 1000) / 10 : null };
+  });
+}
+
+/** Issues at unit cost less returns; items without a unit cost are left out. */
+function equipmentCosts(
+  items: Array<Pick<GeneralItem | RestrictedItem, "item_code" | "unit_cost">>,
+  transactions: Array<GeneralTransaction | RestrictedTransaction>
+): ProfitInputs["equipment"] {
+  const unitCost = new Map(items.map((i) => [i.item_code, Number(i.unit_cost || 0)]));
+  const out: ProfitInputs["equipment"] = [];
+  for (const t of transactions) {
+    const action = String(t.action || "").toLowerCase();
+    const sign = action === "issue" ? 1 : action === "return" ? -1 : 0;
+    const cost = unitCost.get(t.item_code) ?? 0;
+    if (!sign || !cost || !t.employee_id) continue;
+    out.push({ date: t.created_at, employee_id: t.employee_id, cost: sign * cost * Number(t.quantity || 1) });
+  }
+  return out;
+}
+
+/** Payroll as locked in the month's run when there is one, else the live calculation. */
+async function payrollRows(m: ProfitMonth): Promise<Payroll2Row[]> {
+  const run = await sdk.payrollRuns.forPeriod(m.from, m.to).catch((e: unknown) => {
+    if (e instanceof ApiError && e.status === 404) return null;
+    throw e;
+  });
+  if (run?.snapshot_rows?.length) return run.snapshot_rows;
+  const rep = await sdk.payroll.range2Report({ month: m.month, from_date: m.from, to_date: m.to });
+  return rep.rows ?? [];
+}
+
+/** Fetches clients with their invoices, site allocations, payroll, inventory and vehicle costs for the months. */
+export async function loadProfitabilityInputs(fromMonth: string, toMonth: string): Promise<ProfitInputs> {
+  const months = payrollMonths(fromMonth, toMonth);
+  const from = months[0]?.from ?? `${fromMonth}-01`;
+  const to = months[months.length - 1]?.to ?? `${toMonth}-28`;
+
+  const list = await sdk.clients.list();
+  const clients = await Promise.all(list.map((c) => sdk.clients.get(c.id)));
+  const sites = clients.flatMap((c) => c.sites ?? []);
+
+  const [allocs, payroll, generalItems, restrictedItems, generalTx, restrictedTx, vehicles, employees] = await Promise.all([
+    Promise.all(sites.map((s) => sdk.sites.allocations(s.id).catch(() => [] as ClientSiteGuardAllocation[]))),
+    Promise.all(months.map(payrollRows)),
+    sdk.generalInventory.items(),
+    sdk.restrictedInventory.items(),
+    sdk.generalInventory.transactions({ limit: 5000 }),
+    sdk.restrictedInventory.transactions({ limit: 5000 }),
+    sdk.vehicleAssignments.list({ from_date: from, to_date: to, limit: 5000 }),
+    sdk.employees2.listAll(),
+  ]);
+
+  return {
+    months,
+    clients,
+    allocations: new Map(sites.map((s, i) => [s.id, allocs[i]])),
+    payroll: new Map(months.map((m, i) => [m.month, payroll[i]])),
+    equipment: [
+      ...equipmentCosts(generalItems, generalTx),
+      ...equipmentCosts(restrictedItems, restrictedTx),
+    ].filter((e) => e.date.slice(0, 10) >= from && e.date.slice(0, 10) <= to),
+    vehicles,
+    dbIdByCode: new Map(employees.map((e) => [String(e.fss_no || e.serial_no || e.id), e.id])),
+  };
+}
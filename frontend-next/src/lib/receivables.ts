@@ -0,0 +1,261 @@
+import dayjs from "dayjs";
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { roundMoney } from "./payrollEngine";
+import type { ClientDetail, ClientInvoice, ClientPaymentMethod } from "./types";
+
+/**
+ * Accounts receivable worked out from invoices and their payment receipts.
+ * An invoice is settled by cash received plus tax withheld at source; what
+ * is left is its balance. Invoices from before receipts were recorded only
+ * carry a payment status, so a "Paid" status with no receipts counts as
+ * fully settled.
+ */
+
+export const PAYMENT_METHOD_LABELS: Record<ClientPaymentMethod, string> = {
+  cheque: "Cheque",
+  bank: "Bank transfer",
+  cash: "Cash",
+};
+
+export const AGING_BUCKETS = ["0-30", "31-60", "61-90", "90+"] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export type AgingRow = {
+  client_id: number;
+  client_name: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  invoices: number;
+};
+
+export type StatementEntry = {
+  date: string;
+  kind: "invoice" | "receipt" | "withholding";
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+export type Statement = {
+  from: string;
+  to: string;
+  opening: number;
+  entries: StatementEntry[];
+  closing: number;
+  debits: number;
+  credits: number;
+};
+
+function isLegacyPaid(inv: ClientInvoice): boolean {
+  return !inv.receipts?.length && String(inv.payment_status ?? "").toLowerCase() === "paid";
+}
+
+export function invoiceSettled(inv: ClientInvoice): number {
+  if (isLegacyPaid(inv)) return Number(inv.net_payable ?? 0);
+  return roundMoney(
+    (inv.receipts ?? []).reduce((a, r) => a + Number(r.amount ?? 0) + Number(r.withholding_tax ?? 0), 0)
+  );
+}
+
+export function invoiceBalance(inv: ClientInvoice): number {
+  return roundMoney(Math.max(0, Number(inv.net_payable ?? 0) - invoiceSettled(inv)));
+}
+
+export function receivableStatus(inv: ClientInvoice): "Paid" | "Partially Paid" | "Unpaid" {
+  if (invoiceBalance(inv) <= 0) return "Paid";
+  return invoiceSettled(inv) > 0 ? "Partially Paid" : "Unpaid";
+}
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 30) return "0-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+/** Outstanding balances per client, aged from the invoice date. */
+export function buildAging(invoices: ClientInvoice[], asOf: string, clientNames = new Map<number, string>()): AgingRow[] {
+  const on = dayjs(asOf);
+  const byClient = new Map<number, AgingRow>();
+  for (const inv of invoices) {
+    if (inv.invoice_date > asOf) continue;
+    const balance = invoiceBalance(inv);
+    if (balance <= 0) continue;
+    const row = byClient.get(inv.client_id) ?? {
+      client_id: inv.client_id,
+      client_name: inv.client_name ?? clientNames.get(inv.client_id) ?? `Client #${inv.client_id}`,
+      buckets: { "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 },
+      total: 0,
+      invoices: 0,
+    };
+    const bucket = agingBucket(on.diff(dayjs(inv.invoice_date), "day"));
+    row.buckets[bucket] = roundMoney(row.buckets[bucket] + balance);
+    row.total = roundMoney(row.total + balance);
+    row.invoices += 1;
+    byClient.set(inv.client_id, row);
+  }
+  return [...byClient.values()].sort((a, b) => b.total - a.total);
+}
+
+/** Statement of account: invoices as debits, receipts and withholding as credits, with running balance. */
+export function buildStatement(invoices: ClientInvoice[], from: string, to: string): Statement {
+  const all: Array<Omit<StatementEntry, "balance">> = [];
+  for (const inv of invoices) {
+    all.push({
+      date: inv.invoice_date,
+      kind: "invoice",
+      reference: inv.invoice_number,
+      description: `Invoice for ${inv.billing_period}`,
+      debit: Number(inv.net_payable ?? 0),
+      credit: 0,
+    });
+    if (isLegacyPaid(inv)) {
+      all.push({
+        date: inv.payment_date || inv.invoice_date,
+        kind: "receipt",
+        reference: inv.invoice_number,
+        description: "Payment received",
+        debit: 0,
+        credit: Number(inv.net_payable ?? 0),
+      });
+    }
+    for (const r of inv.receipts ?? []) {
+      const ref = [PAYMENT_METHOD_LABELS[r.method] ?? r.method, r.reference].filter(Boolean).join(" ");
+      all.push({
+        date: r.receipt_date,
+        kind: "receipt",
+        reference: inv.invoice_number,
+        description: `Payment received (${ref})`,
+        debit: 0,
+        credit: Number(r.amount ?? 0),
+      });
+      if (Number(r.withholding_tax ?? 0) > 0) {
+        all.push({
+          date: r.receipt_date,
+          kind: "withholding",
+          reference: inv.invoice_number,
+          description: "Income tax withheld at source",
+          debit: 0,
+          credit: Number(r.withholding_tax),
+        });
+      }
+    }
+  }
+  all.sort((a, b) => a.date.localeCompare(b.date) || (a.kind === "invoice" ? -1 : 1));
+
+  const opening = roundMoney(all.filter((e) => e.date < from).reduce((a, e) => a + e.debit - e.credit, 0));
+  let balance = opening;
+  const entries: StatementEntry[] = [];
+  for (const e of all) {
+    if (e.date < from || e.date > to) continue;
+    balance = roundMoney(balance + e.debit - e.credit);
+    entries.push({ ...e, balance });
+  }
+  return {
+    from,
+    to,
+    opening,
+    entries,
+    closing: balance,
+    debits: roundMoney(entries.reduce((a, e) => a + e.debit, 0)),
+    credits: roundMoney(entries.reduce((a, e) => a + e.credit, 0)),
+  };
+}
+
+function money(n: number): string {
+  return n.toLocaleString("en-PK", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function buildStatementPdf(client: ClientDetail, statement: Statement, logoDataUrl?: string | null): Blob {
+  const doc = new jsPDF({ orientation: "portrait", unit: "pt", format: "a4" });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const marginX = 40;
+
+  const aging = buildAging(
+    client.invoices?.map((i) => ({ ...i, client_name: client.client_name })) ?? [],
+    statement.to
+  )[0];
+
+  autoTable(doc, {
+    head: [["Date", "Invoice", "Description", "Debit", "Credit", "Balance"]],
+    body: [
+      [statement.from, "", "Opening balance", "", "", money(statement.opening)],
+      ...statement.entries.map((e) => [
+        e.date,
+        e.reference,
+        e.description,
+        e.debit ? money(e.debit) : "",
+        e.credit ? money(e.credit) : "",
+        money(e.balance),
+      ]),
+    ],
+    foot: [["", "", "Closing balance", money(statement.debits), money(statement.credits), money(statement.closing)]],
+    startY: 150,
+    margin: { left: marginX, right: marginX, top: 110 },
+    styles: { font: "helvetica", fontSize: 9, cellPadding: 5 },
+    headStyles: { fillColor: [22, 119, 255], textColor: 255, fontStyle: "bold" },
+    footStyles: { fillColor: [241, 245, 249], textColor: 0, fontStyle: "bold" },
+    columnStyles: {
+      0: { cellWidth: 64 },
+      1: { cellWidth: 80 },
+      3: { cellWidth: 70, halign: "right" },
+      4: { cellWidth: 70, halign: "right" },
+      5: { cellWidth: 76, halign: "right" },
+    },
+    didDrawPage: (data) => {
+      if (logoDataUrl) {
+        try {
+          doc.addImage(logoDataUrl, "PNG", marginX, 32, 44, 44);
+        } catch {
+          // ignore
+        }
+      }
+      const titleX = marginX + (logoDataUrl ? 56 : 0);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(16);
+      doc.text("Statement of Account", titleX, 50);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(10);
+      doc.setTextColor(90);
+      doc.text(`Period: ${statement.from} to ${statement.to}`, titleX, 66);
+      doc.text(`Page ${data.pageNumber}`, pageW - marginX, 50, { align: "right" });
+      if (data.pageNumber === 1) {
+        doc.setTextColor(0);
+        doc.setFont("helvetica", "bold");
+        doc.text(client.client_name, marginX, 104);
+        doc.setFont("helvetica", "normal");
+        const details = [
+          client.client_code,
+          client.address,
+          client.vat_gst_number ? `GST: ${client.vat_gst_number}` : null,
+        ].filter(Boolean) as string[];
+        details.forEach((t, i) => doc.text(t, marginX, 118 + i * 12));
+      }
+      doc.setTextColor(120);
+      doc.setFontSize(9);
+      doc.text("Flash ERP", marginX, pageH - 24);
+      doc.text(`Generated ${dayjs().format("YYYY-MM-DD HH:mm")}`, pageW - marginX, pageH - 24, { align: "right" });
+      doc.setTextColor(0);
+    },
+  });
+
+  if (aging) {
+    const finalY = (doc as unknown as { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? 160;
+    autoTable(doc, {
+      head: [["Outstanding by age (days)", ...AGING_BUCKETS, "Total"]],
+      body: [["", ...AGING_BUCKETS.map((b) => money(aging.buckets[b])), money(aging.total)]],
+      startY: finalY + 24,
+      margin: { left: marginX, right: marginX, top: 110 },
+      styles: { font: "helvetica", fontSize: 9, cellPadding: 5, halign: "right" },
+      headStyles: { fillColor: [241, 245, 249], textColor: 0, fontStyle: "bold" },
+      columnStyles: { 0: { halign: "left" } },
+    });
+  }
+
+  return doc.output("blob");
+}
@@ -0,0 +1,49 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { generateShifts } from "./roster";
+import type { ClientGuardRequirement, ClientSiteGuardAllocation, RosterShift } from "./types";
+
+function requirement(id: number, number_of_guards: number, shift_type: string): ClientGuardRequirement {
+  return { id, site_id: 1, guard_type: "Guard", number_of_guards, shift_type, created_at: "2026-01-01" };
+}
+
+function allocation(employee_db_id: number, requirement_id: number | null): ClientSiteGuardAllocation {
+  return { id: employee_db_id, site_id: 1, requirement_id, employee_db_id, status: "active", created_at: "2026-01-01" };
+}
+
+const day = dayjs("2026-10-19");
+const assigned = (shifts: RosterShift[]) => shifts.map((s) => [s.requirement_id, s.slot, s.employee_db_id]);
+
+describe("generateShifts", () => {
+  it("does not book a site-level reliever on two requirements the same day", () => {
+    const shifts = generateShifts({
+      siteId: 1,
+      requirements: [requirement(10, 2, "Day"), requirement(20, 1, "Night")],
+      allocations: [allocation(1, 10), allocation(2, null)],
+      from: day,
+      to: day,
+    });
+    expect(assigned(shifts)).toEqual([
+      [10, 0, 1],
+      [10, 1, 2],
+      [20, 0, null],
+    ]);
+  });
+
+  it("leaves a guard kept on a later requirement off the earlier one", () => {
+    const kept: RosterShift = { site_id: 1, requirement_id: 20, date: "2026-10-19", slot: 0, employee_db_id: 2 };
+    const shifts = generateShifts({
+      siteId: 1,
+      requirements: [requirement(10, 2, "Day"), requirement(20, 1, "Night")],
+      allocations: [allocation(1, 10), allocation(2, null)],
+      from: day,
+      to: day,
+      existing: [kept],
+    });
+    expect(assigned(shifts)).toEqual([
+      [10, 0, 1],
+      [10, 1, null],
+      [20, 0, 2],
+    ]);
+  });
+});
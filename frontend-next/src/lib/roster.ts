@@ -0,0 +1,208 @@
+import dayjs, { type Dayjs } from "dayjs";
+import type { ClientGuardRequirement, ClientSiteGuardAllocation, RosterShift } from "./types";
+
+/**
+ * Roster generation and checks. Pure functions so the planner page, the
+ * attendance sheet and any export can agree on what a roster means.
+ */
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const WORD_NUMBERS: Record<string, number> = { one: 1, two: 2, three: 3 };
+
+export type WeeklyOffRule = {
+  /** Fixed rest weekdays (0 = Sunday). */
+  days: number[];
+  /** Rotating rest days per guard per week, staggered so guards do not all rest together. */
+  perWeek: number;
+};
+
+/**
+ * `weekly_off_rules` is free text entered on the requirement ("Friday",
+ * "Sat & Sun", "1 day per week", "rotating weekly off"). Named weekdays win;
+ * otherwise a count (or a bare mention of rotation) gives rotating offs.
+ */
+export function parseWeeklyOffRules(text?: string | null): WeeklyOffRule {
+  const t = (text ?? "").toLowerCase();
+  if (!t.trim() || /\b(none|no off|nil)\b/.test(t)) return { days: [], perWeek: 0 };
+
+  const days = WEEKDAYS.flatMap((name, i) => (new RegExp(`\\b${name.slice(0, 3)}(${name.slice(3)})?\\b`).test(t) ? [i] : []));
+  if (days.length > 0) return { days, perWeek: 0 };
+
+  const count = t.match(/\b(\d+|one|two|three)\s*(?:day|days|off)\b/);
+  if (count) {
+    const n = WORD_NUMBERS[count[1]] ?? Number(count[1]);
+    return { days: [], perWeek: Math.min(Math.max(n, 0), 6) };
+  }
+  if (/rotat|weekly off|week off/.test(t)) return { days: [], perWeek: 1 };
+  return { days: [], perWeek: 0 };
+}
+
+export function isRestDay(rule: WeeklyOffRule, date: Dayjs, guardIndex: number): boolean {
+  const dow = date.day();
+  if (rule.days.length > 0) return rule.days.includes(dow);
+  if (rule.perWeek <= 0) return false;
+  return (((dow - guardIndex) % 7) + 7) % 7 < rule.perWeek;
+}
+
+function activeOn(date: string, start?: string | null, end?: string | null): boolean {
+  if (start && date < start.slice(0, 10)) return false;
+  if (end && date > end.slice(0, 10)) return false;
+  return true;
+}
+
+export function eachDay(from: Dayjs, to: Dayjs): Dayjs[] {
+  const out: Dayjs[] = [];
+  for (let d = from.startOf("day"); !d.isAfter(to, "day"); d = d.add(1, "day")) out.push(d);
+  return out;
+}
+
+export function slotKey(s: Pick<RosterShift, "requirement_id" | "date" | "slot">): string {
+  return `${s.requirement_id}:${s.date}:${s.slot}`;
+}
+
+/**
+ * Builds the shift grid for one site over a date range: one slot per guard
+ * required, per requirement active on that day. Allocated guards are placed
+ * in allocation order, skipping their rest days; posts left without a guard
+ * stay empty so the planner sees them as unfilled. Assignments already in
+ * `existing` are kept unless `overwrite` is set. A guard fills at most one
+ * post per day across all of the site's requirements.
+ */
+export function generateShifts(args: {
+  siteId: number;
+  requirements: ClientGuardRequirement[];
+  allocations: ClientSiteGuardAllocation[];
+  from: Dayjs;
+  to: Dayjs;
+  existing?: RosterShift[];
+  overwrite?: boolean;
+}): RosterShift[] {
+  const { siteId, requirements, allocations, from, to, existing = [], overwrite = false } = args;
+  const kept = new Map(overwrite ? [] : existing.map((s) => [slotKey(s), s]));
+  const activeAllocations = allocations.filter((a) => (a.status ?? "").toLowerCase() !== "released");
+  // Guards on duty per date, shared by every requirement at the site
+  const takenOn = new Map<string, Set<number>>();
+  const taken = (date: string) => {
+    let set = takenOn.get(date);
+    if (!set) takenOn.set(date, (set = new Set()));
+    return set;
+  };
+  const days: Array<{ shifts: RosterShift[]; available: number[] }> = [];
+
+  for (const req of requirements) {
+    const rule = parseWeeklyOffRules(req.weekly_off_rules);
+    // Guards allocated to this requirement first, then site-level allocations as relievers
+    const guards = [
+      ...activeAllocations.filter((a) => a.requirement_id === req.id),
+      ...activeAllocations.filter((a) => a.requirement_id == null),
+    ];
+
+    for (const day of eachDay(from, to)) {
+      const date = day.format("YYYY-MM-DD");
+      if (!activeOn(date, req.start_date, req.end_date)) continue;
+
+      const available = guards
+        .map((g, i) => ({ g, i }))
+        .filter(({ g, i }) => activeOn(date, g.start_date, g.end_date) && !isRestDay(rule, day, i))
+        .map(({ g }) => g.employee_db_id);
+
+      const slots = Math.max(0, Number(req.number_of_guards) || 0);
+      const dayShifts: RosterShift[] = [];
+      for (let slot = 0; slot < slots; slot += 1) {
+        const prev = kept.get(slotKey({ requirement_id: req.id, date, slot }));
+        const shift: RosterShift = {
+          id: prev?.id ?? null,
+          site_id: siteId,
+          requirement_id: req.id,
+          date,
+          slot,
+          shift_type: req.shift_type ?? null,
+          shift_start: req.shift_start ?? null,
+          shift_end: req.shift_end ?? null,
+          employee_db_id: prev?.employee_db_id ?? null,
+          status: "draft",
+        };
+        if (shift.employee_db_id != null) taken(date).add(shift.employee_db_id);
+        dayShifts.push(shift);
+      }
+      days.push({ shifts: dayShifts, available });
+    }
+  }
+
+  // Open posts are filled only once every kept assignment is known, so a guard kept on one requirement is not booked on another
+  const out: RosterShift[] = [];
+  for (const { shifts, available } of days) {
+    for (const shift of shifts) {
+      if (shift.employee_db_id == null) {
+        const onDuty = taken(shift.date);
+        shift.employee_db_id = available.find((id) => !onDuty.has(id)) ?? null;
+        if (shift.employee_db_id != null) onDuty.add(shift.employee_db_id);
+      }
+      out.push(shift);
+    }
+  }
+  return out;
+}
+
+function toMinutes(t?: string | null): number | null {
+  const m = (t ?? "").match(/^(\d{1,2}):(\d{2})/);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+/** Shift as an absolute [start, end) minute range; overnight shifts run into the next day. */
+function shiftWindow(s: RosterShift): [number, number] {
+  const base = dayjs(s.date).startOf("day").valueOf() / 60_000;
+  const start = toMinutes(s.shift_start);
+  const end = toMinutes(s.shift_end);
+  if (start == null || end == null) return [base, base + 24 * 60];
+  return [base + start, base + (end <= start ? end + 24 * 60 : end)];
+}
+
+export type RosterIssues = {
+  unfilled: RosterShift[];
+  /** slotKey -> the other shifts the same guard is booked on at the same time. */
+  doubleBooked: Map<string, RosterShift[]>;
+};
+
+/**
+ * Flags empty posts in `shifts` and guards booked on overlapping shifts,
+ * either within `shifts` or against `otherSites` (other sites' saved rosters).
+ */
+export function findRosterIssues(shifts: RosterShift[], otherSites: RosterShift[] = []): RosterIssues {
+  const unfilled = shifts.filter((s) => s.employee_db_id == null);
+  const byGuard = new Map<number, RosterShift[]>();
+  for (const s of [...shifts, ...otherSites]) {
+    if (s.employee_db_id == null) continue;
+    const list = byGuard.get(s.employee_db_id) ?? [];
+    list.push(s);
+    byGuard.set(s.employee_db_id, list);
+  }
+
+  const doubleBooked = new Map<string, RosterShift[]>();
+  for (const s of shifts) {
+    if (s.employee_db_id == null) continue;
+    const [a0, a1] = shiftWindow(s);
+    const clashes = (byGuard.get(s.employee_db_id) ?? []).filter((o) => {
+      if (o === s) return false;
+      const [b0, b1] = shiftWindow(o);
+      return a0 < b1 && b0 < a1;
+    });
+    if (clashes.length > 0) doubleBooked.set(slotKey(s), clashes);
+  }
+  return { unfilled, doubleBooked };
+}
+
+/** Guards (employee_db_id) rostered in `shifts`, optionally narrowed to one site and/or requirement. */
+export function rosteredGuards(
+  shifts: RosterShift[],
+  scope: { siteId?: number | null; requirementId?: number | null } = {}
+): Set<number> {
+  const out = new Set<number>();
+  for (const s of shifts) {
+    if (s.employee_db_id == null) continue;
+    if (scope.siteId && s.site_id !== scope.siteId) continue;
+    if (scope.requirementId && s.requirement_id !== scope.requirementId) continue;
+    out.add(s.employee_db_id);
+  }
+  return out;
+}
@@ -0,0 +1,24 @@
+import { api } from "../api";
+import type {
+  AdminPermission,
+  AdminPermissionCreate,
+  AdminRole,
+  AdminRoleUpsert,
+  AdminUser,
+  AdminUserUpsert,
+} from "../types";
+
+export const admin = {
+  users: () => api.get<AdminUser[]>("/api/admin/users"),
+  createUser: (payload: AdminUserUpsert) => api.post<AdminUser>("/api/admin/users", payload),
+  updateUser: (id: number, patch: AdminUserUpsert) => api.put<AdminUser>(`/api/admin/users/${id}`, patch),
+  removeUser: (id: number) => api.del<void>(`/api/admin/users/${id}`),
+
+  roles: () => api.get<AdminRole[]>("/api/admin/roles"),
+  createRole: (payload: AdminRoleUpsert) => api.post<AdminRole>("/api/admin/roles", payload),
+  updateRole: (id: number, patch: AdminRoleUpsert) => api.put<AdminRole>(`/api/admin/roles/${id}`, patch),
+  removeRole: (id: number) => api.del<void>(`/api/admin/roles/${id}`),
+
+  permissions: () => api.get<AdminPermission[]>("/api/admin/permissions"),
+  createPermission: (payload: AdminPermissionCreate) => api.post<AdminPermission>("/api/admin/permissions", payload),
+};
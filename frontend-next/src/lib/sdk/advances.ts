@@ -0,0 +1,45 @@
+import { api } from "../api";
+import { PAYROLL_RESOURCES } from "./payroll";
+import type {
+  AdvanceRecoveryPlan,
+  EmployeeAdvance,
+  EmployeeAdvanceCreate,
+  EmployeeAdvanceDeduction,
+  EmployeeAdvanceDeductionUpsert,
+  EmployeeAdvanceMonthRow,
+  EmployeeAdvanceRecovery,
+  EmployeeAdvancesMonthSummary,
+  EmployeeAdvanceSummary,
+} from "../types";
+
+const employeePath = (employeeDbId: number) => `/api/advances/employees/${employeeDbId}`;
+
+export const advances = {
+  summary: (employeeDbId: number) =>
+    api.get<EmployeeAdvanceSummary>(`${employeePath(employeeDbId)}/summary`, { staleTime: 30_000 }),
+  list: (employeeDbId: number) => api.get<EmployeeAdvance[]>(`${employeePath(employeeDbId)}/advances`),
+  create: (employeeDbId: number, payload: EmployeeAdvanceCreate) =>
+    api.post<EmployeeAdvance>(`${employeePath(employeeDbId)}/advances`, payload, { invalidates: PAYROLL_RESOURCES }),
+  remove: (employeeDbId: number, advanceId: number) =>
+    api.del<{ ok: boolean }>(`${employeePath(employeeDbId)}/advances/${advanceId}`, { invalidates: PAYROLL_RESOURCES }),
+  setPlan: (employeeDbId: number, advanceId: number, plan: AdvanceRecoveryPlan | null) =>
+    api.put<EmployeeAdvance>(`${employeePath(employeeDbId)}/advances/${advanceId}/plan`, { recovery_plan: plan }),
+
+  deductions: (employeeDbId: number) =>
+    api.get<EmployeeAdvanceDeduction[]>(`${employeePath(employeeDbId)}/deductions`),
+  upsertDeduction: (employeeDbId: number, payload: EmployeeAdvanceDeductionUpsert) =>
+    api.put<EmployeeAdvanceDeduction>(`${employeePath(employeeDbId)}/deductions`, payload, {
+      invalidates: PAYROLL_RESOURCES,
+    }),
+  removeDeduction: (employeeDbId: number, deductionId: number) =>
+    api.del<{ ok: boolean }>(`${employeePath(employeeDbId)}/deductions/${deductionId}`, {
+      invalidates: PAYROLL_RESOURCES,
+    }),
+
+  monthSummary: (month: string) =>
+    api.get<EmployeeAdvancesMonthSummary>("/api/advances/summary", { query: { month }, staleTime: 30_000 }),
+  monthRows: (month: string) => api.get<EmployeeAdvanceMonthRow[]>("/api/advances/monthly", { query: { month } }),
+  /** Employees with an outstanding balance, with their advances and deductions. */
+  recoveries: (month: string) =>
+    api.get<EmployeeAdvanceRecovery[]>("/api/advances/recovery", { query: { month } }),
+};
@@ -0,0 +1,52 @@
+import { api } from "../api";
+import { PAYROLL_RESOURCES } from "./payroll";
+import type {
+  AttendanceBulkUpsert,
+  AttendanceEmployeeResponse,
+  AttendanceListResponse,
+  AttendanceRangeResponse,
+  AttendanceSummary,
+  AttendanceTimeRules,
+  LeavePeriodAlert,
+  LeavePeriodCreate,
+  LeavePeriodOut,
+} from "../types";
+
+export type AttendanceSummaryQuery = {
+  from_date: string;
+  to_date: string;
+  department?: string;
+  designation?: string;
+};
+
+export const attendance = {
+  list: (date: string) => api.get<AttendanceListResponse>("/api/attendance/", { query: { date } }),
+  /** Every record dated within `from_date`..`to_date`, in one request. */
+  range: (from_date: string, to_date: string) =>
+    api.get<AttendanceRangeResponse>("/api/attendance/range", { query: { from_date, to_date } }),
+  bulkUpsert: (payload: AttendanceBulkUpsert) =>
+    api.put<AttendanceListResponse>("/api/attendance/", payload, { invalidates: PAYROLL_RESOURCES }),
+  summary: (query: AttendanceSummaryQuery) => api.get<AttendanceSummary>("/api/attendance/summary", { query }),
+  employee: (employeeId: string, from_date: string, to_date: string) =>
+    api.get<AttendanceEmployeeResponse>(`/api/attendance/employee/${encodeURIComponent(employeeId)}`, {
+      query: { from_date, to_date },
+    }),
+  timeRules: () => api.get<AttendanceTimeRules>("/api/attendance/time-rules", { staleTime: 60_000 }),
+  saveTimeRules: (rules: AttendanceTimeRules) => api.put<AttendanceTimeRules>("/api/attendance/time-rules", rules),
+  exportPdf: (query: { date: string } | { from_date: string; to_date: string }, filename: string) =>
+    api.download("/api/attendance/export/pdf", filename, { query }),
+  employeeExportPdf: (employeeId: string, from_date: string, to_date: string) =>
+    api.download(
+      `/api/attendance/employee/${encodeURIComponent(employeeId)}/export/pdf`,
+      `attendance_${employeeId}_${from_date}_${to_date}.pdf`,
+      { query: { from_date, to_date } }
+    ),
+};
+
+export const leavePeriods = {
+  list: (query: { employee_id?: string; active_on?: string } = {}) =>
+    api.get<LeavePeriodOut[]>("/api/leave-periods/", { query }),
+  create: (payload: LeavePeriodCreate) =>
+    api.post<LeavePeriodOut>("/api/leave-periods/", payload, { invalidates: ["/api/attendance", ...PAYROLL_RESOURCES] }),
+  alerts: (as_of: string) => api.get<LeavePeriodAlert[]>("/api/leave-periods/alerts", { query: { as_of } }),
+};
@@ -0,0 +1,108 @@
+import { api } from "../api";
+import type {
+  Client,
+  ClientContact,
+  ClientContactCreate,
+  ClientCreate,
+  ClientDetail,
+  ClientGuardRequirement,
+  ClientGuardRequirementCreate,
+  ClientInvoice,
+  ClientInvoiceCreate,
+  ClientInvoiceUpdate,
+  ClientPaymentReceipt,
+  ClientPaymentReceiptCreate,
+  ClientPaymentsSummary,
+  ClientRequirementCompleteResponse,
+  ClientSite,
+  ClientSiteCreate,
+  ClientSiteGuardAllocation,
+  ClientSiteGuardAllocationCreate,
+  ClientExpiries,
+  ClientUpdate,
+  Contract,
+  ContractCreate,
+  ContractGuardAllocation,
+  ContractGuardAllocationCreate,
+  ContractRenewal,
+  ContractVersion,
+  ContractVersionCreate,
+  SuggestedEmployee,
+} from "../types";
+
+const BASE = "/api/client-management";
+
+export const clients = {
+  list: () => api.get<Client[]>(`${BASE}/clients`, { staleTime: 30_000 }),
+  get: (clientId: number) => api.get<ClientDetail>(`${BASE}/clients/${clientId}`),
+  create: (payload: ClientCreate) => api.post<Client>(`${BASE}/clients`, payload),
+  update: (clientId: number, patch: ClientUpdate) => api.put<Client>(`${BASE}/clients/${clientId}`, patch),
+  remove: (clientId: number) => api.del<{ message: string }>(`${BASE}/clients/${clientId}`),
+
+  createContact: (clientId: number, payload: ClientContactCreate) =>
+    api.post<ClientContact>(`${BASE}/clients/${clientId}/contacts`, payload),
+  updateContact: (clientId: number, contactId: number, patch: Partial<ClientContactCreate>) =>
+    api.put<ClientContact>(`${BASE}/clients/${clientId}/contacts/${contactId}`, patch),
+  removeContact: (clientId: number, contactId: number) =>
+    api.del<{ message: string }>(`${BASE}/clients/${clientId}/contacts/${contactId}`),
+
+  createContract: (clientId: number, payload: ContractCreate) =>
+    api.post<Contract>(`${BASE}/clients/${clientId}/contracts`, payload),
+  updateContract: (clientId: number, contractId: number, patch: ContractCreate) =>
+    api.put<Contract>(`${BASE}/clients/${clientId}/contracts/${contractId}`, patch),
+  removeContract: (clientId: number, contractId: number) =>
+    api.del<{ message: string }>(`${BASE}/clients/${clientId}/contracts/${contractId}`),
+  contractVersions: (contractId: number) => api.get<ContractVersion[]>(`${BASE}/contracts/${contractId}/versions`),
+  /** Revises the rate schedule from `effective_from`, closing the previous version the day before. */
+  reviseContract: (contractId: number, payload: ContractVersionCreate) =>
+    api.post<ContractVersion>(`${BASE}/contracts/${contractId}/versions`, payload),
+  /** Clones the contract into a new one starting after it; the old contract is marked Renewed. */
+  renewContract: (contractId: number, payload: ContractRenewal) =>
+    api.post<Contract>(`${BASE}/contracts/${contractId}/renew`, payload),
+  /** Contracts and client documents expiring within `days` (and already expired ones). */
+  expiries: (days = 90) => api.get<ClientExpiries>(`${BASE}/expiries`, { query: { days }, staleTime: 60_000 }),
+  contractAllocations: (contractId: number) =>
+    api.get<ContractGuardAllocation[]>(`${BASE}/contracts/${contractId}/allocations`),
+  allocateToContract: (contractId: number, payload: ContractGuardAllocationCreate) =>
+    api.post<ContractGuardAllocation>(`${BASE}/contracts/${contractId}/allocations`, payload),
+  removeContractAllocation: (contractId: number, allocationId: number) =>
+    api.del<{ message: string }>(`${BASE}/contracts/${contractId}/allocations/${allocationId}`),
+
+  createSite: (clientId: number, payload: ClientSiteCreate) =>
+    api.post<ClientSite>(`${BASE}/clients/${clientId}/sites`, payload),
+  contractRequirements: (clientId: number) =>
+    api.get<ClientGuardRequirement[]>(`${BASE}/clients/${clientId}/contract-requirements`),
+
+  createInvoice: (clientId: number, payload: ClientInvoiceCreate) =>
+    api.post<ClientInvoice>(`${BASE}/clients/${clientId}/invoices`, payload),
+  updateInvoice: (clientId: number, invoiceId: number, patch: ClientInvoiceUpdate) =>
+    api.put<ClientInvoice>(`${BASE}/clients/${clientId}/invoices/${invoiceId}`, patch),
+  addReceipt: (clientId: number, invoiceId: number, payload: ClientPaymentReceiptCreate) =>
+    api.post<ClientPaymentReceipt>(`${BASE}/clients/${clientId}/invoices/${invoiceId}/receipts`, payload),
+  removeReceipt: (clientId: number, invoiceId: number, receiptId: number) =>
+    api.del<{ message: string }>(`${BASE}/clients/${clientId}/invoices/${invoiceId}/receipts/${receiptId}`),
+  /** Every client's invoices with their receipts, for aging. */
+  receivables: () => api.get<ClientInvoice[]>(`${BASE}/invoices/receivables`, { staleTime: 30_000 }),
+  invoicePdf: (clientId: number, invoiceId: number) => api.blob(`${BASE}/clients/${clientId}/invoices/${invoiceId}/pdf`),
+  contractInvoicePdf: (contractId: number, contractNumber: string) =>
+    api.download(`${BASE}/contracts/${contractId}/invoice-pdf`, `invoice_${contractNumber}.pdf`),
+  contractReceiptPdf: (contractId: number, contractNumber: string) =>
+    api.download(`${BASE}/contracts/${contractId}/receipt-pdf`, `receipt_${contractNumber}.pdf`),
+  clearedSummary: (month: string, months?: number) =>
+    api.get<ClientPaymentsSummary>(`${BASE}/invoices/cleared-summary`, { query: { month, months }, staleTime: 30_000 }),
+  pendingSummary: (month: string, months?: number) =>
+    api.get<ClientPaymentsSummary>(`${BASE}/invoices/pending-summary`, { query: { month, months }, staleTime: 30_000 }),
+};
+
+export const sites = {
+  requirements: (siteId: number) => api.get<ClientGuardRequirement[]>(`${BASE}/sites/${siteId}/requirements`),
+  createRequirement: (siteId: number, payload: ClientGuardRequirementCreate) =>
+    api.post<ClientGuardRequirement>(`${BASE}/sites/${siteId}/requirements`, payload),
+  completeRequirement: (siteId: number, requirementId: number) =>
+    api.post<ClientRequirementCompleteResponse>(`${BASE}/sites/${siteId}/requirements/${requirementId}/complete`, {}),
+  suggestedEmployees: (siteId: number, requirementId: number) =>
+    api.get<SuggestedEmployee[]>(`${BASE}/sites/${siteId}/requirements/${requirementId}/suggested-employees`),
+  allocations: (siteId: number) => api.get<ClientSiteGuardAllocation[]>(`${BASE}/sites/${siteId}/allocations`),
+  allocate: (siteId: number, payload: ClientSiteGuardAllocationCreate) =>
+    api.post<ClientSiteGuardAllocation>(`${BASE}/sites/${siteId}/allocations`, payload),
+};
@@ -0,0 +1,117 @@
+import { api, toFormData, type UploadOptions } from "../api";
+import type {
+  Employee,
+  Employee2,
+  Employee2ListResponse,
+  EmployeeCreate,
+  EmployeeDocumentOut,
+  EmployeeListResponse,
+  EmployeeUpdate,
+  EmployeeWarning,
+  EmployeeWarningCreate,
+  EmployeeWarningDocumentOut,
+} from "../types";
+
+export type EmployeeListQuery = {
+  skip?: number;
+  limit?: number;
+  with_total?: boolean;
+  search?: string;
+  department?: string;
+  designation?: string;
+  employment_status?: string;
+};
+
+export type Employee2ListQuery = {
+  skip?: number;
+  limit?: number;
+  with_total?: boolean;
+  search?: string;
+  category?: string;
+  status?: string;
+};
+
+export const employees = {
+  list: (query: EmployeeListQuery = {}) => api.get<EmployeeListResponse>("/api/employees/", { query }),
+  get: (employeeId: string) => api.get<Employee>(`/api/employees/${encodeURIComponent(employeeId)}`),
+  getByDbId: (employeeDbId: number) => api.get<Employee>(`/api/employees/by-db-id/${employeeDbId}`),
+  create: (payload: EmployeeCreate) => api.post<Employee>("/api/employees/", payload),
+  update: (employeeId: string, patch: EmployeeUpdate) =>
+    api.put<Employee>(`/api/employees/${encodeURIComponent(employeeId)}`, patch),
+  remove: (employeeId: string) => api.del<{ message: string }>(`/api/employees/${encodeURIComponent(employeeId)}`),
+  removeMany: (employeeIds: string[]) =>
+    api.post<{ message: string; deleted_count: number; deleted_ids: string[]; warning?: string }>(
+      "/api/employees/delete-multiple",
+      employeeIds
+    ),
+  importGoogleSheet: (url: string, mode: "preview" | "import") =>
+    api.post<{ rows: number; created: number; skipped: number; errors?: string[] }>(
+      `/api/employees/import/google-sheet?${new URLSearchParams({ url, mode })}`,
+      undefined
+    ),
+
+  departments: () =>
+    api.get<{ departments: string[] }>("/api/employees/departments/list", { staleTime: 5 * 60_000, swr: true }),
+  designations: () =>
+    api.get<{ designations: string[] }>("/api/employees/designations/list", { staleTime: 5 * 60_000, swr: true }),
+  allocatedActive: () => api.get<{ employee_db_ids: number[] }>("/api/employees/allocated/active"),
+
+  documents: (employeeDbId: number) =>
+    api.get<EmployeeDocumentOut[]>(`/api/employees/by-db-id/${employeeDbId}/documents`),
+  uploadDocument: (employeeDbId: number, name: string, file: File, opts?: UploadOptions) =>
+    api.upload<EmployeeDocumentOut>(`/api/employees/by-db-id/${employeeDbId}/documents`, toFormData({ name, file }), opts),
+  removeDocument: (employeeDbId: number, docId: number) =>
+    api.del<{ message: string }>(`/api/employees/by-db-id/${employeeDbId}/documents/${docId}`),
+
+  warnings: (employeeDbId: number) => api.get<EmployeeWarning[]>(`/api/employees/by-db-id/${employeeDbId}/warnings`),
+  createWarning: (employeeDbId: number, payload: EmployeeWarningCreate) =>
+    api.post<EmployeeWarning>(`/api/employees/by-db-id/${employeeDbId}/warnings`, payload),
+  removeWarning: (employeeDbId: number, warningId: number) =>
+    api.del<{ message: string }>(`/api/employees/by-db-id/${employeeDbId}/warnings/${warningId}`),
+  warningDocuments: (warningId: number) =>
+    api.get<EmployeeWarningDocumentOut[]>(`/api/employees/warnings/${warningId}/documents`),
+  uploadWarningDocument: (warningId: number, file: File, opts?: UploadOptions) =>
+    api.upload<EmployeeWarningDocumentOut>(`/api/employees/warnings/${warningId}/documents`, toFormData({ file }), opts),
+  removeWarningDocument: (warningId: number, docId: number) =>
+    api.del<{ message: string }>(`/api/employees/warnings/${warningId}/documents/${docId}`),
+
+  markLeft: (employeeId: string) => api.post<Employee>(`/api/employees/${encodeURIComponent(employeeId)}/mark-left`, {}),
+  clearancePdf: (employeeId: string) =>
+    api.download(
+      `/api/employees/${encodeURIComponent(employeeId)}/clearance/pdf`,
+      `employee_clearance_${employeeId}.pdf`
+    ),
+};
+
+export const employees2 = {
+  list: (query: Employee2ListQuery = {}) => api.get<Employee2ListResponse>("/api/employees2/", { query }),
+
+  /** Pages through `/api/employees2/` until the last short batch. */
+  listAll: async (batchSize: number = 200): Promise<Employee2[]> => {
+    const all: Employee2[] = [];
+    let skip = 0;
+    while (true) {
+      const res = await api.get<Employee2ListResponse>("/api/employees2/", {
+        query: { skip, limit: batchSize, with_total: false },
+      });
+      const batch = res.employees ?? [];
+      all.push(...batch);
+      if (batch.length < batchSize) break;
+      skip += batchSize;
+    }
+    return all;
+  },
+
+  get: (id: number | string) => api.get<Employee2>(`/api/employees2/${id}`),
+  create: (payload: Partial<Employee2>) => api.post<Employee2>("/api/employees2/", payload),
+  update: (id: number, patch: Partial<Employee2>) => api.put<Employee2>(`/api/employees2/${id}`, patch),
+  remove: (id: number) => api.del<{ message: string }>(`/api/employees2/${id}`),
+  removeAll: () => api.del<{ message: string }>("/api/employees2/"),
+  categories: () => api.get<string[]>("/api/employees2/categories", { staleTime: 5 * 60_000, swr: true }),
+  statuses: () => api.get<string[]>("/api/employees2/statuses", { staleTime: 5 * 60_000, swr: true }),
+  uploadFile: (id: number | string, fieldType: string, file: File, opts?: UploadOptions) =>
+    api.upload<unknown>(`/api/employees2/${id}/upload/${encodeURIComponent(fieldType)}`, toFormData({ file }), opts),
+  importJson: (file: File, opts?: UploadOptions) =>
+    api.upload<{ created: number; skipped: number }>("/api/employees2/import-json", toFormData({ file }), opts),
+  exportPdf: (id: number | string, filename: string) => api.download(`/api/employees2/${id}/export-pdf`, filename),
+};
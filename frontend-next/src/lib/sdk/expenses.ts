@@ -0,0 +1,56 @@
+import { api, toFormData, type UploadOptions } from "../api";
+import type {
+  Expense,
+  ExpenseApprovalDecision,
+  ExpenseApprovalDelegation,
+  ExpenseApprovalDelegationCreate,
+  ExpenseApprovalPolicy,
+  ExpenseApprovalPolicyCreate,
+  ExpenseCreate,
+  ExpenseRejection,
+  ExpenseStatus,
+  ExpenseSummary,
+  ExpenseUpdate,
+} from "../types";
+
+export type ExpenseListQuery = {
+  from_date?: string;
+  to_date?: string;
+  status?: ExpenseStatus;
+  category?: string;
+  limit?: number;
+};
+
+export const expenses = {
+  list: (query: ExpenseListQuery = {}) => api.get<Expense[]>("/api/expenses/", { query }),
+  get: (id: number) => api.get<Expense>(`/api/expenses/${id}`),
+  monthlySummary: (month: string) => api.get<ExpenseSummary>("/api/expenses/summary/monthly", { query: { month } }),
+  create: (payload: ExpenseCreate) => api.post<Expense>("/api/expenses/", payload),
+  update: (id: number, patch: ExpenseUpdate) => api.put<Expense>(`/api/expenses/${id}`, patch),
+  remove: (id: number) => api.del<{ message: string }>(`/api/expenses/${id}`),
+  /** Records one approval; the expense only becomes APPROVED once its policy's count is reached. */
+  approve: (id: number, payload: ExpenseApprovalDecision = {}) =>
+    api.post<Expense>(`/api/expenses/${id}/approve`, payload),
+  reject: (id: number, payload: ExpenseRejection) => api.post<Expense>(`/api/expenses/${id}/reject`, payload),
+  pay: (id: number) => api.post<Expense>(`/api/expenses/${id}/pay`, {}),
+  undoPayment: (id: number) => api.post<Expense>(`/api/expenses/${id}/undo-payment`, {}),
+  uploadAttachment: (id: number, file: File, opts?: UploadOptions) =>
+    api.upload<Expense>(`/api/expenses/${id}/attachment`, toFormData({ file }), opts),
+  exportPdf: (id: number, filename: string) => api.download(`/api/expenses/${id}/export/pdf`, filename),
+  exportRangePdf: (from_date: string, to_date: string) =>
+    api.download("/api/expenses/export/pdf", `expenses_${from_date}_to_${to_date}.pdf`, { query: { from_date, to_date } }),
+};
+
+export const expenseApprovals = {
+  policies: () => api.get<ExpenseApprovalPolicy[]>("/api/expenses/approval-policies", { staleTime: 60_000 }),
+  createPolicy: (payload: ExpenseApprovalPolicyCreate) =>
+    api.post<ExpenseApprovalPolicy>("/api/expenses/approval-policies", payload),
+  updatePolicy: (id: number, patch: Partial<ExpenseApprovalPolicyCreate>) =>
+    api.put<ExpenseApprovalPolicy>(`/api/expenses/approval-policies/${id}`, patch),
+  removePolicy: (id: number) => api.del<{ message: string }>(`/api/expenses/approval-policies/${id}`),
+
+  delegations: () => api.get<ExpenseApprovalDelegation[]>("/api/expenses/approval-delegations", { staleTime: 60_000 }),
+  createDelegation: (payload: ExpenseApprovalDelegationCreate) =>
+    api.post<ExpenseApprovalDelegation>("/api/expenses/approval-delegations", payload),
+  removeDelegation: (id: number) => api.del<{ message: string }>(`/api/expenses/approval-delegations/${id}`),
+};
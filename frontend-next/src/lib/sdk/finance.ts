@@ -0,0 +1,63 @@
+import { api } from "../api";
+import type {
+  FinanceAccount,
+  FinanceAccountCreate,
+  FinanceAccountUpdate,
+  FinanceJournalEntry,
+  FinanceJournalEntryCreate,
+  FinanceJournalEntryUpdate,
+  FinancePostingAccounts,
+} from "../types";
+
+export type JournalListQuery = {
+  from_date?: string;
+  to_date?: string;
+  source_type?: string;
+  source_id?: string;
+  status?: string;
+  account_id?: number;
+  offset?: number;
+  limit?: number;
+};
+
+export const finance = {
+  accounts: () => api.get<FinanceAccount[]>("/api/finance/accounts"),
+  createAccount: (payload: FinanceAccountCreate) => api.post<FinanceAccount>("/api/finance/accounts", payload),
+  updateAccount: (id: number, patch: FinanceAccountUpdate) =>
+    api.put<FinanceAccount>(`/api/finance/accounts/${id}`, patch),
+  removeAccount: (id: number) => api.del<{ message: string }>(`/api/finance/accounts/${id}`),
+
+  journals: (query: JournalListQuery = {}) => api.get<FinanceJournalEntry[]>("/api/finance/journals", { query }),
+
+  /** Pages through `/api/finance/journals` until the last short batch. */
+  allJournals: async (
+    query: Omit<JournalListQuery, "offset" | "limit"> = {},
+    batchSize: number = 1000
+  ): Promise<FinanceJournalEntry[]> => {
+    const all: FinanceJournalEntry[] = [];
+    let offset = 0;
+    while (true) {
+      const batch = await api.get<FinanceJournalEntry[]>("/api/finance/journals", {
+        query: { ...query, offset, limit: batchSize },
+      });
+      all.push(...(batch ?? []));
+      if ((batch ?? []).length < batchSize) break;
+      offset += batchSize;
+    }
+    return all;
+  },
+  journal: (id: number) => api.get<FinanceJournalEntry>(`/api/finance/journals/${id}`),
+  createJournal: (payload: FinanceJournalEntryCreate) => api.post<FinanceJournalEntry>("/api/finance/journals", payload),
+  updateJournal: (id: number, patch: FinanceJournalEntryUpdate) =>
+    api.put<FinanceJournalEntry>(`/api/finance/journals/${id}`, patch),
+  /** DRAFT → POSTED; the server rejects entries that do not balance. */
+  postJournal: (id: number) => api.post<FinanceJournalEntry>(`/api/finance/journals/${id}/post`, {}),
+  /** POSTED → VOID; the entry stays on file but no longer counts in balances. */
+  voidJournal: (id: number, reason: string) =>
+    api.post<FinanceJournalEntry>(`/api/finance/journals/${id}/void`, { reason }),
+  removeJournal: (id: number) => api.del<{ message: string }>(`/api/finance/journals/${id}`),
+
+  postingAccounts: () => api.get<FinancePostingAccounts>("/api/finance/posting-accounts", { staleTime: 60_000 }),
+  savePostingAccounts: (payload: FinancePostingAccounts) =>
+    api.put<FinancePostingAccounts>("/api/finance/posting-accounts", payload),
+};
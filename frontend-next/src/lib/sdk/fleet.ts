@@ -0,0 +1,104 @@
+import { api, toFormData, type UploadOptions } from "../api";
+import type {
+  FuelEntry,
+  FuelEntryCreate,
+  FuelEntryUpdate,
+  Vehicle,
+  VehicleAssignment,
+  VehicleAssignmentAnalyticsResponse,
+  VehicleAssignmentCreate,
+  VehicleAssignmentEfficiencyResponse,
+  VehicleAssignmentUpdate,
+  VehicleCreate,
+  VehicleDocument,
+  VehicleImage,
+  VehicleMaintenance,
+  VehicleMaintenanceCreate,
+  VehicleMaintenanceUpdate,
+  VehicleUpdate,
+} from "../types";
+
+export type AssignmentPeriodQuery = {
+  period: "today" | "day" | "month" | "year";
+  day?: string;
+  month?: string;
+  year?: number;
+  vehicle_id?: string;
+};
+
+export type AssignmentListQuery = {
+  vehicle_id?: string;
+  status?: string;
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+};
+
+export type FuelEntryListQuery = {
+  vehicle_id?: string;
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+};
+
+export type VehicleMaintenanceExportQuery = {
+  vehicle_id?: string;
+  employee_id?: string;
+  vendor?: string;
+  date?: string;
+  month?: string;
+};
+
+export const vehicles = {
+  list: (limit: number = 500) => api.get<Vehicle[]>("/api/vehicles/", { query: { limit }, staleTime: 30_000 }),
+  create: (payload: VehicleCreate) => api.post<Vehicle>("/api/vehicles/", payload),
+  update: (vehicleId: string, patch: VehicleUpdate) =>
+    api.put<Vehicle>(`/api/vehicles/${encodeURIComponent(vehicleId)}`, patch),
+  remove: (vehicleId: string) => api.del<{ message: string }>(`/api/vehicles/${encodeURIComponent(vehicleId)}`),
+  documents: (vehicleId: string) => api.get<VehicleDocument[]>(`/api/vehicles/${encodeURIComponent(vehicleId)}/documents`),
+  uploadDocument: (vehicleId: string, name: string, file: File, opts?: UploadOptions) =>
+    api.upload<VehicleDocument>(
+      `/api/vehicles/${encodeURIComponent(vehicleId)}/documents`,
+      toFormData({ name, file }),
+      opts
+    ),
+  removeDocument: (vehicleId: string, docId: number) =>
+    api.del<{ message: string }>(`/api/vehicles/${encodeURIComponent(vehicleId)}/documents/${docId}`),
+  images: (vehicleId: string) => api.get<VehicleImage[]>(`/api/vehicles/${encodeURIComponent(vehicleId)}/images`),
+  uploadImage: (vehicleId: string, file: File, opts?: UploadOptions) =>
+    api.upload<VehicleImage>(`/api/vehicles/${encodeURIComponent(vehicleId)}/images`, toFormData({ file }), opts),
+  removeImage: (vehicleId: string, imageId: number) =>
+    api.del<{ message: string }>(`/api/vehicles/${encodeURIComponent(vehicleId)}/images/${imageId}`),
+};
+
+export const vehicleAssignments = {
+  list: (query: AssignmentListQuery = {}) => api.get<VehicleAssignment[]>("/api/vehicle-assignments/", { query }),
+  create: (payload: VehicleAssignmentCreate) => api.post<VehicleAssignment>("/api/vehicle-assignments/", payload),
+  update: (id: number, patch: VehicleAssignmentUpdate) =>
+    api.put<VehicleAssignment>(`/api/vehicle-assignments/${id}`, patch),
+  remove: (id: number) => api.del<{ message: string }>(`/api/vehicle-assignments/${id}`),
+  analytics: (query: AssignmentPeriodQuery) =>
+    api.get<VehicleAssignmentAnalyticsResponse>("/api/vehicle-assignments/analytics", { query }),
+  efficiency: (query: AssignmentPeriodQuery) =>
+    api.get<VehicleAssignmentEfficiencyResponse>("/api/vehicle-assignments/efficiency", { query, staleTime: 30_000 }),
+};
+
+export const vehicleMaintenance = {
+  list: (query: { vehicle_id?: string; employee_id?: string } = {}) =>
+    api.get<VehicleMaintenance[]>("/api/vehicle-maintenance/", { query }),
+  create: (payload: VehicleMaintenanceCreate) => api.post<VehicleMaintenance>("/api/vehicle-maintenance/", payload),
+  update: (id: number, patch: VehicleMaintenanceUpdate) =>
+    api.put<VehicleMaintenance>(`/api/vehicle-maintenance/${id}`, patch),
+  remove: (id: number) => api.del<{ message: string }>(`/api/vehicle-maintenance/${id}`),
+  receiptPdf: (id: number) =>
+    api.download(`/api/vehicle-maintenance/${id}/receipt`, `maintenance_receipt_${id}.pdf`),
+  exportPdf: (query: VehicleMaintenanceExportQuery = {}) =>
+    api.download("/api/vehicle-maintenance/export/pdf", "vehicle_maintenance_report.pdf", { query }),
+};
+
+export const fuelEntries = {
+  list: (query: FuelEntryListQuery = {}) => api.get<FuelEntry[]>("/api/fuel-entries/", { query }),
+  create: (payload: FuelEntryCreate) => api.post<FuelEntry>("/api/fuel-entries/", payload),
+  update: (id: number, patch: FuelEntryUpdate) => api.put<FuelEntry>(`/api/fuel-entries/${id}`, patch),
+  remove: (id: number) => api.del<{ message: string }>(`/api/fuel-entries/${id}`),
+};
@@ -0,0 +1,53 @@
+/**
+ * Typed endpoint registry. Every backend route the UI calls lives in one of
+ * the per-domain modules below with its request/response types from
+ * `lib/types.ts`, so a contract change surfaces as a type error.
+ */
+import { admin } from "./admin";
+import { advances } from "./advances";
+import { attendance, leavePeriods } from "./attendance";
+import { clients, sites } from "./clients";
+import { employees, employees2 } from "./employees";
+import { expenseApprovals, expenses } from "./expenses";
+import { finance } from "./finance";
+import { fuelEntries, vehicleAssignments, vehicleMaintenance, vehicles } from "./fleet";
+import { generalInventory, restrictedInventory } from "./inventory";
+import { leavePolicies, leaveRequests } from "./leave";
+import { analytics, payroll, payrollRuns, reports } from "./payroll";
+import { roster } from "./roster";
+
+export const sdk = {
+  admin,
+  advances,
+  analytics,
+  attendance,
+  clients,
+  employees,
+  employees2,
+  expenseApprovals,
+  expenses,
+  finance,
+  fuelEntries,
+  generalInventory,
+  leavePeriods,
+  leavePolicies,
+  leaveRequests,
+  payroll,
+  payrollRuns,
+  reports,
+  restrictedInventory,
+  roster,
+  sites,
+  vehicleAssignments,
+  vehicleMaintenance,
+  vehicles,
+};
+
+export type { AttendanceSummaryQuery } from "./attendance";
+export type { EmployeeListQuery, Employee2ListQuery } from "./employees";
+export type { ExpenseListQuery } from "./expenses";
+export type { JournalListQuery } from "./finance";
+export type { AssignmentListQuery, AssignmentPeriodQuery, FuelEntryListQuery } from "./fleet";
+export type { InventoryIssuePayload, RestrictedAction } from "./inventory";
+export type { PayrollRangeQuery } from "./payroll";
+export type { RosterShiftQuery } from "./roster";
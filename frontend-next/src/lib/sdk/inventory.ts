@@ -0,0 +1,78 @@
+import { api, toFormData, type UploadOptions } from "../api";
+import type {
+  GeneralItem,
+  GeneralItemCreate,
+  GeneralTransaction,
+  RestrictedIssuedInventory,
+  RestrictedItem,
+  RestrictedItemCreate,
+  RestrictedItemImage,
+  RestrictedSerialUnit,
+  RestrictedTransaction,
+} from "../types";
+
+export type InventoryIssuePayload = {
+  employee_id: string;
+  quantity?: number;
+  serial_numbers?: string[];
+  notes?: string;
+};
+
+export type RestrictedAction = "issue" | "return" | "lost" | "found" | "available" | "damaged" | "maintenance" | "cleaning";
+
+function itemPath(base: string, itemCode: string): string {
+  return `${base}/items/${encodeURIComponent(itemCode)}`;
+}
+
+const GENERAL = "/api/general-inventory";
+const RESTRICTED = "/api/restricted-inventory";
+
+export const generalInventory = {
+  items: () => api.get<GeneralItem[]>(`${GENERAL}/items`, { staleTime: 30_000 }),
+  categories: () => api.get<string[]>(`${GENERAL}/categories`),
+  createItem: (payload: GeneralItemCreate) => api.post<GeneralItem>(`${GENERAL}/items`, payload),
+  updateItem: (itemCode: string, patch: Partial<GeneralItemCreate>) =>
+    api.put<GeneralItem>(itemPath(GENERAL, itemCode), patch),
+  removeItem: (itemCode: string) => api.del<{ message: string }>(itemPath(GENERAL, itemCode)),
+  uploadImage: (itemCode: string, file: File, opts?: UploadOptions) =>
+    api.upload<GeneralItem>(`${itemPath(GENERAL, itemCode)}/image`, toFormData({ file }), opts),
+  issue: (itemCode: string, payload: InventoryIssuePayload) =>
+    api.post<GeneralTransaction>(`${itemPath(GENERAL, itemCode)}/issue`, payload),
+  returnItem: (itemCode: string, payload: InventoryIssuePayload) =>
+    api.post<GeneralTransaction>(`${itemPath(GENERAL, itemCode)}/return`, payload),
+  transactions: (query: { employee_id?: string; item_code?: string; limit?: number } = {}) =>
+    api.get<GeneralTransaction[]>(`${GENERAL}/transactions`, { query }),
+};
+
+export const restrictedInventory = {
+  items: () => api.get<RestrictedItem[]>(`${RESTRICTED}/items`, { staleTime: 30_000 }),
+  createItem: (payload: RestrictedItemCreate) => api.post<RestrictedItem>(`${RESTRICTED}/items`, payload),
+  updateItem: (itemCode: string, patch: Partial<RestrictedItemCreate>) =>
+    api.put<RestrictedItem>(itemPath(RESTRICTED, itemCode), patch),
+  removeItem: (itemCode: string) => api.del<{ message: string }>(itemPath(RESTRICTED, itemCode)),
+  images: (itemCode: string) => api.get<RestrictedItemImage[]>(`${itemPath(RESTRICTED, itemCode)}/images`),
+  uploadImage: (itemCode: string, file: File, opts?: UploadOptions) =>
+    api.upload<RestrictedItemImage>(`${itemPath(RESTRICTED, itemCode)}/images`, toFormData({ file }), opts),
+  removeImage: (itemCode: string, imageId: number) =>
+    api.del<{ message: string }>(`${itemPath(RESTRICTED, itemCode)}/images/${imageId}`),
+  serials: (itemCode: string) => api.get<RestrictedSerialUnit[]>(`${itemPath(RESTRICTED, itemCode)}/serials`),
+  addSerial: (itemCode: string, serial_number: string) =>
+    api.post<RestrictedSerialUnit>(`${itemPath(RESTRICTED, itemCode)}/serials`, { serial_number }),
+  action: (itemCode: string, kind: RestrictedAction, payload: Partial<InventoryIssuePayload>) =>
+    api.post<RestrictedTransaction[]>(`${itemPath(RESTRICTED, itemCode)}/${kind}`, payload),
+  transactions: (query: { employee_id?: string; item_code?: string; limit?: number } = {}) =>
+    api.get<RestrictedTransaction[]>(`${RESTRICTED}/transactions`, { query }),
+  issued: () => api.get<RestrictedIssuedInventory[]>(`${RESTRICTED}/issued`),
+  /** Returns one serial-tracked unit held by the employee. */
+  returnSerial: (employeeId: string, serialUnitId: number, notes?: string) =>
+    api.post<RestrictedTransaction>(
+      `${RESTRICTED}/employees/${encodeURIComponent(employeeId)}/serials/${serialUnitId}/return`,
+      { notes }
+    ),
+  /** Returns a quantity of a non-serialised item held by the employee. */
+  returnQuantity: (employeeId: string, itemCode: string, payload: { quantity: number; notes?: string }) =>
+    api.post<RestrictedTransaction>(
+      `${RESTRICTED}/employees/${encodeURIComponent(employeeId)}/items/${encodeURIComponent(itemCode)}/return`,
+      payload
+    ),
+};
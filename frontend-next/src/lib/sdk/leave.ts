@@ -0,0 +1,35 @@
+import { api } from "../api";
+import { PAYROLL_RESOURCES } from "./payroll";
+import type {
+  LeaveEncashment,
+  LeavePolicy,
+  LeavePolicyCreate,
+  LeaveRequest,
+  LeaveRequestCreate,
+  LeaveRequestDecision,
+  LeaveRequestStatus,
+} from "../types";
+
+export const leavePolicies = {
+  list: () => api.get<LeavePolicy[]>("/api/leave-policies/", { staleTime: 60_000 }),
+  create: (payload: LeavePolicyCreate) => api.post<LeavePolicy>("/api/leave-policies/", payload),
+  update: (id: number, patch: Partial<LeavePolicyCreate>) => api.put<LeavePolicy>(`/api/leave-policies/${id}`, patch),
+  remove: (id: number) => api.del<{ ok: boolean }>(`/api/leave-policies/${id}`),
+
+  /** Encashed days from saved payroll sheets; the balance engine subtracts them from entitlement. */
+  encashments: (query: { employee_id?: string; to_month?: string } = {}) =>
+    api.get<LeaveEncashment[]>("/api/leave-policies/encashments", { query }),
+};
+
+export const leaveRequests = {
+  list: (query: { status?: LeaveRequestStatus; employee_id?: string } = {}) =>
+    api.get<LeaveRequest[]>("/api/leave-requests/", { query }),
+  counts: () => api.get<Record<LeaveRequestStatus, number>>("/api/leave-requests/counts", { staleTime: 30_000 }),
+  create: (payload: LeaveRequestCreate) => api.post<LeaveRequest>("/api/leave-requests/", payload),
+  /** Approval creates the leave period server-side, so attendance and payroll change with it. */
+  decide: (id: number, payload: LeaveRequestDecision) =>
+    api.post<LeaveRequest>(`/api/leave-requests/${id}/decision`, payload, {
+      invalidates: ["/api/leave-periods", "/api/attendance", ...PAYROLL_RESOURCES],
+    }),
+  cancel: (id: number) => api.post<LeaveRequest>(`/api/leave-requests/${id}/cancel`, {}),
+};
@@ -0,0 +1,56 @@
+import { api } from "../api";
+import type {
+  AnalyticsDashboard,
+  Payroll2Response,
+  Payroll2Row,
+  PayrollReportResponse,
+  PayrollRun,
+  PayrollRunTransition,
+  PayrollSheetEntryBulkUpsert,
+  PayrollSheetEntryOut,
+} from "../types";
+
+export type PayrollRangeQuery = {
+  month: string;
+  from_date: string;
+  to_date: string;
+};
+
+/** Cache keys derived from attendance, advances and sheet entries; writes to those inputs invalidate them. */
+export const PAYROLL_RESOURCES = ["/api/payroll", "/api/payroll2"];
+
+export const payroll = {
+  rangeReport: (query: PayrollRangeQuery) =>
+    api.get<PayrollReportResponse>("/api/payroll/range-report", { query, staleTime: 30_000 }),
+  range2Report: (query: PayrollRangeQuery) => api.get<Payroll2Response>("/api/payroll2/range-report", { query }),
+  saveSheetEntries: (payload: PayrollSheetEntryBulkUpsert) =>
+    api.put<PayrollSheetEntryOut[]>("/api/payroll/sheet-entries", payload, { invalidates: PAYROLL_RESOURCES }),
+  exportPdf: (query: { month: string; from_date?: string; to_date?: string }) =>
+    api.download("/api/payroll/export/pdf", `payroll_${query.month}.pdf`, { query }),
+  export2Pdf: (query: PayrollRangeQuery, rows: Payroll2Row[]) =>
+    api.download("/api/payroll2/export-pdf", `payroll2_${query.month}.pdf`, { method: "POST", query, body: { rows } }),
+};
+
+export const payrollRuns = {
+  list: (query: { year?: number; status?: string } = {}) => api.get<PayrollRun[]>("/api/payroll/runs", { query }),
+  get: (runId: number) => api.get<PayrollRun>(`/api/payroll/runs/${runId}`),
+  /** The run covering a 26th-to-25th period; 404 when none has been started. */
+  forPeriod: (from_date: string, to_date: string) =>
+    api.get<PayrollRun>("/api/payroll/runs/by-period", { query: { from_date, to_date } }),
+  create: (payload: { month: string; from_date: string; to_date: string }) =>
+    api.post<PayrollRun>("/api/payroll/runs", payload),
+  transition: (runId: number, payload: PayrollRunTransition) =>
+    api.post<PayrollRun>(`/api/payroll/runs/${runId}/transition`, payload, { invalidates: PAYROLL_RESOURCES }),
+};
+
+export const reports = {
+  accountsMonthlyPdf: (month: string) =>
+    api.download("/api/exports/accounts/monthly/pdf", `accounts_export_${month}.pdf`, { query: { month } }),
+  employeeInventoryPdf: (filename: string) =>
+    api.download("/api/exports/inventory/employees/pdf", filename, { query: { include_zero: true } }),
+};
+
+export const analytics = {
+  dashboard: (query: { from_date: string; to_date: string }) =>
+    api.get<AnalyticsDashboard>("/api/analytics/dashboard", { query }),
+};
@@ -0,0 +1,20 @@
+import { api } from "../api";
+import type { RosterPeriod, RosterSave, RosterShift } from "../types";
+
+export type RosterShiftQuery = {
+  from_date: string;
+  to_date: string;
+  site_id?: number;
+  employee_db_id?: number;
+  published_only?: boolean;
+};
+
+export const roster = {
+  /** Shifts across all sites when `site_id` is omitted; used for cross-site double-booking checks. */
+  shifts: (query: RosterShiftQuery) => api.get<RosterShift[]>("/api/roster/shifts", { query }),
+  period: (siteId: number, from_date: string, to_date: string) =>
+    api.get<RosterPeriod>(`/api/roster/sites/${siteId}`, { query: { from_date, to_date } }),
+  save: (siteId: number, payload: RosterSave) => api.put<RosterPeriod>(`/api/roster/sites/${siteId}`, payload),
+  publish: (siteId: number, from_date: string, to_date: string) =>
+    api.post<RosterPeriod>(`/api/roster/sites/${siteId}/publish`, { from_date, to_date }),
+};
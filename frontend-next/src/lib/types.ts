@@ -187,6 +187,17 @@ export type Employee2 = {
   vol_no: string | null;
   payments: string | null;
   category: string | null;
+  designation?: string | null;
+  allocation_status?: string | null;
+  avatar_url?: string | null;
+  cnic_attachment?: string | null;
+  domicile_attachment?: string | null;
+  sho_verified_attachment?: string | null;
+  ssp_verified_attachment?: string | null;
+  khidmat_verified_attachment?: string | null;
+  police_trg_attachment?: string | null;
+  /** JSON-encoded list of bank accounts. */
+  bank_accounts?: string | null;
   created_at: string;
   updated_at: string | null;
 };
@@ -258,6 +269,27 @@ export type VehicleCreate = Omit<Vehicle, "id" | "created_at" | "updated_at">;
 
 export type VehicleUpdate = Partial<VehicleCreate>;
 
+export type VehicleDocument = {
+  id: number;
+  vehicle_id: string;
+  name: string;
+  filename: string;
+  url: string;
+  mime_type: string;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type VehicleImage = {
+  id: number;
+  vehicle_id: string;
+  filename: string;
+  url: string;
+  mime_type: string;
+  created_at: string;
+  updated_at?: string | null;
+};
+
 export type VehicleAssignment = {
   id: number;
   vehicle_id: string;
@@ -437,6 +469,8 @@ export type VehicleMaintenanceUpdate = Partial<VehicleMaintenanceCreate>;
    employee_id?: number | null;
  };
 
+ export type FinanceJournalStatus = "DRAFT" | "POSTED" | "VOID";
+
  export type FinanceJournalEntry = {
    id: number;
    entry_no: string;
@@ -447,6 +481,8 @@ export type VehicleMaintenanceUpdate = Partial<VehicleMaintenanceCreate>;
    status: string;
    created_at: string;
    posted_at?: string | null;
+   /** Entry this one reverses, for reversals posted when a source event is undone. */
+   reversal_of_id?: number | null;
    lines: FinanceJournalLine[];
  };
 
@@ -455,12 +491,40 @@ export type VehicleMaintenanceUpdate = Partial<VehicleMaintenanceCreate>;
    memo?: string | null;
    source_type?: string | null;
    source_id?: string | null;
+   /** Defaults to DRAFT; system postings are created POSTED. */
+   status?: FinanceJournalStatus;
+   reversal_of_id?: number | null;
    lines: FinanceJournalLineCreate[];
  };
 
+ /** Ledger roles that posting rules debit and credit, each mapped to an account. */
+ export type FinancePostingRole =
+   | "cash"
+   | "bank"
+   | "receivables"
+   | "employee_advances"
+   | "wht_receivable"
+   | "salaries_payable"
+   | "eobi_payable"
+   | "income_tax_payable"
+   | "sales_tax_payable"
+   | "service_revenue"
+   | "fines_income"
+   | "salaries_expense"
+   | "general_expense"
+   | "fuel_expense";
+
+ export type FinancePostingAccounts = {
+   accounts: Partial<Record<FinancePostingRole, number | null>>;
+   /** Expense category → account, overriding `general_expense`. */
+   expense_categories?: Record<string, number | null>;
+ };
+
  export type FinanceJournalEntryUpdate = {
    entry_date?: string | null;
    memo?: string | null;
+   /** Replaces the lines of a draft; posted entries are immutable. */
+   lines?: FinanceJournalLineCreate[];
  };
 
 export type FuelEntry = {
@@ -518,6 +582,11 @@ export type AttendanceRecordOut = {
   late_deduction?: number | null;
   leave_type?: string | null;
   fine_amount?: number | null;
+  /** Local date-times (YYYY-MM-DDTHH:mm:ss); check-out may fall on the next day for night shifts. */
+  check_in?: string | null;
+  check_out?: string | null;
+  /** Set when OT/late figures were typed over the ones derived from the clock times. */
+  override_reason?: string | null;
   created_at: string;
   updated_at?: string | null;
 };
@@ -527,6 +596,12 @@ export type AttendanceListResponse = {
   records: AttendanceRecordOut[];
 };
 
+export type AttendanceRangeResponse = {
+  from_date: string;
+  to_date: string;
+  records: AttendanceRecordOut[];
+};
+
 export type AttendanceUpsert = {
   employee_id: string;
   status: string;
@@ -537,6 +612,9 @@ export type AttendanceUpsert = {
   late_deduction?: number | null;
   leave_type?: string | null;
   fine_amount?: number | null;
+  check_in?: string | null;
+  check_out?: string | null;
+  override_reason?: string | null;
 };
 
 export type AttendanceBulkUpsert = {
@@ -561,6 +639,29 @@ export type AttendanceRow = {
   late_deduction?: number;
   fine_amount?: number;
   note?: string;
+  /** HH:mm as entered on the sheet. */
+  check_in?: string;
+  check_out?: string;
+  overridden?: boolean;
+  override_reason?: string;
+};
+
+/** Per-designation rates; the row without a designation is the default. */
+export type AttendanceRateRow = {
+  designation?: string | null;
+  overtime_rate: number;
+  late_deduction_per_hour: number;
+};
+
+export type AttendanceTimeRules = {
+  /** Lateness up to this many minutes is ignored; beyond it the full lateness counts. */
+  late_grace_minutes: number;
+  /** Overtime shorter than this is ignored. */
+  overtime_grace_minutes: number;
+  /** Used when the guard has no published roster shift that day (HH:mm). */
+  default_shift_start: string;
+  default_shift_end: string;
+  rates: AttendanceRateRow[];
 };
 
 export type LeaveType = "paid" | "unpaid";
@@ -595,6 +696,70 @@ export type LeavePeriodAlert = {
   message: string;
 };
 
+export type LeaveAccrual = "monthly" | "annual";
+
+/**
+ * Paid leave entitlement. The most specific policy matching an employee's
+ * category and designation (rank) applies; one with neither is the default.
+ */
+export type LeavePolicy = {
+  id: number;
+  name: string;
+  category?: string | null;
+  designation?: string | null;
+  annual_days: number;
+  accrual: LeaveAccrual;
+  /** Unused days that roll into the next year, at most. */
+  carry_forward_max: number;
+  /** Days that can be encashed through payroll per year, at most. */
+  encashment_max: number;
+  active: boolean;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type LeavePolicyCreate = Omit<LeavePolicy, "id" | "created_at" | "updated_at">;
+
+export type LeaveRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+/** Submitted by a supervisor; approving it creates the leave period and marks attendance as leave. */
+export type LeaveRequest = {
+  id: number;
+  employee_id: string;
+  employee_name?: string | null;
+  from_date: string;
+  to_date: string;
+  leave_type: LeaveType;
+  reason?: string | null;
+  status: LeaveRequestStatus;
+  requested_by: string;
+  requested_at: string;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  decision_comment?: string | null;
+  leave_period_id?: number | null;
+};
+
+export type LeaveRequestCreate = {
+  employee_id: string;
+  from_date: string;
+  to_date: string;
+  leave_type: LeaveType;
+  reason?: string | null;
+};
+
+export type LeaveRequestDecision = {
+  status: "approved" | "rejected";
+  comment?: string | null;
+};
+
+/** Leave encashment days saved on a payroll sheet, by payroll month. */
+export type LeaveEncashment = {
+  employee_id: string;
+  month: string;
+  days: number;
+};
+
 export type PayrollEmployeeRow = {
   employee_db_id: number;
   employee_id: string;
@@ -661,12 +826,29 @@ export type PayrollEmployeeRow = {
   paid_status: string;
 };
 
+export type AdvanceRecoveryMode = "fixed" | "percent" | "months";
+
+export type AdvanceRecoveryPlan = {
+  mode: AdvanceRecoveryMode;
+  /** Fixed installment per month (mode "fixed"). */
+  installment?: number | null;
+  /** Share of the month's net pay before advance recovery (mode "percent"). */
+  percent?: number | null;
+  /** Recover the advance in equal parts over this many months (mode "months"). */
+  months?: number | null;
+  /** First payroll month to recover in (YYYY-MM). */
+  start_month: string;
+  /** Net pay is never taken below this by advance recovery. */
+  net_floor?: number | null;
+};
+
 export type EmployeeAdvance = {
   id: number;
   employee_db_id: number;
   amount: number;
   note?: string | null;
   advance_date: string;
+  recovery_plan?: AdvanceRecoveryPlan | null;
   created_at: string;
 };
 
@@ -675,6 +857,7 @@ export type EmployeeAdvanceCreate = {
   amount: number;
   note?: string | null;
   advance_date: string;
+  recovery_plan?: AdvanceRecoveryPlan | null;
 };
 
 export type EmployeeAdvanceDeduction = {
@@ -701,6 +884,13 @@ export type EmployeeAdvanceSummary = {
   total_paid_so_far: number;
 };
 
+/** Advances and deductions of an employee with an outstanding balance, for proposing a month's recovery. */
+export type EmployeeAdvanceRecovery = {
+  employee_db_id: number;
+  advances: EmployeeAdvance[];
+  deductions: EmployeeAdvanceDeduction[];
+};
+
 export type EmployeeAdvancesMonthSummary = {
   month: string;
   total_advanced: number;
@@ -783,6 +973,7 @@ export type RestrictedItem = {
 
   quantity_on_hand: number;
   min_quantity?: number | null;
+  unit_cost?: number | null;
 
   serial_total?: number | null;
   serial_in_stock?: number | null;
@@ -811,6 +1002,7 @@ export type RestrictedItemCreate = {
 
   quantity_on_hand: number;
   min_quantity?: number | null;
+  unit_cost?: number | null;
 
   make_model?: string | null;
   caliber?: string | null;
@@ -854,3 +1046,764 @@ export type RestrictedTransaction = {
   notes?: string | null;
   created_at: string;
 };
+
+export type AttendanceSummary = {
+  from_date: string;
+  to_date: string;
+  total: number;
+  unmarked: number;
+  present: number;
+  late: number;
+  absent: number;
+  leave: number;
+  fine_total: number;
+};
+
+export type AttendanceDayRow = {
+  date: string;
+  status: string;
+  leave_type?: string | null;
+  overtime_minutes?: number | null;
+  overtime_rate?: number | null;
+  late_minutes?: number | null;
+  late_deduction?: number | null;
+  fine_amount?: number | null;
+  note?: string | null;
+};
+
+export type AttendanceEmployeeResponse = {
+  employee_id?: string;
+  rows: AttendanceDayRow[];
+};
+
+export type Payroll2Row = {
+  employee_db_id: number;
+  employee_id: string;
+  name: string;
+  serial_no?: string;
+  fss_no?: string;
+  eobi_no?: string;
+  base_salary: number;
+  working_days: number;
+  day_rate: number;
+  // Attendance counts
+  presents_total: number;
+  present_dates_prev: string[];
+  present_dates_cur: string[];
+  present_days: number;
+  late_days: number;
+  absent_days: number;
+  paid_leave_days: number;
+  unpaid_leave_days: number;
+  // Editable fields
+  pre_days: number;
+  cur_days: number;
+  leave_encashment_days: number;
+  // Calculated
+  total_days: number;
+  total_salary: number;
+  // OT
+  overtime_minutes: number;
+  overtime_rate: number;
+  overtime_pay: number;
+  // Late
+  late_minutes: number;
+  late_deduction: number;
+  // Other
+  allow_other: number;
+  gross_pay: number;
+  // Deductions
+  eobi: number;
+  tax: number;
+  fine_deduction: number;
+  fine_adv_extra: number;
+  fine_adv: number;
+  advance_deduction: number;
+  // Net
+  net_pay: number;
+  // Other
+  remarks?: string | null;
+  bank_cash?: string | null;
+};
+
+export type Payroll2Summary = {
+  month: string;
+  from_date: string;
+  to_date: string;
+  working_days: number;
+  employees: number;
+  total_gross: number;
+  total_net: number;
+  total_presents: number;
+};
+
+export type Payroll2Response = {
+  month: string;
+  summary: Payroll2Summary;
+  rows: Payroll2Row[];
+};
+
+export type PayrollRunStatus = "draft" | "reviewed" | "approved" | "locked" | "paid";
+
+export type PayrollRunDiff = {
+  employee_db_id: number;
+  employee_id: string;
+  name: string;
+  field: keyof Payroll2Row;
+  before: number | string | null;
+  after: number | string | null;
+};
+
+export type PayrollRunEvent = {
+  id: number;
+  run_id: number;
+  from_status: PayrollRunStatus | null;
+  to_status: PayrollRunStatus;
+  actor?: string | null;
+  reason?: string | null;
+  diff?: PayrollRunDiff[] | null;
+  created_at: string;
+};
+
+export type PayrollRun = {
+  id: number;
+  month: string;
+  from_date: string;
+  to_date: string;
+  status: PayrollRunStatus;
+  /** Frozen rows captured at approval; null while the run is still a draft. */
+  snapshot_rows?: Payroll2Row[] | null;
+  total_gross?: number | null;
+  total_net?: number | null;
+  employees?: number | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  paid_at?: string | null;
+  events?: PayrollRunEvent[];
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type PayrollRunTransition = {
+  to_status: PayrollRunStatus;
+  reason?: string | null;
+  snapshot_rows?: Payroll2Row[];
+  diff?: PayrollRunDiff[];
+};
+
+export type AnalyticsDashboard = {
+  period: { from_date: string; to_date: string; month: string };
+  employees: {
+    total: number;
+    active: number;
+    new_this_month: number;
+  };
+  payroll: {
+    total_gross: number;
+    total_net: number;
+    total_salary: number;
+    total_overtime: number;
+    total_deductions: number;
+    avg_salary: number;
+  };
+  attendance: {
+    total_records: number;
+    present: number;
+    late: number;
+    absent: number;
+    leave: number;
+    attendance_rate: number;
+    punctuality_rate: number;
+  };
+  top_earners: Array<{ name: string; net_pay: number }>;
+  top_overtime: Array<{ name: string; overtime_pay: number; overtime_hours: number }>;
+  department_breakdown: Array<{ department: string; count: number; total_salary: number }>;
+  monthly_trend: Array<{ month: string; gross: number; net: number; employees: number }>;
+};
+
+export type Client = {
+  id: number;
+  client_code: string;
+  client_name: string;
+  client_type: string;
+  industry_type?: string | null;
+  status: string;
+  location?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  registration_number?: string | null;
+  vat_gst_number?: string | null;
+  website?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type ClientCreate = Omit<Client, "id" | "created_at" | "updated_at">;
+
+export type ClientUpdate = Partial<ClientCreate>;
+
+export type ClientContact = {
+  id: number;
+  client_id: number;
+  name: string;
+  designation?: string | null;
+  phone_number?: string | null;
+  email?: string | null;
+  is_primary: boolean;
+  reports_to_id?: number | null;
+  created_at?: string;
+  updated_at?: string | null;
+};
+
+export type ClientContactCreate = {
+  name: string;
+  designation?: string | null;
+  phone_number?: string | null;
+  email?: string | null;
+  is_primary?: boolean;
+  reports_to_id?: number | null;
+};
+
+export type ClientSite = {
+  id: number;
+  client_id: number;
+  site_name: string;
+  site_type?: string | null;
+  site_address?: string | null;
+  city?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  risk_level?: string | null;
+  status: string;
+  site_instructions?: string | null;
+  /** Contract the site is billed under; renewals of it carry on billing the site. */
+  contract_id?: number | null;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type ClientSiteCreate = {
+  site_name: string;
+  site_type?: string | null;
+  site_address?: string | null;
+  city?: string | null;
+  risk_level?: string | null;
+  status?: string;
+  site_instructions?: string | null;
+  contract_id?: number | null;
+};
+
+export type ClientInvoice = {
+  id: number;
+  client_id: number;
+  contract_id?: number | null;
+  site_id?: number | null;
+  invoice_number: string;
+  invoice_date: string;
+  billing_period: string;
+  net_payable: number;
+  payment_status: string;
+  payment_date?: string | null;
+  /** Present on invoices computed from delivered guard-days. */
+  lines?: ClientInvoiceLine[] | null;
+  subtotal?: number | null;
+  tax_amount?: number | null;
+  receipts?: ClientPaymentReceipt[] | null;
+  /** Filled on cross-client listings (receivables). */
+  client_name?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type ClientInvoiceLineKind = "service" | "additional" | "absence_credit" | "overtime" | "tax";
+
+export type ClientInvoiceLine = {
+  site_id?: number | null;
+  requirement_id?: number | null;
+  kind: ClientInvoiceLineKind;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+};
+
+export type ClientInvoiceCreate = {
+  invoice_date: string;
+  billing_period: string;
+  period_from: string;
+  period_to: string;
+  lines: ClientInvoiceLine[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  net_payable: number;
+};
+
+export type ClientPaymentMethod = "cheque" | "bank" | "cash";
+
+/**
+ * One payment against an invoice. `amount` is what was received; tax the
+ * client withheld at source also settles the invoice.
+ */
+export type ClientPaymentReceipt = {
+  id: number;
+  invoice_id: number;
+  client_id: number;
+  receipt_date: string;
+  method: ClientPaymentMethod;
+  amount: number;
+  withholding_tax: number;
+  /** Cheque number or bank transaction reference. */
+  reference?: string | null;
+  bank_name?: string | null;
+  notes?: string | null;
+  created_at: string;
+};
+
+export type ClientPaymentReceiptCreate = Omit<ClientPaymentReceipt, "id" | "invoice_id" | "client_id" | "created_at">;
+
+export type ClientInvoiceUpdate = {
+  payment_status?: string;
+  payment_date?: string | null;
+};
+
+export type ClientDocument = {
+  id: number;
+  client_id: number;
+  document_type: string;
+  file_url: string;
+  expiry_date?: string | null;
+  remarks?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type Contract = {
+  id: number;
+  client_id: number;
+  contract_number: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  contract_type?: string | null;
+  monthly_cost: number;
+  status: string;
+  notes?: string | null;
+  created_at: string;
+  /** Current rate schedule version, 1 for contracts never revised. */
+  version?: number | null;
+  /** Contract this one was renewed from. */
+  renewed_from_id?: number | null;
+  rates?: ContractRate[] | null;
+};
+
+/** Monthly rate for one guard of a type under a contract. */
+export type ContractRate = {
+  guard_type: string;
+  monthly_rate: number;
+};
+
+export type ContractVersion = {
+  id: number;
+  contract_id: number;
+  version: number;
+  effective_from: string;
+  effective_to?: string | null;
+  monthly_cost: number;
+  rates: ContractRate[];
+  escalation_percent?: number | null;
+  notes?: string | null;
+  created_at: string;
+};
+
+export type ContractVersionCreate = {
+  effective_from: string;
+  monthly_cost: number;
+  rates: ContractRate[];
+  escalation_percent?: number | null;
+  notes?: string | null;
+};
+
+export type ContractRenewal = {
+  contract_number: string;
+  start_date: string;
+  end_date: string;
+  escalation_percent: number;
+  monthly_cost: number;
+  rates: ContractRate[];
+  notes?: string | null;
+};
+
+export type ExpiringContract = Contract & { client_name: string };
+
+export type ExpiringDocument = ClientDocument & { client_name: string };
+
+export type ClientExpiries = {
+  contracts: ExpiringContract[];
+  documents: ExpiringDocument[];
+};
+
+export type ContractCreate = {
+  contract_number?: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  contract_type?: string | null;
+  monthly_cost?: number;
+  rates?: ContractRate[];
+  status?: string;
+  notes?: string | null;
+};
+
+export type ContractGuardAllocation = {
+  id: number;
+  contract_id: number;
+  employee_db_id: number;
+  employee_name?: string;
+  employee_id?: string;
+  start_date?: string | null;
+  end_date?: string | null;
+  status: string;
+};
+
+export type ContractGuardAllocationCreate = {
+  employee_db_id: number;
+  start_date?: string | null;
+  end_date?: string | null;
+  status?: string;
+};
+
+export type ClientDetail = Client & {
+  contacts: ClientContact[];
+  addresses?: unknown[];
+  sites?: ClientSite[];
+  invoices?: ClientInvoice[];
+  documents?: ClientDocument[];
+  contracts?: Contract[];
+};
+
+export type ClientGuardRequirement = {
+  id: number;
+  site_id: number;
+  site_name?: string;
+  site_status?: string | null;
+  guard_type: string;
+  number_of_guards: number;
+  shift_type?: string | null;
+  shift_start?: string | null;
+  shift_end?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  preferred_language?: string | null;
+  monthly_amount?: number | null;
+  weekly_off_rules?: string | null;
+  special_instructions?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type ClientGuardRequirementCreate = {
+  guard_type: string;
+  number_of_guards: number;
+  shift_type?: string | null;
+  shift_start?: string | null;
+  shift_end?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  preferred_language?: string | null;
+  monthly_amount?: number | null;
+  weekly_off_rules?: string | null;
+  special_instructions?: string | null;
+};
+
+export type ClientRequirementCompleteResponse = {
+  message: string;
+  invoice_number: string;
+  released: number;
+};
+
+export type ClientSiteGuardAllocation = {
+  id: number;
+  site_id: number;
+  requirement_id?: number | null;
+  employee_db_id: number;
+  start_date?: string | null;
+  end_date?: string | null;
+  status: string;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type ClientSiteGuardAllocationCreate = {
+  employee_db_id: number;
+  requirement_id?: number | null;
+  start_date?: string | null;
+  end_date?: string | null;
+};
+
+export type RosterStatus = "draft" | "published";
+
+export type RosterShift = {
+  id?: number | null;
+  site_id: number;
+  requirement_id: number;
+  date: string;
+  slot: number;
+  shift_type?: string | null;
+  shift_start?: string | null;
+  shift_end?: string | null;
+  employee_db_id: number | null;
+  status?: RosterStatus;
+  updated_at?: string | null;
+};
+
+export type RosterSave = {
+  from_date: string;
+  to_date: string;
+  shifts: RosterShift[];
+};
+
+export type RosterPeriod = {
+  site_id: number;
+  from_date: string;
+  to_date: string;
+  status: RosterStatus;
+  published_at?: string | null;
+  shifts: RosterShift[];
+};
+
+export type SuggestedEmployee = {
+  id: number;
+  employee_id: string;
+  first_name: string;
+  last_name: string;
+  languages: string[];
+};
+
+export type ClientPaymentsSummary = {
+  month: string;
+  total_cleared?: number;
+  total_pending?: number;
+  trend?: Array<{ month: string; value: number }>;
+};
+
+export type ExpenseStatus = "PENDING" | "APPROVED" | "REJECTED" | "PAID";
+
+export type Expense = {
+  id: number;
+  expense_date: string;
+  category: string;
+  description: string;
+  amount: number;
+  vendor_name?: string;
+  receipt_number?: string;
+  notes?: string;
+  attachment_url?: string;
+  employee_id?: number;
+  status: ExpenseStatus;
+  journal_entry_id?: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string;
+  approved_at?: string;
+  paid_at?: string;
+  /** Username of whoever entered the expense; they cannot approve it. */
+  submitted_by?: string | null;
+  /** Approvals the matching policy asked for when the expense was submitted. */
+  approvals_required?: number | null;
+  policy_id?: number | null;
+  rejected_at?: string | null;
+  rejection_reason?: string | null;
+  /** Every approval and rejection, oldest first. */
+  approvals?: ExpenseApproval[] | null;
+};
+
+export type ExpenseApprovalAction = "approved" | "rejected";
+
+export type ExpenseApproval = {
+  id: number;
+  expense_id: number;
+  action: ExpenseApprovalAction;
+  /** Username of the person who acted. */
+  approver: string;
+  /** Set when acting as a delegate for an absent approver. */
+  on_behalf_of?: string | null;
+  comment?: string | null;
+  created_at: string;
+};
+
+export type ExpenseApprovalDecision = {
+  comment?: string | null;
+  on_behalf_of?: string | null;
+};
+
+export type ExpenseRejection = {
+  reason: string;
+  on_behalf_of?: string | null;
+};
+
+/** Approvals needed for expenses in a category (or any) and amount band. */
+export type ExpenseApprovalPolicy = {
+  id: number;
+  name: string;
+  /** Null applies to every category. */
+  category?: string | null;
+  min_amount: number;
+  /** Null for no upper limit. */
+  max_amount?: number | null;
+  approvals_required: number;
+  /** Usernames who may approve; empty lets anyone with access to expenses approve. */
+  approvers: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type ExpenseApprovalPolicyCreate = Omit<ExpenseApprovalPolicy, "id" | "created_at" | "updated_at">;
+
+/** Lets `delegate` approve in place of `delegator` between the dates. */
+export type ExpenseApprovalDelegation = {
+  id: number;
+  delegator: string;
+  delegate: string;
+  from_date: string;
+  to_date: string;
+  note?: string | null;
+  created_at: string;
+};
+
+export type ExpenseApprovalDelegationCreate = Omit<ExpenseApprovalDelegation, "id" | "created_at">;
+
+export type ExpenseCreate = {
+  expense_date: string;
+  category: string;
+  description: string;
+  amount: number;
+  vendor_name?: string | null;
+  receipt_number?: string | null;
+  notes?: string | null;
+  attachment_url?: string | null;
+  employee_id?: number | null;
+};
+
+export type ExpenseUpdate = Partial<ExpenseCreate> & {
+  /** Ledger entry the payment posted as; written back after posting. */
+  journal_entry_id?: number | null;
+};
+
+export type ExpenseSummary = {
+  total_expenses: number;
+  pending_expenses: number;
+  approved_expenses: number;
+  paid_expenses: number;
+  expense_count: number;
+  categories: Record<string, number>;
+};
+
+export type GeneralItem = {
+  id: number;
+  item_code: string;
+  category: string;
+  name: string;
+  description?: string | null;
+  image_url?: string | null;
+  unit_name: string;
+  quantity_on_hand: number;
+  min_quantity?: number | null;
+  unit_cost?: number | null;
+  storage_location?: string | null;
+  status: string;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type GeneralItemCreate = {
+  item_code: string;
+  category: string;
+  name: string;
+  description?: string | null;
+  quantity_on_hand: number;
+  min_quantity?: number | null;
+  unit_cost?: number | null;
+  storage_location?: string | null;
+  status: string;
+};
+
+export type GeneralTransaction = {
+  id: number;
+  item_code: string;
+  employee_id?: string | null;
+  action: string;
+  quantity?: number | null;
+  notes?: string | null;
+  created_at: string;
+};
+
+export type RestrictedIssuedSerialRow = {
+  serial_unit_id: number;
+  item_code: string;
+  item_name: string;
+  category: string;
+  serial_number: string;
+  status: string;
+  created_at: string;
+};
+
+export type RestrictedIssuedQtyRow = {
+  item_code: string;
+  item_name: string;
+  category: string;
+  unit_name: string;
+  quantity_issued: number;
+};
+
+export type RestrictedIssuedInventory = {
+  employee_id: string;
+  serial_items: RestrictedIssuedSerialRow[];
+  quantity_items: RestrictedIssuedQtyRow[];
+};
+
+export type AdminPermission = {
+  id: number;
+  key: string;
+  description?: string | null;
+};
+
+export type AdminPermissionCreate = {
+  key: string;
+  description?: string | null;
+};
+
+export type AdminRole = {
+  id: number;
+  name: string;
+  description?: string | null;
+  is_system: boolean;
+  permissions: AdminPermission[];
+};
+
+export type AdminRoleUpsert = {
+  name: string;
+  description?: string | null;
+  permission_keys?: string[];
+};
+
+export type AdminUser = {
+  id: number;
+  email: string;
+  username: string;
+  full_name?: string | null;
+  is_active: boolean;
+  is_superuser: boolean;
+  roles: AdminRole[];
+};
+
+export type AdminUserUpsert = {
+  email?: string;
+  username?: string;
+  full_name?: string | null;
+  password?: string;
+  is_active?: boolean;
+  is_superuser?: boolean;
+  role_ids?: number[];
+};
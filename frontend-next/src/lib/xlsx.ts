@@ -0,0 +1,140 @@
+import { createZip } from "./zip";
+
+/**
+ * Minimal XLSX writer on top of the ZIP writer: inline strings and numbers,
+ * bold rows, column widths and frozen panes. Enough for registers and
+ * reports that must open in Excel as real workbooks rather than CSV.
+ */
+
+export type XlsxCell = string | number | null | undefined;
+
+export type XlsxSheet = {
+  name: string;
+  rows: XlsxCell[][];
+  /** Zero-based indexes of rows drawn in bold (titles, headers, totals). */
+  boldRows?: number[];
+  /** Column widths in characters. */
+  widths?: number[];
+  /** Rows and columns kept in view while scrolling. */
+  freeze?: { rows: number; cols: number };
+};
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_PKG_REL = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+function esc(v: string): string {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+export function columnName(index: number): string {
+  let n = index + 1;
+  let out = "";
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    out = String.fromCharCode(65 + r) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet";
+  let out = base;
+  for (let i = 2; used.has(out.toLowerCase()); i += 1) out = `${base.slice(0, 28)} ${i}`;
+  used.add(out.toLowerCase());
+  return out;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const bold = new Set(sheet.boldRows ?? []);
+  const parts: string[] = [`${XML_HEAD}<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">`];
+
+  if (sheet.freeze && (sheet.freeze.rows || sheet.freeze.cols)) {
+    const { rows, cols } = sheet.freeze;
+    const split = `${cols ? ` xSplit="${cols}"` : ""}${rows ? ` ySplit="${rows}"` : ""}`;
+    parts.push(
+      `<sheetViews><sheetView workbookViewId="0"><pane${split} topLeftCell="${columnName(cols)}${rows + 1}" state="frozen"/></sheetView></sheetViews>`
+    );
+  }
+  if (sheet.widths?.length) {
+    parts.push(
+      `<cols>${sheet.widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join("")}</cols>`
+    );
+  }
+
+  parts.push("<sheetData>");
+  sheet.rows.forEach((row, r) => {
+    const style = bold.has(r) ? ' s="1"' : "";
+    const cells = row
+      .map((v, c) => {
+        if (v === null || v === undefined || v === "") return "";
+        const ref = `${columnName(c)}${r + 1}`;
+        if (typeof v === "number" && Number.isFinite(v)) return `<c r="${ref}"${style}><v>${v}</v></c>`;
+        return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${esc(String(v))}</t></is></c>`;
+      })
+      .join("");
+    parts.push(`<row r="${r + 1}">${cells}</row>`);
+  });
+  parts.push("</sheetData></worksheet>");
+  return parts.join("");
+}
+
+const STYLES = `${XML_HEAD}<styleSheet xmlns="${NS_MAIN}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+export function createXlsx(sheets: XlsxSheet[]): Blob {
+  const encoder = new TextEncoder();
+  const used = new Set<string>();
+  const names = sheets.map((s) => sheetName(s.name, used));
+
+  const contentTypes =
+    `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    "</Types>";
+
+  const rootRels =
+    `${XML_HEAD}<Relationships xmlns="${NS_PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+    "</Relationships>";
+
+  const workbook =
+    `${XML_HEAD}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>` +
+    names.map((n, i) => `<sheet name="${esc(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+    "</sheets></workbook>";
+
+  const workbookRels =
+    `${XML_HEAD}<Relationships xmlns="${NS_PKG_REL}">` +
+    sheets
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+      .join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/>` +
+    "</Relationships>";
+
+  const zip = createZip([
+    { name: "[Content_Types].xml", data: encoder.encode(contentTypes) },
+    { name: "_rels/.rels", data: encoder.encode(rootRels) },
+    { name: "xl/workbook.xml", data: encoder.encode(workbook) },
+    { name: "xl/_rels/workbook.xml.rels", data: encoder.encode(workbookRels) },
+    { name: "xl/styles.xml", data: encoder.encode(STYLES) },
+    ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(sheetXml(s)) })),
+  ]);
+  return new Blob([zip], { type: XLSX_MIME });
+}